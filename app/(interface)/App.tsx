@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { flushSync } from "react-dom";
 import { Sidebar } from "./components/Sidebar";
 import { RightSidebar } from "./components/RightSidebar";
 import { TopNavigation } from "./components/TopNavigation";
@@ -8,45 +9,84 @@ import { TextBox } from "./components/TextBox";
 import { TextToolbar } from "./components/TextToolbar";
 import { TextFormat } from "./components/TextFormatDialog";
 import { CommentBox, Comment } from "./components/CommentBox";
-import { BubbleSizeMap, OrbitalMap } from "./components/maps-layout";
+import {
+  ActivityFoldersMap,
+  BubbleSizeMap,
+  OrbitalMap,
+  StorageTreemap,
+  SunburstMap,
+  TreeMap,
+} from "./components/maps-layout";
 import { GridOverlay } from "./components/GridOverlay";
 import { ResultsPanel } from "./components/results/ResultsPanel";
 import { BoxType } from "@/lib/mapTypes";
 import { FolderItem } from "./components/right-sidebar/data";
-
-interface TextElement {
-  id: string;
-  x: number;
-  y: number;
-  text: string;
-  format: TextFormat;
-  type: 'text';
-}
-
-interface CommentElement {
-  id: string;
-  x: number;
-  y: number;
-  comments: Comment[];
-  isExpanded: boolean;
-}
+import type { SnapshotDiff } from "./components/right-sidebar/data-sources/snapshotDiff";
+import { useMapDocuments } from "./lib/hooks/useMapDocuments";
+import { useCommandHistory } from "./lib/hooks/useCommandHistory";
+import { useElementHistory } from "./lib/hooks/useElementHistory";
+import { useViewport, ViewportContext, type ViewportRect } from "./lib/hooks/useViewport";
+import { VersionHistoryPanel } from "./components/VersionHistoryPanel";
+import { DuplicatesPanel } from "./components/DuplicatesPanel";
+import { SharingPanel } from "./components/SharingPanel";
+import { ImportMapDialog } from "./components/ImportMapDialog";
+import { ExportImageDialog, type ExportImageSettings } from "./components/ExportImageDialog";
+import { Toaster } from "./components/ui/sonner";
+import { toast } from "sonner";
+import {
+  loadMapSnapshots,
+  replaceMapSnapshots,
+  type MapSnapshots,
+} from "./components/right-sidebar/data-sources/snapshotStore";
+import { downloadBlob } from "./lib/utils/download";
+import { exportMapImage, getMapImageFileName } from "./lib/mapExport/exportMapImage";
+import {
+  addMapVersion,
+  checkpointMapDocument,
+  createFoxmapFile,
+  getAvailableMapName,
+  getFoxmapFileName,
+  getVersionStorageSize,
+  parseFoxmap,
+  readMapVersion,
+  readMapVersionSnapshots,
+  removeMapVersion,
+  serializeFoxmap,
+  type CommentElement,
+  type FoxmapFile,
+  type MapFolderState,
+  type TextElement,
+} from "@/lib/mapDocuments";
+import { buildSharingReport, findDuplicates, getFolderAncestry } from "@/lib/mapData";
+import { buildDuplicateHighlight } from "./lib/mapUtils/duplicateOverlay";
 
 const SIDEBAR_OFFSET = 64;
-const ZOOM_MIN = 25;
-const ZOOM_MAX = 300;
-const ZOOM_BUTTON_STEP = 25;
-const ZOOM_WHEEL_STEP = 10;
+const HISTORY_DEPTH = 100;
+const GRID_SIZE = 50;
+const GRID_OPACITY = 0.3;
+const FOCUS_HIGHLIGHT_MS = 2000;
+const FOCUS_HIGHLIGHT_PADDING = 8;
+const CURRENT_USER = { name: 'Carlos Saunders', initials: 'CS' };
+
+
+const MAX_TOASTED_ERRORS = 3;
+
+// A map still opens without its snapshots; it falls back to the connected sources.
+const storeMapSnapshots = (mapId: string, snapshots: MapSnapshots, failureMessage: string) => {
+  try {
+    replaceMapSnapshots(mapId, snapshots);
+  } catch (error) {
+    toast.warning(failureMessage, {
+      description: error instanceof Error ? error.message : undefined,
+    });
+  }
+};
 
-const clamp = (value: number, min: number, max: number) =>
-  Math.min(Math.max(value, min), max);
+const saveImportedSnapshots = (mapId: string, file: FoxmapFile) =>
+  storeMapSnapshots(mapId, file.snapshots, 'The map was imported without its folder snapshots');
 
 export default function App() {
   const [isDark, setIsDark] = useState(false);
-  const [zoom, setZoom] = useState(100);
-  const [mapPosition, setMapPosition] = useState({
-    x: 0,
-    y: 0,
-  });
   const [showGrid, setShowGrid] = useState(true);
   const [gridThickness, setGridThickness] = useState(1);
   const [isDragging, setIsDragging] = useState(false);
@@ -56,6 +96,8 @@ export default function App() {
     y: 0,
   });
   const [folderData, setFolderData] = useState<FolderItem[]>([]);
+  const [snapshotDiff, setSnapshotDiff] = useState<SnapshotDiff | null>(null);
+  const [showDiffOverlay, setShowDiffOverlay] = useState(false);
   const [isTextMode, setIsTextMode] = useState(false);
   const [isBoxMode, setIsBoxMode] = useState(false);
   const [isCommentMode, setIsCommentMode] = useState(false);
@@ -66,12 +108,70 @@ export default function App() {
   const [selectedCommentId, setSelectedCommentId] = useState<string | null>(null);
   const [isTextDragging, setIsTextDragging] = useState(false);
   const [isCommentDragging, setIsCommentDragging] = useState(false);
-  const [currentMap, setCurrentMap] = useState('My Project Map');
-  const [existingMaps, setExistingMaps] = useState(['My Project Map', 'Team Workspace', 'Design System', 'Marketing Campaign']);
   const [selectedLayout, setSelectedLayout] = useState<string | null>('orbital');
   const [selectedPaletteId, setSelectedPaletteId] = useState<string>("blue");
   const [showResultsPanel, setShowResultsPanel] = useState(true);
+  const {
+    documents,
+    currentDocument,
+    currentMapId,
+    createDocument,
+    selectDocument,
+    renameDocument,
+    updateDocument
+  } = useMapDocuments();
+  const hydratedIdRef = useRef<string | null>(null);
+  const currentMap = currentDocument?.name ?? '';
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [highlightedDuplicateGroupIds, setHighlightedDuplicateGroupIds] = useState<Set<string>>(new Set());
+  const [showSharingReview, setShowSharingReview] = useState(false);
+  const [showSharingOverlay, setShowSharingOverlay] = useState(false);
+  const [sharingAccountOwner, setSharingAccountOwner] = useState<string | null>(null);
+  const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
+  const [mapRevision, setMapRevision] = useState(0);
+  const [pendingImport, setPendingImport] = useState<FoxmapFile | null>(null);
+  const [showImageExport, setShowImageExport] = useState(false);
+  const [isExportingImage, setIsExportingImage] = useState(false);
+  const preview = useMemo(
+    () => (currentDocument && previewVersionId ? readMapVersion(currentDocument, previewVersionId) : null),
+    [currentDocument, previewVersionId]
+  );
+  const isPreviewing = preview !== null;
+  // A previewed version is drawn in place of the live map but never edited.
+  const displayedTextElements = preview?.textElements ?? textElements;
+  const displayedCommentElements = preview?.commentElements ?? commentElements;
+  const displayedLayout = preview ? preview.selectedLayout : selectedLayout;
+  const displayedPaletteId = preview?.selectedPaletteId ?? selectedPaletteId;
+  const history = useCommandHistory(HISTORY_DEPTH);
+  const { push: pushHistory, clear: clearHistory, undo: handleUndo, redo: handleRedo } = history;
+  // Set while a text box or comment is dragged or resized, so that every
+  // frame of the gesture lands in one history entry.
+  const activeDragRef = useRef<string | null>(null);
+  const dragCountRef = useRef(0);
+  const getDragKey = useCallback(() => activeDragRef.current ?? undefined, []);
+  const changeTextElement = useElementHistory(textElements, setTextElements, pushHistory, getDragKey);
+  const changeCommentElement = useElementHistory(commentElements, setCommentElements, pushHistory, getDragKey);
+
+  const beginDrag = useCallback(() => {
+    dragCountRef.current += 1;
+    activeDragRef.current = `drag-${dragCountRef.current}`;
+  }, []);
+
+  const endDrag = useCallback(() => {
+    activeDragRef.current = null;
+  }, []);
   const mapRef = useRef<HTMLDivElement>(null);
+  const mapContentRef = useRef<HTMLDivElement>(null);
+  const camera = useViewport(mapRef, mapContentRef, { insetLeft: SIDEBAR_OFFSET, insetRight: SIDEBAR_OFFSET });
+  const { viewport, setViewport } = camera;
+  const zoom = viewport.zoom;
+  const [focusHighlight, setFocusHighlight] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
+  const focusHighlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (focusHighlightTimeoutRef.current) clearTimeout(focusHighlightTimeoutRef.current);
+  }, []);
 
   // Check for saved theme preference or default to light mode
   useEffect(() => {
@@ -102,18 +202,38 @@ export default function App() {
     });
   }, []);
 
-  const handleZoomIn = useCallback(() => {
-    setZoom(prev => clamp(prev + ZOOM_BUTTON_STEP, ZOOM_MIN, ZOOM_MAX));
-  }, []);
+  const handleCenterMap = camera.zoomToFit;
 
-  const handleZoomOut = useCallback(() => {
-    setZoom(prev => clamp(prev - ZOOM_BUTTON_STEP, ZOOM_MIN, ZOOM_MAX));
-  }, []);
+  // Brings the node to the middle of the viewport through the camera and
+  // rings it briefly. Nodes the layout doesn't draw fall back to the nearest
+  // drawn folder above them, starting from `folderId`.
+  const handleFocusNode = useCallback((nodeId: string, folderId: string = nodeId) => {
+    if (!displayedLayout) {
+      toast.info('Choose a map layout to find folders on the map');
+      return;
+    }
 
-  const handleCenterMap = useCallback(() => {
-    setMapPosition({ x: 0, y: 0 });
-    setZoom(100);
-  }, []);
+    const candidates = [nodeId, ...(getFolderAncestry(folderData, folderId) ?? [folderId]).reverse()];
+    let bounds: ViewportRect | null = null;
+    for (const id of candidates) {
+      bounds = camera.focus(id);
+      if (bounds) break;
+    }
+    if (!bounds) {
+      toast.info('That folder isn\'t shown in the current layout');
+      return;
+    }
+
+    setFocusHighlight({
+      left: bounds.x - FOCUS_HIGHLIGHT_PADDING,
+      top: bounds.y - FOCUS_HIGHLIGHT_PADDING,
+      width: bounds.width + FOCUS_HIGHLIGHT_PADDING * 2,
+      height: bounds.height + FOCUS_HIGHLIGHT_PADDING * 2,
+    });
+
+    if (focusHighlightTimeoutRef.current) clearTimeout(focusHighlightTimeoutRef.current);
+    focusHighlightTimeoutRef.current = setTimeout(() => setFocusHighlight(null), FOCUS_HIGHLIGHT_MS);
+  }, [camera, displayedLayout, folderData]);
 
   const toggleGrid = useCallback(() => {
     setShowGrid(previous => !previous);
@@ -127,6 +247,19 @@ export default function App() {
     setFolderData(folders);
   }, []);
 
+  const handleSnapshotDiffChange = useCallback((diff: SnapshotDiff | null) => {
+    setSnapshotDiff(diff);
+    if (!diff) {
+      setShowDiffOverlay(false);
+    }
+  }, []);
+
+  const toggleDiffOverlay = useCallback(() => {
+    setShowDiffOverlay(prev => !prev);
+  }, []);
+
+  const mapDiff = showDiffOverlay ? snapshotDiff : null;
+
   const clearSelections = useCallback(() => {
     setSelectedTextId(null);
     setSelectedCommentId(null);
@@ -140,9 +273,80 @@ export default function App() {
   }, [clearSelections]);
 
   const handleLayoutSelect = useCallback((layoutId: string) => {
-    setSelectedLayout(previous => (previous === layoutId ? null : layoutId));
+    setPreviewVersionId(null);
+    const before = selectedLayout;
+    const after = before === layoutId ? null : layoutId;
+
+    setSelectedLayout(after);
+    pushHistory({
+      label: 'Change layout',
+      undo: () => setSelectedLayout(before),
+      redo: () => setSelectedLayout(after),
+    });
     resetModes();
-  }, [resetModes]);
+  }, [pushHistory, resetModes, selectedLayout]);
+
+  // Only worked out while the panel is open; the scan covers every folder, selected or not.
+  const duplicateReport = useMemo(
+    () => (showDuplicates ? findDuplicates(folderData) : null),
+    [folderData, showDuplicates]
+  );
+
+  const duplicateHighlight = useMemo(
+    () => (duplicateReport && highlightedDuplicateGroupIds.size > 0
+      ? buildDuplicateHighlight(duplicateReport, highlightedDuplicateGroupIds)
+      : null),
+    [duplicateReport, highlightedDuplicateGroupIds]
+  );
+
+  const handleHighlightDuplicates = useCallback((groupIds: string[], highlighted: boolean) => {
+    setHighlightedDuplicateGroupIds(previous => {
+      const next = new Set(previous);
+      groupIds.forEach(id => (highlighted ? next.add(id) : next.delete(id)));
+      return next;
+    });
+    // Duplicates are only drawn on the bubble map, so switch to it.
+    if (highlighted && selectedLayout !== 'bubble-size') {
+      handleLayoutSelect('bubble-size');
+    }
+  }, [handleLayoutSelect, selectedLayout]);
+
+  const handleCloseDuplicates = useCallback(() => {
+    setShowDuplicates(false);
+    setHighlightedDuplicateGroupIds(new Set());
+  }, []);
+
+  const sharingReport = useMemo(
+    () => (showSharingReview ? buildSharingReport(folderData, { accountOwner: sharingAccountOwner }) : null),
+    [folderData, sharingAccountOwner, showSharingReview]
+  );
+  const sharingOverlay = showSharingOverlay ? sharingReport : null;
+
+  const handleToggleSharingOverlay = useCallback(() => {
+    setShowSharingOverlay(previous => !previous);
+    // Exposure is drawn on the bubble and orbital maps only.
+    if (!showSharingOverlay && selectedLayout !== 'bubble-size' && selectedLayout !== 'orbital') {
+      handleLayoutSelect('bubble-size');
+    }
+  }, [handleLayoutSelect, selectedLayout, showSharingOverlay]);
+
+  const handleCloseSharingReview = useCallback(() => {
+    setShowSharingReview(false);
+    setShowSharingOverlay(false);
+  }, []);
+
+  const handlePaletteSelect = useCallback((paletteId: string) => {
+    setPreviewVersionId(null);
+    const before = selectedPaletteId;
+    if (before === paletteId) return;
+
+    setSelectedPaletteId(paletteId);
+    pushHistory({
+      label: 'Change palette',
+      undo: () => setSelectedPaletteId(before),
+      redo: () => setSelectedPaletteId(paletteId),
+    });
+  }, [pushHistory, selectedPaletteId]);
 
   // Default text format
   const defaultTextFormat: TextFormat = useMemo(() => ({
@@ -185,15 +389,7 @@ export default function App() {
     clearSelections();
   }, [clearSelections]);
 
-  const toMapCoordinates = useCallback((clientX: number, clientY: number) => {
-    if (!mapRef.current) return null;
-
-    const rect = mapRef.current.getBoundingClientRect();
-    const x = (clientX - rect.left - SIDEBAR_OFFSET - mapPosition.x) / (zoom / 100);
-    const y = (clientY - rect.top - mapPosition.y) / (zoom / 100);
-
-    return { x, y };
-  }, [mapPosition, zoom]);
+  const toMapCoordinates = camera.toMapPoint;
 
   const createTextElement = useCallback((clientX: number, clientY: number) => {
     const coordinates = toMapCoordinates(clientX, clientY);
@@ -208,10 +404,10 @@ export default function App() {
       type: 'text',
     };
 
-    setTextElements(prev => [...prev, newText]);
+    changeTextElement(newText.id, () => newText, 'Add text');
     setSelectedTextId(newText.id);
     setIsTextMode(false);
-  }, [currentMap, defaultTextFormat, toMapCoordinates]);
+  }, [changeTextElement, currentMap, defaultTextFormat, toMapCoordinates]);
 
   const createCommentElement = useCallback((clientX: number, clientY: number) => {
     const coordinates = toMapCoordinates(clientX, clientY);
@@ -225,10 +421,10 @@ export default function App() {
       isExpanded: true, // Start expanded so user can add first comment
     };
 
-    setCommentElements(prev => [...prev, newComment]);
+    changeCommentElement(newComment.id, () => newComment, 'Add comment');
     setSelectedCommentId(newComment.id);
     setIsCommentMode(false);
-  }, [toMapCoordinates]);
+  }, [changeCommentElement, toMapCoordinates]);
 
   const createBoxElement = useCallback((clientX: number, clientY: number) => {
     const coordinates = toMapCoordinates(clientX, clientY);
@@ -266,28 +462,22 @@ export default function App() {
       type: 'text',
     };
 
-    setTextElements(prev => [...prev, newBox]);
+    changeTextElement(newBox.id, () => newBox, 'Add box');
     setSelectedTextId(newBox.id);
     setIsBoxMode(false);
-  }, [currentMap, defaultTextFormat, selectedBoxType, toMapCoordinates]);
+  }, [changeTextElement, currentMap, defaultTextFormat, selectedBoxType, toMapCoordinates]);
 
   const handleTextChange = useCallback((id: string, text: string) => {
-    setTextElements(prev =>
-      prev.map(el => el.id === id ? { ...el, text } : el)
-    );
-  }, []);
+    changeTextElement(id, el => el && el.text !== text ? { ...el, text } : el, 'Edit text');
+  }, [changeTextElement]);
 
   const handleTextPositionChange = useCallback((id: string, x: number, y: number) => {
-    setTextElements(prev =>
-      prev.map(el => el.id === id ? { ...el, x, y } : el)
-    );
-  }, []);
+    changeTextElement(id, el => el && (el.x !== x || el.y !== y) ? { ...el, x, y } : el, 'Move text');
+  }, [changeTextElement]);
 
   const handleTextFormatChange = useCallback((id: string, format: TextFormat) => {
-    setTextElements(prev =>
-      prev.map(el => el.id === id ? { ...el, format } : el)
-    );
-  }, []);
+    changeTextElement(id, el => el && { ...el, format }, 'Format text');
+  }, [changeTextElement]);
 
   const handleTextSelect = useCallback((id: string) => {
     setSelectedTextId(id);
@@ -295,22 +485,22 @@ export default function App() {
 
   const handleTextDragStart = useCallback(() => {
     setIsTextDragging(true);
-  }, []);
+    beginDrag();
+  }, [beginDrag]);
 
   const handleTextDragEnd = useCallback(() => {
     setIsTextDragging(false);
-  }, []);
+    endDrag();
+  }, [endDrag]);
 
   const handleTextDelete = useCallback((id: string) => {
-    setTextElements(prev => prev.filter(el => el.id !== id));
+    changeTextElement(id, () => null, 'Delete text');
     setSelectedTextId(previous => (previous === id ? null : previous));
-  }, []);
+  }, [changeTextElement]);
 
   const handleCommentPositionChange = useCallback((id: string, x: number, y: number) => {
-    setCommentElements(prev =>
-      prev.map(el => el.id === id ? { ...el, x, y } : el)
-    );
-  }, []);
+    changeCommentElement(id, el => el && (el.x !== x || el.y !== y) ? { ...el, x, y } : el, 'Move comment');
+  }, [changeCommentElement]);
 
   const handleCommentSelect = useCallback((id: string) => {
     setSelectedCommentId(id);
@@ -326,90 +516,255 @@ export default function App() {
   const handleCommentAdd = useCallback((commentId: string, content: string) => {
     const newComment: Comment = {
       id: `comment-${Date.now()}-${Math.random()}`,
-      author: 'Carlos Saunders',
-      authorInitials: 'CS',
+      author: CURRENT_USER.name,
+      authorInitials: CURRENT_USER.initials,
       content: content,
       timestamp: new Date()
     };
 
-    setCommentElements(prev =>
-      prev.map(el =>
-        el.id === commentId
-          ? { ...el, comments: [...el.comments, newComment] }
-          : el
-      )
+    changeCommentElement(
+      commentId,
+      el => el && { ...el, comments: [...el.comments, newComment] },
+      'Add reply'
     );
-  }, []);
+  }, [changeCommentElement]);
 
   const handleCommentDelete = useCallback((id: string) => {
-    setCommentElements(prev => prev.filter(el => el.id !== id));
+    changeCommentElement(id, () => null, 'Delete comment');
     setSelectedCommentId(previous => (previous === id ? null : previous));
-  }, []);
+  }, [changeCommentElement]);
 
   const handleCommentDragStart = useCallback(() => {
     setIsCommentDragging(true);
-  }, []);
+    beginDrag();
+  }, [beginDrag]);
 
   const handleCommentDragEnd = useCallback(() => {
     setIsCommentDragging(false);
-  }, []);
+    endDrag();
+  }, [endDrag]);
 
-  const handleMapNameUpdate = useCallback((oldName: string, newName: string) => {
-    setExistingMaps(prev => prev.map(map => map === oldName ? newName : map));
-    setCurrentMap(prev => (prev === oldName ? newName : prev));
-  }, []);
+  const handleCreateMap = useCallback(() => createDocument(), [createDocument]);
+
+  const handleFolderStateChange = useCallback((mapId: string, folderState: MapFolderState) => {
+    updateDocument(mapId, { folderState });
+  }, [updateDocument]);
 
+  // Declared before the hydrate effect so that, on a map switch, the previous
+  // map's state is never written into the newly selected document.
+  useEffect(() => {
+    if (!currentDocument || hydratedIdRef.current !== currentDocument.id) return;
+
+    updateDocument(currentDocument.id, {
+      textElements,
+      commentElements,
+      selectedLayout,
+      selectedPaletteId,
+      viewport,
+    });
+  }, [commentElements, currentDocument, selectedLayout, selectedPaletteId, textElements, updateDocument, viewport]);
 
+  useEffect(() => {
+    if (!currentDocument || hydratedIdRef.current === currentDocument.id) return;
+
+    hydratedIdRef.current = currentDocument.id;
+    setTextElements(currentDocument.textElements);
+    setCommentElements(currentDocument.commentElements);
+    setSelectedLayout(currentDocument.selectedLayout);
+    setSelectedPaletteId(currentDocument.selectedPaletteId);
+    setViewport(currentDocument.viewport);
+    setPreviewVersionId(null);
+    clearSelections();
+    clearHistory();
+  }, [clearHistory, clearSelections, currentDocument, setViewport]);
 
-  // Handle scroll wheel zoom with cursor focus
-  const handleWheel = useCallback((event: WheelEvent) => {
-    event.preventDefault();
+  const handleSaveVersion = useCallback((name: string) => {
+    if (!currentDocument) return;
 
-    const mapElement = mapRef.current;
-    if (!mapElement) return;
+    const { versions, versionBlobs } = addMapVersion(
+      currentDocument,
+      { name, author: CURRENT_USER.name },
+      loadMapSnapshots(currentDocument.id)
+    );
+    updateDocument(currentDocument.id, { versions, versionBlobs });
+  }, [currentDocument, updateDocument]);
+
+  // Restoring checkpoints the current state first, unless it is already the
+  // latest version, so a restore can itself be rolled back. Versions saved
+  // before snapshots were captured leave the current snapshots in place.
+  const handleRestoreVersion = useCallback((versionId: string) => {
+    const version = currentDocument?.versions.find(item => item.id === versionId);
+    const content = currentDocument && readMapVersion(currentDocument, versionId);
+    if (!currentDocument || !version || !content) return;
+
+    const { versions, versionBlobs } = checkpointMapDocument(
+      currentDocument,
+      { name: `Before restoring "${version.name}"`, author: CURRENT_USER.name },
+      loadMapSnapshots(currentDocument.id)
+    );
+    const snapshots = readMapVersionSnapshots(currentDocument, versionId);
 
-    const rect = mapElement.getBoundingClientRect();
-    const cursorX = event.clientX - rect.left - SIDEBAR_OFFSET;
-    const cursorY = event.clientY - rect.top;
+    // Re-hydrate the canvas and folder tree from the restored content.
+    hydratedIdRef.current = null;
+    updateDocument(currentDocument.id, { ...content, versions, versionBlobs });
+    if (snapshots) {
+      storeMapSnapshots(currentDocument.id, snapshots, 'The version was restored without its folder snapshots');
+    }
+    setMapRevision(revision => revision + 1);
+  }, [currentDocument, updateDocument]);
+
+  const handleForkVersion = useCallback((versionId: string) => {
+    const version = currentDocument?.versions.find(item => item.id === versionId);
+    const content = currentDocument && readMapVersion(currentDocument, versionId);
+    if (!currentDocument || !version || !content) return;
+
+    // The fork keeps the folder data the version was built from.
+    const document = createDocument(`${currentDocument.name} (${version.name})`, content);
+    storeMapSnapshots(
+      document.id,
+      readMapVersionSnapshots(currentDocument, versionId) ?? loadMapSnapshots(currentDocument.id),
+      'The copy was created without its folder snapshots'
+    );
+  }, [createDocument, currentDocument]);
 
-    setZoom(previousZoom => {
-      const zoomDelta = event.deltaY < 0 ? ZOOM_WHEEL_STEP : -ZOOM_WHEEL_STEP;
-      const nextZoom = clamp(previousZoom + zoomDelta, ZOOM_MIN, ZOOM_MAX);
+  const handleDeleteVersion = useCallback((versionId: string) => {
+    if (!currentDocument) return;
 
-      if (nextZoom === previousZoom) {
-        return previousZoom;
-      }
+    if (versionId === previewVersionId) {
+      setPreviewVersionId(null);
+    }
+    updateDocument(currentDocument.id, removeMapVersion(currentDocument, versionId));
+  }, [currentDocument, previewVersionId, updateDocument]);
 
-      setMapPosition(previousPosition => {
-        const worldX = (cursorX - previousPosition.x) / (previousZoom / 100);
-        const worldY = (cursorY - previousPosition.y) / (previousZoom / 100);
+  const handleCloseVersionHistory = useCallback(() => {
+    setShowVersionHistory(false);
+    setPreviewVersionId(null);
+  }, []);
 
-        const newWorldX = worldX * (nextZoom / 100);
-        const newWorldY = worldY * (nextZoom / 100);
+  const handleExportMap = useCallback(() => {
+    if (!currentDocument) return;
 
-        return {
-          x: cursorX - newWorldX,
-          y: cursorY - newWorldY,
-        };
+    const file = createFoxmapFile(currentDocument, loadMapSnapshots(currentDocument.id));
+    downloadBlob(
+      new Blob([serializeFoxmap(file)], { type: 'application/json' }),
+      getFoxmapFileName(currentDocument.name)
+    );
+  }, [currentDocument]);
+
+  // Only text and comment boxes can be selected, and only on the free-form canvas.
+  const selectedElementIds = useMemo(
+    () => (displayedLayout ? [] : [selectedTextId, selectedCommentId].filter((id): id is string => id !== null)),
+    [displayedLayout, selectedCommentId, selectedTextId]
+  );
+
+  const handleExportImage = useCallback(async (settings: ExportImageSettings) => {
+    const content = mapContentRef.current;
+    if (!content) return;
+
+    // Drops selection handles and rings from the DOM before it is captured.
+    flushSync(() => setIsExportingImage(true));
+    try {
+      const blob = await exportMapImage(content, {
+        format: settings.format,
+        scale: settings.scale,
+        selectionIds: settings.selectionOnly ? selectedElementIds : [],
+        grid: settings.includeGrid
+          ? { size: GRID_SIZE, thickness: Math.max(gridThickness, 1), color: 'var(--border)', opacity: GRID_OPACITY }
+          : null,
+        background: settings.transparentBackground ? null : 'var(--background)',
+      });
+      downloadBlob(blob, getMapImageFileName(currentMap, settings.format));
+      setShowImageExport(false);
+    } catch (error) {
+      toast.error('Failed to export the map', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsExportingImage(false);
+    }
+  }, [currentMap, gridThickness, selectedElementIds]);
+
+  const importAsNewMap = useCallback((file: FoxmapFile, name: string) => {
+    const { name: _importedName, ...content } = file.map;
+    const document = createDocument(name, content);
+    saveImportedSnapshots(document.id, file);
+    toast.success(`Imported "${document.name}"`);
+  }, [createDocument]);
+
+  const handleImportMap = useCallback(async (source: File) => {
+    let text: string;
+    try {
+      text = await source.text();
+    } catch (error) {
+      toast.error(`Failed to read ${source.name}`, {
+        description: error instanceof Error ? error.message : undefined,
       });
+      return;
+    }
 
-      return nextZoom;
-    });
-  }, []);
+    const { file, errors } = parseFoxmap(text);
+    if (!file) {
+      const hidden = errors.length - MAX_TOASTED_ERRORS;
+      toast.error(`${source.name} could not be imported`, {
+        description: (
+          <ul className="list-disc pl-4">
+            {errors.slice(0, MAX_TOASTED_ERRORS).map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+            {hidden > 0 && <li>…and {hidden} more</li>}
+          </ul>
+        ),
+      });
+      return;
+    }
 
-  useEffect(() => {
-    const mapElement = mapRef.current;
-    if (!mapElement) return;
+    if (documents.some(document => document.name === file.map.name)) {
+      setPendingImport(file);
+    } else {
+      importAsNewMap(file, file.map.name);
+    }
+  }, [documents, importAsNewMap]);
+
+  const handleImportKeepBoth = useCallback(() => {
+    if (!pendingImport) return;
+
+    importAsNewMap(pendingImport, getAvailableMapName(pendingImport.map.name, documents.map(document => document.name)));
+    setPendingImport(null);
+  }, [documents, importAsNewMap, pendingImport]);
+
+  // Replacing keeps the existing map's id and history, checkpointing it first.
+  // The checkpoint holds the snapshots being overwritten, so restoring it
+  // brings back the old folder data along with the old ids.
+  const handleImportReplace = useCallback(() => {
+    const existing = pendingImport && documents.find(document => document.name === pendingImport.map.name);
+    setPendingImport(null);
+    if (!pendingImport || !existing) return;
+
+    const { name: _importedName, ...content } = pendingImport.map;
+    const { versions, versionBlobs } = checkpointMapDocument(
+      existing,
+      { name: 'Before import', author: CURRENT_USER.name },
+      loadMapSnapshots(existing.id)
+    );
+
+    if (existing.id === currentMapId) {
+      hydratedIdRef.current = null;
+    }
+    updateDocument(existing.id, { ...content, versions, versionBlobs });
+    saveImportedSnapshots(existing.id, pendingImport);
+    selectDocument(existing.id);
+    setMapRevision(revision => revision + 1);
+    toast.success(`Replaced "${existing.name}" with the imported map`);
+  }, [currentMapId, documents, pendingImport, selectDocument, updateDocument]);
 
-    mapElement.addEventListener('wheel', handleWheel, { passive: false });
 
-    return () => {
-      mapElement.removeEventListener('wheel', handleWheel);
-    };
-  }, [handleWheel]);
 
   // Handle drag functionality - only right-click to avoid conflicts with text box resizing
   const handleMouseDown = (e: React.MouseEvent) => {
+    if (isPreviewing && e.button === 0) {
+      return;
+    }
+
     if (isTextMode && e.button === 0) {
       // Create text element in text mode
       createTextElement(e.clientX, e.clientY);
@@ -432,7 +787,7 @@ export default function App() {
       // Only right mouse button for map dragging
       setIsDragging(true);
       setDragStart({ x: e.clientX, y: e.clientY });
-      setLastDragPosition(mapPosition);
+      setLastDragPosition({ x: viewport.x, y: viewport.y });
       clearSelections();
       e.preventDefault();
     } else if (e.button === 0) {
@@ -451,7 +806,7 @@ export default function App() {
         y: lastDragPosition.y + deltaY,
       };
 
-      setMapPosition(newPosition);
+      setViewport(previous => ({ ...previous, ...newPosition }));
     }
   };
 
@@ -471,13 +826,27 @@ export default function App() {
           y: lastDragPosition.y + deltaY,
         };
 
-        setMapPosition(newPosition);
+        setViewport(previous => ({ ...previous, ...newPosition }));
       }
     };
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      const isEditing = target?.isContentEditable || target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA';
+
+      // Text fields keep their own native undo.
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z' && !isEditing && !isPreviewing) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+        return;
+      }
+
       // Delete selected elements when Delete key is pressed
-      if (e.key === 'Delete') {
+      if (e.key === 'Delete' && !isPreviewing) {
         if (selectedTextId) {
           e.preventDefault();
           handleTextDelete(selectedTextId);
@@ -500,11 +869,15 @@ export default function App() {
   }, [
     dragStart,
     handleCommentDelete,
+    handleRedo,
     handleTextDelete,
+    handleUndo,
     isDragging,
+    isPreviewing,
     lastDragPosition,
     selectedCommentId,
     selectedTextId,
+    setViewport,
   ]);
 
   const gridOverlay = useMemo(() => {
@@ -512,10 +885,10 @@ export default function App() {
       return null;
     }
 
-    const baseGridSize = 50;
+    const baseGridSize = GRID_SIZE;
     const zoomFactor = zoom / 100;
     let gridSize = baseGridSize;
-    let gridOpacity = 0.3;
+    let gridOpacity = GRID_OPACITY;
 
     if (zoomFactor > 4) {
       gridSize = baseGridSize / 4;
@@ -563,8 +936,8 @@ export default function App() {
 
     return (
       <TextToolbar
-        x={(selectedElement.x * zoom / 100) + mapPosition.x + SIDEBAR_OFFSET}
-        y={(selectedElement.y * zoom / 100) + mapPosition.y}
+        x={(selectedElement.x * zoom / 100) + viewport.x + SIDEBAR_OFFSET}
+        y={(selectedElement.y * zoom / 100) + viewport.y}
         format={selectedElement.format}
         onFormatChange={(format) => handleTextFormatChange(selectedTextId, format)}
         onDelete={() => handleTextDelete(selectedTextId)}
@@ -576,10 +949,10 @@ export default function App() {
     handleTextFormatChange,
     isCommentDragging,
     isTextDragging,
-    mapPosition,
     selectedLayout,
     selectedTextId,
     textElements,
+    viewport,
     zoom,
   ]);
 
@@ -600,116 +973,223 @@ export default function App() {
         onCreateComment={handleCommentModeToggle}
         isCommentMode={isCommentMode}
         onLayoutSelect={handleLayoutSelect}
-        selectedLayout={selectedLayout}
-        onPaletteSelect={setSelectedPaletteId}
-        selectedPaletteId={selectedPaletteId}
+        selectedLayout={displayedLayout}
+        onPaletteSelect={handlePaletteSelect}
+        selectedPaletteId={displayedPaletteId}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        undoLabel={isPreviewing ? null : history.undoLabel}
+        redoLabel={isPreviewing ? null : history.redoLabel}
       />
       <RightSidebar 
         isDark={isDark} 
         onFolderDataChange={handleFolderDataChange}
-        currentMap={currentMap}
-        existingMaps={existingMaps}
-        onMapChange={setCurrentMap}
-        onMapNameUpdate={handleMapNameUpdate}
+        onSnapshotDiffChange={handleSnapshotDiffChange}
+        showDiffOverlay={showDiffOverlay}
+        onToggleDiffOverlay={toggleDiffOverlay}
+        currentMapId={currentMapId}
+        maps={documents}
+        onMapChange={selectDocument}
+        onCreateMap={handleCreateMap}
+        onMapRename={renameDocument}
+        folderState={currentDocument?.folderState}
+        onFolderStateChange={handleFolderStateChange}
+        mapRevision={mapRevision}
+        previewFolderState={preview?.folderState}
+        onHistoryCommand={pushHistory}
+        onOpenVersionHistory={() => setShowVersionHistory(true)}
+        onExportMap={handleExportMap}
+        onExportImage={() => setShowImageExport(true)}
+        onImportMap={handleImportMap}
+        onFindDuplicates={() => setShowDuplicates(true)}
+        onOpenSharingReview={() => setShowSharingReview(true)}
       />
       <TopNavigation
         isDark={isDark}
-        zoom={zoom}
-        onZoomIn={handleZoomIn}
-        onZoomOut={handleZoomOut}
+        zoom={Math.round(zoom)}
+        onZoomIn={camera.zoomIn}
+        onZoomOut={camera.zoomOut}
         onCenterMap={handleCenterMap}
         folderData={folderData}
       />
 
       {/* Map Area */}
-      <div
-        ref={mapRef}
-        className={`fixed inset-0 overflow-hidden ${
-          isTextMode || isBoxMode || isCommentMode ? "cursor-crosshair" :
-          isDragging ? "cursor-grabbing" : "cursor-default"
-        }`}
-        style={{
-          paddingLeft: `${SIDEBAR_OFFSET}px`, // Left sidebar width (48px + 16px margin)
-          paddingRight: `${SIDEBAR_OFFSET}px`, // Right sidebar width (48px + 16px margin)
-        }}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onContextMenu={(e) => e.preventDefault()} // Disable context menu on right-click
-      >
-        <div className="relative w-full h-full">
-          {gridOverlay}
-
-          <div
-            className="absolute inset-0"
-            style={{
-              transform: `translate(${mapPosition.x}px, ${mapPosition.y}px) scale(${zoom / 100})`,
-              transformOrigin: "0 0",
-            }}
-          >
-            <div className="relative w-full h-full">
-              {selectedLayout === 'bubble-size' ? (
-                <BubbleSizeMap folders={folderData} colorPaletteId={selectedPaletteId} />
-              ) : selectedLayout === 'orbital' ? (
-                <OrbitalMap folders={folderData} colorPaletteId={selectedPaletteId} />
-              ) : (
-                <>
-                  {/* Text Elements */}
-                  {textElements.map(textElement => (
-                    <TextBox
-                      key={textElement.id}
-                      id={textElement.id}
-                      x={textElement.x}
-                      y={textElement.y}
-                      text={textElement.text}
-                      format={textElement.format}
-                      isSelected={selectedTextId === textElement.id}
-                      zoom={zoom}
-                      onTextChange={handleTextChange}
-                      onPositionChange={handleTextPositionChange}
-                      onFormatChange={handleTextFormatChange}
-                      onSelect={handleTextSelect}
-                      onDragStart={handleTextDragStart}
-                      onDragEnd={handleTextDragEnd}
-                    />
-                  ))}
-
-                  {/* Comment Elements */}
-                  {commentElements.map(commentElement => (
-                    <CommentBox
-                      key={commentElement.id}
-                      id={commentElement.id}
-                      x={commentElement.x}
-                      y={commentElement.y}
-                      comments={commentElement.comments}
-                      isSelected={selectedCommentId === commentElement.id}
-                      isExpanded={commentElement.isExpanded}
-                      zoom={zoom}
-                      onPositionChange={handleCommentPositionChange}
-                      onSelect={handleCommentSelect}
-                      onToggleExpand={handleCommentToggleExpand}
-                      onAddComment={handleCommentAdd}
-                      onDelete={handleCommentDelete}
-                      onDragStart={handleCommentDragStart}
-                      onDragEnd={handleCommentDragEnd}
-                    />
-                  ))}
-                </>
+      <ViewportContext.Provider value={camera}>
+        <div
+          ref={mapRef}
+          className={`fixed inset-0 overflow-hidden ${
+            isTextMode || isBoxMode || isCommentMode ? "cursor-crosshair" :
+            isDragging ? "cursor-grabbing" : "cursor-default"
+          }`}
+          style={{
+            paddingLeft: `${SIDEBAR_OFFSET}px`, // Left sidebar width (48px + 16px margin)
+            paddingRight: `${SIDEBAR_OFFSET}px`, // Right sidebar width (48px + 16px margin)
+          }}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onContextMenu={(e) => e.preventDefault()} // Disable context menu on right-click
+        >
+          <div className="relative w-full h-full">
+            {gridOverlay}
+
+            <div
+              className="absolute inset-0"
+              style={{
+                transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${zoom / 100})`,
+                transformOrigin: "0 0",
+              }}
+            >
+              <div ref={mapContentRef} className={`relative w-full h-full ${isPreviewing ? "pointer-events-none" : ""}`}>
+                {displayedLayout === 'bubble-size' ? (
+                  <BubbleSizeMap
+                    folders={folderData}
+                    colorPaletteId={displayedPaletteId}
+                    diff={mapDiff}
+                    duplicates={duplicateHighlight}
+                    sharing={sharingOverlay}
+                  />
+                ) : displayedLayout === 'orbital' ? (
+                  <OrbitalMap
+                    folders={folderData}
+                    colorPaletteId={displayedPaletteId}
+                    diff={mapDiff}
+                    sharing={sharingOverlay}
+                  />
+                ) : displayedLayout === 'tree' ? (
+                  <TreeMap folders={folderData} colorPaletteId={displayedPaletteId} />
+                ) : displayedLayout === 'sunburst' ? (
+                  <SunburstMap folders={folderData} colorPaletteId={displayedPaletteId} />
+                ) : displayedLayout === 'activity-folders' ? (
+                  <ActivityFoldersMap folders={folderData} colorPaletteId={displayedPaletteId} />
+                ) : displayedLayout === 'treemap' ? (
+                  <StorageTreemap folders={folderData} colorPaletteId={displayedPaletteId} />
+                ) : (
+                  <>
+                    {/* Text Elements */}
+                    {displayedTextElements.map(textElement => (
+                      <TextBox
+                        key={textElement.id}
+                        id={textElement.id}
+                        x={textElement.x}
+                        y={textElement.y}
+                        text={textElement.text}
+                        format={textElement.format}
+                        isSelected={!isExportingImage && selectedTextId === textElement.id}
+                        zoom={zoom}
+                        onTextChange={handleTextChange}
+                        onPositionChange={handleTextPositionChange}
+                        onFormatChange={handleTextFormatChange}
+                        onSelect={handleTextSelect}
+                        onDragStart={handleTextDragStart}
+                        onDragEnd={handleTextDragEnd}
+                      />
+                    ))}
+
+                    {/* Comment Elements */}
+                    {displayedCommentElements.map(commentElement => (
+                      <CommentBox
+                        key={commentElement.id}
+                        id={commentElement.id}
+                        x={commentElement.x}
+                        y={commentElement.y}
+                        comments={commentElement.comments}
+                        isSelected={!isExportingImage && selectedCommentId === commentElement.id}
+                        isExpanded={commentElement.isExpanded}
+                        zoom={zoom}
+                        onPositionChange={handleCommentPositionChange}
+                        onSelect={handleCommentSelect}
+                        onToggleExpand={handleCommentToggleExpand}
+                        onAddComment={handleCommentAdd}
+                        onDelete={handleCommentDelete}
+                        onDragStart={handleCommentDragStart}
+                        onDragEnd={handleCommentDragEnd}
+                      />
+                    ))}
+                  </>
+                )}
+              </div>
+
+              {focusHighlight && (
+                <div
+                  data-export-ignore
+                  className="pointer-events-none absolute rounded-xl ring-4 ring-primary/70 animate-pulse"
+                  style={focusHighlight}
+                />
               )}
             </div>
           </div>
         </div>
-      </div>
+      </ViewportContext.Provider>
 
       {showResultsPanel && (
         <ResultsPanel
           className="fixed bottom-6 left-1/2 z-30 w-full -translate-x-1/2 px-4 sm:px-0"
+          folders={folderData}
+          onFocusFolder={handleFocusNode}
           onClose={() => setShowResultsPanel(false)}
         />
       )}
 
+      {showDuplicates && duplicateReport && (
+        <DuplicatesPanel
+          className="fixed left-20 top-4 z-50"
+          report={duplicateReport}
+          highlightedGroupIds={highlightedDuplicateGroupIds}
+          onHighlightGroups={handleHighlightDuplicates}
+          onFocusItem={handleFocusNode}
+          onClose={handleCloseDuplicates}
+        />
+      )}
+
+      {showSharingReview && sharingReport && (
+        <SharingPanel
+          className="fixed left-20 top-4 z-50"
+          report={sharingReport}
+          showOverlay={showSharingOverlay}
+          onToggleOverlay={handleToggleSharingOverlay}
+          onAccountOwnerChange={setSharingAccountOwner}
+          onFocusItem={handleFocusNode}
+          onClose={handleCloseSharingReview}
+        />
+      )}
+
+      {showVersionHistory && currentDocument && (
+        <VersionHistoryPanel
+          className="fixed left-20 top-4 z-50"
+          mapName={currentDocument.name}
+          versions={currentDocument.versions}
+          storageSize={getVersionStorageSize(currentDocument)}
+          previewVersionId={previewVersionId}
+          onSaveVersion={handleSaveVersion}
+          onPreviewVersion={setPreviewVersionId}
+          onRestoreVersion={handleRestoreVersion}
+          onForkVersion={handleForkVersion}
+          onDeleteVersion={handleDeleteVersion}
+          onClose={handleCloseVersionHistory}
+        />
+      )}
+
+      <ImportMapDialog
+        mapName={pendingImport?.map.name ?? null}
+        copyName={pendingImport ? getAvailableMapName(pendingImport.map.name, documents.map(document => document.name)) : ''}
+        onReplace={handleImportReplace}
+        onKeepBoth={handleImportKeepBoth}
+        onCancel={() => setPendingImport(null)}
+      />
+
+      <ExportImageDialog
+        open={showImageExport}
+        hasSelection={selectedElementIds.length > 0}
+        showGrid={showGrid}
+        onExport={handleExportImage}
+        onClose={() => setShowImageExport(false)}
+      />
+
+      <Toaster theme={isDark ? 'dark' : 'light'} position="bottom-right" />
+
       {/* Text Toolbar - only show when text is selected and not dragging */}
-      {textToolbar}
+      {!isPreviewing && textToolbar}
     </div>
   );
 }
@@ -0,0 +1,397 @@
+import React, { useMemo, useState } from 'react';
+import { Check, ChevronDown, ChevronRight, File, FileDown, Folder, ListChecks, RotateCcw, Undo2, X } from 'lucide-react';
+
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { FolderItem } from './right-sidebar/data';
+import { formatCount, formatSize } from '../lib/utils/format';
+import { downloadCsv, toCsv } from '../lib/utils/csv';
+import { downloadBlob, getTimestamp } from '../lib/utils/download';
+import { useCleanupRules } from '../lib/hooks/useCleanupRules';
+import {
+  CLEANUP_SEVERITIES,
+  buildCleanupPlan,
+  type CleanupConditions,
+  type CleanupRecommendation,
+  type CleanupRule,
+  type CleanupSeverity
+} from '@/lib/mapData';
+
+const ITEM_PAGE_SIZE = 50;
+const MB = 1024 * 1024;
+
+const SEVERITY_LABELS: Record<CleanupSeverity, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+};
+
+const SEVERITY_COLORS: Record<CleanupSeverity, string> = {
+  high: '#ef4444',
+  medium: '#f59e0b',
+  low: '#3b82f6'
+};
+
+type ReviewStatus = 'pending' | 'accepted' | 'dismissed';
+type SeverityFilter = CleanupSeverity | 'all';
+type ThresholdKey = Exclude<keyof CleanupConditions, 'kinds' | 'mimeTypes' | 'orphaned'>;
+
+// Only thresholds a rule already has are editable; which conditions apply is part of the rule itself.
+const THRESHOLD_FIELDS: Array<{ key: ThresholdKey; label: string; unit?: string; scale?: number }> = [
+  { key: 'minSize', label: 'At least', unit: 'MB', scale: MB },
+  { key: 'maxSize', label: 'At most', unit: 'MB', scale: MB },
+  { key: 'minAgeDays', label: 'Untouched for', unit: 'days' },
+  { key: 'minFileCount', label: 'Min files' },
+  { key: 'maxFileCount', label: 'Max files' },
+  { key: 'maxSubfolders', label: 'Max subfolders' },
+  { key: 'maxActivityScore', label: 'Max activity score' }
+];
+
+interface ReviewedRecommendation extends CleanupRecommendation {
+  status: ReviewStatus;
+}
+
+const getRuleNames = (item: CleanupRecommendation, rules: CleanupRule[]) =>
+  item.ruleIds.map(ruleId => rules.find(rule => rule.id === ruleId)?.name ?? ruleId);
+
+/** A checklist grouped by severity; dismissed items are left out of the plan. */
+const buildPlanMarkdown = (items: ReviewedRecommendation[], rules: CleanupRule[]): string => {
+  const planned = items.filter(item => item.status !== 'dismissed');
+  const lines = [
+    '# Cleanup plan',
+    '',
+    `Generated ${new Date().toLocaleString()} · ${formatCount(planned.length, 'item')} · ${formatSize(
+      planned.reduce((total, item) => total + item.size, 0)
+    )}`
+  ];
+
+  CLEANUP_SEVERITIES.forEach(severity => {
+    const group = planned.filter(item => item.severity === severity);
+    if (group.length === 0) return;
+
+    lines.push('', `## ${SEVERITY_LABELS[severity]} severity`, '');
+    group.forEach(item => {
+      const checkbox = item.status === 'accepted' ? '[x]' : '[ ]';
+      lines.push(
+        `- ${checkbox} \`${item.path.join(' / ')}\` — ${formatSize(item.size)} · ${getRuleNames(item, rules).join(', ')}`
+      );
+    });
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+const buildPlanCsv = (items: ReviewedRecommendation[], rules: CleanupRule[]): string =>
+  toCsv(
+    ['Status', 'Severity', 'Type', 'Name', 'Path', 'Size (bytes)', 'Last modified', 'Rules'],
+    items.map(item => [
+      item.status,
+      item.severity,
+      item.type,
+      item.name,
+      item.path.join(' / '),
+      item.size,
+      item.modifiedDate ?? '',
+      getRuleNames(item, rules).join('; ')
+    ])
+  );
+
+interface CleanupPanelProps {
+  /** The full tree, including anything already hidden from the map. */
+  folders: FolderItem[];
+  /** Ids hidden from the map; accepted recommendations are the ones among them. */
+  suppressedIds: Set<string>;
+  onAccept: (itemId: string) => void;
+  onUnaccept: (itemId: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export const CleanupPanel: React.FC<CleanupPanelProps> = ({
+  folders,
+  suppressedIds,
+  onAccept,
+  onUnaccept,
+  onClose,
+  className = ''
+}) => {
+  const { rules, updateRule, resetRules } = useCleanupRules();
+  const [filter, setFilter] = useState<SeverityFilter>('all');
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(() => new Set());
+  const [showRules, setShowRules] = useState(false);
+  // Threshold inputs are uncontrolled while typing, so a reset has to remount them.
+  const [rulesVersion, setRulesVersion] = useState(0);
+  const [visibleCount, setVisibleCount] = useState(ITEM_PAGE_SIZE);
+
+  const plan = useMemo(() => buildCleanupPlan(folders, rules), [folders, rules]);
+
+  const items = useMemo<ReviewedRecommendation[]>(
+    () =>
+      plan.map(item => ({
+        ...item,
+        status: suppressedIds.has(item.id) ? 'accepted' : dismissedIds.has(item.id) ? 'dismissed' : 'pending'
+      })),
+    [dismissedIds, plan, suppressedIds]
+  );
+
+  const filterOptions = useMemo(
+    () => [
+      { id: 'all' as const, label: 'All', count: items.length },
+      ...CLEANUP_SEVERITIES.map(severity => ({
+        id: severity,
+        label: SEVERITY_LABELS[severity],
+        count: items.filter(item => item.severity === severity).length
+      }))
+    ],
+    [items]
+  );
+
+  const visibleItems = filter === 'all' ? items : items.filter(item => item.severity === filter);
+  const accepted = items.filter(item => item.status === 'accepted');
+  const pendingCount = items.filter(item => item.status === 'pending').length;
+
+  const handleFilterChange = (next: SeverityFilter) => {
+    setFilter(next);
+    setVisibleCount(ITEM_PAGE_SIZE);
+  };
+
+  const setDismissed = (itemId: string, dismissed: boolean) => {
+    setDismissedIds(previous => {
+      const next = new Set(previous);
+      if (dismissed) {
+        next.add(itemId);
+      } else {
+        next.delete(itemId);
+      }
+      return next;
+    });
+  };
+
+  const handleExportMarkdown = () => {
+    downloadBlob(
+      new Blob([buildPlanMarkdown(items, rules)], { type: 'text/markdown;charset=utf-8' }),
+      `cleanup-plan-${getTimestamp()}.md`
+    );
+  };
+
+  const handleExportCsv = () => {
+    downloadCsv(buildPlanCsv(items, rules), `cleanup-plan-${getTimestamp()}.csv`);
+  };
+
+  const handleThresholdChange = (rule: CleanupRule, field: (typeof THRESHOLD_FIELDS)[number], value: string) => {
+    const parsed = Number(value);
+    if (value.trim() === '' || !Number.isFinite(parsed) || parsed < 0) return;
+
+    updateRule(rule.id, {
+      conditions: { ...rule.conditions, [field.key]: Math.round(parsed * (field.scale ?? 1)) }
+    });
+  };
+
+  const renderRule = (rule: CleanupRule) => (
+    <li key={rule.id} className="space-y-2 border-b border-border px-3 py-2 last:border-b-0">
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={rule.enabled}
+          onCheckedChange={checked => updateRule(rule.id, { enabled: checked === true })}
+          className="h-4 w-4 shrink-0"
+        />
+        <span className="min-w-0 flex-1 truncate">{rule.name}</span>
+      </label>
+      <div className="flex gap-1 pl-6 text-xs">
+        {CLEANUP_SEVERITIES.map(severity => (
+          <button
+            key={severity}
+            onClick={() => updateRule(rule.id, { severity })}
+            className={`rounded px-2 py-0.5 transition-colors ${
+              rule.severity === severity
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+            }`}
+          >
+            {SEVERITY_LABELS[severity]}
+          </button>
+        ))}
+      </div>
+      {THRESHOLD_FIELDS.some(field => rule.conditions[field.key] !== undefined) && (
+        <div className="grid grid-cols-2 gap-2 pl-6">
+          {THRESHOLD_FIELDS.filter(field => rule.conditions[field.key] !== undefined).map(field => (
+            <label key={`${field.key}:${rulesVersion}`} className="space-y-1 text-xs text-muted-foreground">
+              <span className="block">
+                {field.label}
+                {field.unit && ` (${field.unit})`}
+              </span>
+              <Input
+                type="number"
+                min={0}
+                defaultValue={(rule.conditions[field.key] ?? 0) / (field.scale ?? 1)}
+                onChange={event => handleThresholdChange(rule, field, event.target.value)}
+                className="h-7 text-xs"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </li>
+  );
+
+  const renderItem = (item: ReviewedRecommendation) => (
+    <li
+      key={item.id}
+      className={`flex items-start gap-2 border-b border-border px-3 py-2 last:border-b-0 ${
+        item.status === 'dismissed' ? 'opacity-50' : ''
+      }`}
+    >
+      <span
+        className="mt-1.5 inline-block h-2.5 w-2.5 shrink-0 rounded-full"
+        style={{ backgroundColor: SEVERITY_COLORS[item.severity] }}
+        title={`${SEVERITY_LABELS[item.severity]} severity`}
+      />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-1.5">
+          {item.type === 'folder' ? (
+            <Folder size={12} className="shrink-0 text-muted-foreground" />
+          ) : (
+            <File size={12} className="shrink-0 text-muted-foreground" />
+          )}
+          <span className={`truncate text-sm font-medium ${item.status === 'accepted' ? 'line-through' : ''}`}>
+            {item.name}
+          </span>
+        </div>
+        <span className="block truncate text-xs text-muted-foreground" title={item.path.join(' / ')}>
+          {item.path.join(' / ')}
+        </span>
+        <span className="block text-xs text-muted-foreground">
+          {formatSize(item.size)} · {getRuleNames(item, rules).join(', ')}
+        </span>
+      </div>
+      {item.status === 'pending' ? (
+        <div className="flex shrink-0 gap-1">
+          <button
+            onClick={() => onAccept(item.id)}
+            title="Accept and hide from the map"
+            className="rounded p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
+          >
+            <Check size={14} />
+          </button>
+          <button
+            onClick={() => setDismissed(item.id, true)}
+            title="Dismiss"
+            className="rounded p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => (item.status === 'accepted' ? onUnaccept(item.id) : setDismissed(item.id, false))}
+          title={item.status === 'accepted' ? 'Undo and show on the map again' : 'Review again'}
+          className="shrink-0 rounded p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
+        >
+          <Undo2 size={14} />
+        </button>
+      )}
+    </li>
+  );
+
+  return (
+    <div
+      className={`flex w-96 flex-col rounded-xl border border-border bg-popover shadow-lg ${className}`.trim()}
+      onMouseDown={event => event.stopPropagation()}
+    >
+      <div className="flex items-center justify-between border-b border-border p-3">
+        <div className="flex min-w-0 items-center gap-2">
+          <ListChecks size={16} className="shrink-0 text-muted-foreground" />
+          <h4 className="truncate text-sm font-medium">Cleanup Plan</h4>
+        </div>
+        <button onClick={onClose} className="text-muted-foreground hover:text-foreground">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="space-y-2 border-b border-border p-3">
+        <div className="text-sm">
+          <span className="font-medium">{formatSize(accepted.reduce((total, item) => total + item.size, 0))}</span>{' '}
+          <span className="text-muted-foreground">
+            accepted across {formatCount(accepted.length, 'item')}, {pendingCount} left to review
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-1 text-xs">
+          {filterOptions.map(option => (
+            <button
+              key={option.id}
+              onClick={() => handleFilterChange(option.id)}
+              className={`rounded px-2 py-1 transition-colors ${
+                filter === option.id
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+              }`}
+            >
+              {option.label} {option.count}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1 text-xs">
+          <button
+            onClick={() => setShowRules(previous => !previous)}
+            className="flex items-center gap-1 rounded px-2 py-1 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
+          >
+            {showRules ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            Rules
+          </button>
+          <button
+            onClick={handleExportMarkdown}
+            disabled={items.length === 0}
+            className="flex items-center gap-1 rounded px-2 py-1 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+          >
+            <FileDown size={14} />
+            Markdown
+          </button>
+          <button
+            onClick={handleExportCsv}
+            disabled={items.length === 0}
+            className="flex items-center gap-1 rounded px-2 py-1 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+          >
+            <FileDown size={14} />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      {showRules && (
+        <div className="border-b border-border">
+          <ul className="max-h-[30vh] overflow-y-auto">{rules.map(renderRule)}</ul>
+          <div className="border-t border-border p-2 text-right">
+            <button
+              onClick={() => {
+                resetRules();
+                setRulesVersion(version => version + 1);
+              }}
+              className="inline-flex items-center gap-1 rounded px-2 py-1 text-xs text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+            >
+              <RotateCcw size={12} />
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+
+      {visibleItems.length === 0 ? (
+        <div className="py-6 text-center text-sm text-muted-foreground">Nothing to clean up</div>
+      ) : (
+        <ul className="max-h-[50vh] overflow-y-auto">
+          {visibleItems.slice(0, visibleCount).map(renderItem)}
+          {visibleItems.length > visibleCount && (
+            <li className="p-2 text-center">
+              <button
+                onClick={() => setVisibleCount(count => count + ITEM_PAGE_SIZE)}
+                className="rounded px-2 py-1 text-xs text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+              >
+                Show {Math.min(ITEM_PAGE_SIZE, visibleItems.length - visibleCount)} more
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
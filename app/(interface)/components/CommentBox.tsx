@@ -147,6 +147,7 @@ export function CommentBox({
   if (!isExpanded) {
     return (
       <div
+        data-map-element={id}
         style={{
           position: "absolute",
           left: `${x}px`,
@@ -194,6 +195,7 @@ export function CommentBox({
   // --- EXPANDED STATE ---
   return (
     <div
+      data-map-element={id}
       style={{
         position: "absolute",
         left: `${x}px`,
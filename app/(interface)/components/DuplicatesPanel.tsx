@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, CopyX, Eye, EyeOff, File, Folder, X } from 'lucide-react';
+
+import { formatCount, formatSize } from '../lib/utils/format';
+import { DUPLICATE_COLORS, DUPLICATE_LABELS } from '../lib/mapUtils/duplicateOverlay';
+import { DUPLICATE_MATCHES, type DuplicateGroup, type DuplicateMatch, type DuplicateReport } from '@/lib/mapData';
+
+const GROUP_PAGE_SIZE = 50;
+
+type MatchFilter = DuplicateMatch | 'all';
+
+interface DuplicatesPanelProps {
+  report: DuplicateReport;
+  highlightedGroupIds: Set<string>;
+  onHighlightGroups: (groupIds: string[], highlighted: boolean) => void;
+  /** Files are found through their folder when the layout doesn't draw them. */
+  onFocusItem: (itemId: string, folderId: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({
+  report,
+  highlightedGroupIds,
+  onHighlightGroups,
+  onFocusItem,
+  onClose,
+  className = ''
+}) => {
+  const [filter, setFilter] = useState<MatchFilter>('all');
+  const [expandedGroupId, setExpandedGroupId] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState(GROUP_PAGE_SIZE);
+
+  const filterOptions = useMemo(
+    () => [
+      { id: 'all' as const, label: 'All', count: report.groups.length },
+      ...DUPLICATE_MATCHES.map(match => ({
+        id: match,
+        label: DUPLICATE_LABELS[match],
+        count: report.groups.filter(group => group.match === match).length
+      }))
+    ],
+    [report]
+  );
+
+  const groups = filter === 'all' ? report.groups : report.groups.filter(group => group.match === filter);
+  const groupIds = groups.map(group => group.id);
+  const allHighlighted = groupIds.length > 0 && groupIds.every(id => highlightedGroupIds.has(id));
+
+  const handleFilterChange = (next: MatchFilter) => {
+    setFilter(next);
+    setVisibleCount(GROUP_PAGE_SIZE);
+  };
+
+  const renderGroup = (group: DuplicateGroup) => {
+    const isExpanded = expandedGroupId === group.id;
+    const isHighlighted = highlightedGroupIds.has(group.id);
+
+    return (
+      <li key={group.id} className="border-b border-border last:border-b-0">
+        <div className="flex items-center gap-2 px-3 py-2">
+          <button
+            onClick={() => setExpandedGroupId(isExpanded ? null : group.id)}
+            className="flex min-w-0 flex-1 items-center gap-2 text-left"
+          >
+            {isExpanded ? <ChevronDown size={14} className="shrink-0" /> : <ChevronRight size={14} className="shrink-0" />}
+            <span
+              className="inline-block h-2.5 w-2.5 shrink-0 rounded-full"
+              style={{ backgroundColor: DUPLICATE_COLORS[group.match] }}
+              title={DUPLICATE_LABELS[group.match]}
+            />
+            <span className="min-w-0">
+              <span className="block truncate text-sm font-medium">{group.items[0].name}</span>
+              <span className="block text-xs text-muted-foreground">
+                {formatCount(group.items.length, 'copy', 'copies')} · {formatSize(group.reclaimableSize)}
+                {group.match === 'similar-name' ? ' if copies' : ' reclaimable'}
+              </span>
+            </span>
+          </button>
+          <button
+            onClick={() => onHighlightGroups([group.id], !isHighlighted)}
+            title={isHighlighted ? 'Stop highlighting' : 'Highlight on the bubble map'}
+            className={`shrink-0 rounded p-1 transition-colors ${
+              isHighlighted
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+            }`}
+          >
+            {isHighlighted ? <EyeOff size={14} /> : <Eye size={14} />}
+          </button>
+        </div>
+
+        {isExpanded && (
+          <ul className="space-y-1 px-3 pb-3 pl-9">
+            {group.items.map((item, index) => (
+              <li key={item.id}>
+                <button
+                  onClick={() => onFocusItem(item.id, item.type === 'folder' ? item.id : item.parentId)}
+                  title="Show on the map"
+                  className="flex w-full items-start gap-2 rounded px-1 py-0.5 text-left text-xs hover:bg-accent"
+                >
+                  {item.type === 'folder' ? (
+                    <Folder size={12} className="mt-0.5 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <File size={12} className="mt-0.5 shrink-0 text-muted-foreground" />
+                  )}
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate">{item.path.join(' / ')}</span>
+                    <span className="text-muted-foreground">
+                      {formatSize(item.size)}
+                      {index === 0 && ' · kept'}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div
+      className={`flex w-96 flex-col rounded-xl border border-border bg-popover shadow-lg ${className}`.trim()}
+      onMouseDown={event => event.stopPropagation()}
+    >
+      <div className="flex items-center justify-between border-b border-border p-3">
+        <div className="flex min-w-0 items-center gap-2">
+          <CopyX size={16} className="shrink-0 text-muted-foreground" />
+          <h4 className="truncate text-sm font-medium">Duplicates</h4>
+        </div>
+        <button onClick={onClose} className="text-muted-foreground hover:text-foreground">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="space-y-2 border-b border-border p-3">
+        <div className="text-sm">
+          <span className="font-medium">{formatSize(report.reclaimableSize)}</span>{' '}
+          <span className="text-muted-foreground">
+            could be freed across {formatCount(report.groups.length, 'group')}
+          </span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Estimated from exact copies, keeping the largest of each. Similar names are listed for review but not
+          counted.
+        </p>
+        <div className="flex flex-wrap gap-1 text-xs">
+          {filterOptions.map(option => (
+            <button
+              key={option.id}
+              onClick={() => handleFilterChange(option.id)}
+              className={`rounded px-2 py-1 transition-colors ${
+                filter === option.id
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+              }`}
+            >
+              {option.label} {option.count}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onHighlightGroups(groupIds, !allHighlighted)}
+          disabled={groupIds.length === 0}
+          className="flex items-center gap-2 rounded px-2 py-1 text-xs text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+        >
+          {allHighlighted ? <EyeOff size={14} /> : <Eye size={14} />}
+          {allHighlighted ? 'Clear highlights' : 'Highlight these on the bubble map'}
+        </button>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="py-6 text-center text-sm text-muted-foreground">No duplicates found</div>
+      ) : (
+        <ul className="max-h-[50vh] overflow-y-auto">
+          {groups.slice(0, visibleCount).map(renderGroup)}
+          {groups.length > visibleCount && (
+            <li className="p-2 text-center">
+              <button
+                onClick={() => setVisibleCount(count => count + GROUP_PAGE_SIZE)}
+                className="rounded px-2 py-1 text-xs text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+              >
+                Show {Math.min(GROUP_PAGE_SIZE, groups.length - visibleCount)} more
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -18,6 +18,7 @@ import {
   Loader2
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { SnapshotImportSection } from './right-sidebar/SnapshotImportSection';
 import notionLogo from '../../../public/assets/notion-logo.png';
 import oneDriveLogo from '../../../public/assets/onedrive-logo.png';
 import dropboxLogo from '../../../public/assets/dropbox-logo.png';
@@ -25,11 +26,13 @@ import googleDriveLogo from '../../../public/assets/google-drive-logo.png';
 
 interface EditMapDialogProps {
   children?: React.ReactNode;
+  mapId: string;
   mapName: string;
   currentIntegrations: string[];
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
   onMapNameUpdate?: (oldName: string, newName: string) => void;
+  onSnapshotsChange?: () => void;
 }
 
 interface Integration {
@@ -42,11 +45,13 @@ interface Integration {
 
 export function EditMapDialog({
   children,
+  mapId,
   mapName: initialMapName,
   currentIntegrations,
   open: controlledOpen,
   onOpenChange,
-  onMapNameUpdate
+  onMapNameUpdate,
+  onSnapshotsChange
 }: EditMapDialogProps) {
   const [internalOpen, setInternalOpen] = useState(false);
   const open = controlledOpen !== undefined ? controlledOpen : internalOpen;
@@ -185,7 +190,7 @@ export function EditMapDialog({
       {children && <DialogTrigger asChild>{children}</DialogTrigger>}
       <DialogContent
         className="
-          sm:max-w-[500px]
+          sm:max-w-[500px] max-h-[90vh] overflow-y-auto
           bg-white dark:bg-neutral-900 
           border border-neutral-200 dark:border-neutral-700
           shadow-xl rounded-xl
@@ -304,6 +309,12 @@ export function EditMapDialog({
               ))}
             </div>
           </div>
+
+          {/* Imported Snapshots */}
+          <SnapshotImportSection
+            mapId={mapId}
+            onSnapshotsChange={onSnapshotsChange}
+          />
         </div>
 
         {/* Action Buttons */}
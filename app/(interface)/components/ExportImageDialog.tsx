@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Label } from './ui/label';
+import {
+  MAP_EXPORT_SCALES,
+  MAP_IMAGE_FORMATS,
+  type MapImageFormat
+} from '../lib/mapExport/exportMapImage';
+
+export interface ExportImageSettings {
+  format: MapImageFormat;
+  scale: number;
+  includeGrid: boolean;
+  transparentBackground: boolean;
+  selectionOnly: boolean;
+}
+
+interface ExportImageDialogProps {
+  open: boolean;
+  /** Whether a text or comment box is selected that could be exported alone. */
+  hasSelection: boolean;
+  /** The grid starts included when it is showing on the canvas. */
+  showGrid: boolean;
+  onExport: (settings: ExportImageSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+const FORMAT_DESCRIPTIONS: Record<MapImageFormat, string> = {
+  svg: 'Vector image that stays sharp at any size.',
+  png: 'High-resolution image at the chosen scale.',
+  pdf: 'Printable A4 pages; large maps are split across several.'
+};
+
+const toggleClassName = (isActive: boolean) =>
+  `rounded px-3 py-1 text-sm transition-colors ${
+    isActive
+      ? 'bg-primary text-primary-foreground'
+      : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+  }`;
+
+export function ExportImageDialog({
+  open,
+  hasSelection,
+  showGrid,
+  onExport,
+  onClose
+}: ExportImageDialogProps) {
+  const [format, setFormat] = useState<MapImageFormat>('png');
+  const [scale, setScale] = useState(2);
+  const [includeGrid, setIncludeGrid] = useState(showGrid);
+  const [transparentBackground, setTransparentBackground] = useState(false);
+  const [selectionOnly, setSelectionOnly] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setIncludeGrid(showGrid);
+      setSelectionOnly(false);
+    }
+  }, [open, showGrid]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport({
+        format,
+        scale,
+        includeGrid,
+        // PDF pages are always printed on white.
+        transparentBackground: format !== 'pdf' && transparentBackground,
+        selectionOnly: hasSelection && selectionOnly
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const options = [
+    { id: 'export-grid', label: 'Include grid', checked: includeGrid, onChange: setIncludeGrid, disabled: false },
+    {
+      id: 'export-transparent',
+      label: 'Transparent background',
+      checked: format !== 'pdf' && transparentBackground,
+      onChange: setTransparentBackground,
+      disabled: format === 'pdf'
+    },
+    {
+      id: 'export-selection',
+      label: 'Selection only',
+      checked: hasSelection && selectionOnly,
+      onChange: setSelectionOnly,
+      disabled: !hasSelection
+    }
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={nextOpen => !nextOpen && !isExporting && onClose()}>
+      <DialogContent className="sm:max-w-[420px] bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 shadow-xl rounded-xl">
+        <DialogHeader>
+          <DialogTitle>Export Image</DialogTitle>
+          <DialogDescription>
+            Render the current layout as an image. Zoom and pan do not affect the result.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <div className="flex gap-1">
+              {MAP_IMAGE_FORMATS.map(option => (
+                <button key={option.id} onClick={() => setFormat(option.id)} className={toggleClassName(format === option.id)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">{FORMAT_DESCRIPTIONS[format]}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scale</Label>
+            <div className="flex gap-1">
+              {MAP_EXPORT_SCALES.map(option => (
+                <button key={option} onClick={() => setScale(option)} className={toggleClassName(scale === option)}>
+                  {option}x
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {options.map(option => (
+              <div key={option.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={option.id}
+                  checked={option.checked}
+                  disabled={option.disabled}
+                  onCheckedChange={checked => option.onChange(checked === true)}
+                />
+                <Label htmlFor={option.id} className="font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Exporting...
+              </>
+            ) : (
+              'Export'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
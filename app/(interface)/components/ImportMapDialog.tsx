@@ -0,0 +1,50 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog';
+import { Button } from './ui/button';
+
+interface ImportMapDialogProps {
+  /** The name both the imported map and an existing map share; null closes the dialog. */
+  mapName: string | null;
+  /** What a kept copy would be called. */
+  copyName: string;
+  onReplace: () => void;
+  onKeepBoth: () => void;
+  onCancel: () => void;
+}
+
+export function ImportMapDialog({
+  mapName,
+  copyName,
+  onReplace,
+  onKeepBoth,
+  onCancel
+}: ImportMapDialogProps) {
+  return (
+    <Dialog open={mapName !== null} onOpenChange={open => !open && onCancel()}>
+      <DialogContent className="sm:max-w-[440px] bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 shadow-xl rounded-xl">
+        <DialogHeader>
+          <DialogTitle>A map named &quot;{mapName}&quot; already exists</DialogTitle>
+          <DialogDescription>
+            Replace its content with the imported file, or keep both and import it as &quot;{copyName}&quot;.
+            Replacing saves the current map, folder data included, as a version first.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={onReplace}>
+            Replace
+          </Button>
+          <Button onClick={onKeepBoth}>Keep both</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
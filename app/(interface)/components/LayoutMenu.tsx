@@ -1,6 +1,6 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Orbit, GitBranch, PieChart, Zap, FolderOpen } from 'lucide-react';
+import { Orbit, GitBranch, PieChart, Zap, FolderOpen, LayoutGrid } from 'lucide-react';
 
 interface LayoutMenuProps {
   isOpen: boolean;
@@ -59,6 +59,17 @@ export function LayoutMenu({ isOpen, onSelect, selectedLayout }: LayoutMenuProps
           icon: <FolderOpen size={16} />
         }
       ]
+    },
+    {
+      title: "Storage Analysis",
+      options: [
+        {
+          id: 'treemap',
+          label: 'Treemap',
+          description: 'Nested rectangles sized by storage or file count',
+          icon: <LayoutGrid size={16} />
+        }
+      ]
     }
   ];
 
@@ -6,10 +6,11 @@ interface MenuItemProps {
   tooltip: string;
   onClick?: () => void;
   isActive?: boolean;
+  disabled?: boolean;
   children?: React.ReactNode;
 }
 
-export function MenuItem({ icon: Icon, tooltip, onClick, isActive, children }: MenuItemProps) {
+export function MenuItem({ icon: Icon, tooltip, onClick, isActive, disabled, children }: MenuItemProps) {
   const [isHovered, setIsHovered] = useState(false);
 
   return (
@@ -21,9 +22,10 @@ export function MenuItem({ icon: Icon, tooltip, onClick, isActive, children }: M
       >
         <button
           onClick={onClick}
+          disabled={disabled}
           className={`
             relative w-10 h-10 flex items-center justify-center rounded-lg
-            transition-all duration-200 hover:bg-accent
+            transition-all duration-200 hover:bg-accent disabled:opacity-40 disabled:pointer-events-none
             ${isActive ? 'bg-accent text-accent-foreground' : 'text-muted-foreground hover:text-foreground'}
           `}
         >
@@ -1,40 +1,82 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 
+import { CleanupPanel } from './CleanupPanel';
 import { EditMapDialog } from './EditMapDialog';
 import { CollapsedSidebar } from './right-sidebar/CollapsedSidebar';
 import { ExpandedSidebar } from './right-sidebar/ExpandedSidebar';
 import { FolderItem } from './right-sidebar/data';
+import type { SnapshotDiff } from './right-sidebar/data-sources/snapshotDiff';
+import { FOXMAP_EXTENSION, type MapDocument, type MapFolderState } from '@/lib/mapDocuments';
+import type { HistoryCommand } from '../lib/hooks/useCommandHistory';
 import { useFolderManager } from './right-sidebar/useFolderManager';
 
 interface RightSidebarProps {
   isDark: boolean;
   onFolderDataChange?: (folders: FolderItem[]) => void;
-  currentMap: string;
-  existingMaps: string[];
-  onMapChange: (mapName: string) => void;
-  onMapNameUpdate: (oldName: string, newName: string) => void;
+  onSnapshotDiffChange?: (diff: SnapshotDiff | null) => void;
+  showDiffOverlay?: boolean;
+  onToggleDiffOverlay?: () => void;
+  currentMapId: string | null;
+  maps: Array<Pick<MapDocument, 'id' | 'name'>>;
+  onMapChange: (mapId: string) => void;
+  onCreateMap: () => Pick<MapDocument, 'id' | 'name'>;
+  onMapRename: (mapId: string, name: string) => void;
+  folderState?: MapFolderState;
+  onFolderStateChange?: (mapId: string, folderState: MapFolderState) => void;
+  mapRevision?: number;
+  previewFolderState?: MapFolderState | null;
+  onHistoryCommand?: (command: HistoryCommand) => void;
+  onOpenVersionHistory: () => void;
+  onExportMap: () => void;
+  onExportImage: () => void;
+  onImportMap: (file: File) => void;
+  onFindDuplicates: () => void;
+  onOpenSharingReview: () => void;
 }
 
 export function RightSidebar({
   isDark,
   onFolderDataChange,
-  currentMap,
-  existingMaps,
+  onSnapshotDiffChange,
+  showDiffOverlay,
+  onToggleDiffOverlay,
+  currentMapId,
+  maps,
   onMapChange,
-  onMapNameUpdate
+  onCreateMap,
+  onMapRename,
+  folderState: storedFolderState,
+  onFolderStateChange,
+  mapRevision,
+  previewFolderState,
+  onHistoryCommand,
+  onOpenVersionHistory,
+  onExportMap,
+  onExportImage,
+  onImportMap,
+  onFindDuplicates,
+  onOpenSharingReview
 }: RightSidebarProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [showNotifications, setShowNotifications] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
-  const [editingMapName, setEditingMapName] = useState('');
+  const [editingMapId, setEditingMapId] = useState('');
   const [showSuppressedSection, setShowSuppressedSection] = useState(false);
+  const [showCleanupPlan, setShowCleanupPlan] = useState(false);
   const notificationRef = useRef<HTMLDivElement>(null);
   const sidebarRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const {
     folders,
+    baseFolders,
+    mapFolders,
+    snapshotDiff,
+    folderState,
+    folderStateMapId,
+    showFiles,
     suppressedFolders,
     toggleFolder,
     toggleFolderSelection,
@@ -43,8 +85,18 @@ export function RightSidebar({
     hideEverything,
     suppressFolder,
     restoreFolder,
-    restoreAllFolders
-  } = useFolderManager();
+    restoreAllFolders,
+    toggleShowFiles,
+    reloadSnapshots
+  } = useFolderManager({
+    mapId: currentMapId ?? undefined,
+    initialFolderState: storedFolderState,
+    mapRevision,
+    previewFolderState,
+    onHistoryCommand
+  });
+
+  const suppressedIds = useMemo(() => new Set(suppressedFolders.map(folder => folder.id)), [suppressedFolders]);
 
   useEffect(() => {
     if (suppressedFolders.length === 0) {
@@ -54,9 +106,19 @@ export function RightSidebar({
 
   useEffect(() => {
     if (onFolderDataChange) {
-      onFolderDataChange(folders);
+      onFolderDataChange(mapFolders);
+    }
+  }, [mapFolders, onFolderDataChange]);
+
+  useEffect(() => {
+    onSnapshotDiffChange?.(snapshotDiff);
+  }, [snapshotDiff, onSnapshotDiffChange]);
+
+  useEffect(() => {
+    if (folderStateMapId) {
+      onFolderStateChange?.(folderStateMapId, folderState);
     }
-  }, [folders, onFolderDataChange]);
+  }, [folderState, folderStateMapId, onFolderStateChange]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -98,11 +160,27 @@ export function RightSidebar({
     console.log('Navigating to folder:', folder.name);
   };
 
-  const handleEditMap = (map: string) => {
-    setEditingMapName(map);
+  const handleEditMap = (mapId: string) => {
+    setEditingMapId(mapId);
     setEditDialogOpen(true);
   };
 
+  // New maps open straight into the edit dialog so they can be named.
+  const handleCreateMap = () => {
+    const map = onCreateMap();
+    handleEditMap(map.id);
+  };
+
+  const handleImportFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      onImportMap(file);
+    }
+  };
+
+  const editingMapName = maps.find(map => map.id === editingMapId)?.name ?? '';
+
   return (
     <>
       <motion.div
@@ -126,12 +204,23 @@ export function RightSidebar({
             onHelp={handleHelp}
             showNotifications={showNotifications}
             notificationRef={notificationRef}
+            snapshotDiff={snapshotDiff}
+            showDiffOverlay={showDiffOverlay}
+            onToggleDiffOverlay={onToggleDiffOverlay}
           />
         ) : (
           <ExpandedSidebar
-            currentMap={currentMap}
-            existingMaps={existingMaps}
+            currentMapId={currentMapId}
+            maps={maps}
             onMapChange={onMapChange}
+            onCreateMap={handleCreateMap}
+            onOpenVersionHistory={onOpenVersionHistory}
+            onExportMap={onExportMap}
+            onExportImage={onExportImage}
+            onImportMap={() => importInputRef.current?.click()}
+            onFindDuplicates={onFindDuplicates}
+            onOpenCleanupPlan={() => setShowCleanupPlan(true)}
+            onOpenSharingReview={onOpenSharingReview}
             onToggleExpand={toggleExpanded}
             onRefresh={handleRefresh}
             onHelp={handleHelp}
@@ -139,9 +228,14 @@ export function RightSidebar({
             onLogout={handleLogout}
             showNotifications={showNotifications}
             notificationRef={notificationRef}
+            snapshotDiff={snapshotDiff}
+            showDiffOverlay={showDiffOverlay}
+            onToggleDiffOverlay={onToggleDiffOverlay}
             searchQuery={searchQuery}
             onSearchQueryChange={value => setSearchQuery(value)}
             folders={folders}
+            showFiles={showFiles}
+            onToggleShowFiles={toggleShowFiles}
             suppressedFolders={suppressedFolders}
             showSuppressedSection={showSuppressedSection}
             onToggleSuppressedSection={() => setShowSuppressedSection(previous => !previous)}
@@ -159,7 +253,27 @@ export function RightSidebar({
         )}
       </motion.div>
 
+      {showCleanupPlan && (
+        <CleanupPanel
+          className="fixed left-20 top-4 z-50"
+          folders={baseFolders}
+          suppressedIds={suppressedIds}
+          onAccept={suppressFolder}
+          onUnaccept={restoreFolder}
+          onClose={() => setShowCleanupPlan(false)}
+        />
+      )}
+
+      <input
+        ref={importInputRef}
+        type="file"
+        accept={`${FOXMAP_EXTENSION},application/json`}
+        className="hidden"
+        onChange={handleImportFileChange}
+      />
+
       <EditMapDialog
+        mapId={editingMapId}
         mapName={editingMapName}
         currentIntegrations={
           editingMapName === 'My Project Map'
@@ -170,7 +284,8 @@ export function RightSidebar({
                 ? ['Notion']
                 : []
         }
-        onMapNameUpdate={onMapNameUpdate}
+        onMapNameUpdate={(_oldName, newName) => onMapRename(editingMapId, newName)}
+        onSnapshotsChange={reloadSnapshots}
         open={editDialogOpen}
         onOpenChange={setEditDialogOpen}
       />
@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Eye, EyeOff, File, Folder, Users, X } from 'lucide-react';
+
+import { formatCount } from '../lib/utils/format';
+import { downloadCsv, toCsv } from '../lib/utils/csv';
+import { getTimestamp } from '../lib/utils/download';
+import { SHARING_COLORS, SHARING_LABELS } from '../lib/mapUtils/sharingOverlay';
+import { EXPOSURE_LEVELS, type SharingItem, type SharingReport } from '@/lib/mapData';
+
+const ITEM_PAGE_SIZE = 50;
+
+type SharingList = 'shared' | 'foreign';
+
+/** Shared folders and foreign-owned items in one sheet, each listed once. */
+const buildReviewCsv = (report: SharingReport): string => {
+  const items = new Map<string, SharingItem>();
+  [...report.sharedFolders, ...report.foreignOwned].forEach(item => items.set(item.id, item));
+
+  return toCsv(
+    ['Path', 'Type', 'Exposure', 'People with access', 'Owner', 'Other owner'],
+    Array.from(items.values()).map(item => [
+      item.path.join(' / '),
+      item.type,
+      SHARING_LABELS[item.exposure],
+      item.permissionsCount,
+      item.owner ?? '',
+      item.isForeignOwner ? 'yes' : 'no'
+    ])
+  );
+};
+
+interface SharingPanelProps {
+  report: SharingReport;
+  showOverlay: boolean;
+  onToggleOverlay: () => void;
+  onAccountOwnerChange: (owner: string) => void;
+  /** Files are found through their folder when the layout doesn't draw them. */
+  onFocusItem: (itemId: string, folderId: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export const SharingPanel: React.FC<SharingPanelProps> = ({
+  report,
+  showOverlay,
+  onToggleOverlay,
+  onAccountOwnerChange,
+  onFocusItem,
+  onClose,
+  className = ''
+}) => {
+  const [list, setList] = useState<SharingList>('shared');
+  const [visibleCount, setVisibleCount] = useState(ITEM_PAGE_SIZE);
+
+  const listOptions = useMemo(
+    () => [
+      { id: 'shared' as const, label: 'Most shared', count: report.sharedFolders.length },
+      { id: 'foreign' as const, label: 'Other owners', count: report.foreignOwned.length }
+    ],
+    [report]
+  );
+
+  const items = list === 'shared' ? report.sharedFolders : report.foreignOwned;
+  const hasSharingData = report.unknownCount < report.byId.size;
+
+  const handleListChange = (next: SharingList) => {
+    setList(next);
+    setVisibleCount(ITEM_PAGE_SIZE);
+  };
+
+  const renderItem = (item: SharingItem) => (
+    <li key={item.id}>
+      <button
+        onClick={() => onFocusItem(item.id, item.parentId)}
+        title="Show on the map"
+        className="flex w-full items-start gap-2 px-3 py-2 text-left hover:bg-accent"
+      >
+        <span
+          className="mt-1.5 inline-block h-2.5 w-2.5 shrink-0 rounded-full"
+          style={{ backgroundColor: SHARING_COLORS[item.exposure] }}
+          title={SHARING_LABELS[item.exposure]}
+        />
+        <span className="min-w-0 flex-1">
+          <span className="flex items-center gap-1.5">
+            {item.type === 'folder' ? (
+              <Folder size={12} className="shrink-0 text-muted-foreground" />
+            ) : (
+              <File size={12} className="shrink-0 text-muted-foreground" />
+            )}
+            <span className="truncate text-sm font-medium">{item.name}</span>
+          </span>
+          <span className="block truncate text-xs text-muted-foreground" title={item.path.join(' / ')}>
+            {item.path.join(' / ')}
+          </span>
+          <span className="block text-xs text-muted-foreground">
+            {formatCount(item.permissionsCount, 'person', 'people')} with access
+            {item.owner && ` · ${item.isForeignOwner ? 'owned by' : 'owner'} ${item.owner}`}
+          </span>
+        </span>
+      </button>
+    </li>
+  );
+
+  return (
+    <div
+      className={`flex w-96 flex-col rounded-xl border border-border bg-popover shadow-lg ${className}`.trim()}
+      onMouseDown={event => event.stopPropagation()}
+    >
+      <div className="flex items-center justify-between border-b border-border p-3">
+        <div className="flex min-w-0 items-center gap-2">
+          <Users size={16} className="shrink-0 text-muted-foreground" />
+          <h4 className="truncate text-sm font-medium">Sharing Review</h4>
+        </div>
+        <button onClick={onClose} className="text-muted-foreground hover:text-foreground">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="space-y-2 border-b border-border p-3">
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+          {EXPOSURE_LEVELS.map(level => (
+            <span key={level} className="flex items-center gap-1">
+              <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: SHARING_COLORS[level] }} />
+              {SHARING_LABELS[level]} {report.counts[level]}
+            </span>
+          ))}
+        </div>
+
+        {report.owners.length > 0 && (
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Account holder
+            <select
+              value={report.accountOwner ?? ''}
+              onChange={event => onAccountOwnerChange(event.target.value)}
+              className="min-w-0 flex-1 rounded-md border border-border bg-background px-2 py-1 text-xs text-foreground"
+            >
+              {report.owners.map(({ owner, count }) => (
+                <option key={owner} value={owner}>
+                  {owner} ({count})
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {report.listedFileCount === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Only folders are reviewed. Turn on files in the sidebar to include them.
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-1 text-xs">
+          {listOptions.map(option => (
+            <button
+              key={option.id}
+              onClick={() => handleListChange(option.id)}
+              className={`rounded px-2 py-1 transition-colors ${
+                list === option.id
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+              }`}
+            >
+              {option.label} {option.count}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1 text-xs">
+          <button
+            onClick={onToggleOverlay}
+            disabled={!hasSharingData}
+            className="flex items-center gap-2 rounded px-2 py-1 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+          >
+            {showOverlay ? <EyeOff size={14} /> : <Eye size={14} />}
+            {showOverlay ? 'Clear map colors' : 'Color the map by exposure'}
+          </button>
+          <button
+            onClick={() => downloadCsv(buildReviewCsv(report), `sharing-review-${getTimestamp()}.csv`)}
+            disabled={report.sharedFolders.length === 0 && report.foreignOwned.length === 0}
+            className="flex items-center gap-2 rounded px-2 py-1 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+          >
+            <Download size={14} />
+            Download CSV
+          </button>
+        </div>
+      </div>
+
+      {!hasSharingData ? (
+        <div className="py-6 text-center text-sm text-muted-foreground">None of these sources record sharing</div>
+      ) : items.length === 0 ? (
+        <div className="py-6 text-center text-sm text-muted-foreground">
+          {list === 'shared' ? 'No shared folders' : 'Everything belongs to the account holder'}
+        </div>
+      ) : (
+        <ul className="max-h-[50vh] overflow-y-auto">
+          {items.slice(0, visibleCount).map(renderItem)}
+          {items.length > visibleCount && (
+            <li className="p-2 text-center">
+              <button
+                onClick={() => setVisibleCount(count => count + ITEM_PAGE_SIZE)}
+                className="rounded px-2 py-1 text-xs text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+              >
+                Show {Math.min(ITEM_PAGE_SIZE, items.length - visibleCount)} more
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ import {
   Square,
   Type,
   Undo,
+  Redo,
   Sun,
   Moon,
   Circle,
@@ -40,6 +41,10 @@ interface SidebarProps {
   selectedLayout: string | null;
   onPaletteSelect: (paletteId: string) => void;
   selectedPaletteId: string;
+  onUndo: () => void;
+  onRedo: () => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
 }
 
 export function Sidebar({
@@ -59,6 +64,10 @@ export function Sidebar({
   selectedLayout,
   onPaletteSelect,
   selectedPaletteId,
+  onUndo,
+  onRedo,
+  undoLabel,
+  redoLabel,
 }: SidebarProps) {
   const [activeSubmenu, setActiveSubmenu] = useState<string | null>(null);
   const [showLogoTooltip, setShowLogoTooltip] = useState(false);
@@ -235,7 +244,7 @@ export function Sidebar({
 
       {/* Menu Items */}
       <div className="flex-1 flex flex-col items-center py-4 gap-2">
-        <MenuItem icon={Move} tooltip="Center map" onClick={onCenterMap} />
+        <MenuItem icon={Move} tooltip="Center and fit map" onClick={onCenterMap} />
 
         <div className="relative">
           <MenuItem
@@ -303,7 +312,18 @@ export function Sidebar({
 
       {/* Footer */}
       <div className="flex flex-col items-center gap-2 p-4 border-t border-border">
-        <MenuItem icon={Undo} tooltip="Undo" onClick={() => console.log("Undo")} />
+        <MenuItem
+          icon={Undo}
+          tooltip={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : "Nothing to undo"}
+          onClick={onUndo}
+          disabled={!undoLabel}
+        />
+        <MenuItem
+          icon={Redo}
+          tooltip={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : "Nothing to redo"}
+          onClick={onRedo}
+          disabled={!redoLabel}
+        />
 
         <div className="relative">
           <MenuItem
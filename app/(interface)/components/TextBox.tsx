@@ -261,6 +261,7 @@ export function TextBox({
     return (
       <div
         ref={containerRef}
+        data-map-element={id}
         className={`absolute select-none ${format.isLocked ? 'cursor-default' : 
             isDragging ? 'cursor-grabbing' : 
             format.link ? 'cursor-pointer' : 'cursor-grab'}`}
@@ -389,6 +390,7 @@ export function TextBox({
     return (
       <div
         ref={containerRef}
+        data-map-element={id}
         className={`absolute select-none ${format.isLocked ? 'cursor-default' : 
             isDragging ? 'cursor-grabbing' : 
             format.link ? 'cursor-pointer' : 'cursor-grab'}`}
@@ -545,6 +547,7 @@ export function TextBox({
     return (
       <div
         ref={containerRef}
+        data-map-element={id}
         className={`absolute select-none ${format.isLocked ? 'cursor-default' : 
             isDragging ? 'cursor-grabbing' : 
             format.link ? 'cursor-pointer' : 'cursor-grab'}`}
@@ -699,6 +702,7 @@ export function TextBox({
   return (
     <div
       ref={containerRef}
+      data-map-element={id}
       className={`absolute select-none ${format.isLocked ? 'cursor-default' : 
           isDragging ? 'cursor-grabbing' : 
           format.link ? 'cursor-pointer' : 'cursor-grab'}`}
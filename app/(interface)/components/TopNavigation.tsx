@@ -64,6 +64,7 @@ export function TopNavigation({
       "/assets/google-drive-logo.png",
       "/assets/notion-logo.png",
       "/assets/onedrive-logo.png",
+      "/assets/local-files.svg",
     ];
     logos.forEach((src) => {
       const img = new Image();
@@ -76,6 +77,7 @@ export function TopNavigation({
     OneDrive: "/assets/onedrive-logo.png",
     Dropbox: "/assets/dropbox-logo.png",
     "Google Drive": "/assets/google-drive-logo.png",
+    "Local Files": "/assets/local-files.svg",
   };
 
   const flattenFolders = (
@@ -277,7 +279,7 @@ export function TopNavigation({
                     </button>
                   </TooltipTrigger>
                   <TooltipContent>
-                    <p>Center Map</p>
+                    <p>Center and fit map</p>
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
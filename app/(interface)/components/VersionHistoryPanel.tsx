@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Copy, Eye, EyeOff, History, RotateCcw, Trash2, X } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { formatSize } from '../lib/utils/format';
+import type { MapVersion } from '@/lib/mapDocuments';
+
+interface VersionHistoryPanelProps {
+  mapName: string;
+  versions: MapVersion[];
+  storageSize: number;
+  previewVersionId: string | null;
+  onSaveVersion: (name: string) => void;
+  onPreviewVersion: (versionId: string | null) => void;
+  onRestoreVersion: (versionId: string) => void;
+  onForkVersion: (versionId: string) => void;
+  onDeleteVersion: (versionId: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  mapName,
+  versions,
+  storageSize,
+  previewVersionId,
+  onSaveVersion,
+  onPreviewVersion,
+  onRestoreVersion,
+  onForkVersion,
+  onDeleteVersion,
+  onClose,
+  className = ''
+}) => {
+  const [versionName, setVersionName] = useState('');
+  const timeline = [...versions].reverse();
+  const previewVersion = versions.find(version => version.id === previewVersionId);
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSaveVersion(versionName.trim() || `Version ${versions.length + 1}`);
+    setVersionName('');
+  };
+
+  return (
+    <div
+      className={`flex w-80 flex-col rounded-xl border border-border bg-popover shadow-lg ${className}`.trim()}
+      onMouseDown={event => event.stopPropagation()}
+    >
+      <div className="flex items-center justify-between border-b border-border p-3">
+        <div className="flex min-w-0 items-center gap-2">
+          <History size={16} className="shrink-0 text-muted-foreground" />
+          <h4 className="truncate text-sm font-medium">Version history · {mapName}</h4>
+        </div>
+        <button onClick={onClose} className="text-muted-foreground hover:text-foreground">
+          <X size={16} />
+        </button>
+      </div>
+
+      <form onSubmit={handleSave} className="flex gap-2 border-b border-border p-3">
+        <Input
+          value={versionName}
+          onChange={event => setVersionName(event.target.value)}
+          placeholder={`Version ${versions.length + 1}`}
+          className="h-8 text-sm"
+        />
+        <Button type="submit" size="sm">
+          Save
+        </Button>
+      </form>
+
+      {previewVersion && (
+        <div className="space-y-2 border-b border-border bg-accent/50 p-3 text-xs">
+          <div>
+            Previewing <span className="font-medium">{previewVersion.name}</span> (read-only)
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => onRestoreVersion(previewVersion.id)}>
+              Restore
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => onForkVersion(previewVersion.id)}>
+              Fork
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => onPreviewVersion(null)}>
+              Exit preview
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {timeline.length === 0 ? (
+        <div className="py-6 text-center text-sm text-muted-foreground">No saved versions yet</div>
+      ) : (
+        <ol className="max-h-[50vh] overflow-y-auto p-3">
+          {timeline.map(version => {
+            const isPreviewed = version.id === previewVersionId;
+
+            return (
+              <li key={version.id} className="relative border-l border-border pb-4 pl-4 last:pb-0">
+                <span
+                  className={`absolute -left-[5px] top-1 h-2.5 w-2.5 rounded-full border border-background ${
+                    isPreviewed ? 'bg-primary' : 'bg-muted-foreground'
+                  }`}
+                />
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="truncate text-sm font-medium">{version.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {version.author} · {new Date(version.createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-0.5">
+                    <button
+                      onClick={() => onPreviewVersion(isPreviewed ? null : version.id)}
+                      title={isPreviewed ? 'Exit preview' : 'Preview on the canvas'}
+                      className={`rounded p-1 transition-colors ${
+                        isPreviewed
+                          ? 'bg-primary text-primary-foreground'
+                          : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                      }`}
+                    >
+                      {isPreviewed ? <EyeOff size={14} /> : <Eye size={14} />}
+                    </button>
+                    <button
+                      onClick={() => onRestoreVersion(version.id)}
+                      title="Restore this version"
+                      className="rounded p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
+                    >
+                      <RotateCcw size={14} />
+                    </button>
+                    <button
+                      onClick={() => onForkVersion(version.id)}
+                      title="Fork into a new map"
+                      className="rounded p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
+                    >
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={() => onDeleteVersion(version.id)}
+                      title="Delete version"
+                      className="rounded p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-destructive"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <div className="border-t border-border px-3 py-2 text-xs text-muted-foreground">
+        {versions.length} {versions.length === 1 ? 'version' : 'versions'} · {formatSize(storageSize)} stored
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+
+import type { FolderItem } from '../right-sidebar/data';
+import {
+  ACTIVITY_BANDS,
+  DEFAULT_ACTIVITY_THRESHOLDS,
+  buildActivityEntries,
+  classifyActivity,
+  normalizeActivityThresholds,
+  type ActivityBand,
+  type ActivityThresholds,
+  type ClassifiedActivityEntry,
+} from '@/lib/mapData';
+import { shiftColor } from '@/app/(interface)/lib/utils/colors';
+import { getServiceColor } from '@/app/(interface)/lib/mapUtils/palettes';
+import { formatSize } from '@/app/(interface)/lib/utils/format';
+
+interface BandStyle {
+  label: string;
+  color: string;
+}
+
+const BAND_STYLES: Record<ActivityBand, BandStyle> = {
+  hot: { label: 'Hot', color: '#ef4444' },
+  warm: { label: 'Warm', color: '#f59e0b' },
+  cold: { label: 'Cold', color: '#3b82f6' },
+  dormant: { label: 'Dormant', color: '#64748b' },
+};
+
+const THRESHOLD_FIELDS: Array<{ key: keyof ActivityThresholds; label: string }> = [
+  { key: 'hotDays', label: 'Hot ≤' },
+  { key: 'warmDays', label: 'Warm ≤' },
+  { key: 'coldDays', label: 'Cold ≤' },
+];
+
+const MAX_SCORE = 100;
+const COLLAPSED_BAND_LIMIT = 24;
+const COLUMN_WIDTH = 260;
+
+const describeBandRange = (band: ActivityBand, thresholds: ActivityThresholds): string => {
+  switch (band) {
+    case 'hot':
+      return `Changed in the last ${thresholds.hotDays} days`;
+    case 'warm':
+      return `${thresholds.hotDays + 1}–${thresholds.warmDays} days`;
+    case 'cold':
+      return `${thresholds.warmDays + 1}–${thresholds.coldDays} days`;
+    default:
+      return `Untouched for over ${thresholds.coldDays} days`;
+  }
+};
+
+const describeAge = (ageInDays: number | null): string => {
+  if (ageInDays === null) return 'No modification date';
+  if (ageInDays === 0) return 'Modified today';
+  if (ageInDays < 60) return `Modified ${ageInDays} days ago`;
+  if (ageInDays < 730) return `Modified ${Math.round(ageInDays / 30)} months ago`;
+  return `Modified ${(ageInDays / 365).toFixed(1)} years ago`;
+};
+
+const describePath = (path: string[]): string => {
+  const parents = path.slice(0, -1);
+  if (parents.length <= 2) return parents.join(' / ');
+  return `${parents[0]} / … / ${parents[parents.length - 1]}`;
+};
+
+interface ActivityFoldersMapProps {
+  folders: FolderItem[];
+  colorPaletteId?: string;
+  thresholds?: ActivityThresholds;
+}
+
+export const ActivityFoldersMap: React.FC<ActivityFoldersMapProps> = ({
+  folders,
+  colorPaletteId,
+  thresholds: initialThresholds = DEFAULT_ACTIVITY_THRESHOLDS,
+}) => {
+  const [thresholds, setThresholds] = useState<ActivityThresholds>(initialThresholds);
+  const [expandedBands, setExpandedBands] = useState<Set<ActivityBand>>(new Set());
+
+  const entries = useMemo(() => buildActivityEntries(folders), [folders]);
+  const normalizedThresholds = useMemo(() => normalizeActivityThresholds(thresholds), [thresholds]);
+  const classification = useMemo(
+    () => classifyActivity(entries, normalizedThresholds),
+    [entries, normalizedThresholds],
+  );
+
+  const handleThresholdChange = (key: keyof ActivityThresholds, value: string) => {
+    const parsed = Number(value);
+    if (Number.isNaN(parsed)) {
+      return;
+    }
+    setThresholds(previous => ({ ...previous, [key]: parsed }));
+  };
+
+  const toggleBand = (band: ActivityBand) => {
+    setExpandedBands(previous => {
+      const next = new Set(previous);
+      if (next.has(band)) next.delete(band);
+      else next.add(band);
+      return next;
+    });
+  };
+
+  if (!entries.length) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-muted-foreground text-sm">
+        Select folders with activity data to group them by recent activity.
+      </div>
+    );
+  }
+
+  const referenceLabel = classification.referenceTime
+    ? new Date(classification.referenceTime).toLocaleDateString()
+    : 'unknown';
+
+  return (
+    <div className="w-full h-full flex items-start justify-center pt-16">
+      <div className="flex flex-col gap-4" onMouseDown={event => event.stopPropagation()}>
+        <div
+          className="flex flex-wrap items-center gap-3 rounded-md border border-border bg-background/90 px-3 py-2 text-xs shadow-sm"
+          data-export-ignore
+        >
+          <span className="text-muted-foreground">Ages relative to latest change ({referenceLabel})</span>
+          {THRESHOLD_FIELDS.map(field => (
+            <label key={field.key} className="flex items-center gap-1">
+              <span>{field.label}</span>
+              <input
+                type="number"
+                min={0}
+                value={thresholds[field.key]}
+                onChange={event => handleThresholdChange(field.key, event.target.value)}
+                onBlur={() => setThresholds(normalizedThresholds)}
+                className="w-16 rounded border border-border bg-background px-1.5 py-0.5 text-right"
+              />
+              <span className="text-muted-foreground">days</span>
+            </label>
+          ))}
+          <button
+            onClick={() => setThresholds(DEFAULT_ACTIVITY_THRESHOLDS)}
+            className="rounded px-2 py-1 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
+          >
+            Reset
+          </button>
+        </div>
+
+        <div className="flex items-start gap-4">
+          {ACTIVITY_BANDS.map(band => {
+            const style = BAND_STYLES[band];
+            const bandEntries = classification.bands[band];
+            const isBandExpanded = expandedBands.has(band);
+            const visibleEntries = isBandExpanded
+              ? bandEntries
+              : bandEntries.slice(0, COLLAPSED_BAND_LIMIT);
+            const hiddenCount = bandEntries.length - visibleEntries.length;
+            const bandSize = bandEntries.reduce((total, entry) => total + entry.totalSize, 0);
+
+            return (
+              <section
+                key={band}
+                className="flex flex-col rounded-xl border border-border bg-background/95 shadow-sm"
+                style={{ width: COLUMN_WIDTH, borderTop: `4px solid ${style.color}` }}
+              >
+                <header className="border-b border-border px-3 py-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-semibold">{style.label}</h3>
+                    <span
+                      className="rounded-full px-2 py-0.5 text-xs font-medium"
+                      style={{ backgroundColor: shiftColor(style.color, 0.8), color: style.color }}
+                    >
+                      {bandEntries.length}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {describeBandRange(band, normalizedThresholds)} · {formatSize(bandSize)}
+                  </p>
+                </header>
+
+                <div className="flex flex-col gap-2 p-2">
+                  {visibleEntries.length === 0 && (
+                    <p className="py-4 text-center text-xs text-muted-foreground">No folders</p>
+                  )}
+                  {visibleEntries.map(entry => (
+                    <ActivityTile
+                      key={entry.id}
+                      entry={entry}
+                      bandColor={style.color}
+                      serviceColor={getServiceColor(entry.serviceId, colorPaletteId)}
+                    />
+                  ))}
+                  {bandEntries.length > COLLAPSED_BAND_LIMIT && (
+                    <button
+                      onClick={() => toggleBand(band)}
+                      className="rounded-md py-1 text-xs text-primary transition-colors hover:bg-accent"
+                    >
+                      {isBandExpanded ? 'Show less' : `Show ${hiddenCount} more`}
+                    </button>
+                  )}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ActivityTileProps {
+  entry: ClassifiedActivityEntry;
+  bandColor: string;
+  serviceColor: string;
+}
+
+const ActivityTile: React.FC<ActivityTileProps> = ({ entry, bandColor, serviceColor }) => {
+  const scoreRatio = Math.min(1, Math.max(0, entry.activityScore / MAX_SCORE));
+  const parentPath = describePath(entry.path);
+
+  return (
+    <div
+      data-node-id={entry.id}
+      className="rounded-md border border-border px-2.5 py-2 text-xs"
+      style={{ borderLeft: `3px solid ${serviceColor}` }}
+      title={entry.path.join(' / ')}
+    >
+      <div className="truncate text-sm font-medium">{entry.name}</div>
+      {parentPath && <div className="truncate text-muted-foreground">{parentPath}</div>}
+      <div className="mt-1 flex items-center justify-between text-muted-foreground">
+        <span>{describeAge(entry.ageInDays)}</span>
+        <span>{formatSize(entry.totalSize)}</span>
+      </div>
+      <div className="mt-1.5 flex items-center gap-2">
+        <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+          <div
+            className="h-full rounded-full"
+            style={{ width: `${scoreRatio * 100}%`, backgroundColor: bandColor }}
+          />
+        </div>
+        <span className="w-6 text-right tabular-nums text-muted-foreground">{entry.activityScore}</span>
+      </div>
+    </div>
+  );
+};
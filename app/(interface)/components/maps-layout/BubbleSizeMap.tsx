@@ -1,12 +1,17 @@
 import React, { useEffect, useMemo, useState } from 'react';
 
 import type { FolderItem } from '../right-sidebar/data';
+import type { SnapshotDiff } from '../right-sidebar/data-sources/snapshotDiff';
+import { DiffLegend } from './DiffLegend';
+import { DuplicateLegend } from './DuplicateLegend';
+import { SharingLegend } from './SharingLegend';
 import {
   buildBubbleNodes,
   buildBubbleTree,
   type BubbleNode,
   type BubbleTree,
   type BubbleTreeNode,
+  type SharingReport,
 } from '@/lib/mapData';
 import { handleNodeDoubleClick } from '@/app/(interface)/lib/mapUtils/interactions';
 import {
@@ -14,6 +19,30 @@ import {
   getReadableTextColor,
   shiftColor,
 } from '@/app/(interface)/lib/utils/colors';
+import { getServiceColor } from '@/app/(interface)/lib/mapUtils/palettes';
+import { packSiblings } from '@/app/(interface)/lib/mapUtils/circlePacking';
+import { formatSize } from '@/app/(interface)/lib/utils/format';
+import {
+  DIFF_UNCHANGED_OPACITY,
+  formatSizeDelta,
+  getChangeColor,
+} from '@/app/(interface)/lib/mapUtils/diffOverlay';
+import {
+  DUPLICATE_COLORS,
+  DUPLICATE_LABELS,
+  DUPLICATE_UNMATCHED_OPACITY,
+  type DuplicateHighlight,
+} from '@/app/(interface)/lib/mapUtils/duplicateOverlay';
+import {
+  FOREIGN_OWNER_COLOR,
+  SHARING_COLORS,
+  getSharingCategory,
+  getSharingTitle,
+  isForeignOwned,
+} from '@/app/(interface)/lib/mapUtils/sharingOverlay';
+
+export type BubbleViewMode = 'pack' | 'tree';
+export type BubbleScale = 'linear' | 'sqrt' | 'log';
 
 interface PositionedBubble extends BubbleNode {
   radius: number;
@@ -35,31 +64,62 @@ interface BubbleLayoutResult {
   height: number;
 }
 
+interface PackedBubble {
+  node: BubbleTreeNode;
+  x: number;
+  y: number;
+  r: number;
+  depth: number;
+}
+
+interface PackLayoutNode {
+  node: BubbleTreeNode;
+  x: number;
+  y: number;
+  r: number;
+  children: PackLayoutNode[];
+}
+
+interface PackLayoutResult {
+  bubbles: PackedBubble[];
+  bubbleMap: Map<string, PackedBubble>;
+}
+
 const MIN_RADIUS = 48;
 const MAX_RADIUS = 160;
 const BUBBLE_SPACING = 12;
 const CONTAINER_PADDING = 48;
-
-const formatSize = (bytes: number): string => {
-  if (bytes <= 0) {
-    return '0 KB';
-  }
-
-  const units = ['KB', 'MB', 'GB', 'TB'];
-  let size = bytes / 1024;
-  let unitIndex = 0;
-
-  while (size >= 1024 && unitIndex < units.length - 1) {
-    size /= 1024;
-    unitIndex++;
-  }
-
-  const formatted = size >= 10 ? Math.round(size) : Number(size.toFixed(1));
-  return `${formatted} ${units[unitIndex]}`;
+const PACK_RADIUS = 420;
+const PACK_GAP_RATIO = 0.04;
+const PACK_ROOT_ID = '__bubble-pack-root__';
+const PACK_MIN_LABEL_RADIUS = 28;
+const PACK_LABEL_FONT_SIZE = 12;
+
+const VIEW_MODE_OPTIONS: Array<{ id: BubbleViewMode; label: string }> = [
+  { id: 'pack', label: 'Packed' },
+  { id: 'tree', label: 'Tree' },
+];
+
+const SCALE_OPTIONS: Array<{ id: BubbleScale; label: string }> = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'sqrt', label: 'Sqrt' },
+  { id: 'log', label: 'Log' },
+];
+
+// Applied to sizes before they become bubble areas, so a handful of huge
+// folders do not shrink everything else to specks.
+const SCALE_TRANSFORMS: Record<BubbleScale, (size: number) => number> = {
+  linear: size => size,
+  sqrt: size => Math.sqrt(size),
+  log: size => Math.log1p(size),
 };
 
-const computeRadiusScale = (data: BubbleNode[]): ((size: number) => number) => {
-  const sizes = data.map(item => item.size).filter(size => size > 0);
+const computeRadiusScale = (
+  data: BubbleNode[],
+  scale: BubbleScale,
+): ((size: number) => number) => {
+  const transform = SCALE_TRANSFORMS[scale];
+  const sizes = data.map(item => item.size).filter(size => size > 0).map(transform);
   if (sizes.length === 0) {
     return () => MIN_RADIUS * 0.6;
   }
@@ -75,19 +135,23 @@ const computeRadiusScale = (data: BubbleNode[]): ((size: number) => number) => {
     if (size <= 0) {
       return MIN_RADIUS * 0.6;
     }
-    const normalized = (size - minSize) / (maxSize - minSize);
+    const normalized = (transform(size) - minSize) / (maxSize - minSize);
     return MIN_RADIUS + normalized * (MAX_RADIUS - MIN_RADIUS);
   };
 };
 
-const layoutBubbles = (tree: BubbleTree, expandedNodes: Set<string>): BubbleLayoutResult => {
+const layoutBubbles = (
+  tree: BubbleTree,
+  expandedNodes: Set<string>,
+  scale: BubbleScale,
+): BubbleLayoutResult => {
   const { roots, nodeMap } = tree;
 
   if (!roots.length) {
     return { bubbles: [], connections: [], width: 0, height: 0 };
   }
 
-  const scaleRadius = computeRadiusScale(Array.from(nodeMap.values()));
+  const scaleRadius = computeRadiusScale(Array.from(nodeMap.values()), scale);
 
   const depthSpacing = MAX_RADIUS * 1.5;
   const horizontalSpacing = MAX_RADIUS + BUBBLE_SPACING * 2;
@@ -190,15 +254,122 @@ const layoutBubbles = (tree: BubbleTree, expandedNodes: Set<string>): BubbleLayo
   };
 };
 
-interface BubbleSizeMapProps {
-  folders: FolderItem[];
+
+const buildPackRootNode = (tree: BubbleTree): BubbleTreeNode => ({
+  id: PACK_ROOT_ID,
+  name: 'All services',
+  size: tree.roots.reduce((total, node) => total + node.size, 0),
+  fileCount: tree.roots.reduce((total, node) => total + node.fileCount, 0),
+  depth: -1,
+  parentId: null,
+  serviceId: null,
+  type: 'folder',
+  children: tree.roots,
+});
+
+const buildPackNode = (node: BubbleTreeNode, scale: BubbleScale): PackLayoutNode => {
+  const ownRadius = Math.sqrt(SCALE_TRANSFORMS[scale](node.size));
+  const children = node.children.map(child => buildPackNode(child, scale));
+
+  if (!children.length) {
+    return { node, x: 0, y: 0, r: ownRadius, children };
+  }
+
+  // Siblings are inflated by a small gap while packing so they never touch,
+  // then the parent grows to enclose them with the same margin.
+  const gap = children[0].r * PACK_GAP_RATIO;
+  children.forEach(child => {
+    child.r += gap;
+  });
+  const enclosingRadius = packSiblings(children);
+  children.forEach(child => {
+    child.r -= gap;
+  });
+
+  // A folder whose own files outweigh its subfolders keeps the area its size
+  // calls for instead of shrinking to fit its children.
+  return { node, x: 0, y: 0, r: Math.max(ownRadius, enclosingRadius + gap), children };
+};
+
+const layoutPackedBubbles = (tree: BubbleTree, scale: BubbleScale): PackLayoutResult => {
+  const bubbles: PackedBubble[] = [];
+  const bubbleMap = new Map<string, PackedBubble>();
+
+  if (!tree.roots.length) {
+    return { bubbles, bubbleMap };
+  }
+
+  const root = buildPackNode(buildPackRootNode(tree), scale);
+  const k = PACK_RADIUS / root.r;
+
+  const place = (layoutNode: PackLayoutNode, offsetX: number, offsetY: number, depth: number) => {
+    const bubble: PackedBubble = {
+      node: layoutNode.node,
+      x: (offsetX + layoutNode.x) * k,
+      y: (offsetY + layoutNode.y) * k,
+      r: layoutNode.r * k,
+      depth,
+    };
+
+    bubbles.push(bubble);
+    bubbleMap.set(layoutNode.node.id, bubble);
+
+    layoutNode.children.forEach(child =>
+      place(child, offsetX + layoutNode.x, offsetY + layoutNode.y, depth + 1),
+    );
+  };
+
+  place(root, 0, 0, -1);
+  return { bubbles, bubbleMap };
+};
+
+interface BubbleViewProps {
+  tree: BubbleTree;
+  scale: BubbleScale;
   colorPaletteId?: string;
+  diff?: SnapshotDiff | null;
+  duplicates?: DuplicateHighlight | null;
+  sharing?: SharingReport | null;
 }
 
-export const BubbleSizeMap: React.FC<BubbleSizeMapProps> = ({ folders, colorPaletteId }) => {
-  const bubbleNodes = useMemo(() => buildBubbleNodes(folders), [folders]);
-  const bubbleTree = useMemo<BubbleTree>(() => buildBubbleTree(bubbleNodes, { minDepth: 1 }), [bubbleNodes]);
-  const allNodeIds = useMemo(() => Array.from(bubbleTree.nodeMap.keys()), [bubbleTree]);
+const getBubbleTitle = (
+  node: BubbleNode,
+  diff?: SnapshotDiff | null,
+  duplicates?: DuplicateHighlight | null,
+  sharing?: SharingReport | null,
+): string => {
+  const title = `${node.name}\n${formatSize(node.size)}`;
+  const change = diff?.byId.get(node.id);
+  const duplicate = duplicates?.byId.get(node.id);
+  const lines = [
+    title,
+    change ? `${change.types.join(', ')} · ${formatSizeDelta(change.sizeDelta)}` : null,
+    duplicate ? `Duplicate · ${DUPLICATE_LABELS[duplicate]}` : null,
+    sharing ? getSharingTitle(sharing, node.id) : null,
+  ];
+  return lines.filter(Boolean).join('\n');
+};
+
+// Diff changes take the border first; duplicates fall back to theirs.
+const getHighlight = (id: string, diff?: SnapshotDiff | null, duplicates?: DuplicateHighlight | null) => {
+  const change = diff?.byId.get(id);
+  const duplicate = duplicates?.byId.get(id);
+  const color = change ? getChangeColor(change) : duplicate ? DUPLICATE_COLORS[duplicate] : null;
+  const opacity = diff && !change ? DIFF_UNCHANGED_OPACITY : duplicates && !duplicate ? DUPLICATE_UNMATCHED_OPACITY : 1;
+  return { change, color, opacity };
+};
+
+// Sharing mode swaps the palette for exposure colors and outlines items owned by someone else.
+const getSharingStyle = (id: string, sharing?: SharingReport | null) =>
+  sharing
+    ? {
+        color: SHARING_COLORS[getSharingCategory(sharing, id)],
+        isForeign: isForeignOwned(sharing, id),
+      }
+    : null;
+
+const BubbleTreeView: React.FC<BubbleViewProps> = ({ tree, scale, colorPaletteId, diff, duplicates, sharing }) => {
+  const allNodeIds = useMemo(() => Array.from(tree.nodeMap.keys()), [tree]);
 
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(() => new Set(allNodeIds));
 
@@ -206,9 +377,245 @@ export const BubbleSizeMap: React.FC<BubbleSizeMapProps> = ({ folders, colorPale
     setExpandedNodes(new Set(allNodeIds));
   }, [allNodeIds]);
 
-  const layout = useMemo(() => layoutBubbles(bubbleTree, expandedNodes), [bubbleTree, expandedNodes]);
+  const layout = useMemo(
+    () => layoutBubbles(tree, expandedNodes, scale),
+    [tree, expandedNodes, scale],
+  );
+
+  return (
+    <div
+      className="relative"
+      style={{ width: layout.width, height: layout.height }}
+    >
+      <svg
+        className="absolute inset-0 pointer-events-none"
+        width={layout.width}
+        height={layout.height}
+      >
+        {layout.connections.map((connection, index) => (
+          <line
+            key={`connection-${index}`}
+            x1={connection.fromX}
+            y1={connection.fromY}
+            x2={connection.toX}
+            y2={connection.toY}
+            stroke="rgba(148,163,184,0.35)"
+            strokeWidth={2}
+            strokeLinecap="round"
+          />
+        ))}
+      </svg>
+      {layout.bubbles.map((bubble, index) => {
+        const sharingStyle = getSharingStyle(bubble.id, sharing);
+        const baseColor = sharingStyle?.color ?? getPaletteColor(colorPaletteId, index);
+        const gradientStart = shiftColor(baseColor, 0.35);
+        const gradientEnd = shiftColor(baseColor, -0.28);
+        const textColor = getReadableTextColor(gradientEnd);
+        const gradient = `radial-gradient(circle at 30% 30%, ${gradientStart} 0%, ${gradientEnd} 100%)`;
+        const { change, color: highlightColor, opacity } = getHighlight(bubble.id, diff, duplicates);
+
+        return (
+          <div
+            key={bubble.id}
+            data-node-id={bubble.id}
+            className="absolute rounded-full shadow-lg flex flex-col items-center justify-center text-center px-4"
+            style={{
+              width: bubble.radius * 2,
+              height: bubble.radius * 2,
+              left: bubble.x - bubble.radius,
+              top: bubble.y - bubble.radius,
+              background: gradient,
+              color: textColor,
+              opacity,
+              boxShadow: highlightColor ? `0 0 0 4px ${highlightColor}` : undefined,
+              outline: sharingStyle?.isForeign ? `3px dashed ${FOREIGN_OWNER_COLOR}` : undefined,
+              outlineOffset: sharingStyle?.isForeign ? 6 : undefined,
+            }}
+            title={getBubbleTitle(bubble, diff, duplicates, sharing)}
+            onDoubleClick={event => {
+              event.preventDefault();
+              event.stopPropagation();
+              const treeNode = tree.nodeMap.get(bubble.id);
+              if (treeNode) {
+                handleNodeDoubleClick(treeNode, setExpandedNodes);
+              }
+            }}
+          >
+            <div className="w-full">
+              <div className="text-sm font-semibold leading-tight break-words">
+                {bubble.name}
+              </div>
+              <div className="text-xs mt-1" style={{ color: shiftColor(textColor, 0.35) }}>
+                {formatSize(bubble.size)}
+              </div>
+              {change && (
+                <div className="text-xs font-semibold">{formatSizeDelta(change.sizeDelta)}</div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const PackedBubbleView: React.FC<BubbleViewProps> = ({ tree, scale, colorPaletteId, diff, duplicates, sharing }) => {
+  const [focusId, setFocusId] = useState<string>(PACK_ROOT_ID);
+
+  const layout = useMemo(() => layoutPackedBubbles(tree, scale), [tree, scale]);
+
+  useEffect(() => {
+    if (!layout.bubbleMap.has(focusId)) {
+      setFocusId(PACK_ROOT_ID);
+    }
+  }, [layout, focusId]);
+
+  const focus = layout.bubbleMap.get(focusId) ?? layout.bubbleMap.get(PACK_ROOT_ID);
+  if (!focus) {
+    return null;
+  }
+
+  const k = PACK_RADIUS / focus.r;
+  const focusParentId = focus.node.parentId ?? (focus.node.id === PACK_ROOT_ID ? null : PACK_ROOT_ID);
 
-  if (!layout.bubbles.length) {
+  const zoomOut = () => {
+    if (focusParentId) {
+      setFocusId(focusParentId);
+    }
+  };
+
+  const handleBubbleClick = (bubble: PackedBubble) => {
+    if (bubble.node.id === focus.node.id) {
+      zoomOut();
+      return;
+    }
+    if (bubble.node.children.length > 0) {
+      setFocusId(bubble.node.id);
+      return;
+    }
+    const parentId = bubble.node.parentId ?? PACK_ROOT_ID;
+    if (parentId !== focus.node.id) {
+      setFocusId(parentId);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div
+        className="relative overflow-hidden rounded-full"
+        style={{ width: PACK_RADIUS * 2, height: PACK_RADIUS * 2 }}
+        onClick={zoomOut}
+      >
+        <div
+          className="absolute left-0 top-0 transition-transform duration-500 ease-in-out"
+          style={{
+            transformOrigin: '0 0',
+            transform: `translate(${PACK_RADIUS}px, ${PACK_RADIUS}px) scale(${k}) translate(${-focus.x}px, ${-focus.y}px)`,
+          }}
+        >
+          {layout.bubbles.map(bubble => {
+            if (bubble.node.id === PACK_ROOT_ID) {
+              return null;
+            }
+
+            const baseColor = getServiceColor(bubble.node.serviceId, colorPaletteId);
+            const isLeaf = bubble.node.children.length === 0;
+            const isFileLeaf = bubble.node.type !== 'folder';
+            const sharingStyle = getSharingStyle(bubble.node.id, sharing);
+            const fill = sharingStyle
+              ? sharingStyle.color
+              : isFileLeaf
+                ? shiftColor(baseColor, 0.6)
+                : isLeaf
+                  ? shiftColor(baseColor, 0.15)
+                  : shiftColor(baseColor, Math.min(0.85, 0.45 + bubble.depth * 0.12));
+            const showLabel =
+              (bubble.node.parentId ?? PACK_ROOT_ID) === focus.node.id &&
+              bubble.r * k >= PACK_MIN_LABEL_RADIUS;
+            const { change, color: highlightColor, opacity } = getHighlight(bubble.node.id, diff, duplicates);
+            const borderColor = highlightColor ?? shiftColor(baseColor, -0.1);
+
+            return (
+              <div
+                key={bubble.node.id}
+                data-node-id={bubble.node.id}
+                className="absolute rounded-full cursor-pointer flex flex-col items-center justify-center text-center overflow-hidden"
+                style={{
+                  width: bubble.r * 2,
+                  height: bubble.r * 2,
+                  left: bubble.x - bubble.r,
+                  top: bubble.y - bubble.r,
+                  backgroundColor: fill,
+                  border: `${(highlightColor ? 3 : 1) / k}px ${bubble.node.type === 'more-files' ? 'dashed' : 'solid'} ${borderColor}`,
+                  color: getReadableTextColor(fill),
+                  opacity,
+                  outline: sharingStyle?.isForeign ? `${3 / k}px dashed ${FOREIGN_OWNER_COLOR}` : undefined,
+                  outlineOffset: sharingStyle?.isForeign ? -3 / k : undefined,
+                }}
+                title={getBubbleTitle(bubble.node, diff, duplicates, sharing)}
+                onClick={event => {
+                  event.stopPropagation();
+                  handleBubbleClick(bubble);
+                }}
+              >
+                {showLabel && (
+                  <div
+                    className="pointer-events-none w-full px-1 leading-tight"
+                    style={{ fontSize: PACK_LABEL_FONT_SIZE / k }}
+                  >
+                    <div className="font-semibold truncate">{bubble.node.name}</div>
+                    <div className="opacity-75">
+                      {change ? formatSizeDelta(change.sizeDelta) : formatSize(bubble.node.size)}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {focus.node.name} · {formatSize(focus.node.size)}
+        {focusParentId ? ' · click the background to zoom out' : ''}
+      </div>
+    </div>
+  );
+};
+
+interface BubbleSizeMapProps {
+  folders: FolderItem[];
+  colorPaletteId?: string;
+  mode?: BubbleViewMode;
+  scale?: BubbleScale;
+  /** When set, nodes are colored by how they changed between two snapshots. */
+  diff?: SnapshotDiff | null;
+  /** When set, the copies in the highlighted duplicate groups are ringed. */
+  duplicates?: DuplicateHighlight | null;
+  /** When set, nodes are colored by how widely they are shared. */
+  sharing?: SharingReport | null;
+}
+
+export const BubbleSizeMap: React.FC<BubbleSizeMapProps> = ({
+  folders,
+  colorPaletteId,
+  mode: initialMode = 'pack',
+  scale: initialScale = 'linear',
+  diff,
+  duplicates,
+  sharing,
+}) => {
+  const [mode, setMode] = useState<BubbleViewMode>(initialMode);
+  const [scale, setScale] = useState<BubbleScale>(initialScale);
+
+  const bubbleNodes = useMemo(() => buildBubbleNodes(folders), [folders]);
+  // The packed view nests folders inside their service, so it keeps the
+  // service roots the tree view leaves out.
+  const bubbleTree = useMemo<BubbleTree>(
+    () => buildBubbleTree(bubbleNodes, { minDepth: mode === 'pack' ? 0 : 1 }),
+    [bubbleNodes, mode],
+  );
+
+  if (!bubbleTree.roots.length) {
     return (
       <div className="w-full h-full flex items-center justify-center text-muted-foreground text-sm">
         Select folders with storage data to generate the bubble map.
@@ -216,70 +623,61 @@ export const BubbleSizeMap: React.FC<BubbleSizeMapProps> = ({ folders, colorPale
     );
   }
 
+  const renderToggle = <T extends string>(
+    options: Array<{ id: T; label: string }>,
+    value: T,
+    onChange: (next: T) => void,
+  ) =>
+    options.map(option => (
+      <button
+        key={option.id}
+        onClick={() => onChange(option.id)}
+        className={`rounded px-2 py-1 transition-colors ${
+          value === option.id
+            ? 'bg-primary text-primary-foreground'
+            : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+        }`}
+      >
+        {option.label}
+      </button>
+    ));
+
   return (
-    <div className="w-full h-full flex items-center justify-center">
+    <div className="w-full h-full flex flex-col items-center justify-center gap-4">
       <div
-        className="relative"
-        style={{ width: layout.width, height: layout.height }}
+        className="flex items-center gap-3 rounded-md border border-border bg-background/90 px-2 py-1 text-xs shadow-sm"
+        onMouseDown={event => event.stopPropagation()}
+        data-export-ignore
       >
-        <svg
-          className="absolute inset-0 pointer-events-none"
-          width={layout.width}
-          height={layout.height}
-        >
-          {layout.connections.map((connection, index) => (
-            <line
-              key={`connection-${index}`}
-              x1={connection.fromX}
-              y1={connection.fromY}
-              x2={connection.toX}
-              y2={connection.toY}
-              stroke="rgba(148,163,184,0.35)"
-              strokeWidth={2}
-              strokeLinecap="round"
-            />
-          ))}
-        </svg>
-        {layout.bubbles.map((bubble, index) => {
-          const baseColor = getPaletteColor(colorPaletteId, index);
-          const gradientStart = shiftColor(baseColor, 0.35);
-          const gradientEnd = shiftColor(baseColor, -0.28);
-          const textColor = getReadableTextColor(gradientEnd);
-          const gradient = `radial-gradient(circle at 30% 30%, ${gradientStart} 0%, ${gradientEnd} 100%)`;
-
-          return (
-            <div
-              key={bubble.id}
-              className="absolute rounded-full shadow-lg flex flex-col items-center justify-center text-center px-4"
-              style={{
-                width: bubble.radius * 2,
-                height: bubble.radius * 2,
-                left: bubble.x - bubble.radius,
-                top: bubble.y - bubble.radius,
-                background: gradient,
-                color: textColor,
-              }}
-              onDoubleClick={event => {
-                event.preventDefault();
-                event.stopPropagation();
-                const treeNode = bubbleTree.nodeMap.get(bubble.id);
-                if (treeNode) {
-                  handleNodeDoubleClick(treeNode, setExpandedNodes);
-                }
-              }}
-            >
-              <div className="w-full">
-                <div className="text-sm font-semibold leading-tight break-words">
-                  {bubble.name}
-                </div>
-                <div className="text-xs mt-1" style={{ color: shiftColor(textColor, 0.35) }}>
-                  {formatSize(bubble.size)}
-                </div>
-              </div>
-            </div>
-          );
-        })}
+        <div className="flex gap-1">{renderToggle(VIEW_MODE_OPTIONS, mode, setMode)}</div>
+        <div className="flex gap-1 border-l border-border pl-3">
+          {renderToggle(SCALE_OPTIONS, scale, setScale)}
+        </div>
       </div>
+
+      {diff && <DiffLegend diff={diff} />}
+      {duplicates && <DuplicateLegend duplicates={duplicates} />}
+      {sharing && <SharingLegend sharing={sharing} />}
+
+      {mode === 'pack' ? (
+        <PackedBubbleView
+          tree={bubbleTree}
+          scale={scale}
+          colorPaletteId={colorPaletteId}
+          diff={diff}
+          duplicates={duplicates}
+          sharing={sharing}
+        />
+      ) : (
+        <BubbleTreeView
+          tree={bubbleTree}
+          scale={scale}
+          colorPaletteId={colorPaletteId}
+          diff={diff}
+          duplicates={duplicates}
+          sharing={sharing}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,27 @@
+import React from 'react';
+
+import {
+  CHANGE_TYPES,
+  type SnapshotDiff,
+} from '../right-sidebar/data-sources/snapshotDiff';
+import { DIFF_COLORS, DIFF_LABELS, formatSizeDelta } from '@/app/(interface)/lib/mapUtils/diffOverlay';
+
+interface DiffLegendProps {
+  diff: SnapshotDiff;
+  className?: string;
+}
+
+export const DiffLegend: React.FC<DiffLegendProps> = ({ diff, className = '' }) => (
+  <div
+    className={`flex flex-wrap items-center gap-3 rounded-md border border-border bg-background/90 px-2 py-1 text-xs shadow-sm ${className}`.trim()}
+    onMouseDown={event => event.stopPropagation()}
+  >
+    {CHANGE_TYPES.map(type => (
+      <span key={type} className="flex items-center gap-1">
+        <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: DIFF_COLORS[type] }} />
+        {DIFF_LABELS[type]} {diff.counts[type]}
+      </span>
+    ))}
+    <span className="border-l border-border pl-3 font-medium">{formatSizeDelta(diff.sizeDelta)}</span>
+  </div>
+);
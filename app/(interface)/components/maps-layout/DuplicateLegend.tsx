@@ -0,0 +1,27 @@
+import React from 'react';
+
+import { DUPLICATE_MATCHES } from '@/lib/mapData';
+import {
+  DUPLICATE_COLORS,
+  DUPLICATE_LABELS,
+  type DuplicateHighlight,
+} from '@/app/(interface)/lib/mapUtils/duplicateOverlay';
+
+interface DuplicateLegendProps {
+  duplicates: DuplicateHighlight;
+  className?: string;
+}
+
+export const DuplicateLegend: React.FC<DuplicateLegendProps> = ({ duplicates, className = '' }) => (
+  <div
+    className={`flex flex-wrap items-center gap-3 rounded-md border border-border bg-background/90 px-2 py-1 text-xs shadow-sm ${className}`.trim()}
+    onMouseDown={event => event.stopPropagation()}
+  >
+    {DUPLICATE_MATCHES.filter(match => duplicates.counts[match] > 0).map(match => (
+      <span key={match} className="flex items-center gap-1">
+        <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: DUPLICATE_COLORS[match] }} />
+        {DUPLICATE_LABELS[match]} {duplicates.counts[match]}
+      </span>
+    ))}
+  </div>
+);
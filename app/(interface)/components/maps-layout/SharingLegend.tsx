@@ -0,0 +1,42 @@
+import React, { useMemo } from 'react';
+
+import type { SharingReport } from '@/lib/mapData';
+import {
+  FOREIGN_OWNER_COLOR,
+  SHARING_CATEGORIES,
+  SHARING_COLORS,
+  SHARING_LABELS,
+  countSharingCategories,
+} from '@/app/(interface)/lib/mapUtils/sharingOverlay';
+
+interface SharingLegendProps {
+  sharing: SharingReport;
+  className?: string;
+}
+
+export const SharingLegend: React.FC<SharingLegendProps> = ({ sharing, className = '' }) => {
+  const { counts, foreignCount } = useMemo(() => countSharingCategories(sharing), [sharing]);
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-3 rounded-md border border-border bg-background/90 px-2 py-1 text-xs shadow-sm ${className}`.trim()}
+      onMouseDown={event => event.stopPropagation()}
+    >
+      {SHARING_CATEGORIES.filter(category => counts[category] > 0).map(category => (
+        <span key={category} className="flex items-center gap-1">
+          <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: SHARING_COLORS[category] }} />
+          {SHARING_LABELS[category]} {counts[category]}
+        </span>
+      ))}
+      {foreignCount > 0 && (
+        <span className="flex items-center gap-1 border-l border-border pl-3">
+          <span
+            className="inline-block h-2.5 w-2.5 rounded-full border-2 border-dashed"
+            style={{ borderColor: FOREIGN_OWNER_COLOR }}
+          />
+          Other owner {foreignCount}
+        </span>
+      )}
+    </div>
+  );
+};
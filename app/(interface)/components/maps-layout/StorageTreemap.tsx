@@ -0,0 +1,258 @@
+import React, { useMemo, useState } from 'react';
+
+import type { FolderItem } from '../right-sidebar/data';
+import {
+  buildBubbleNodes,
+  buildBubbleTree,
+  getBubbleMeasure,
+  type BubbleMeasure,
+  type BubbleTree,
+  type BubbleTreeNode,
+} from '@/lib/mapData';
+import { getReadableTextColor, shiftColor } from '@/app/(interface)/lib/utils/colors';
+import { getServiceColor } from '@/app/(interface)/lib/mapUtils/palettes';
+import { formatCount, formatSize } from '@/app/(interface)/lib/utils/format';
+
+interface TreemapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TreemapTile extends TreemapRect {
+  node: BubbleTreeNode;
+  depth: number;
+  color: string;
+  hasNestedTiles: boolean;
+}
+
+const TREEMAP_WIDTH = 1100;
+const TREEMAP_HEIGHT = 680;
+const HEADER_HEIGHT = 18;
+const TILE_PADDING = 3;
+const MAX_DEPTH = 4;
+const MIN_NESTED_SIZE = 24;
+const MIN_LABEL_WIDTH = 44;
+const MIN_LABEL_HEIGHT = 16;
+
+const MEASURE_OPTIONS: Array<{ id: BubbleMeasure; label: string }> = [
+  { id: 'size', label: 'Size' },
+  { id: 'fileCount', label: 'Files' },
+];
+
+const formatMeasure = (value: number, measure: BubbleMeasure): string =>
+  measure === 'fileCount' ? formatCount(value, 'file') : formatSize(value);
+
+// Worst aspect ratio in a row of areas laid along a side of the given length.
+const worstAspectRatio = (areas: number[], side: number): number => {
+  const sum = areas.reduce((total, area) => total + area, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  const sideSquared = side * side;
+  const sumSquared = sum * sum;
+  return Math.max((sideSquared * max) / sumSquared, sumSquared / (sideSquared * min));
+};
+
+/**
+ * Squarified tiling (Bruls, Huizing & van Wijk). Values must be sorted in
+ * descending order; `total` may exceed their sum, in which case the surplus is
+ * left as empty space at the end of the rectangle.
+ */
+const squarify = (values: number[], total: number, bounds: TreemapRect): TreemapRect[] => {
+  const rects: TreemapRect[] = [];
+  if (!values.length || total <= 0) {
+    return rects;
+  }
+
+  const scale = (bounds.width * bounds.height) / total;
+  const areas = values.map(value => value * scale);
+  const free = { ...bounds };
+  let index = 0;
+
+  while (index < areas.length) {
+    const side = Math.min(free.width, free.height);
+    const row = [areas[index]];
+    let next = index + 1;
+
+    while (
+      next < areas.length &&
+      worstAspectRatio([...row, areas[next]], side) <= worstAspectRatio(row, side)
+    ) {
+      row.push(areas[next]);
+      next += 1;
+    }
+
+    const rowArea = row.reduce((sum, area) => sum + area, 0);
+
+    if (free.width >= free.height) {
+      const columnWidth = free.height > 0 ? rowArea / free.height : 0;
+      let y = free.y;
+      row.forEach(area => {
+        const height = columnWidth > 0 ? area / columnWidth : 0;
+        rects.push({ x: free.x, y, width: columnWidth, height });
+        y += height;
+      });
+      free.x += columnWidth;
+      free.width -= columnWidth;
+    } else {
+      const rowHeight = free.width > 0 ? rowArea / free.width : 0;
+      let x = free.x;
+      row.forEach(area => {
+        const width = rowHeight > 0 ? area / rowHeight : 0;
+        rects.push({ x, y: free.y, width, height: rowHeight });
+        x += width;
+      });
+      free.y += rowHeight;
+      free.height -= rowHeight;
+    }
+
+    index = next;
+  }
+
+  return rects;
+};
+
+const layoutTreemap = (
+  tree: BubbleTree,
+  measure: BubbleMeasure,
+  colorPaletteId?: string,
+): TreemapTile[] => {
+  const tiles: TreemapTile[] = [];
+
+  const visit = (nodes: BubbleTreeNode[], total: number, bounds: TreemapRect, depth: number) => {
+    const values = nodes.map(node => getBubbleMeasure(node, measure));
+    const rects = squarify(values, total, bounds);
+
+    nodes.forEach((node, index) => {
+      const rect = rects[index];
+      const baseColor = getServiceColor(node.serviceId, colorPaletteId);
+      const innerWidth = rect.width - TILE_PADDING * 2;
+      const innerHeight = rect.height - HEADER_HEIGHT - TILE_PADDING;
+      const hasNestedTiles =
+        node.children.length > 0 &&
+        depth < MAX_DEPTH &&
+        innerWidth >= MIN_NESTED_SIZE &&
+        innerHeight >= MIN_NESTED_SIZE;
+
+      tiles.push({
+        ...rect,
+        node,
+        depth,
+        color: shiftColor(baseColor, Math.min(0.6, depth * 0.16)),
+        hasNestedTiles,
+      });
+
+      // A folder's own files take up whatever its subfolders leave over.
+      if (hasNestedTiles) {
+        visit(
+          node.children,
+          getBubbleMeasure(node, measure),
+          {
+            x: rect.x + TILE_PADDING,
+            y: rect.y + HEADER_HEIGHT,
+            width: innerWidth,
+            height: innerHeight,
+          },
+          depth + 1,
+        );
+      }
+    });
+  };
+
+  const total = tree.roots.reduce((sum, node) => sum + getBubbleMeasure(node, measure), 0);
+  visit(tree.roots, total, { x: 0, y: 0, width: TREEMAP_WIDTH, height: TREEMAP_HEIGHT }, 0);
+  return tiles;
+};
+
+interface StorageTreemapProps {
+  folders: FolderItem[];
+  colorPaletteId?: string;
+}
+
+export const StorageTreemap: React.FC<StorageTreemapProps> = ({ folders, colorPaletteId }) => {
+  const [measure, setMeasure] = useState<BubbleMeasure>('size');
+
+  const bubbleNodes = useMemo(() => buildBubbleNodes(folders), [folders]);
+  const bubbleTree = useMemo<BubbleTree>(
+    () => buildBubbleTree(bubbleNodes, { measure }),
+    [bubbleNodes, measure],
+  );
+  const tiles = useMemo(
+    () => layoutTreemap(bubbleTree, measure, colorPaletteId),
+    [bubbleTree, colorPaletteId, measure],
+  );
+
+  if (!tiles.length) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-muted-foreground text-sm">
+        Select folders with storage data to generate the treemap.
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-4">
+      <div
+        className="flex gap-1 rounded-md border border-border bg-background/90 px-2 py-1 text-xs shadow-sm"
+        onMouseDown={event => event.stopPropagation()}
+        data-export-ignore
+      >
+        {MEASURE_OPTIONS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => setMeasure(option.id)}
+            className={`rounded px-2 py-1 transition-colors ${
+              measure === option.id
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div
+        className="relative overflow-hidden rounded-md border border-border bg-background"
+        style={{ width: TREEMAP_WIDTH, height: TREEMAP_HEIGHT }}
+      >
+        {tiles.map(tile => {
+          const textColor = getReadableTextColor(tile.color);
+          const showLabel = tile.width >= MIN_LABEL_WIDTH && tile.height >= MIN_LABEL_HEIGHT;
+          const showValue =
+            !tile.hasNestedTiles && tile.width >= MIN_LABEL_WIDTH && tile.height >= MIN_LABEL_HEIGHT * 2;
+          const value = formatMeasure(getBubbleMeasure(tile.node, measure), measure);
+
+          return (
+            <div
+              key={tile.node.id}
+              data-node-id={tile.node.id}
+              className="absolute overflow-hidden px-1 text-[11px] leading-tight"
+              style={{
+                left: tile.x,
+                top: tile.y,
+                width: tile.width,
+                height: tile.height,
+                backgroundColor: tile.color,
+                color: textColor,
+                boxShadow: `inset 0 0 0 1px ${shiftColor(tile.color, -0.18)}`,
+              }}
+              title={`${tile.node.name}\n${value}`}
+            >
+              {showLabel && (
+                <div
+                  className={`truncate ${tile.hasNestedTiles ? 'font-semibold' : 'font-medium'}`}
+                  style={{ lineHeight: `${HEADER_HEIGHT}px` }}
+                >
+                  {tile.node.name}
+                </div>
+              )}
+              {showValue && <div className="truncate opacity-80">{value}</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
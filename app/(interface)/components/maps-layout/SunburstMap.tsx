@@ -0,0 +1,333 @@
+import React, { useEffect, useMemo, useState } from 'react';
+
+import type { FolderItem } from '../right-sidebar/data';
+import {
+  buildBubbleNodes,
+  buildBubbleTree,
+  getBubbleMeasure,
+  type BubbleMeasure,
+  type BubbleTree,
+  type BubbleTreeNode,
+} from '@/lib/mapData';
+import { getReadableTextColor, shiftColor } from '@/app/(interface)/lib/utils/colors';
+import { getServiceColor } from '@/app/(interface)/lib/mapUtils/palettes';
+import { formatCount, formatSize } from '@/app/(interface)/lib/utils/format';
+
+interface SunburstArc {
+  node: BubbleTreeNode;
+  startAngle: number;
+  endAngle: number;
+  innerRadius: number;
+  outerRadius: number;
+  color: string;
+}
+
+const CENTER_RADIUS = 90;
+const RING_WIDTH = 70;
+const MAX_RINGS = 5;
+const ARC_PADDING = 0.004;
+const MIN_ARC_ANGLE = 0.002;
+const MIN_LABEL_LENGTH = 48;
+const LABEL_MAX_CHARS = 18;
+const FULL_CIRCLE = Math.PI * 2;
+const ROOT_ID = '__sunburst-root__';
+
+const MEASURE_OPTIONS: Array<{ id: BubbleMeasure; label: string }> = [
+  { id: 'size', label: 'Size' },
+  { id: 'fileCount', label: 'Files' },
+];
+
+const formatMeasure = (value: number, measure: BubbleMeasure): string =>
+  measure === 'fileCount' ? formatCount(value, 'file') : formatSize(value);
+
+const polarToCartesian = (radius: number, angle: number) => ({
+  x: Math.cos(angle - Math.PI / 2) * radius,
+  y: Math.sin(angle - Math.PI / 2) * radius,
+});
+
+const describeArc = (
+  innerRadius: number,
+  outerRadius: number,
+  startAngle: number,
+  endAngle: number,
+): string => {
+  // SVG cannot draw a closed 360° arc in one command, so full rings are
+  // split into two halves.
+  if (endAngle - startAngle >= FULL_CIRCLE - 1e-6) {
+    const mid = startAngle + Math.PI;
+    return `${describeArc(innerRadius, outerRadius, startAngle, mid)} ${describeArc(
+      innerRadius,
+      outerRadius,
+      mid,
+      endAngle,
+    )}`;
+  }
+
+  const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+  const outerStart = polarToCartesian(outerRadius, startAngle);
+  const outerEnd = polarToCartesian(outerRadius, endAngle);
+  const innerStart = polarToCartesian(innerRadius, endAngle);
+  const innerEnd = polarToCartesian(innerRadius, startAngle);
+
+  return [
+    `M${outerStart.x},${outerStart.y}`,
+    `A${outerRadius},${outerRadius} 0 ${largeArc} 1 ${outerEnd.x},${outerEnd.y}`,
+    `L${innerStart.x},${innerStart.y}`,
+    `A${innerRadius},${innerRadius} 0 ${largeArc} 0 ${innerEnd.x},${innerEnd.y}`,
+    'Z',
+  ].join(' ');
+};
+
+const layoutSunburst = (
+  focus: BubbleTreeNode,
+  measure: BubbleMeasure,
+  colorPaletteId?: string,
+): SunburstArc[] => {
+  const arcs: SunburstArc[] = [];
+
+  // Children split their parent's span by their share of the parent's value.
+  // Whatever is left over is the parent's own files, shown as an empty gap.
+  const visit = (node: BubbleTreeNode, startAngle: number, endAngle: number, ring: number) => {
+    if (ring > MAX_RINGS) {
+      return;
+    }
+
+    const parentValue = getBubbleMeasure(node, measure);
+    const span = endAngle - startAngle;
+    let cursor = startAngle;
+
+    node.children.forEach(child => {
+      const childValue = getBubbleMeasure(child, measure);
+      const childSpan = parentValue > 0 ? (span * childValue) / parentValue : 0;
+      const childStart = cursor;
+      const childEnd = cursor + childSpan;
+      cursor = childEnd;
+
+      if (childSpan < MIN_ARC_ANGLE) {
+        return;
+      }
+
+      const baseColor = getServiceColor(child.serviceId, colorPaletteId);
+
+      arcs.push({
+        node: child,
+        startAngle: childStart,
+        endAngle: childEnd,
+        innerRadius: CENTER_RADIUS + (ring - 1) * RING_WIDTH,
+        outerRadius: CENTER_RADIUS + ring * RING_WIDTH,
+        color: shiftColor(baseColor, Math.min(0.6, (ring - 1) * 0.14)),
+      });
+
+      visit(child, childStart, childEnd, ring + 1);
+    });
+  };
+
+  visit(focus, 0, FULL_CIRCLE, 1);
+  return arcs;
+};
+
+const buildRootNode = (tree: BubbleTree): BubbleTreeNode => ({
+  id: ROOT_ID,
+  name: 'All services',
+  size: tree.roots.reduce((total, node) => total + node.size, 0),
+  fileCount: tree.roots.reduce((total, node) => total + node.fileCount, 0),
+  depth: -1,
+  parentId: null,
+  serviceId: null,
+  type: 'folder',
+  children: tree.roots,
+});
+
+const getAncestry = (tree: BubbleTree, root: BubbleTreeNode, focusId: string): BubbleTreeNode[] => {
+  const path: BubbleTreeNode[] = [];
+  let current = tree.nodeMap.get(focusId);
+
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? tree.nodeMap.get(current.parentId) : undefined;
+  }
+
+  return [root, ...path];
+};
+
+const truncateLabel = (label: string): string =>
+  label.length > LABEL_MAX_CHARS ? `${label.slice(0, LABEL_MAX_CHARS - 1)}…` : label;
+
+interface SunburstMapProps {
+  folders: FolderItem[];
+  colorPaletteId?: string;
+}
+
+export const SunburstMap: React.FC<SunburstMapProps> = ({ folders, colorPaletteId }) => {
+  const [measure, setMeasure] = useState<BubbleMeasure>('size');
+  const [focusId, setFocusId] = useState<string>(ROOT_ID);
+
+  const bubbleNodes = useMemo(() => buildBubbleNodes(folders), [folders]);
+  const bubbleTree = useMemo<BubbleTree>(
+    () => buildBubbleTree(bubbleNodes, { measure }),
+    [bubbleNodes, measure],
+  );
+  const rootNode = useMemo(() => buildRootNode(bubbleTree), [bubbleTree]);
+
+  useEffect(() => {
+    if (focusId !== ROOT_ID && !bubbleTree.nodeMap.has(focusId)) {
+      setFocusId(ROOT_ID);
+    }
+  }, [bubbleTree, focusId]);
+
+  const focusNode = bubbleTree.nodeMap.get(focusId) ?? rootNode;
+  const ancestry = useMemo(
+    () => (focusNode === rootNode ? [rootNode] : getAncestry(bubbleTree, rootNode, focusNode.id)),
+    [bubbleTree, focusNode, rootNode],
+  );
+  const arcs = useMemo(
+    () => layoutSunburst(focusNode, measure, colorPaletteId),
+    [colorPaletteId, focusNode, measure],
+  );
+
+  if (!rootNode.children.length) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-muted-foreground text-sm">
+        Select folders with storage data to generate the sunburst.
+      </div>
+    );
+  }
+
+  const maxOuterRadius = arcs.reduce((max, arc) => Math.max(max, arc.outerRadius), CENTER_RADIUS);
+  const viewSize = maxOuterRadius * 2 + 32;
+  const parentOfFocus = ancestry.length > 1 ? ancestry[ancestry.length - 2] : null;
+  const centerColor =
+    focusNode === rootNode ? '#ffffff' : getServiceColor(focusNode.serviceId, colorPaletteId);
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-4">
+      <div
+        className="flex flex-wrap items-center gap-3 rounded-md border border-border bg-background/90 px-2 py-1 text-xs shadow-sm"
+        onMouseDown={event => event.stopPropagation()}
+        data-export-ignore
+      >
+        <nav className="flex flex-wrap items-center gap-1" aria-label="Sunburst breadcrumb">
+          {ancestry.map((node, index) => {
+            const isCurrent = index === ancestry.length - 1;
+            return (
+              <React.Fragment key={node.id}>
+                {index > 0 && <span className="text-muted-foreground">/</span>}
+                <button
+                  onClick={() => setFocusId(node.id)}
+                  disabled={isCurrent}
+                  className={`rounded px-1.5 py-0.5 transition-colors ${
+                    isCurrent
+                      ? 'font-semibold text-foreground'
+                      : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                  }`}
+                >
+                  {truncateLabel(node.name)}
+                </button>
+              </React.Fragment>
+            );
+          })}
+        </nav>
+        <div className="flex gap-1 border-l border-border pl-3">
+          {MEASURE_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setMeasure(option.id)}
+              className={`rounded px-2 py-1 transition-colors ${
+                measure === option.id
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <svg
+        width={viewSize}
+        height={viewSize}
+        viewBox={`${-viewSize / 2} ${-viewSize / 2} ${viewSize} ${viewSize}`}
+      >
+        {arcs.map(arc => {
+          const midAngle = (arc.startAngle + arc.endAngle) / 2;
+          const midRadius = (arc.innerRadius + arc.outerRadius) / 2;
+          const arcLength = (arc.endAngle - arc.startAngle) * midRadius;
+          const labelPosition = polarToCartesian(midRadius, midAngle);
+          const hasChildren = arc.node.children.length > 0;
+
+          return (
+            <g
+              key={arc.node.id}
+              data-node-id={arc.node.id}
+              className={hasChildren ? 'cursor-pointer' : undefined}
+              onClick={event => {
+                event.stopPropagation();
+                if (hasChildren) {
+                  setFocusId(arc.node.id);
+                }
+              }}
+            >
+              <title>
+                {`${arc.node.name}\n${formatMeasure(getBubbleMeasure(arc.node, measure), measure)}`}
+              </title>
+              <path
+                d={describeArc(
+                  arc.innerRadius,
+                  arc.outerRadius,
+                  arc.startAngle + ARC_PADDING,
+                  Math.max(arc.startAngle + ARC_PADDING, arc.endAngle - ARC_PADDING),
+                )}
+                fill={arc.color}
+                stroke="var(--background)"
+                strokeWidth={1}
+              />
+              {arcLength >= MIN_LABEL_LENGTH && (
+                <text
+                  x={labelPosition.x}
+                  y={labelPosition.y}
+                  textAnchor="middle"
+                  dy="0.35em"
+                  fontSize={10}
+                  fill={getReadableTextColor(arc.color)}
+                  pointerEvents="none"
+                >
+                  {truncateLabel(arc.node.name)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        <g
+          className={parentOfFocus ? 'cursor-pointer' : undefined}
+          onClick={event => {
+            event.stopPropagation();
+            if (parentOfFocus) {
+              setFocusId(parentOfFocus.id);
+            }
+          }}
+        >
+          <circle r={CENTER_RADIUS - 4} fill={centerColor} stroke="var(--border)" strokeWidth={1} />
+          <text
+            textAnchor="middle"
+            y={-6}
+            fontSize={13}
+            fontWeight={600}
+            fill={getReadableTextColor(centerColor)}
+          >
+            {truncateLabel(focusNode.name)}
+          </text>
+          <text textAnchor="middle" y={12} fontSize={11} fill={getReadableTextColor(centerColor)}>
+            {formatMeasure(getBubbleMeasure(focusNode, measure), measure)}
+          </text>
+          {parentOfFocus && (
+            <text textAnchor="middle" y={30} fontSize={10} fill={getReadableTextColor(centerColor)}>
+              Click to go up
+            </text>
+          )}
+        </g>
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useState } from 'react';
+
+import type { FolderItem } from '../right-sidebar/data';
+import { buildFolderTree, flattenFolderTree, type FolderTreeNode } from '@/lib/mapData';
+import { handleNodeDoubleClick } from '@/app/(interface)/lib/mapUtils/interactions';
+import { getPaletteColor, shiftColor } from '@/app/(interface)/lib/utils/colors';
+import { formatCount, formatSize } from '@/app/(interface)/lib/utils/format';
+
+export type TreeOrientation = 'horizontal' | 'vertical';
+
+interface PositionedTreeNode {
+  node: FolderTreeNode;
+  x: number;
+  y: number;
+  color: string;
+  hiddenChildren: number;
+}
+
+interface TreeLink {
+  id: string;
+  path: string;
+  color: string;
+}
+
+interface TreeLayoutResult {
+  nodes: PositionedTreeNode[];
+  links: TreeLink[];
+  width: number;
+  height: number;
+}
+
+interface OrientationSpacing {
+  breadthStep: number;
+  depthStep: number;
+}
+
+const NODE_RADIUS = 7;
+const CONTAINER_PADDING = 48;
+const LABEL_MAX_CHARS = 28;
+const INITIAL_EXPANDED_DEPTH = 1;
+
+const SPACING: Record<TreeOrientation, OrientationSpacing> = {
+  horizontal: { breadthStep: 44, depthStep: 260 },
+  vertical: { breadthStep: 180, depthStep: 120 },
+};
+
+// Room reserved past the deepest node so labels are not clipped.
+const LABEL_EXTENT: Record<TreeOrientation, number> = {
+  horizontal: 220,
+  vertical: 48,
+};
+
+const truncateLabel = (label: string): string =>
+  label.length > LABEL_MAX_CHARS ? `${label.slice(0, LABEL_MAX_CHARS - 1)}…` : label;
+
+const describeMetrics = (node: FolderTreeNode): string => {
+  const { totalSize, fileCount, folderCount } = node.metrics;
+  return [
+    formatSize(totalSize),
+    formatCount(fileCount, 'file'),
+    formatCount(folderCount, 'folder'),
+  ].join(' · ');
+};
+
+const buildLinkPath = (
+  orientation: TreeOrientation,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+): string => {
+  if (orientation === 'horizontal') {
+    const midX = (from.x + to.x) / 2;
+    return `M${from.x},${from.y} C${midX},${from.y} ${midX},${to.y} ${to.x},${to.y}`;
+  }
+
+  const midY = (from.y + to.y) / 2;
+  return `M${from.x},${from.y} C${from.x},${midY} ${to.x},${midY} ${to.x},${to.y}`;
+};
+
+const layoutTree = (
+  roots: FolderTreeNode[],
+  expandedNodes: Set<string>,
+  orientation: TreeOrientation,
+  colorPaletteId?: string,
+): TreeLayoutResult => {
+  if (!roots.length) {
+    return { nodes: [], links: [], width: 0, height: 0 };
+  }
+
+  const { breadthStep, depthStep } = SPACING[orientation];
+  const positioned: PositionedTreeNode[] = [];
+  const edges: Array<{ from: PositionedTreeNode; to: PositionedTreeNode }> = [];
+
+  let nextLeafSlot = 0;
+  let maxDepth = 0;
+
+  // Leaves take consecutive slots along the breadth axis and every parent is
+  // centred over its first and last visible child, which keeps subtrees from
+  // overlapping without any collision pass.
+  const assign = (node: FolderTreeNode, depth: number, color: string): PositionedTreeNode => {
+    const isExpanded = expandedNodes.has(node.id);
+    const visibleChildren = isExpanded ? node.children : [];
+    maxDepth = Math.max(maxDepth, depth);
+
+    let breadth: number;
+    const childPositions = visibleChildren.map(child => assign(child, depth + 1, color));
+
+    if (childPositions.length === 0) {
+      breadth = nextLeafSlot * breadthStep;
+      nextLeafSlot++;
+    } else {
+      const first = childPositions[0];
+      const last = childPositions[childPositions.length - 1];
+      breadth = orientation === 'horizontal' ? (first.y + last.y) / 2 : (first.x + last.x) / 2;
+    }
+
+    const depthOffset = depth * depthStep;
+    const position: PositionedTreeNode = {
+      node,
+      x: orientation === 'horizontal' ? depthOffset : breadth,
+      y: orientation === 'horizontal' ? breadth : depthOffset,
+      color,
+      hiddenChildren: isExpanded ? 0 : node.children.length,
+    };
+
+    childPositions.forEach(child => edges.push({ from: position, to: child }));
+
+    positioned.push(position);
+    return position;
+  };
+
+  roots.forEach((root, index) => {
+    assign(root, 0, getPaletteColor(colorPaletteId, index));
+    // Leave an empty slot between services so their trees read as separate.
+    nextLeafSlot++;
+  });
+
+  positioned.forEach(position => {
+    position.x += CONTAINER_PADDING;
+    position.y += CONTAINER_PADDING;
+  });
+
+  const links: TreeLink[] = edges.map(({ from, to }) => ({
+    id: `${from.node.id}->${to.node.id}`,
+    path: buildLinkPath(orientation, from, to),
+    color: from.color,
+  }));
+
+  const breadthExtent = Math.max(0, nextLeafSlot - 2) * breadthStep;
+  const depthExtent = maxDepth * depthStep + LABEL_EXTENT[orientation];
+
+  const width =
+    (orientation === 'horizontal' ? depthExtent : breadthExtent + SPACING.vertical.breadthStep) +
+    CONTAINER_PADDING * 2;
+  const height =
+    (orientation === 'horizontal' ? breadthExtent : depthExtent) + CONTAINER_PADDING * 2;
+
+  return { nodes: positioned, links, width, height };
+};
+
+interface TreeMapProps {
+  folders: FolderItem[];
+  colorPaletteId?: string;
+  orientation?: TreeOrientation;
+}
+
+export const TreeMap: React.FC<TreeMapProps> = ({
+  folders,
+  colorPaletteId,
+  orientation: initialOrientation = 'horizontal',
+}) => {
+  const roots = useMemo(() => buildFolderTree(folders), [folders]);
+  const nodeMap = useMemo(() => flattenFolderTree(roots), [roots]);
+  const initialExpandedKey = useMemo(
+    () =>
+      Array.from(nodeMap.values())
+        .filter(node => node.depth <= INITIAL_EXPANDED_DEPTH)
+        .map(node => node.id)
+        .join('|'),
+    [nodeMap],
+  );
+
+  const [orientation, setOrientation] = useState<TreeOrientation>(initialOrientation);
+  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(
+    () => new Set(initialExpandedKey ? initialExpandedKey.split('|') : []),
+  );
+
+  useEffect(() => {
+    setOrientation(initialOrientation);
+  }, [initialOrientation]);
+
+  useEffect(() => {
+    setExpandedNodes(new Set(initialExpandedKey ? initialExpandedKey.split('|') : []));
+  }, [initialExpandedKey]);
+
+  const layout = useMemo(
+    () => layoutTree(roots, expandedNodes, orientation, colorPaletteId),
+    [colorPaletteId, expandedNodes, orientation, roots],
+  );
+
+  if (!layout.nodes.length) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-muted-foreground text-sm">
+        Select folders to generate the tree map.
+      </div>
+    );
+  }
+
+  const isHorizontal = orientation === 'horizontal';
+
+  return (
+    <div className="w-full h-full flex items-center justify-center">
+      <div className="relative" style={{ width: layout.width, height: layout.height }}>
+        <div
+          className="absolute left-0 top-0 flex gap-1 rounded-md border border-border bg-background/90 p-1 text-xs shadow-sm"
+          onMouseDown={event => event.stopPropagation()}
+          data-export-ignore
+        >
+          {(['horizontal', 'vertical'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setOrientation(option)}
+              className={`rounded px-2 py-1 capitalize transition-colors ${
+                orientation === option
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        <svg width={layout.width} height={layout.height} className="overflow-visible">
+          <g>
+            {layout.links.map(link => (
+              <path
+                key={link.id}
+                d={link.path}
+                fill="none"
+                stroke={shiftColor(link.color, 0.45)}
+                strokeWidth={1.5}
+              />
+            ))}
+          </g>
+          <g>
+            {layout.nodes.map(({ node, x, y, color, hiddenChildren }) => {
+              const hasChildren = node.children.length > 0;
+              const fill = hiddenChildren > 0 ? color : hasChildren ? '#ffffff' : shiftColor(color, 0.55);
+
+              return (
+                <g
+                  key={node.id}
+                  data-node-id={node.id}
+                  transform={`translate(${x},${y})`}
+                  className={hasChildren ? 'cursor-pointer' : undefined}
+                  onDoubleClick={event => {
+                    event.preventDefault();
+                    event.stopPropagation();
+                    handleNodeDoubleClick(node, setExpandedNodes);
+                  }}
+                >
+                  <title>{node.name}</title>
+                  <circle r={NODE_RADIUS} fill={fill} stroke={color} strokeWidth={2} />
+                  <text
+                    x={isHorizontal ? NODE_RADIUS + 6 : 0}
+                    y={isHorizontal ? -2 : NODE_RADIUS + 14}
+                    textAnchor={isHorizontal ? 'start' : 'middle'}
+                    className="fill-foreground"
+                    fontSize={12}
+                    fontWeight={600}
+                  >
+                    {truncateLabel(node.name)}
+                    {hiddenChildren > 0 && (
+                      <tspan className="fill-muted-foreground" fontWeight={400}>
+                        {` (+${hiddenChildren})`}
+                      </tspan>
+                    )}
+                  </text>
+                  <text
+                    x={isHorizontal ? NODE_RADIUS + 6 : 0}
+                    y={isHorizontal ? 12 : NODE_RADIUS + 28}
+                    textAnchor={isHorizontal ? 'start' : 'middle'}
+                    className="fill-muted-foreground"
+                    fontSize={10}
+                  >
+                    {describeMetrics(node)}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+      </div>
+    </div>
+  );
+};
@@ -1,2 +1,6 @@
+export { ActivityFoldersMap } from './ActivityFoldersMap';
 export { BubbleSizeMap } from './BubbleSizeMap';
+export { StorageTreemap } from './StorageTreemap';
+export { SunburstMap } from './SunburstMap';
+export { TreeMap } from './TreeMap';
 export { OrbitalMap } from './orbital-map/OrbitalMap';
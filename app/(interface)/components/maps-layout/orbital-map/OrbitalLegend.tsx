@@ -0,0 +1,43 @@
+import React from 'react';
+
+import { formatCount, formatSize } from '@/app/(interface)/lib/utils/format';
+import type { OrbitalEncoding } from './orbitalLayout';
+
+// Branch mode can have a swatch per top-level folder; the rest are summarised.
+const MAX_SWATCHES = 6;
+
+interface OrbitalLegendProps {
+  encoding: OrbitalEncoding;
+  className?: string;
+}
+
+const formatMaxValue = ({ sizeBy, maxValue }: OrbitalEncoding): string =>
+  sizeBy === 'fileCount' ? formatCount(maxValue, 'file') : formatSize(maxValue);
+
+export const OrbitalLegend: React.FC<OrbitalLegendProps> = ({ encoding, className = '' }) => {
+  const { colorBy, sizeBy, swatches, maxValue } = encoding;
+  const hiddenCount = swatches.length - MAX_SWATCHES;
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-3 rounded-md border border-border bg-background/90 px-2 py-1 text-xs shadow-sm ${className}`.trim()}
+      onMouseDown={event => event.stopPropagation()}
+    >
+      <span className="text-muted-foreground">{colorBy === 'service' ? 'By service' : 'By branch'}</span>
+      {swatches.slice(0, MAX_SWATCHES).map(swatch => (
+        <span key={swatch.id} className="flex items-center gap-1">
+          <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: swatch.color }} />
+          {swatch.name}
+        </span>
+      ))}
+      {hiddenCount > 0 && <span className="text-muted-foreground">+{hiddenCount} more</span>}
+      {sizeBy !== 'uniform' && maxValue > 0 && (
+        <span className="flex items-center gap-1 border-l border-border pl-3">
+          <span className="inline-block h-1.5 w-1.5 rounded-full border border-muted-foreground" />
+          <span className="inline-block h-3 w-3 rounded-full border border-muted-foreground" />
+          Area by {sizeBy === 'totalSize' ? 'total size' : 'file count'}, up to {formatMaxValue(encoding)}
+        </span>
+      )}
+    </div>
+  );
+};
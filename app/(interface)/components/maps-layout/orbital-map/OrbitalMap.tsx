@@ -1,396 +1,148 @@
-// ===== UPDATED OrbitalMap.tsx =====
 'use client';
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-
-interface FolderItem {
-  name: string;
-  children?: FolderItem[];
-}
-
-interface D3HierarchyNode {
-  data: any;
-  depth: number;
-  parent?: D3HierarchyNode;
-  children?: D3HierarchyNode[];
-}
-
-interface D3Link {
-  source: D3HierarchyNode;
-  target: D3HierarchyNode;
-}
+import { Circle, Loader2, Square } from 'lucide-react';
+
+import type { SharingReport } from '@/lib/mapData';
+import type { SnapshotDiff } from '../../right-sidebar/data-sources/snapshotDiff';
+import {
+  DIFF_UNCHANGED_OPACITY,
+  formatSizeDelta,
+  getChangeColor,
+} from '@/app/(interface)/lib/mapUtils/diffOverlay';
+import { getReadableTextColor } from '@/app/(interface)/lib/mapUtils/palettes';
+import {
+  FOREIGN_OWNER_COLOR,
+  SHARING_COLORS,
+  getSharingCategory,
+  getSharingTitle,
+  isForeignOwned,
+} from '@/app/(interface)/lib/mapUtils/sharingOverlay';
+import { DiffLegend } from '../DiffLegend';
+import { SharingLegend } from '../SharingLegend';
+import { OrbitalLegend } from './OrbitalLegend';
+import {
+  DIFF_LABEL_FONT_SIZE,
+  assignNodeStyles,
+  buildHierarchy,
+  createManualPhysics,
+  getLinkId,
+  getLabelFontSize,
+  getLogoUrl,
+  getNodeBodyStyle,
+  getNodeId,
+  getNodeLabel,
+  getNodeRadius,
+  getNodeSize,
+  getVisibleNodesAndLinks,
+  isLabelVisible,
+  isLogoNode,
+  isTextLegible,
+  type OrbitalColorMode,
+  type OrbitalFolder,
+  type OrbitalLink,
+  type OrbitalNode,
+  type OrbitalPhysics,
+  type OrbitalSizeMode,
+} from './orbitalLayout';
+import {
+  drawOrbitalCanvas,
+  findNodeAt,
+  getNodeTitle,
+  loadLogoImages,
+  toMapPoint,
+  type OrbitalScene,
+} from './orbitalCanvas';
+import { useSvgRecorder, type SvgCaptureArea } from '@/app/(interface)/lib/hooks/useSvgRecorder';
+import {
+  unionRects,
+  useViewportCamera,
+  useViewportTarget,
+  type ViewportRect,
+  type ViewportTarget,
+} from '@/app/(interface)/lib/hooks/useViewport';
+import { downloadBlob, getTimestamp } from '@/app/(interface)/lib/utils/download';
+
+export type { OrbitalColorMode, OrbitalSizeMode } from './orbitalLayout';
 
 type D3GroupSelection = d3.Selection<SVGGElement, unknown, null, undefined>;
+type D3NodeSelection = d3.Selection<SVGGElement, OrbitalNode, SVGGElement, unknown>;
+type D3LinkSelection = d3.Selection<SVGLineElement, OrbitalLink, SVGGElement, unknown>;
+type NodeDragEvent = d3.D3DragEvent<SVGGElement, OrbitalNode, OrbitalNode>;
+type CanvasDragEvent = d3.D3DragEvent<HTMLCanvasElement, unknown, OrbitalNode>;
 
 interface OrbitalMapProps {
-  folders: FolderItem[];
-}
-
-// Configurable orbital radii for each level
-const ORBITAL_RADII: Record<number, number> = {
-  0: 0,        // Center (Folder Fox)
-  1: 200,      // Level 1: Integrations around center
-  2: 150,      // Level 2: Folders around integrations
-  3: 80,       // Level 3 and beyond: fixed radius
-};
-
-// Get radius for a given depth
-function getOrbitalRadius(depth: number): number {
-  if (depth === 0) return 0;
-  if (depth === 1) return ORBITAL_RADII[1];
-  if (depth === 2) return ORBITAL_RADII[2];
-  // Level 3 and beyond use the same base radius
-  return ORBITAL_RADII[3];
-}
-
-// ===== Data Utils =====
-function mapFolderToHierarchy(folder: FolderItem): any {
-  const children = folder.children ? folder.children.map(mapFolderToHierarchy) : [];
-  return { name: folder.name, children };
-}
-
-function buildHierarchy(folders: FolderItem[]) {
-  const integrations = ['Google Drive', 'Dropbox', 'OneDrive', 'Notion'];
-  const folderFox = {
-    name: 'Folder Fox',
-    children: folders.filter(f => integrations.includes(f.name)).map(mapFolderToHierarchy),
-  };
-  return d3.hierarchy(folderFox);
-}
-
-function getVisibleNodesAndLinks(root: D3HierarchyNode, expanded: Set<string>) {
-  const allNodes = root.descendants();
-  const allLinks = root.links();
-
-  const visibleNodes = allNodes.filter(d => {
-    if (d.depth <= 1) return true;
-    const parent = d.parent;
-    if (!parent) return false;
-    return expanded.has(parent.data.name);
-  });
-
-  const visibleLinks = allLinks.filter(
-    d => visibleNodes.includes(d.source) && visibleNodes.includes(d.target),
-  );
-
-  return { visibleNodes, visibleLinks };
+  folders: OrbitalFolder[];
+  colorPaletteId?: string;
+  colorBy?: OrbitalColorMode;
+  sizeBy?: OrbitalSizeMode;
+  diff?: SnapshotDiff | null;
+  /** When set, nodes are colored by how widely they are shared. */
+  sharing?: SharingReport | null;
 }
 
-// ===== Physics Engine =====
-export function createManualPhysics(
-  nodes: any[],
-  onTick: () => void,
-) {
-  const folderFox = nodes.find(n => n?.data?.name === 'Folder Fox');
-
-  if (folderFox) {
-    folderFox.x = 0;
-    folderFox.y = 0;
-    folderFox.isPrimary = true;
-  }
-
-  // --- Setup integrations (depth 1) ---
-  const integrations = nodes.filter(
-    n =>
-      n?.parent === folderFox &&
-      ['Google Drive', 'Dropbox', 'OneDrive', 'Notion'].includes(n?.data?.name)
-  );
-
-  const integrationsCount = integrations.length || 1;
-  const integrationAngleStep = (2 * Math.PI) / integrationsCount;
-
-  integrations.forEach((node, i) => {
-    const angle = i * integrationAngleStep - Math.PI / 2;
-    node.orbitAngle = angle;
-    node.depth = 1;
-    node.isInOrbit = true;
-
-    const cx = folderFox ? folderFox.x : 0;
-    const cy = folderFox ? folderFox.y : 0;
-    const radius = getOrbitalRadius(1);
-    
-    node.targetX = cx + Math.cos(angle) * radius;
-    node.targetY = cy + Math.sin(angle) * radius;
-    node.x = node.targetX;
-    node.y = node.targetY;
-  });
-
-  // --- Setup all deeper levels (depth 2+) ---
-  const depthGroups = new Map<number, any[]>();
-  nodes.forEach(node => {
-    if (node.depth >= 2) {
-      if (!depthGroups.has(node.depth)) {
-        depthGroups.set(node.depth, []);
-      }
-      depthGroups.get(node.depth)!.push(node);
+// ===== Render Nodes =====
+// Sizes and colors change with the encoding, so bodies and labels are
+// restyled on every render rather than only when a node enters.
+function styleNodeBodies(node: D3NodeSelection) {
+  node.each(function (this: SVGGElement, d: OrbitalNode) {
+    const selection = d3.select(this);
+    const body = selection.select('circle.node-body');
+    if (body.empty()) return;
+
+    const radius = getNodeSize(d);
+    const style = getNodeBodyStyle(d);
+    body
+      .attr('r', radius)
+      .attr('fill', style.fill)
+      .attr('stroke', style.stroke)
+      .attr('stroke-width', 1)
+      .attr('stroke-dasharray', style.dash);
+
+    const label = selection.select('text.node-label').text(getNodeLabel(d));
+    if (d.data.fileKind) {
+      label.attr('dy', radius + 10);
+      return;
     }
-  });
-
-  // Sort depths ascending
-  const sortedDepths = Array.from(depthGroups.keys()).sort((a, b) => a - b);
 
-  sortedDepths.forEach(depth => {
-    const nodesAtDepth = depthGroups.get(depth)!;
-
-    // Group by parent
-    const byParent = new Map<any, any[]>();
-    nodesAtDepth.forEach(node => {
-      const parent = node.parent;
-      if (!byParent.has(parent)) {
-        byParent.set(parent, []);
-      }
-      byParent.get(parent)!.push(node);
-    });
-
-    // Position children radially outward from each parent
-    byParent.forEach((children, parent) => {
-      const childCount = children.length;
-      const nodeRadius = getNodeRadius(depth);
-      const minNodeSpacing = nodeRadius * 3; // 3x diameter for comfortable spacing
-      
-      // Fixed spread angle at 135°
-      const spreadAngle = Math.PI * 0.75; // 135°
-      
-      if (childCount === 1) {
-        // Single child: place straight out
-        const baseRadius = getOrbitalRadius(depth);
-        const child = children[0];
-        child.parentNode = parent;
-        child.orbitAngle = parent.orbitAngle;
-        child.offsetAngle = 0;
-        child.isInOrbit = true;
-
-        const px = parent.x ?? 0;
-        const py = parent.y ?? 0;
-        const angle = parent.orbitAngle;
-
-        child.targetX = px + Math.cos(angle) * baseRadius;
-        child.targetY = py + Math.sin(angle) * baseRadius;
-        child.x = child.targetX;
-        child.y = child.targetY;
-      } else {
-        // Multiple children: find minimum radius to prevent overlap
-        let radius = getOrbitalRadius(depth);
-        const maxIterations = 50;
-        let foundValidLayout = false;
-
-        for (let iteration = 0; iteration < maxIterations; iteration++) {
-          const startOffset = -spreadAngle / 2;
-          const positions: {x: number, y: number}[] = [];
-          
-          // Calculate positions for current radius
-          const px = parent.x ?? 0;
-          const py = parent.y ?? 0;
-          
-          for (let idx = 0; idx < childCount; idx++) {
-            const offsetAngle = startOffset + (idx / (childCount - 1)) * spreadAngle;
-            const angle = parent.orbitAngle + offsetAngle;
-            positions.push({
-              x: px + Math.cos(angle) * radius,
-              y: py + Math.sin(angle) * radius
-            });
-          }
-          
-          // Check if any siblings are too close
-          let minDistance = Infinity;
-          for (let i = 0; i < positions.length; i++) {
-            for (let j = i + 1; j < positions.length; j++) {
-              const dx = positions[i].x - positions[j].x;
-              const dy = positions[i].y - positions[j].y;
-              const distance = Math.sqrt(dx * dx + dy * dy);
-              minDistance = Math.min(minDistance, distance);
-            }
-          }
-          
-          // Check if layout is valid
-          if (minDistance >= minNodeSpacing) {
-            foundValidLayout = true;
-            break;
-          }
-          
-          // Increase radius to create more space
-          radius += 10; // Increment by 10px each iteration
-        }
-
-        // Apply final positions
-        const startOffset = -spreadAngle / 2;
-        children.forEach((child, idx) => {
-          child.parentNode = parent;
-          child.orbitAngle = parent.orbitAngle;
-          child.offsetAngle = startOffset + (idx / (childCount - 1)) * spreadAngle;
-          child.isInOrbit = true;
-          child.calculatedRadius = radius; // Store the calculated radius
-
-          const px = parent.x ?? 0;
-          const py = parent.y ?? 0;
-          const angle = parent.orbitAngle + child.offsetAngle;
-
-          child.targetX = px + Math.cos(angle) * radius;
-          child.targetY = py + Math.sin(angle) * radius;
-          child.x = child.targetX;
-          child.y = child.targetY;
-        });
-      }
-    });
+    label
+      .attr('font-size', getLabelFontSize(d))
+      .attr('fill', getReadableTextColor(style.fill));
   });
-
-  const RETURN_SPEED = 0.12;
-  let animationId: number;
-
-  function animate() {
-    nodes.forEach(node => {
-      if (node.depth === 0 || node.isDragging || !node.isInOrbit) return;
-
-      if (node.depth === 1) {
-        // Secondary: orbits around center (Folder Fox)
-        const cx = folderFox ? folderFox.x : 0;
-        const cy = folderFox ? folderFox.y : 0;
-        const radius = getOrbitalRadius(1);
-
-        const targetX = cx + Math.cos(node.orbitAngle) * radius;
-        const targetY = cy + Math.sin(node.orbitAngle) * radius;
-
-        node.targetX = targetX;
-        node.targetY = targetY;
-        node.x += (node.targetX - node.x) * RETURN_SPEED;
-        node.y += (node.targetY - node.y) * RETURN_SPEED;
-      } else {
-        // Tertiary and beyond: spreads within 135° arc from parent
-        const parent = node.parentNode;
-        if (!parent) return;
-
-        const px = parent.x ?? 0;
-        const py = parent.y ?? 0;
-        const radius = node.calculatedRadius || getOrbitalRadius(node.depth);
-        const angle = parent.orbitAngle + node.offsetAngle;
-
-        const targetX = px + Math.cos(angle) * radius;
-        const targetY = py + Math.sin(angle) * radius;
-
-        node.targetX = targetX;
-        node.targetY = targetY;
-        node.x += (node.targetX - node.x) * RETURN_SPEED;
-        node.y += (node.targetY - node.y) * RETURN_SPEED;
-      }
-    });
-
-    onTick();
-    animationId = requestAnimationFrame(animate);
-  }
-
-  animate();
-
-  function onDragStart(node: any) {
-    if (node.depth === 0) return;
-    node.isDragging = true;
-  }
-
-  function onDrag(node: any, x: number, y: number) {
-    if (node.depth === 0) return;
-    node.x = x;
-    node.y = y;
-  }
-
-  function onDragEnd(node: any) {
-    if (node.depth === 0) return;
-    node.isDragging = false;
-
-    if (node.depth === 1) {
-      // Return to primary orbit
-      const cx = folderFox ? folderFox.x : 0;
-      const cy = folderFox ? folderFox.y : 0;
-      const radius = getOrbitalRadius(1);
-
-      node.targetX = cx + Math.cos(node.orbitAngle) * radius;
-      node.targetY = cy + Math.sin(node.orbitAngle) * radius;
-    } else {
-      // Return to arc spread from parent
-      const parent = node.parentNode;
-      if (!parent) return;
-
-      const px = parent.x ?? 0;
-      const py = parent.y ?? 0;
-      const radius = node.calculatedRadius || getOrbitalRadius(node.depth);
-      const angle = parent.orbitAngle + node.offsetAngle;
-
-      node.targetX = px + Math.cos(angle) * radius;
-      node.targetY = py + Math.sin(angle) * radius;
-    }
-  }
-
-  return {
-    stop: () => cancelAnimationFrame(animationId),
-    dragHandlers: { onDragStart, onDrag, onDragEnd },
-  };
 }
 
-// ===== Render Nodes =====
-const LOGO_MAP: Record<string, string> = {
-  'Folder Fox': '/assets/folder-fox.png',
-  'Google Drive': '/assets/google-drive-logo.png',
-  Dropbox: '/assets/dropbox-logo.png',
-  OneDrive: '/assets/onedrive-logo.png',
-  Notion: '/assets/notion-logo.png',
-};
-
-const INTEGRATION_NAMES = ['Google Drive', 'Dropbox', 'OneDrive', 'Notion'];
-
-function getNodeId(d: any): string {
-  if (d?.id) return String(d.id);
-  if (d?.data?.name) {
-    const name = d.data.name;
-    const depth = d.depth;
-    const parentName = d.parent?.data?.name || '';
-    return `${depth}_${parentName}_${name}`.replace(/\s+/g, '_');
-  }
-  return 'node_' + Math.random().toString(36).slice(2);
-}
-
-function getNodeRadius(depth: number): number {
-  if (depth === 0) return 30;
-  if (depth === 1) return 25;
-  if (depth === 2) return 28;
-  // Level 3 and beyond: same size
-  return 24;
-}
-
-function getNodeColor(depth: number): string {
-  const colors: Record<number, string> = {
-    0: '#fff',
-    1: '#fff',
-    2: '#a8d8a8',
-    3: '#ffeb99',
-    4: '#ffb3ba',
-    5: '#bae1ff',
-  };
-  return colors[depth] || '#e0e0e0';
+// Labels too small to read at the current zoom are hidden.
+function applyLabelLevelOfDetail(nodeLayer: D3GroupSelection, scale: number) {
+  nodeLayer
+    .selectAll<SVGTextElement, OrbitalNode>('text.node-label')
+    .style('display', (d: OrbitalNode) => (isLabelVisible(d, scale) ? null : 'none'));
+  nodeLayer
+    .selectAll<SVGTextElement, OrbitalNode>('text.diff-overlay')
+    .style('display', isTextLegible(DIFF_LABEL_FONT_SIZE, scale) ? null : 'none');
 }
 
 function renderNodes(
   svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
   nodeLayer: d3.Selection<SVGGElement, unknown, null, undefined>,
-  visibleNodes: any[],
-) {
+  visibleNodes: OrbitalNode[],
+): D3NodeSelection {
   const node = nodeLayer
-    .selectAll<SVGGElement, any>('g.node')
-    .data(visibleNodes, d => getNodeId(d))
+    .selectAll<SVGGElement, OrbitalNode>('g.node')
+    .data(visibleNodes, (d: OrbitalNode) => getNodeId(d))
     .join(
-      enter => {
+      (enter: d3.Selection<d3.EnterElement, OrbitalNode, SVGGElement, unknown>) => {
         const group = enter
           .append('g')
           .attr('class', 'node')
+          .attr('data-node-id', (d: OrbitalNode) => d.data.id ?? null)
           .style('cursor', 'pointer')
           .style('opacity', 0)
-          .attr('transform', d => `translate(${d.x ?? 0},${d.y ?? 0})`);
+          .attr('transform', (d: OrbitalNode) => `translate(${d.x ?? 0},${d.y ?? 0})`);
 
-        group.each(function (d: any) {
+        group.each(function (this: SVGGElement, d: OrbitalNode) {
           const selection = d3.select(this);
-          const name = d.data?.name ?? 'Node';
-          const isFolderFox = d.depth === 0 && name === 'Folder Fox';
-          const isIntegration = d.depth === 1 && INTEGRATION_NAMES.includes(name);
-
-          if ((isFolderFox || isIntegration) && LOGO_MAP[name]) {
+          if (isLogoNode(d)) {
             const radius = getNodeRadius(d.depth);
             selection
               .append('circle')
@@ -401,67 +153,256 @@ function renderNodes(
 
             selection
               .append('image')
-              .attr('href', LOGO_MAP[name])
+              .attr('href', getLogoUrl(d))
               .attr('x', -radius * 0.6)
               .attr('y', -radius * 0.6)
               .attr('width', radius * 1.2)
               .attr('height', radius * 1.2)
               .style('pointer-events', 'none');
-          } else {
-            const radius = getNodeRadius(d.depth);
-            const color = getNodeColor(d.depth);
+          } else if (d.data.fileKind) {
+            selection.append('circle').attr('class', 'node-body');
 
             selection
-              .append('circle')
-              .attr('r', radius)
-              .attr('fill', color)
-              .attr('stroke', '#333')
-              .attr('stroke-width', 1);
-
-            const maxChars = Math.max(8, Math.floor(radius * 0.8));
-            let displayText = name;
-            
-            if (displayText.length > maxChars) {
-              displayText = displayText.slice(0, maxChars - 1) + '…';
-            }
+              .append('text')
+              .attr('class', 'node-label')
+              .attr('text-anchor', 'middle')
+              .attr('font-size', 8)
+              .attr('fill', '#475569')
+              .attr('pointer-events', 'none');
+          } else {
+            selection.append('circle').attr('class', 'node-body');
 
-            const fontSize = Math.max(7, Math.min(12, radius * 0.55));
-            
             selection
               .append('text')
+              .attr('class', 'node-label')
               .attr('text-anchor', 'middle')
               .attr('dy', '0.35em')
-              .attr('font-size', fontSize)
-              .attr('fill', '#000')
               .attr('pointer-events', 'none')
               .style('word-wrap', 'break-word')
-              .style('white-space', 'normal')
-              .text(displayText);
+              .style('white-space', 'normal');
           }
         });
 
-        group.append('title').text(d => d.data?.name ?? 'Node');
+        group.append('title').text((d: OrbitalNode) => d.data.name ?? 'Node');
 
         return group.transition().duration(300).style('opacity', 1);
       },
-      update => update,
-      exit => exit.transition().duration(200).style('opacity', 0).remove(),
+      (update: D3NodeSelection) => update,
+      (exit: D3NodeSelection) => exit.transition().duration(200).style('opacity', 0).remove(),
     );
 
-  node.attr('transform', d => `translate(${d.x ?? 0},${d.y ?? 0})`);
+  node.attr('transform', (d: OrbitalNode) => `translate(${d.x ?? 0},${d.y ?? 0})`);
+  styleNodeBodies(node);
   return node;
 }
 
+// ===== Diff Overlay =====
+// Rings changed nodes in their change color and fades the rest. The overlay
+// sits on top of the node markup so it can be cleared without re-rendering.
+function applyDiffOverlay(node: D3NodeSelection, diff?: SnapshotDiff | null) {
+  node.each(function (this: SVGGElement, d: OrbitalNode) {
+    const selection = d3.select(this);
+    const change = diff && d.data.id ? diff.byId.get(d.data.id) : undefined;
+
+    selection.selectAll('.diff-overlay').remove();
+    selection.attr('opacity', diff && !change && d.depth > 1 ? DIFF_UNCHANGED_OPACITY : 1);
+    selection.select('title').text(d.data.name ?? 'Node');
+    if (!change) return;
+
+    const radius = getNodeSize(d);
+    const color = getChangeColor(change);
+
+    selection
+      .insert('circle', ':first-child')
+      .attr('class', 'diff-overlay')
+      .attr('r', radius + 4)
+      .attr('fill', 'none')
+      .attr('stroke', color)
+      .attr('stroke-width', 3);
+
+    selection
+      .append('text')
+      .attr('class', 'diff-overlay')
+      .attr('text-anchor', 'middle')
+      .attr('dy', -radius - 8)
+      .attr('font-size', DIFF_LABEL_FONT_SIZE)
+      .attr('font-weight', 600)
+      .attr('fill', color)
+      .attr('pointer-events', 'none')
+      .text(formatSizeDelta(change.sizeDelta));
+
+    selection
+      .select('title')
+      .text(`${d.data.name ?? 'Node'}\n${change.types.join(', ')} · ${formatSizeDelta(change.sizeDelta)}`);
+  });
+}
+
+// ===== Sharing Overlay =====
+// Recolors node bodies by exposure and dashes the outline of items owned by
+// someone else. Without a report the default body style comes back.
+function applySharingOverlay(node: D3NodeSelection, sharing?: SharingReport | null) {
+  node.each(function (this: SVGGElement, d: OrbitalNode) {
+    const selection = d3.select(this);
+    const body = selection.select('circle.node-body');
+    if (body.empty()) return;
+
+    const id = d.data.id;
+    const style = getNodeBodyStyle(d);
+    const isForeign = Boolean(sharing && id && isForeignOwned(sharing, id));
+    const fill = sharing && id ? SHARING_COLORS[getSharingCategory(sharing, id)] : style.fill;
+
+    if (!d.data.fileKind) selection.select('text.node-label').attr('fill', getReadableTextColor(fill));
+    body
+      .attr('fill', fill)
+      .attr('stroke', isForeign ? FOREIGN_OWNER_COLOR : style.stroke)
+      .attr('stroke-width', isForeign ? 3 : 1)
+      .attr('stroke-dasharray', isForeign ? '4 2' : style.dash);
+
+    const sharingTitle = sharing && id ? getSharingTitle(sharing, id) : null;
+    if (sharingTitle) {
+      const title = selection.select('title');
+      title.text(`${title.text()}\n${sharingTitle}`);
+    }
+  });
+}
+
 // ===== Main Component =====
-export const OrbitalMap: React.FC<OrbitalMapProps> = ({ folders }) => {
+const COLOR_MODE_OPTIONS: Array<{ id: OrbitalColorMode; label: string }> = [
+  { id: 'service', label: 'Service' },
+  { id: 'branch', label: 'Branch' },
+];
+
+const SIZE_MODE_OPTIONS: Array<{ id: OrbitalSizeMode; label: string }> = [
+  { id: 'uniform', label: 'Uniform' },
+  { id: 'totalSize', label: 'Total size' },
+  { id: 'fileCount', label: 'File count' },
+];
+
+// Past this many visible nodes the map is drawn on a canvas instead
+const CANVAS_NODE_THRESHOLD = 800;
+
+/** The part of the map area on screen, in the component's own coordinates. */
+interface ScreenView {
+  left: number;
+  top: number;
+  /** Screen pixels; the view spans `width / scale` of the component. */
+  width: number;
+  height: number;
+  scale: number;
+}
+
+export const OrbitalMap: React.FC<OrbitalMapProps> = ({
+  folders,
+  colorPaletteId,
+  colorBy = 'service',
+  sizeBy = 'uniform',
+  diff,
+  sharing,
+}) => {
   const svgRef = useRef<SVGSVGElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const [size, setSize] = useState({ width: 900, height: 700 });
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [colorMode, setColorMode] = useState<OrbitalColorMode>(colorBy);
+  const [sizeMode, setSizeMode] = useState<OrbitalSizeMode>(sizeBy);
   const gRef = useRef<D3GroupSelection | null>(null);
   const linkLayerRef = useRef<D3GroupSelection | null>(null);
   const nodeLayerRef = useRef<D3GroupSelection | null>(null);
-  const physicsRef = useRef<any>(null);
+  const physicsRef = useRef<OrbitalPhysics | null>(null);
+  // Where the map lands on screen, kept current for drawing and pointer handlers
+  const screenRef = useRef<Pick<OrbitalScene, 'transform' | 'width' | 'height'>>({
+    transform: { x: 0, y: 0, k: 1 },
+    width: 0,
+    height: 0,
+  });
+  const logosRef = useRef<Map<string, HTMLImageElement>>(new Map());
+  const drawCanvasRef = useRef<() => void>(() => {});
+  // What the canvas shows, for hit testing and tooltips
+  const canvasSceneRef = useRef<Pick<OrbitalScene, 'nodes' | 'diff' | 'sharing'>>({ nodes: [] });
+
+  const handleRecordingComplete = useCallback((gif: Blob) => {
+    downloadBlob(gif, `orbital-map-${getTimestamp()}.gif`);
+  }, []);
+  const camera = useViewportCamera();
+
+  useEffect(() => setColorMode(colorBy), [colorBy]);
+  useEffect(() => setSizeMode(sizeBy), [sizeBy]);
+
+  // The hierarchy only changes with the data or its encoding, so expanding
+  // a node keeps every node object, and its position, from the last render.
+  const { root, encoding } = useMemo(() => {
+    const hierarchy = buildHierarchy(folders);
+    // Styled before layout, which spaces nodes by their radii
+    const styles = assignNodeStyles(hierarchy, { paletteId: colorPaletteId, colorBy: colorMode, sizeBy: sizeMode });
+    return { root: hierarchy, encoding: styles };
+  }, [folders, colorPaletteId, colorMode, sizeMode]);
+
+  const { visibleNodes, visibleLinks } = useMemo(
+    () => getVisibleNodesAndLinks(root, expanded),
+    [root, expanded],
+  );
+  const isCanvasMode = visibleNodes.length > CANVAS_NODE_THRESHOLD;
+
+  const toggleExpanded = useCallback((d: OrbitalNode) => {
+    const nodeId = getNodeId(d);
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) next.delete(nodeId);
+      else next.add(nodeId);
+      return next;
+    });
+  }, []);
+
+  // Pan and zoom come from the map camera, which transforms this whole
+  // component; without one (e.g. in an export) the map is shown as laid out.
+  const cameraViewport = camera?.viewport;
+  const cameraSize = camera?.size;
+  const screenView = useMemo<ScreenView>(() => {
+    if (!cameraViewport || !cameraSize) return { left: 0, top: 0, ...size, scale: 1 };
+    const scale = cameraViewport.zoom / 100;
+    return {
+      left: -cameraViewport.x / scale,
+      top: -cameraViewport.y / scale,
+      width: cameraSize.width,
+      height: cameraSize.height,
+      scale,
+    };
+  }, [cameraViewport, cameraSize, size]);
+
+  // The camera zooms with CSS outside the SVG, so a recording is framed on
+  // what is on screen; the SVG's own box would crop rings reaching past it.
+  const getRecordingArea = useCallback((): SvgCaptureArea => {
+    const { left, top, width, height, scale } = screenView;
+    return {
+      viewBox: [left - size.width / 2, top - size.height / 2, width / scale, height / scale],
+      width,
+      height,
+    };
+  }, [screenView, size]);
+  const recorder = useSvgRecorder(svgRef, handleRecordingComplete, getRecordingArea);
+
+  // Map coordinates have their origin at the center, like the SVG viewBox.
+  // Nodes are measured at their laid out spots, which they settle into.
+  const viewportTarget = useMemo<ViewportTarget>(() => {
+    const getBounds = (d: OrbitalNode): ViewportRect => {
+      const radius = getNodeSize(d);
+      return {
+        x: size.width / 2 + (d.targetX ?? d.x ?? 0) - radius,
+        y: size.height / 2 + (d.targetY ?? d.y ?? 0) - radius,
+        width: radius * 2,
+        height: radius * 2,
+      };
+    };
+    return {
+      getBounds: () => unionRects(visibleNodes.map(getBounds)),
+      getNodeBounds: nodeId => {
+        const d = visibleNodes.find(node => node.data.id === nodeId);
+        return d ? getBounds(d) : null;
+      },
+    };
+  }, [visibleNodes, size]);
+  useViewportTarget(viewportTarget);
 
   useEffect(() => {
     const observer = new ResizeObserver(entries => {
@@ -487,15 +428,71 @@ export const OrbitalMap: React.FC<OrbitalMapProps> = ({ folders }) => {
 
     linkLayerRef.current = g.append('g').attr('class', 'link-layer');
     nodeLayerRef.current = g.append('g').attr('class', 'node-layer');
+  }, []);
 
-    const zoom = d3
-      .zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.4, 3])
-      .on('zoom', event => g.attr('transform', event.transform));
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const selection = d3.select(canvas);
+    logosRef.current = loadLogoImages(() => drawCanvasRef.current());
+
+    // The pointer is in screen pixels from the canvas corner, as the canvas is drawn
+    const getMapPoint = (event: MouseEvent) => toMapPoint(screenRef.current.transform, d3.pointer(event, canvas));
+    const getNodeAt = (event: MouseEvent) => {
+      const [x, y] = getMapPoint(event);
+      return findNodeAt(canvasSceneRef.current.nodes, x, y);
+    };
+
+    selection.call(
+      d3
+        .drag<HTMLCanvasElement, unknown, OrbitalNode>()
+        .subject((event: CanvasDragEvent) => getNodeAt(event.sourceEvent))
+        .on('start', (event: CanvasDragEvent) => physicsRef.current?.dragHandlers.onDragStart(event.subject))
+        .on('drag', (event: CanvasDragEvent) => {
+          const [x, y] = getMapPoint(event.sourceEvent);
+          physicsRef.current?.dragHandlers.onDrag(event.subject, x, y);
+        })
+        .on('end', (event: CanvasDragEvent) => physicsRef.current?.dragHandlers.onDragEnd(event.subject)),
+    );
 
-    svg.call(zoom as any);
-    svg.on('dblclick.zoom', null);
-  }, []);
+    selection
+      .on('dblclick', (event: MouseEvent) => {
+        const d = getNodeAt(event);
+        if (d) toggleExpanded(d);
+      })
+      .on('mousemove', (event: MouseEvent) => {
+        const d = getNodeAt(event);
+        const { diff: currentDiff, sharing: currentSharing } = canvasSceneRef.current;
+        canvas.title = d ? getNodeTitle(d, currentDiff, currentSharing) : '';
+        canvas.style.cursor = d ? 'pointer' : '';
+      });
+  }, [toggleExpanded]);
+
+  // Follows the camera. The canvas covers just the part of the map on screen,
+  // at screen resolution, so it stays sharp at any zoom; SVG labels are
+  // thinned out for the zoom instead.
+  useEffect(() => {
+    const { left, top, width, height, scale } = screenView;
+    screenRef.current = {
+      transform: { x: (size.width / 2 - left) * scale, y: (size.height / 2 - top) * scale, k: scale },
+      width,
+      height,
+    };
+
+    const canvas = canvasRef.current;
+    if (isCanvasMode && canvas) {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+      canvas.style.left = `${left}px`;
+      canvas.style.top = `${top}px`;
+      canvas.style.width = `${width / scale}px`;
+      canvas.style.height = `${height / scale}px`;
+      drawCanvasRef.current();
+    } else if (!isCanvasMode && nodeLayerRef.current) {
+      applyLabelLevelOfDetail(nodeLayerRef.current, scale);
+    }
+  }, [screenView, size, isCanvasMode]);
 
   useEffect(() => {
     if (!svgRef.current || !gRef.current || !nodeLayerRef.current || !linkLayerRef.current)
@@ -504,80 +501,192 @@ export const OrbitalMap: React.FC<OrbitalMapProps> = ({ folders }) => {
     const svg = d3.select(svgRef.current);
     const { width, height } = size;
 
-    const root = buildHierarchy(folders);
-    const { visibleNodes, visibleLinks } = getVisibleNodesAndLinks(root, expanded);
-
     svg
       .attr('viewBox', [-width / 2, -height / 2, width, height])
       .attr('width', width)
       .attr('height', height)
-      .style('background', 'none');
+      .style('background', 'none')
+      // Large maps reach past the box; the camera decides what is on screen
+      .style('overflow', 'visible');
 
     const linkLayer = linkLayerRef.current!;
     const nodeLayer = nodeLayerRef.current!;
 
+    const previousNodes = physicsRef.current?.nodes;
+    if (physicsRef.current) physicsRef.current.stop();
+
+    if (isCanvasMode) {
+      // The SVG markup is dropped rather than kept in sync off screen
+      linkLayer.selectAll('*').remove();
+      nodeLayer.selectAll('*').remove();
+
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (!canvas || !context) return;
+
+      const fontFamily = window.getComputedStyle(canvas).fontFamily || 'sans-serif';
+      canvasSceneRef.current = { nodes: visibleNodes, diff, sharing };
+      drawCanvasRef.current = () =>
+        drawOrbitalCanvas(context, {
+          nodes: visibleNodes,
+          links: visibleLinks,
+          ...screenRef.current,
+          fontFamily,
+          logos: logosRef.current,
+          diff,
+          sharing,
+        });
+
+      const physics = createManualPhysics(visibleNodes, drawCanvasRef.current, previousNodes);
+      physicsRef.current = physics;
+      return () => physics.stop();
+    }
+
+    canvasSceneRef.current = { nodes: [] };
+    drawCanvasRef.current = () => {};
+
     const link = linkLayer
-      .selectAll<SVGLineElement, any>('line')
-      .data(visibleLinks, (d: any) => `${d.source.data.name}-${d.target.data.name}`)
+      .selectAll<SVGLineElement, OrbitalLink>('line')
+      .data(visibleLinks, (d: OrbitalLink) => getLinkId(d))
       .join(
-        enter => enter.append('line').attr('stroke', '#aaa').attr('stroke-width', 1.2),
-        update => update,
-        exit => exit.remove(),
+        (enter: d3.Selection<d3.EnterElement, OrbitalLink, SVGGElement, unknown>) =>
+          enter.append('line').attr('stroke', '#aaa').attr('stroke-width', 1.2),
+        (update: D3LinkSelection) => update,
+        (exit: D3LinkSelection) => exit.remove(),
       );
 
-    if (physicsRef.current) physicsRef.current.stop();
-
-    let node: any;
+    let node: D3NodeSelection | undefined;
 
-    const physics = createManualPhysics(visibleNodes, () => {
-      link
-        .attr('x1', (d: any) => (d.source as any).x)
-        .attr('y1', (d: any) => (d.source as any).y)
-        .attr('x2', (d: any) => (d.target as any).x)
-        .attr('y2', (d: any) => (d.target as any).y);
+    const physics = createManualPhysics(
+      visibleNodes,
+      () => {
+        link
+          .attr('x1', (d: OrbitalLink) => d.source.x)
+          .attr('y1', (d: OrbitalLink) => d.source.y)
+          .attr('x2', (d: OrbitalLink) => d.target.x)
+          .attr('y2', (d: OrbitalLink) => d.target.y);
 
-      if (node) node.attr('transform', (d: any) => `translate(${d.x},${d.y})`);
-    });
+        if (node) node.attr('transform', (d: OrbitalNode) => `translate(${d.x},${d.y})`);
+      },
+      previousNodes,
+    );
 
     physicsRef.current = physics;
 
     node = renderNodes(svg, nodeLayer, visibleNodes).style('pointer-events', 'all');
+    applyDiffOverlay(node, diff);
+    applySharingOverlay(node, sharing);
+    applyLabelLevelOfDetail(nodeLayer, screenRef.current.transform.k);
 
     node.call(
       d3
-        .drag<SVGGElement, any>()
-        .on('start', (event: any, d: any) => {
+        .drag<SVGGElement, OrbitalNode>()
+        .on('start', (event: NodeDragEvent, d: OrbitalNode) => {
           physics.dragHandlers.onDragStart(d);
         })
-        .on('drag', (event: any, d: any) => {
-          const svgEl = svgRef.current!;
-          const t = d3.zoomTransform(svgEl);
-          const [px, py] = t.invert(d3.pointer(event, svgEl));
+        .on('drag', (event: NodeDragEvent, d: OrbitalNode) => {
+          // Screen to viewBox coordinates, through the camera's CSS transform too
+          const [px, py] = d3.pointer(event, svgRef.current);
           physics.dragHandlers.onDrag(d, px, py);
         })
-        .on('end', (event: any, d: any) => {
+        .on('end', (event: NodeDragEvent, d: OrbitalNode) => {
           physics.dragHandlers.onDragEnd(d);
-        }) as any
+        })
     );
 
-    node.on('dblclick', (event: any, d: any) => {
+    node.on('dblclick', (event: MouseEvent, d: OrbitalNode) => {
       event.stopPropagation();
-      const name = d.data?.name;
-      if (!name) return;
-      setExpanded(prev => {
-        const next = new Set(prev);
-        if (next.has(name)) next.delete(name);
-        else next.add(name);
-        return next;
-      });
+      toggleExpanded(d);
     });
 
     return () => physics.stop();
-  }, [folders, size, expanded]);
+  }, [visibleNodes, visibleLinks, size, diff, sharing, isCanvasMode, toggleExpanded]);
 
   return (
     <div ref={containerRef} className="relative z-10 w-full h-full">
-      <svg ref={svgRef}></svg>
+      <canvas ref={canvasRef} className={isCanvasMode ? 'absolute' : 'hidden'} />
+      <svg ref={svgRef} className={isCanvasMode ? 'hidden' : undefined}></svg>
+      {/* Legends and controls stay in the corners of the screen at their own size */}
+      <div
+        className="pointer-events-none absolute"
+        style={{
+          left: screenView.left,
+          top: screenView.top,
+          width: screenView.width,
+          height: screenView.height,
+          transform: `scale(${1 / screenView.scale})`,
+          transformOrigin: '0 0',
+        }}
+      >
+        <div className="pointer-events-auto absolute left-4 top-4 flex flex-col items-start gap-2">
+          {diff && <DiffLegend diff={diff} />}
+          {sharing && <SharingLegend sharing={sharing} />}
+          {!sharing && <OrbitalLegend encoding={encoding} />}
+        </div>
+        <div className="pointer-events-auto absolute right-4 top-4 flex items-start gap-2">
+          <div
+            onMouseDown={event => event.stopPropagation()}
+            className="flex flex-col gap-1 rounded-md border border-border bg-background/90 p-1 text-xs shadow-sm"
+            data-export-ignore
+          >
+            <div className="flex items-center gap-1">
+              <span className="w-10 px-1 text-muted-foreground">Color</span>
+              {COLOR_MODE_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setColorMode(option.id)}
+                  className={`rounded px-2 py-0.5 transition-colors ${
+                    colorMode === option.id
+                      ? 'bg-primary text-primary-foreground'
+                      : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              <span className="w-10 px-1 text-muted-foreground">Size</span>
+              {SIZE_MODE_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setSizeMode(option.id)}
+                  className={`rounded px-2 py-0.5 transition-colors ${
+                    sizeMode === option.id
+                      ? 'bg-primary text-primary-foreground'
+                      : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onMouseDown={event => event.stopPropagation()}
+            onClick={recorder.status === 'recording' ? recorder.stop : recorder.start}
+            disabled={recorder.status === 'encoding' || (isCanvasMode && recorder.status === 'idle')}
+            title={
+              recorder.status === 'recording'
+                ? 'Stop and download the GIF'
+                : isCanvasMode
+                  ? 'Collapse some folders to record; large maps are drawn without SVG'
+                  : 'Record a GIF; double-click nodes to expand them while recording'
+            }
+            className="flex items-center gap-1.5 rounded-md border border-border bg-background/90 px-2 py-1 text-xs shadow-sm transition-colors hover:bg-accent hover:text-accent-foreground disabled:opacity-60"
+            data-export-ignore
+          >
+            {recorder.status === 'encoding' ? (
+              <Loader2 size={12} className="animate-spin" />
+            ) : recorder.status === 'recording' ? (
+              <Square size={12} className="fill-current text-red-500" />
+            ) : (
+              <Circle size={12} className="fill-current text-red-500" />
+            )}
+            {recorder.status === 'encoding' ? 'Encoding…' : recorder.status === 'recording' ? 'Stop' : 'Record GIF'}
+          </button>
+        </div>
+      </div>
     </div>
   );
 };
\ No newline at end of file
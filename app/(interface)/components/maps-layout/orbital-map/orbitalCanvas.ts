@@ -0,0 +1,196 @@
+import type { SharingReport } from '@/lib/mapData';
+import type { SnapshotDiff } from '../../right-sidebar/data-sources/snapshotDiff';
+import {
+  DIFF_UNCHANGED_OPACITY,
+  formatSizeDelta,
+  getChangeColor,
+} from '@/app/(interface)/lib/mapUtils/diffOverlay';
+import { getReadableTextColor } from '@/app/(interface)/lib/mapUtils/palettes';
+import {
+  FOREIGN_OWNER_COLOR,
+  SHARING_COLORS,
+  getSharingCategory,
+  getSharingTitle,
+  isForeignOwned,
+} from '@/app/(interface)/lib/mapUtils/sharingOverlay';
+import {
+  DIFF_LABEL_FONT_SIZE,
+  LOGO_MAP,
+  getLabelFontSize,
+  getLogoUrl,
+  getNodeBodyStyle,
+  getNodeLabel,
+  getNodeSize,
+  isLabelVisible,
+  isLogoNode,
+  isTextLegible,
+  type OrbitalLink,
+  type OrbitalNode,
+} from './orbitalLayout';
+
+/**
+ * Canvas2D drawing for maps with too many nodes for one SVG element each.
+ * It draws the same scene as the SVG path, overlays included, and skips
+ * nodes outside the viewport.
+ */
+
+export interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+export interface OrbitalScene {
+  nodes: OrbitalNode[];
+  links: OrbitalLink[];
+  /** Where map coordinates land on the canvas: `x + k * mapX`, in CSS pixels. */
+  transform: ViewTransform;
+  width: number;
+  height: number;
+  fontFamily: string;
+  logos: Map<string, HTMLImageElement>;
+  diff?: SnapshotDiff | null;
+  sharing?: SharingReport | null;
+}
+
+const LINK_COLOR = '#aaa';
+const FILE_LABEL_COLOR = '#475569';
+
+const toLineDash = (dash: string | null): number[] => (dash ? dash.split(' ').map(Number) : []);
+
+export function loadLogoImages(onLoad: () => void): Map<string, HTMLImageElement> {
+  const logos = new Map<string, HTMLImageElement>();
+  Object.values(LOGO_MAP).forEach(url => {
+    const image = new Image();
+    image.onload = onLoad;
+    image.src = url;
+    logos.set(url, image);
+  });
+  return logos;
+}
+
+// Converts a point on the canvas, in CSS pixels, to map coordinates.
+export function toMapPoint({ x, y, k }: ViewTransform, [px, py]: [number, number]): [number, number] {
+  return [(px - x) / k, (py - y) / k];
+}
+
+// The topmost node under the point, which is the last one drawn.
+export function findNodeAt(nodes: OrbitalNode[], x: number, y: number): OrbitalNode | undefined {
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const d = nodes[i];
+    const radius = getNodeSize(d);
+    const dx = d.x - x;
+    const dy = d.y - y;
+    if (dx * dx + dy * dy <= radius * radius) return d;
+  }
+  return undefined;
+}
+
+// Tooltip text matching the SVG node titles.
+export function getNodeTitle(d: OrbitalNode, diff?: SnapshotDiff | null, sharing?: SharingReport | null): string {
+  const id = d.data.id;
+  const lines = [d.data.name ?? 'Node'];
+  const change = diff && id ? diff.byId.get(id) : undefined;
+  if (change) lines.push(`${change.types.join(', ')} · ${formatSizeDelta(change.sizeDelta)}`);
+  const sharingTitle = sharing && id && !isLogoNode(d) ? getSharingTitle(sharing, id) : null;
+  if (sharingTitle) lines.push(sharingTitle);
+  return lines.join('\n');
+}
+
+function drawCircle(context: CanvasRenderingContext2D, x: number, y: number, radius: number) {
+  context.beginPath();
+  context.arc(x, y, radius, 0, 2 * Math.PI);
+}
+
+export function drawOrbitalCanvas(context: CanvasRenderingContext2D, scene: OrbitalScene) {
+  const { nodes, links, transform, width, height, fontFamily, logos, diff, sharing } = scene;
+  const ratio = window.devicePixelRatio || 1;
+
+  context.setTransform(ratio, 0, 0, ratio, 0, 0);
+  context.clearRect(0, 0, width, height);
+  context.translate(transform.x, transform.y);
+  context.scale(transform.k, transform.k);
+
+  // Visible area in map coordinates
+  const [left, top] = toMapPoint(transform, [0, 0]);
+  const [right, bottom] = toMapPoint(transform, [width, height]);
+
+  context.beginPath();
+  links.forEach(({ source, target }) => {
+    context.moveTo(source.x, source.y);
+    context.lineTo(target.x, target.y);
+  });
+  context.setLineDash([]);
+  context.strokeStyle = LINK_COLOR;
+  context.lineWidth = 1.2;
+  context.stroke();
+
+  context.textAlign = 'center';
+  nodes.forEach(d => {
+    const radius = getNodeSize(d);
+    // Labels and change badges reach past the circle
+    const margin = radius + 24;
+    if (d.x + margin < left || d.x - margin > right || d.y + margin < top || d.y - margin > bottom) return;
+
+    const id = d.data.id;
+    const change = diff && id ? diff.byId.get(id) : undefined;
+    context.globalAlpha = diff && !change && d.depth > 1 ? DIFF_UNCHANGED_OPACITY : 1;
+
+    if (change) {
+      drawCircle(context, d.x, d.y, radius + 4);
+      context.setLineDash([]);
+      context.strokeStyle = getChangeColor(change);
+      context.lineWidth = 3;
+      context.stroke();
+    }
+
+    if (isLogoNode(d)) {
+      drawCircle(context, d.x, d.y, radius);
+      context.setLineDash([]);
+      context.fillStyle = '#fff';
+      context.fill();
+      context.strokeStyle = '#ccc';
+      context.lineWidth = 2;
+      context.stroke();
+
+      const url = getLogoUrl(d);
+      const logo = url ? logos.get(url) : undefined;
+      if (logo?.complete && logo.naturalWidth > 0) {
+        context.drawImage(logo, d.x - radius * 0.6, d.y - radius * 0.6, radius * 1.2, radius * 1.2);
+      }
+    } else {
+      const style = getNodeBodyStyle(d);
+      const isForeign = Boolean(sharing && id && isForeignOwned(sharing, id));
+      const fill = sharing && id ? SHARING_COLORS[getSharingCategory(sharing, id)] : style.fill;
+
+      drawCircle(context, d.x, d.y, radius);
+      context.fillStyle = fill;
+      context.fill();
+      context.setLineDash(isForeign ? [4, 2] : toLineDash(style.dash));
+      context.strokeStyle = isForeign ? FOREIGN_OWNER_COLOR : style.stroke;
+      context.lineWidth = isForeign ? 3 : 1;
+      context.stroke();
+
+      if (isLabelVisible(d, transform.k)) {
+        context.font = `${getLabelFontSize(d)}px ${fontFamily}`;
+        if (d.data.fileKind) {
+          context.textBaseline = 'alphabetic';
+          context.fillStyle = FILE_LABEL_COLOR;
+          context.fillText(getNodeLabel(d), d.x, d.y + radius + 10);
+        } else {
+          context.textBaseline = 'middle';
+          context.fillStyle = getReadableTextColor(fill);
+          context.fillText(getNodeLabel(d), d.x, d.y);
+        }
+      }
+    }
+
+    if (change && isTextLegible(DIFF_LABEL_FONT_SIZE, transform.k)) {
+      context.font = `600 ${DIFF_LABEL_FONT_SIZE}px ${fontFamily}`;
+      context.textBaseline = 'alphabetic';
+      context.fillStyle = getChangeColor(change);
+      context.fillText(formatSizeDelta(change.sizeDelta), d.x, d.y - radius - 8);
+    }
+  });
+  context.globalAlpha = 1;
+}
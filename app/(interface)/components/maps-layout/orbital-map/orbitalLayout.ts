@@ -0,0 +1,531 @@
+import * as d3 from 'd3';
+
+import { getFileLeaves } from '@/lib/mapData';
+import { isServiceId, type FileItem, type FileKind, type FolderMetrics, type ServiceId } from '../../right-sidebar/data';
+import { getPaletteColor, getServiceColor, shiftColor } from '@/app/(interface)/lib/mapUtils/palettes';
+
+/**
+ * Data, sizing and layout for the orbital map: the hierarchy the map draws,
+ * stable node keys, and the manual physics that keeps nodes in orbit.
+ */
+
+export interface OrbitalFolder {
+  id?: string;
+  name: string;
+  children?: OrbitalFolder[];
+  files?: FileItem[];
+  metrics?: FolderMetrics;
+}
+
+/** What a hierarchy node stands for: the center, a service, a folder or a file. */
+export interface OrbitalDatum {
+  id?: string;
+  name: string;
+  /** Unset on the center, which belongs to no service. */
+  serviceId?: ServiceId;
+  /** Subtree totals, so a folder counts everything below it. */
+  totalSize: number;
+  fileCount: number;
+  /** Set on file leaves; `'more'` stands in for files past the leaf limit. */
+  fileKind?: FileKind | 'more';
+  metrics?: FolderMetrics;
+  children?: OrbitalDatum[];
+}
+
+/**
+ * A node of the `d3.hierarchy` built from `OrbitalDatum`s, with what the
+ * styling, layout and physics below set on it.
+ */
+export interface OrbitalNode {
+  data: OrbitalDatum;
+  depth: number;
+  parent: OrbitalNode | null;
+  children?: OrbitalNode[];
+  descendants: () => OrbitalNode[];
+  /** Current position, placed by the physics before the node is first drawn. */
+  x: number;
+  y: number;
+  /** Radius and color from `assignNodeStyles`. */
+  r?: number;
+  color?: string;
+  branchIndex?: number;
+  /** Spot in orbit from `layoutOrbits`, and its offset from the parent. */
+  targetX?: number;
+  targetY?: number;
+  offsetX?: number;
+  offsetY?: number;
+  isInOrbit?: boolean;
+  isDragging?: boolean;
+}
+
+export interface OrbitalLink {
+  source: OrbitalNode;
+  target: OrbitalNode;
+}
+
+export type OrbitalColorMode = 'service' | 'branch';
+export type OrbitalSizeMode = 'uniform' | 'totalSize' | 'fileCount';
+
+const FOLDER_FOX_ID = 'folder-fox';
+
+// Keyed by node id: the center and the service roots, whose ids are service ids
+export const LOGO_MAP: Record<typeof FOLDER_FOX_ID | ServiceId, string> = {
+  [FOLDER_FOX_ID]: '/assets/folder-fox.png',
+  googledrive: '/assets/google-drive-logo.png',
+  dropbox: '/assets/dropbox-logo.png',
+  onedrive: '/assets/onedrive-logo.png',
+  notion: '/assets/notion-logo.png',
+  local: '/assets/local-files.svg',
+};
+
+// Minimum distance between each level's ring and the one inside it
+const ORBITAL_RADII: Record<number, number> = {
+  0: 0,        // Center (Folder Fox)
+  1: 200,      // Level 1: Integrations around center
+  2: 150,      // Level 2: Folders around integrations
+  3: 80,       // Level 3 and beyond: fixed radius
+};
+
+// Minimum distance between circle centers, as a multiple of their summed radii
+const NODE_SPACING_FACTOR = 1.5;
+
+// Get radius for a given depth
+function getOrbitalRadius(depth: number): number {
+  if (depth === 0) return 0;
+  if (depth === 1) return ORBITAL_RADII[1];
+  if (depth === 2) return ORBITAL_RADII[2];
+  // Level 3 and beyond use the same base radius
+  return ORBITAL_RADII[3];
+}
+
+// ===== Data Utils =====
+const toCount = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+
+// Files hang off their folder as leaves; busy folders get a "+N more" leaf.
+function mapFilesToLeaves(folder: OrbitalFolder, serviceId: ServiceId): OrbitalDatum[] {
+  if (!folder.files?.length) return [];
+  const { files, overflow } = getFileLeaves({ id: folder.id ?? folder.name, files: folder.files });
+  const leaves: OrbitalDatum[] = files.map(file => ({
+    id: file.id,
+    name: file.name,
+    fileKind: file.kind,
+    serviceId,
+    totalSize: toCount(file.totalSize),
+    fileCount: 1,
+    children: [],
+  }));
+  if (overflow) {
+    leaves.push({
+      id: overflow.id,
+      name: overflow.name,
+      fileKind: 'more',
+      serviceId,
+      totalSize: overflow.totalSize,
+      fileCount: overflow.count,
+      children: [],
+    });
+  }
+  return leaves;
+}
+
+// Folder metrics only count direct contents, so each node carries its subtree totals.
+function mapFolderToHierarchy(folder: OrbitalFolder, serviceId: ServiceId): OrbitalDatum {
+  const children = folder.children ? folder.children.map(child => mapFolderToHierarchy(child, serviceId)) : [];
+  const files = folder.files ?? [];
+  const directSize = folder.metrics?.totalSize !== undefined
+    ? toCount(folder.metrics.totalSize)
+    : files.reduce((total, file) => total + toCount(file.totalSize), 0);
+  const directCount = folder.metrics?.fileCount !== undefined ? toCount(folder.metrics.fileCount) : files.length;
+
+  return {
+    id: folder.id,
+    name: folder.name,
+    serviceId,
+    metrics: folder.metrics,
+    totalSize: children.reduce((total, child) => total + child.totalSize, directSize),
+    fileCount: children.reduce((total, child) => total + child.fileCount, directCount),
+    children: [...children, ...mapFilesToLeaves(folder, serviceId)],
+  };
+}
+
+export function buildHierarchy(folders: OrbitalFolder[]): OrbitalNode {
+  const services = folders.flatMap(f => (f.id && isServiceId(f.id) ? [mapFolderToHierarchy(f, f.id)] : []));
+  const folderFox: OrbitalDatum = {
+    id: FOLDER_FOX_ID,
+    name: 'Folder Fox',
+    totalSize: services.reduce((total, service) => total + service.totalSize, 0),
+    fileCount: services.reduce((total, service) => total + service.fileCount, 0),
+    children: services,
+  };
+  return d3.hierarchy(folderFox);
+}
+
+/**
+ * Stable key for a hierarchy node. Folders and files use their item id;
+ * anything without one is keyed by its name under its parent.
+ */
+export function getNodeId(d: OrbitalNode): string {
+  if (d.data.id) return d.data.id;
+  const name = d.data.name;
+  return d.parent ? `${getNodeId(d.parent)}/${name}` : name;
+}
+
+// Links are keyed by both ends, so the key survives re-parenting.
+export function getLinkId(d: OrbitalLink): string {
+  return `${getNodeId(d.source)}->${getNodeId(d.target)}`;
+}
+
+// A node shows when its parent shows and is expanded. Descendants come
+// breadth first, so parents are always decided before their children.
+export function getVisibleNodesAndLinks(root: OrbitalNode, expanded: Set<string>) {
+  const visible = new Set<OrbitalNode>();
+  const visibleNodes: OrbitalNode[] = [];
+  const visibleLinks: OrbitalLink[] = [];
+
+  root.descendants().forEach(d => {
+    const parent = d.parent;
+    if (d.depth > 1 && !(parent && visible.has(parent) && expanded.has(getNodeId(parent)))) return;
+    visible.add(d);
+    visibleNodes.push(d);
+    if (parent) visibleLinks.push({ source: parent, target: d });
+  });
+
+  return { visibleNodes, visibleLinks };
+}
+
+// ===== Node Sizes and Colors =====
+export const FILE_NODE_RADIUS = 14;
+
+export function getNodeRadius(depth: number): number {
+  if (depth === 0) return 30;
+  if (depth === 1) return 25;
+  if (depth === 2) return 28;
+  // Level 3 and beyond: same size
+  return 24;
+}
+
+const MIN_SCALED_RADIUS = 8;
+const MAX_SCALED_RADIUS = 48;
+
+function getDefaultRadius(d: OrbitalNode): number {
+  return d.data.fileKind ? FILE_NODE_RADIUS : getNodeRadius(d.depth);
+}
+
+// Radius as laid out and drawn; scaled modes set it on each node.
+export function getNodeSize(d: OrbitalNode): number {
+  return d.r ?? getDefaultRadius(d);
+}
+
+export interface OrbitalEncoding {
+  colorBy: OrbitalColorMode;
+  sizeBy: OrbitalSizeMode;
+  /** Services, or top-level folders when coloring by branch, in map order. */
+  swatches: Array<{ id: string; name: string; color: string }>;
+  /** The largest metric value, which gets the largest radius. */
+  maxValue: number;
+}
+
+/**
+ * Colors folders and files from the palette, by service or by the top-level
+ * folder they sit in, and scales radii by the square root of the chosen
+ * metric so circle area tracks it. The center and service logos keep their
+ * fixed look.
+ */
+export function assignNodeStyles(
+  root: OrbitalNode,
+  { paletteId, colorBy, sizeBy }: { paletteId?: string; colorBy: OrbitalColorMode; sizeBy: OrbitalSizeMode },
+): OrbitalEncoding {
+  const nodes = root.descendants();
+  const maxValue = sizeBy === 'uniform'
+    ? 0
+    : nodes.reduce((max, d) => (d.depth > 1 ? Math.max(max, d.data[sizeBy]) : max), 0);
+  const swatches: OrbitalEncoding['swatches'] = [];
+
+  // Descendants come breadth first, so parents are styled before their children.
+  nodes.forEach(d => {
+    const { serviceId } = d.data;
+    if (d.depth === 1 && serviceId) {
+      const color = getServiceColor(serviceId, paletteId);
+      if (colorBy === 'service') swatches.push({ id: serviceId, name: d.data.name, color });
+    }
+    if (d.depth <= 1) {
+      d.r = getNodeRadius(d.depth);
+      return;
+    }
+
+    if (d.depth === 2) {
+      d.branchIndex = swatches.length;
+      if (colorBy === 'branch') {
+        swatches.push({ id: d.data.id ?? d.data.name, name: d.data.name, color: getPaletteColor(paletteId, d.branchIndex) });
+      }
+    } else {
+      d.branchIndex = d.parent?.branchIndex ?? 0;
+    }
+
+    const baseColor = colorBy === 'service'
+      ? getServiceColor(serviceId ?? null, paletteId)
+      : getPaletteColor(paletteId, d.branchIndex);
+    d.color = d.data.fileKind
+      ? shiftColor(baseColor, 0.6)
+      : shiftColor(baseColor, Math.min(0.6, (d.depth - 2) * 0.16));
+
+    const value = sizeBy === 'uniform' ? 0 : d.data[sizeBy];
+    d.r = maxValue > 0
+      ? MIN_SCALED_RADIUS + (MAX_SCALED_RADIUS - MIN_SCALED_RADIUS) * Math.sqrt(value / maxValue)
+      : getDefaultRadius(d);
+  });
+
+  return { colorBy, sizeBy, swatches, maxValue };
+}
+
+// Body style of folder and file nodes; the logo nodes keep their own.
+export function getNodeBodyStyle(d: OrbitalNode) {
+  if (d.data.fileKind) {
+    const isOverflow = d.data.fileKind === 'more';
+    return {
+      fill: isOverflow ? '#f8fafc' : d.color ?? '#f1f5f9',
+      stroke: '#94a3b8',
+      dash: isOverflow ? '3 2' : null,
+    };
+  }
+  return { fill: d.color ?? '#e0e0e0', stroke: '#333', dash: null };
+}
+
+// Whether the node is drawn as a logo rather than a labelled body.
+export function isLogoNode(d: OrbitalNode): boolean {
+  return getLogoUrl(d) !== undefined;
+}
+
+// The logo of the center or a service root; other nodes have none.
+export function getLogoUrl(d: OrbitalNode): string | undefined {
+  const id = d.data.id;
+  if (d.depth === 0 && id === FOLDER_FOX_ID) return LOGO_MAP[FOLDER_FOX_ID];
+  return d.depth === 1 && id && isServiceId(id) ? LOGO_MAP[id] : undefined;
+}
+
+// ===== Labels =====
+const FILE_LABEL_FONT_SIZE = 8;
+export const DIFF_LABEL_FONT_SIZE = 9;
+// Smallest on-screen font size a label is still drawn at
+const MIN_LABEL_SCREEN_SIZE = 7;
+
+export function getLabelFontSize(d: OrbitalNode): number {
+  return d.data.fileKind ? FILE_LABEL_FONT_SIZE : Math.max(7, Math.min(12, getNodeSize(d) * 0.55));
+}
+
+// Folder names fit inside their circle; file names sit underneath.
+export function getNodeLabel(d: OrbitalNode): string {
+  const name = d.data.name ?? 'Node';
+  const maxChars = d.data.fileKind ? 16 : Math.max(8, Math.floor(getNodeSize(d) * 0.8));
+  return name.length > maxChars ? name.slice(0, maxChars - 1) + '…' : name;
+}
+
+export function isTextLegible(fontSize: number, scale: number): boolean {
+  return fontSize * scale >= MIN_LABEL_SCREEN_SIZE;
+}
+
+export function isLabelVisible(d: OrbitalNode, scale: number): boolean {
+  return isTextLegible(getLabelFontSize(d), scale);
+}
+
+// ===== Orbital Layout =====
+/**
+ * Lays visible nodes out on one ring per depth, as a radial tidy tree. Each
+ * node gets a wedge of its parent's wedge in proportion to the angle its
+ * visible subtree needs, so subtrees never cross and nothing overlaps, not
+ * even cousins in different branches. Rings move outward when a level is
+ * too crowded for its nodes.
+ *
+ * Sets targetX and targetY on every node, plus its offset from its parent,
+ * which is what the physics pulls a node back to after a drag.
+ */
+export function layoutOrbits(nodes: OrbitalNode[]) {
+  const visibleChildren = new Map<OrbitalNode, OrbitalNode[]>();
+  const depthCount = nodes.reduce((max, node) => Math.max(max, node.depth + 1), 0);
+  const maxRadius: number[] = new Array(depthCount).fill(0);
+  const arcLength: number[] = new Array(depthCount).fill(0);
+
+  // The arc a node takes up on its ring, room to its neighbours included
+  const getArcLength = (node: OrbitalNode) => getNodeSize(node) * 2 * NODE_SPACING_FACTOR;
+
+  nodes.forEach(node => {
+    maxRadius[node.depth] = Math.max(maxRadius[node.depth], getNodeSize(node));
+    arcLength[node.depth] += getArcLength(node);
+    if (node.parent) {
+      if (!visibleChildren.has(node.parent)) visibleChildren.set(node.parent, []);
+      visibleChildren.get(node.parent)!.push(node);
+    }
+  });
+
+  // Each ring clears the one inside it and is long enough for its own nodes
+  const ringRadii: number[] = [0];
+  for (let depth = 1; depth < depthCount; depth++) {
+    const gap = Math.max(
+      getOrbitalRadius(depth),
+      (maxRadius[depth - 1] + maxRadius[depth]) * NODE_SPACING_FACTOR,
+    );
+    ringRadii.push(Math.max(ringRadii[depth - 1] + gap, arcLength[depth] / (2 * Math.PI)));
+  }
+
+  // Angle each subtree needs, deepest nodes first
+  const angleNeeded = new Map<OrbitalNode, number>();
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    if (node.depth === 0) continue;
+    const own = getArcLength(node) / ringRadii[node.depth];
+    const children = (visibleChildren.get(node) ?? []).reduce(
+      (total, child) => total + (angleNeeded.get(child) ?? 0),
+      0,
+    );
+    angleNeeded.set(node, Math.max(own, children));
+  }
+
+  // Nested subtrees can still ask for more than a full turn; spreading every
+  // ring out by the same factor shrinks every need by it.
+  const center = nodes.find(node => node.depth === 0);
+  const topLevel = center ? visibleChildren.get(center) ?? [] : [];
+  const totalNeeded = topLevel.reduce((total, node) => total + (angleNeeded.get(node) ?? 0), 0);
+  const scale = Math.max(1, totalNeeded / (2 * Math.PI));
+
+  if (center) {
+    center.targetX = 0;
+    center.targetY = 0;
+  }
+
+  const allocate = (parent: OrbitalNode, start: number, wedge: number) => {
+    const children = visibleChildren.get(parent) ?? [];
+    const needed = children.reduce((total, child) => total + (angleNeeded.get(child) ?? 0), 0);
+    let angle = start;
+
+    children.forEach(child => {
+      const childWedge = needed > 0 ? (wedge * (angleNeeded.get(child) ?? 0)) / needed : wedge / children.length;
+      const childAngle = angle + childWedge / 2;
+      const radius = ringRadii[child.depth] * scale;
+
+      child.targetX = Math.cos(childAngle) * radius;
+      child.targetY = Math.sin(childAngle) * radius;
+      child.offsetX = child.targetX - (parent.targetX ?? 0);
+      child.offsetY = child.targetY - (parent.targetY ?? 0);
+      child.isInOrbit = true;
+
+      allocate(child, angle, childWedge);
+      angle += childWedge;
+    });
+  };
+
+  if (center) {
+    // The first service sits straight above the center
+    const firstWedge = totalNeeded > 0 && topLevel.length
+      ? (2 * Math.PI * (angleNeeded.get(topLevel[0]) ?? 0)) / totalNeeded
+      : (2 * Math.PI) / (topLevel.length || 1);
+    allocate(center, -Math.PI / 2 - firstWedge / 2, 2 * Math.PI);
+  }
+}
+
+// ===== Physics Engine =====
+/**
+ * Animates nodes toward the orbital layout. A node follows its parent's
+ * current position, so dragging a node carries its subtree along and
+ * letting go glides everything back into orbit.
+ */
+export function createManualPhysics(
+  nodes: OrbitalNode[],
+  onTick: () => void,
+  previousNodes: OrbitalNode[] = [],
+) {
+  layoutOrbits(nodes);
+
+  // Nodes already on screen glide to their new targets and newly shown ones
+  // grow out of their parent.
+  const shown = new Set(previousNodes);
+  nodes.forEach(node => {
+    if (node.depth === 0) {
+      node.x = node.targetX ?? 0;
+      node.y = node.targetY ?? 0;
+      return;
+    }
+    if (shown.has(node)) return;
+    const parent = node.parent;
+    const startFromParent = parent !== null && shown.has(parent);
+    node.x = startFromParent ? parent.x : node.targetX ?? 0;
+    node.y = startFromParent ? parent.y : node.targetY ?? 0;
+  });
+
+  const RETURN_SPEED = 0.12;
+  // Closer than this to its target, a node snaps into place and stops moving
+  const SETTLE_DISTANCE = 0.1;
+  let animationId = 0;
+  let isStopped = false;
+
+  function animate() {
+    let isMoving = false;
+
+    nodes.forEach(node => {
+      if (node.depth === 0 || !node.isInOrbit) return;
+      if (node.isDragging) {
+        isMoving = true;
+        return;
+      }
+
+      // Parents come before their children, so this frame's parent position is used
+      const targetX = (node.parent?.x ?? 0) + (node.offsetX ?? 0);
+      const targetY = (node.parent?.y ?? 0) + (node.offsetY ?? 0);
+      node.targetX = targetX;
+      node.targetY = targetY;
+      node.x += (targetX - node.x) * RETURN_SPEED;
+      node.y += (targetY - node.y) * RETURN_SPEED;
+
+      if (
+        Math.abs(targetX - node.x) > SETTLE_DISTANCE ||
+        Math.abs(targetY - node.y) > SETTLE_DISTANCE
+      ) {
+        isMoving = true;
+      } else {
+        node.x = targetX;
+        node.y = targetY;
+      }
+    });
+
+    onTick();
+    // The loop idles once everything has settled; dragging wakes it again
+    animationId = isMoving ? requestAnimationFrame(animate) : 0;
+  }
+
+  function wake() {
+    if (!animationId && !isStopped) animationId = requestAnimationFrame(animate);
+  }
+
+  animate();
+
+  function onDragStart(node: OrbitalNode) {
+    if (node.depth === 0) return;
+    node.isDragging = true;
+    wake();
+  }
+
+  function onDrag(node: OrbitalNode, x: number, y: number) {
+    if (node.depth === 0) return;
+    node.x = x;
+    node.y = y;
+    wake();
+  }
+
+  // The next frames pull the node back to its spot beside its parent.
+  function onDragEnd(node: OrbitalNode) {
+    if (node.depth === 0) return;
+    node.isDragging = false;
+    wake();
+  }
+
+  return {
+    nodes,
+    stop: () => {
+      isStopped = true;
+      cancelAnimationFrame(animationId);
+    },
+    dragHandlers: { onDragStart, onDrag, onDragEnd },
+  };
+}
+
+export type OrbitalPhysics = ReturnType<typeof createManualPhysics>;
@@ -1,10 +1,11 @@
 "use client";
 
 import { useCallback, useMemo, useRef, useState } from "react";
+import type { KeyboardEvent, ReactNode } from "react";
 import {
   AlertCircle,
-  FileDown,
   FileImage,
+  FileSpreadsheet,
   Film,
   X,
 } from "lucide-react";
@@ -26,97 +27,107 @@ import {
   TableRow,
 } from "../ui/table";
 import { cn } from "../ui/utils";
+import type { FolderItem } from "../right-sidebar/data";
+import { downloadBlob, getTimestamp } from "../../lib/utils/download";
+import { downloadCsv, toCsv } from "../../lib/utils/csv";
+import { formatCount, formatSize } from "../../lib/utils/format";
+import {
+  captureSvgFrame,
+  encodeSvgAnimation,
+  type SvgFrame,
+} from "../../lib/mapExport/svgAnimation";
+import {
+  buildStorageAnalytics,
+  type GrowthPeriod,
+  type StorageAnalytics,
+} from "@/lib/mapData";
 
 interface ResultsPanelProps {
   className?: string;
+  /** The folder tree as shown in the sidebar; only selected folders count. */
+  folders: FolderItem[];
+  onFocusFolder?: (folderId: string) => void;
   onClose?: () => void;
 }
 
-interface OptimizationRow {
-  label: string;
-  value: string;
-}
-
-interface OptimizationResultPoint {
-  layer: number;
-  deposition: number;
-  temperature: number;
-}
-
-const OPTIMIZATION_ROWS: OptimizationRow[] = [
-  { label: "Material", value: "Carbon-fiber reinforced PA" },
-  { label: "Layer height", value: "0.2 mm" },
-  { label: "Nozzle speed", value: "120 mm/s" },
-  { label: "Cooling fan", value: "45%" },
-  { label: "Shells", value: "3" },
-  { label: "Infill pattern", value: "Gyroid 45%" },
-];
+type AnalyticsTable = "services" | "folders" | "types" | "growth";
 
-const OPTIMIZATION_RESULTS: OptimizationResultPoint[] = [
-  { layer: 0, deposition: 10, temperature: 200 },
-  { layer: 1, deposition: 11.8, temperature: 206 },
-  { layer: 2, deposition: 12.6, temperature: 210 },
-  { layer: 3, deposition: 13.4, temperature: 214 },
-  { layer: 4, deposition: 14.1, temperature: 218 },
-  { layer: 5, deposition: 14.4, temperature: 220 },
-  { layer: 6, deposition: 14.2, temperature: 219 },
-  { layer: 7, deposition: 13.7, temperature: 216 },
-  { layer: 8, deposition: 13.2, temperature: 213 },
+const ANALYTICS_TABLES: { id: AnalyticsTable; label: string }[] = [
+  { id: "services", label: "Services" },
+  { id: "folders", label: "Largest folders" },
+  { id: "types", label: "File types" },
+  { id: "growth", label: "Growth" },
 ];
 
-const GCODE_PAYLOAD = `; Generated by Optimization Studio\nG21 ; set units to millimeters\nG90 ; absolute positioning\nM82 ; set extruder to absolute mode\nM104 S220 ; set extruder temp\nM140 S60 ; set bed temp\nG28 ; home all axes\nG1 Z0.2 F1200\n; ...\n`; // Placeholder content to demonstrate download flow
+const LARGEST_FOLDER_COUNTS = [5, 10, 25];
 
 const GRAPH_COLORS = {
-  deposition: "#2563eb",
-  temperature: "#f97316",
+  size: "#2563eb",
+  folders: "#f97316",
 } as const;
 
 const GRAPH_DIMENSIONS = {
   width: 720,
   height: 320,
-  padding: { top: 24, right: 32, bottom: 48, left: 52 },
+  padding: { top: 24, right: 52, bottom: 48, left: 64 },
 };
 
-const buildPolyline = (
-  data: OptimizationResultPoint[],
-  key: "deposition" | "temperature",
-) => {
-  const { width, height, padding } = GRAPH_DIMENSIONS;
-  const values = data.map(point => point[key]);
-  const maxValue = Math.max(...values);
-  const minValue = Math.min(...values);
-  const span = maxValue - minValue || 1;
+const AXIS_TICK_COUNT = 5;
+const MAX_PERIOD_LABELS = 12;
+
+// The GIF draws the series in month by month, then holds the finished chart.
+const ANIMATION_STEPS_PER_PERIOD = 4;
+const ANIMATION_FRAME_MS = 60;
+const ANIMATION_HOLD_MS = 2000;
+const REVEAL_CLIP_ID = "chart-reveal";
+
+const getPointX = (index: number, count: number) => {
+  const { width, padding } = GRAPH_DIMENSIONS;
   const innerWidth = width - padding.left - padding.right;
+  return padding.left + (innerWidth * index) / Math.max(1, count - 1);
+};
+
+const getPointY = (value: number, maxValue: number) => {
+  const { height, padding } = GRAPH_DIMENSIONS;
   const innerHeight = height - padding.top - padding.bottom;
+  return padding.top + innerHeight * (1 - value / (maxValue || 1));
+};
+
+const buildPolyline = (
+  data: GrowthPeriod[],
+  key: "cumulativeSize" | "cumulativeFolders",
+) => {
+  const maxValue = Math.max(...data.map(point => point[key]));
 
   return data
     .map((point, index) => {
-      const x =
-        padding.left +
-        (innerWidth * index) / Math.max(1, data.length - 1);
-      const normalised = (point[key] - minValue) / span;
-      const y = padding.top + innerHeight * (1 - normalised);
+      const x = getPointX(index, data.length);
+      const y = getPointY(point[key], maxValue);
       return `${x.toFixed(2)},${y.toFixed(2)}`;
     })
     .join(" ");
 };
 
-const buildAreaPolygon = (
-  data: OptimizationResultPoint[],
-  key: "deposition" | "temperature",
-  linePoints?: string,
-) => {
-  const { width, height, padding } = GRAPH_DIMENSIONS;
-  const polyline = linePoints ?? buildPolyline(data, key);
-  const innerWidth = width - padding.left - padding.right;
-  const baseY = height - padding.bottom;
-  const firstX = padding.left.toFixed(2);
-  const lastX = (padding.left + innerWidth).toFixed(2);
+const buildAreaPolygon = (data: GrowthPeriod[], linePoints: string) => {
+  const { height, padding } = GRAPH_DIMENSIONS;
+  const baseY = (height - padding.bottom).toFixed(2);
+  const firstX = getPointX(0, data.length).toFixed(2);
+  const lastX = getPointX(data.length - 1, data.length).toFixed(2);
 
-  return `${polyline} ${lastX},${baseY.toFixed(2)} ${firstX},${baseY.toFixed(2)}`;
+  return `${linePoints} ${lastX},${baseY} ${firstX},${baseY}`;
 };
 
-const formatAxisLabel = (value: number) => value.toFixed(0);
+const formatPeriod = (period: string) => {
+  const [year, month] = period.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1)).toLocaleDateString(undefined, {
+    month: "short",
+    year: "2-digit",
+    timeZone: "UTC",
+  });
+};
+
+const formatShare = (part: number, total: number) =>
+  total > 0 ? `${((part / total) * 100).toFixed(1)}%` : "0%";
 
 const downloadDataUrl = (dataUrl: string, filename: string) => {
   const anchor = document.createElement("a");
@@ -135,10 +146,7 @@ const encodeSvgDataUrl = (svg: SVGSVGElement) => {
   return `data:image/svg+xml;base64,${encoded}`;
 };
 
-const exportSvgAsImage = async (
-  svg: SVGSVGElement,
-  format: "png" | "gif",
-) => {
+const exportSvgAsImage = async (svg: SVGSVGElement) => {
   const { width, height } = GRAPH_DIMENSIONS;
   const canvas = document.createElement("canvas");
   canvas.width = width;
@@ -162,57 +170,187 @@ const exportSvgAsImage = async (
   context.clearRect(0, 0, canvas.width, canvas.height);
   context.drawImage(image, 0, 0, canvas.width, canvas.height);
 
-  const mime = format === "png" ? "image/png" : "image/gif";
-  const exportedUrl = canvas.toDataURL(mime);
+  return canvas.toDataURL("image/png");
+};
 
-  if (format === "gif" && !exportedUrl.startsWith("data:image/gif")) {
-    throw new Error("GIF export is not supported by this browser");
-  }
+// Clips the series to everything left of `revealX`, so successive frames
+// draw the lines in from the first month to the last.
+const clipSeries = (revealX: number) => (clone: SVGSVGElement) => {
+  const clipPath = document.createElementNS("http://www.w3.org/2000/svg", "clipPath");
+  clipPath.setAttribute("id", REVEAL_CLIP_ID);
+  const rect = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+  rect.setAttribute("width", String(revealX));
+  rect.setAttribute("height", String(GRAPH_DIMENSIONS.height));
+  clipPath.appendChild(rect);
+  clone.querySelector("defs")?.appendChild(clipPath);
+  clone
+    .querySelector("[data-chart-series]")
+    ?.setAttribute("clip-path", `url(#${REVEAL_CLIP_ID})`);
+};
 
-  return exportedUrl;
+const exportSvgAsAnimation = (
+  svg: SVGSVGElement,
+  periodCount: number,
+  background: string,
+) => {
+  const { width, height, padding } = GRAPH_DIMENSIONS;
+  const innerWidth = width - padding.left - padding.right;
+  const steps = Math.max(1, periodCount - 1) * ANIMATION_STEPS_PER_PERIOD;
+
+  const frames: SvgFrame[] = Array.from({ length: steps + 1 }, (_, step) => ({
+    markup: captureSvgFrame(
+      svg,
+      width,
+      height,
+      clipSeries(padding.left + (innerWidth * step) / steps),
+    ),
+    delayMs: step === steps ? ANIMATION_HOLD_MS : ANIMATION_FRAME_MS,
+  }));
+
+  return encodeSvgAnimation(frames, { width, height, background });
 };
 
-export function ResultsPanel({ className, onClose }: ResultsPanelProps) {
+const buildTableCsv = (table: AnalyticsTable, analytics: StorageAnalytics) => {
+  switch (table) {
+    case "services":
+      return toCsv(
+        ["Service", "Total size (bytes)", "Share", "Files", "Folders"],
+        analytics.services.map(service => [
+          service.name,
+          service.totalSize,
+          formatShare(service.totalSize, analytics.totalSize),
+          service.fileCount,
+          service.folderCount,
+        ]),
+      );
+    case "folders":
+      return toCsv(
+        ["Folder", "Path", "Total size (bytes)", "Files"],
+        analytics.largestFolders.map(folder => [
+          folder.name,
+          folder.path.join(" / "),
+          folder.totalSize,
+          folder.fileCount,
+        ]),
+      );
+    case "types":
+      // One line per MIME type, so the breakdown survives the flattening.
+      return toCsv(
+        ["Kind", "MIME type", "Files", "Total size (bytes)"],
+        analytics.fileKinds.flatMap(kind =>
+          kind.mimeTypes.map(mime => [
+            kind.kind,
+            mime.mimeType,
+            mime.count,
+            mime.totalSize,
+          ]),
+        ),
+      );
+    case "growth":
+      return toCsv(
+        [
+          "Month",
+          "Folders created",
+          "Size added (bytes)",
+          "Total folders",
+          "Total size (bytes)",
+        ],
+        analytics.growth.map(point => [
+          point.period,
+          point.foldersCreated,
+          point.sizeAdded,
+          point.cumulativeFolders,
+          point.cumulativeSize,
+        ]),
+      );
+  }
+};
+
+interface FocusRowProps {
+  folderId: string;
+  label: string;
+  onFocusFolder?: (folderId: string) => void;
+  children: ReactNode;
+}
+
+function FocusRow({ folderId, label, onFocusFolder, children }: FocusRowProps) {
+  if (!onFocusFolder) {
+    return <TableRow>{children}</TableRow>;
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTableRowElement>) => {
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      onFocusFolder(folderId);
+    }
+  };
+
+  return (
+    <TableRow
+      role="button"
+      tabIndex={0}
+      aria-label={`Show ${label} on the map`}
+      className="cursor-pointer focus-visible:bg-muted/50 focus-visible:outline-none"
+      onClick={() => onFocusFolder(folderId)}
+      onKeyDown={handleKeyDown}
+    >
+      {children}
+    </TableRow>
+  );
+}
+
+function EmptyState({ children }: { children: ReactNode }) {
+  return (
+    <div className="rounded-xl border border-dashed border-border/70 bg-muted/40 px-4 py-6 text-center text-sm text-muted-foreground">
+      {children}
+    </div>
+  );
+}
+
+export function ResultsPanel({
+  className,
+  folders,
+  onFocusFolder,
+  onClose,
+}: ResultsPanelProps) {
+  const [activeTable, setActiveTable] = useState<AnalyticsTable>("services");
+  const [largestCount, setLargestCount] = useState(LARGEST_FOLDER_COUNTS[1]);
   const [downloadingFormat, setDownloadingFormat] = useState<"png" | "gif" | null>(
     null,
   );
   const [downloadError, setDownloadError] = useState<string | null>(null);
   const svgRef = useRef<SVGSVGElement | null>(null);
 
-  const { depositionPath, depositionArea, temperaturePath, temperatureArea } =
-    useMemo(() => {
-      const depositionLine = buildPolyline(OPTIMIZATION_RESULTS, "deposition");
-      const temperatureLine = buildPolyline(OPTIMIZATION_RESULTS, "temperature");
-
-      return {
-        depositionPath: depositionLine,
-        depositionArea: buildAreaPolygon(
-          OPTIMIZATION_RESULTS,
-          "deposition",
-          depositionLine,
-        ),
-        temperaturePath: temperatureLine,
-        temperatureArea: buildAreaPolygon(
-          OPTIMIZATION_RESULTS,
-          "temperature",
-          temperatureLine,
-        ),
-      };
-    }, []);
+  const analytics = useMemo(
+    () => buildStorageAnalytics(folders, largestCount),
+    [folders, largestCount],
+  );
+  const { growth } = analytics;
+
+  const { sizePath, sizeArea, foldersPath } = useMemo(() => {
+    if (growth.length === 0) {
+      return { sizePath: "", sizeArea: "", foldersPath: "" };
+    }
+
+    const sizeLine = buildPolyline(growth, "cumulativeSize");
+    return {
+      sizePath: sizeLine,
+      sizeArea: buildAreaPolygon(growth, sizeLine),
+      foldersPath: buildPolyline(growth, "cumulativeFolders"),
+    };
+  }, [growth]);
 
   const axisTicks = useMemo(() => {
-    const values = OPTIMIZATION_RESULTS.flatMap(point => [
-      point.deposition,
-      point.temperature,
-    ]);
-    const maxValue = Math.ceil(Math.max(...values) / 5) * 5;
-    const minValue = Math.floor(Math.min(...values) / 5) * 5;
-    const tickCount = 5;
-    const step = (maxValue - minValue) / tickCount || 1;
-    return Array.from({ length: tickCount + 1 }, (_, index) =>
-      Number((minValue + step * index).toFixed(1)),
-    );
-  }, []);
+    const last = growth[growth.length - 1];
+    return Array.from({ length: AXIS_TICK_COUNT + 1 }, (_, index) => ({
+      size: ((last?.cumulativeSize ?? 0) * index) / AXIS_TICK_COUNT,
+      folders: Math.round(
+        ((last?.cumulativeFolders ?? 0) * index) / AXIS_TICK_COUNT,
+      ),
+    }));
+  }, [growth]);
+
+  const labelEvery = Math.max(1, Math.ceil(growth.length / MAX_PERIOD_LABELS));
 
   const handleDownloadGraph = useCallback(
     async (format: "png" | "gif") => {
@@ -221,37 +359,41 @@ export function ResultsPanel({ className, onClose }: ResultsPanelProps) {
       setDownloadingFormat(format);
 
       try {
-        const dataUrl = await exportSvgAsImage(svgRef.current, format);
-        const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-        downloadDataUrl(
-          dataUrl,
-          `optimization-graph-${timestamp}.${format}`,
-        );
-      } catch (error) {
-        console.error(error);
-        if (
-          error instanceof Error &&
-          error.message === "GIF export is not supported by this browser"
-        ) {
-          setDownloadError(
-            "GIF export is not supported in this browser. Please try PNG instead.",
+        const filename = `storage-growth-${getTimestamp()}.${format}`;
+        if (format === "gif") {
+          const background = getComputedStyle(
+            svgRef.current.parentElement ?? svgRef.current,
+          ).backgroundColor;
+          downloadBlob(
+            await exportSvgAsAnimation(svgRef.current, growth.length, background),
+            filename,
           );
         } else {
-          setDownloadError("Unable to download the graph. Please try again.");
+          downloadDataUrl(await exportSvgAsImage(svgRef.current), filename);
         }
+      } catch (error) {
+        console.error(error);
+        setDownloadError("Unable to download the graph. Please try again.");
       } finally {
         setDownloadingFormat(null);
       }
     },
-    [],
+    [growth.length],
   );
 
-  const handleGcodeDownload = useCallback(() => {
-    const blob = new Blob([GCODE_PAYLOAD], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    downloadDataUrl(url, `optimized-job-${Date.now()}.gcode`);
-    setTimeout(() => URL.revokeObjectURL(url), 1000);
-  }, []);
+  const handleDownloadCsv = useCallback(() => {
+    downloadCsv(
+      buildTableCsv(activeTable, analytics),
+      `storage-${activeTable}-${getTimestamp()}.csv`,
+    );
+  }, [activeTable, analytics]);
+
+  const summary = [
+    { label: "Total size", value: formatSize(analytics.totalSize) },
+    { label: "Files", value: analytics.fileCount.toLocaleString() },
+    { label: "Folders", value: analytics.folderCount.toLocaleString() },
+    { label: "Services", value: analytics.services.length.toLocaleString() },
+  ];
 
   return (
     <div
@@ -260,15 +402,15 @@ export function ResultsPanel({ className, onClose }: ResultsPanelProps) {
         className,
       )}
     >
-      <div className="rounded-3xl border border-border bg-background/95 shadow-2xl backdrop-blur-xl">
+      <div className="flex max-h-[80vh] flex-col rounded-3xl border border-border bg-background/95 shadow-2xl backdrop-blur-xl">
         <div className="flex items-start justify-between gap-4 border-b border-border/60 px-6 py-5">
           <div>
             <h2 className="text-xl font-semibold tracking-tight sm:text-2xl">
-              Optimization results ready
+              Storage analytics
             </h2>
             <p className="text-sm text-muted-foreground">
-              Review the optimized setup, export the latest toolpath, and keep a
-              copy of the performance plots.
+              Where the space goes across the selected folders. Pick a row to
+              find that folder on the map.
             </p>
           </div>
           {onClose && (
@@ -284,237 +426,456 @@ export function ResultsPanel({ className, onClose }: ResultsPanelProps) {
           )}
         </div>
 
-        <div className="grid gap-6 px-6 py-6 lg:grid-cols-[minmax(260px,1fr)_minmax(420px,1.4fr)]">
-          <div className="space-y-6">
-            <Card className="border-border/70">
-              <CardHeader className="pb-4">
-                <CardTitle className="text-lg font-semibold sm:text-xl">
-                  Optimization setup
-                </CardTitle>
-                <CardDescription>
-                  Final machine configuration used for this build.
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="px-0">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead className="w-1/2">Parameter</TableHead>
-                      <TableHead className="w-1/2">Value</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {OPTIMIZATION_ROWS.map(row => (
-                      <TableRow key={row.label}>
-                        <TableCell className="font-medium text-muted-foreground">
-                          {row.label}
-                        </TableCell>
-                        <TableCell className="text-foreground">
-                          {row.value}
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </CardContent>
-            </Card>
-
-            <Card className="border-border/70">
-              <CardHeader className="pb-4">
-                <CardTitle className="text-lg font-semibold sm:text-xl">
-                  Export G-code
-                </CardTitle>
-                <CardDescription>
-                  Download the ready-to-print toolpath for your machine.
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="flex flex-col gap-3">
-                <div className="rounded-xl border border-dashed border-border/70 bg-muted/40 px-4 py-3 text-sm text-muted-foreground">
-                  Latest build: <span className="font-medium text-foreground">Material Test v5</span>
-                  <br />
-                  Generated {new Date().toLocaleString()}
-                </div>
-                <Button onClick={handleGcodeDownload} className="gap-2">
-                  <FileDown className="h-4 w-4" />
-                  Download optimized G-code
-                </Button>
-              </CardContent>
-            </Card>
+        <div className="space-y-6 overflow-y-auto px-6 py-6">
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            {summary.map(item => (
+              <div
+                key={item.label}
+                className="rounded-xl border border-border/70 bg-muted/40 px-4 py-3"
+              >
+                <div className="text-xs text-muted-foreground">{item.label}</div>
+                <div className="text-lg font-semibold">{item.value}</div>
+              </div>
+            ))}
           </div>
 
-          <Card className="border-border/70">
-            <CardHeader className="flex flex-col gap-3 pb-4 md:flex-row md:items-center md:justify-between">
-              <div>
-                <CardTitle className="text-lg font-semibold sm:text-xl">
-                  Process performance
-                </CardTitle>
-                <CardDescription>
-                  Deposition rate and nozzle temperature across print layers.
-                </CardDescription>
-              </div>
-              <div className="flex flex-wrap items-center gap-2">
-                <Button
-                  variant="secondary"
-                  size="sm"
-                  className="gap-2"
-                  disabled={downloadingFormat !== null}
-                  onClick={() => handleDownloadGraph("png")}
-                >
-                  <FileImage className="h-4 w-4" />
-                  {downloadingFormat === "png" ? "Exporting…" : "Download PNG"}
-                </Button>
-                <Button
-                  variant="secondary"
-                  size="sm"
-                  className="gap-2"
-                  disabled={downloadingFormat !== null}
-                  onClick={() => handleDownloadGraph("gif")}
-                >
-                  <Film className="h-4 w-4" />
-                  {downloadingFormat === "gif" ? "Exporting…" : "Download GIF"}
-                </Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="rounded-2xl border border-border/60 bg-background p-4" role="img" aria-label="Optimization performance chart">
-                <svg
-                  ref={svgRef}
-                  viewBox={`0 0 ${GRAPH_DIMENSIONS.width} ${GRAPH_DIMENSIONS.height}`}
-                  className="w-full"
-                >
-                  <defs>
-                    <linearGradient id="depositionGradient" x1="0" x2="0" y1="0" y2="1">
-                      <stop offset="0%" stopColor="#2563eb" stopOpacity="0.4" />
-                      <stop offset="100%" stopColor="#2563eb" stopOpacity="0.05" />
-                    </linearGradient>
-                    <linearGradient id="temperatureGradient" x1="0" x2="0" y1="0" y2="1">
-                      <stop offset="0%" stopColor="#f97316" stopOpacity="0.35" />
-                      <stop offset="100%" stopColor="#f97316" stopOpacity="0.05" />
-                    </linearGradient>
-                  </defs>
-
-                  <g
-                    transform={`translate(${GRAPH_DIMENSIONS.padding.left} ${GRAPH_DIMENSIONS.padding.top})`}
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-1 rounded-md border border-border p-1">
+                {ANALYTICS_TABLES.map(table => (
+                  <button
+                    key={table.id}
+                    type="button"
+                    onClick={() => setActiveTable(table.id)}
+                    className={cn(
+                      "rounded px-3 py-1 text-sm transition-colors",
+                      activeTable === table.id
+                        ? "bg-primary text-primary-foreground"
+                        : "text-muted-foreground hover:bg-accent hover:text-accent-foreground",
+                    )}
                   >
-                    {axisTicks.map((tick, index) => {
-                      const { height, padding } = GRAPH_DIMENSIONS;
-                      const span = height - padding.top - padding.bottom;
-                      const firstTick = axisTicks[0];
-                      const lastTick =
-                        axisTicks[axisTicks.length - 1] ?? firstTick;
-                      const denominator = lastTick - firstTick || 1;
-                      const relative = (tick - firstTick) / denominator;
-                      const y = span - relative * span;
-                      return (
-                        <g key={`tick-${tick}-${index}`}>
-                          <line
-                            x1={0}
-                            x2={GRAPH_DIMENSIONS.width - padding.right - padding.left}
-                            y1={y}
-                            y2={y}
-                            stroke="rgba(148, 163, 184, 0.2)"
-                            strokeWidth={1}
-                          />
-                          <text
-                            x={-12}
-                            y={y + 4}
-                            textAnchor="end"
-                            fontSize={12}
-                            fill="var(--muted-foreground)"
-                          >
-                            {formatAxisLabel(tick)}
-                          </text>
-                        </g>
-                      );
-                    })}
-                  </g>
-
-                  <g>
-                    <polyline
-                      points={depositionPath}
-                      fill="none"
-                      stroke={GRAPH_COLORS.deposition}
-                      strokeWidth={3}
-                      strokeLinecap="round"
-                    />
-                    <polyline
-                      points={temperaturePath}
-                      fill="none"
-                      stroke={GRAPH_COLORS.temperature}
-                      strokeWidth={3}
-                      strokeLinecap="round"
-                    />
-                    <polygon
-                      points={depositionArea}
-                      fill="url(#depositionGradient)"
-                      opacity={0.35}
-                    />
-                    <polygon
-                      points={temperatureArea}
-                      fill="url(#temperatureGradient)"
-                      opacity={0.3}
-                    />
-                  </g>
-
-                  <g>
-                    {OPTIMIZATION_RESULTS.map(point => {
-                      const { width, height, padding } = GRAPH_DIMENSIONS;
-                      const innerWidth = width - padding.left - padding.right;
-                      const innerHeight = height - padding.top - padding.bottom;
-                      const x =
-                        padding.left +
-                        (innerWidth * point.layer) /
-                          Math.max(1, OPTIMIZATION_RESULTS.length - 1);
-
-                      return (
-                        <g key={`layer-${point.layer}`}>
-                          <line
-                            x1={x}
-                            x2={x}
-                            y1={height - padding.bottom}
-                            y2={height - padding.bottom + 8}
-                            stroke="var(--muted-foreground)"
-                            strokeWidth={1}
-                          />
-                          <text
-                            x={x}
-                            y={height - padding.bottom + 24}
-                            textAnchor="middle"
-                            fontSize={12}
-                            fill="var(--muted-foreground)"
+                    {table.label}
+                  </button>
+                ))}
+              </div>
+              <Button
+                variant="secondary"
+                size="sm"
+                className="gap-2"
+                onClick={handleDownloadCsv}
+              >
+                <FileSpreadsheet className="h-4 w-4" />
+                Download CSV
+              </Button>
+            </div>
+
+            {activeTable === "services" && (
+              <Card className="border-border/70">
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-lg font-semibold">
+                    Size per service
+                  </CardTitle>
+                  <CardDescription>
+                    Everything stored under each connected service.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="px-0">
+                  {analytics.services.length === 0 ? (
+                    <EmptyState>No services are selected.</EmptyState>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Service</TableHead>
+                          <TableHead className="text-right">Size</TableHead>
+                          <TableHead className="text-right">Share</TableHead>
+                          <TableHead className="text-right">Files</TableHead>
+                          <TableHead className="text-right">Folders</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {analytics.services.map(service => (
+                          <FocusRow
+                            key={service.id}
+                            folderId={service.id}
+                            label={service.name}
+                            onFocusFolder={onFocusFolder}
                           >
-                            L{point.layer}
-                          </text>
-                        </g>
-                      );
-                    })}
-                  </g>
-                </svg>
-                <div className="mt-4 flex flex-wrap items-center gap-4 text-sm">
-                  <div className="flex items-center gap-2">
-                    <span
-                      className="h-2.5 w-8 rounded-full"
-                      style={{ backgroundColor: GRAPH_COLORS.deposition }}
-                    />
-                    Deposition rate (cm³/h)
+                            <TableCell className="font-medium">
+                              {service.name}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatSize(service.totalSize)}
+                            </TableCell>
+                            <TableCell className="text-right text-muted-foreground">
+                              {formatShare(service.totalSize, analytics.totalSize)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {service.fileCount.toLocaleString()}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {service.folderCount.toLocaleString()}
+                            </TableCell>
+                          </FocusRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {activeTable === "folders" && (
+              <Card className="border-border/70">
+                <CardHeader className="flex flex-col gap-3 pb-4 md:flex-row md:items-center md:justify-between">
+                  <div>
+                    <CardTitle className="text-lg font-semibold">
+                      Largest folders
+                    </CardTitle>
+                    <CardDescription>
+                      Ranked by everything stored inside them, subfolders
+                      included.
+                    </CardDescription>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <span
-                      className="h-2.5 w-8 rounded-full"
-                      style={{ backgroundColor: GRAPH_COLORS.temperature }}
-                    />
-                    Nozzle temperature (°C)
+                  <div className="flex items-center gap-1 rounded-md border border-border p-1">
+                    {LARGEST_FOLDER_COUNTS.map(count => (
+                      <button
+                        key={count}
+                        type="button"
+                        onClick={() => setLargestCount(count)}
+                        className={cn(
+                          "rounded px-2 py-1 text-xs transition-colors",
+                          largestCount === count
+                            ? "bg-primary text-primary-foreground"
+                            : "text-muted-foreground hover:bg-accent hover:text-accent-foreground",
+                        )}
+                      >
+                        Top {count}
+                      </button>
+                    ))}
+                  </div>
+                </CardHeader>
+                <CardContent className="px-0">
+                  {analytics.largestFolders.length === 0 ? (
+                    <EmptyState>No folders are selected.</EmptyState>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Folder</TableHead>
+                          <TableHead className="text-right">Size</TableHead>
+                          <TableHead className="text-right">Files</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {analytics.largestFolders.map(folder => (
+                          <FocusRow
+                            key={folder.id}
+                            folderId={folder.id}
+                            label={folder.name}
+                            onFocusFolder={onFocusFolder}
+                          >
+                            <TableCell className="max-w-[28rem]">
+                              <div className="truncate font-medium">
+                                {folder.name}
+                              </div>
+                              <div className="truncate text-xs text-muted-foreground">
+                                {folder.path.slice(0, -1).join(" / ")}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatSize(folder.totalSize)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {folder.fileCount.toLocaleString()}
+                            </TableCell>
+                          </FocusRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {activeTable === "types" && (
+              <Card className="border-border/70">
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-lg font-semibold">
+                    File types
+                  </CardTitle>
+                  <CardDescription>
+                    {formatCount(analytics.listedFileCount, "listed file")} by
+                    kind. Picking a kind shows the folder holding most of it.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="px-0">
+                  {analytics.fileKinds.length === 0 ? (
+                    <EmptyState>
+                      The selected folders don&apos;t list individual files.
+                    </EmptyState>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Kind</TableHead>
+                          <TableHead>Top MIME types</TableHead>
+                          <TableHead className="text-right">Files</TableHead>
+                          <TableHead className="text-right">Size</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {analytics.fileKinds.map(kind => (
+                          <FocusRow
+                            key={kind.kind}
+                            folderId={kind.largestFolderId}
+                            label={`the largest folder of ${kind.kind} files`}
+                            onFocusFolder={onFocusFolder}
+                          >
+                            <TableCell className="font-medium capitalize">
+                              {kind.kind}
+                            </TableCell>
+                            <TableCell className="max-w-[24rem] truncate text-xs text-muted-foreground">
+                              {kind.mimeTypes
+                                .slice(0, 3)
+                                .map(mime => `${mime.mimeType} (${mime.count})`)
+                                .join(", ")}
+                              {kind.mimeTypes.length > 3 &&
+                                ` +${kind.mimeTypes.length - 3} more`}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {kind.count.toLocaleString()}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatSize(kind.totalSize)}
+                            </TableCell>
+                          </FocusRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {activeTable === "growth" && (
+              <Card className="border-border/70">
+                <CardHeader className="flex flex-col gap-3 pb-4 md:flex-row md:items-center md:justify-between">
+                  <div>
+                    <CardTitle className="text-lg font-semibold">
+                      Growth over time
+                    </CardTitle>
+                    <CardDescription>
+                      Cumulative size and folder count by creation month.
+                      {analytics.undatedFolderCount > 0 &&
+                        ` ${formatCount(analytics.undatedFolderCount, "folder")} without a creation date ${analytics.undatedFolderCount === 1 ? "is" : "are"} left out.`}
+                    </CardDescription>
                   </div>
-                </div>
-                {downloadError && (
-                  <div className="mt-4 flex items-center gap-2 rounded-lg border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm text-destructive">
-                    <AlertCircle className="h-4 w-4" />
-                    <span>{downloadError}</span>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="gap-2"
+                      disabled={downloadingFormat !== null || growth.length === 0}
+                      onClick={() => handleDownloadGraph("png")}
+                    >
+                      <FileImage className="h-4 w-4" />
+                      {downloadingFormat === "png" ? "Exporting…" : "Download PNG"}
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="gap-2"
+                      disabled={downloadingFormat !== null || growth.length === 0}
+                      onClick={() => handleDownloadGraph("gif")}
+                    >
+                      <Film className="h-4 w-4" />
+                      {downloadingFormat === "gif" ? "Exporting…" : "Download GIF"}
+                    </Button>
                   </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {growth.length === 0 ? (
+                    <EmptyState>
+                      None of the selected folders has a creation date.
+                    </EmptyState>
+                  ) : (
+                    <div
+                      className="rounded-2xl border border-border/60 bg-background p-4"
+                      role="img"
+                      aria-label="Storage growth chart"
+                    >
+                      <svg
+                        ref={svgRef}
+                        viewBox={`0 0 ${GRAPH_DIMENSIONS.width} ${GRAPH_DIMENSIONS.height}`}
+                        className="w-full"
+                      >
+                        <defs>
+                          <linearGradient id="sizeGradient" x1="0" x2="0" y1="0" y2="1">
+                            <stop offset="0%" stopColor={GRAPH_COLORS.size} stopOpacity="0.4" />
+                            <stop offset="100%" stopColor={GRAPH_COLORS.size} stopOpacity="0.05" />
+                          </linearGradient>
+                        </defs>
+
+                        <g>
+                          {axisTicks.map((tick, index) => {
+                            const { width, padding } = GRAPH_DIMENSIONS;
+                            const y = getPointY(index, AXIS_TICK_COUNT);
+                            return (
+                              <g key={`tick-${index}`}>
+                                <line
+                                  x1={padding.left}
+                                  x2={width - padding.right}
+                                  y1={y}
+                                  y2={y}
+                                  stroke="rgba(148, 163, 184, 0.2)"
+                                  strokeWidth={1}
+                                />
+                                <text
+                                  x={padding.left - 12}
+                                  y={y + 4}
+                                  textAnchor="end"
+                                  fontSize={12}
+                                  fill={GRAPH_COLORS.size}
+                                >
+                                  {formatSize(tick.size)}
+                                </text>
+                                <text
+                                  x={width - padding.right + 12}
+                                  y={y + 4}
+                                  textAnchor="start"
+                                  fontSize={12}
+                                  fill={GRAPH_COLORS.folders}
+                                >
+                                  {tick.folders}
+                                </text>
+                              </g>
+                            );
+                          })}
+                        </g>
+
+                        <g data-chart-series>
+                          <polygon
+                            points={sizeArea}
+                            fill="url(#sizeGradient)"
+                            opacity={0.6}
+                          />
+                          <polyline
+                            points={sizePath}
+                            fill="none"
+                            stroke={GRAPH_COLORS.size}
+                            strokeWidth={3}
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          />
+                          <polyline
+                            points={foldersPath}
+                            fill="none"
+                            stroke={GRAPH_COLORS.folders}
+                            strokeWidth={3}
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          />
+                        </g>
+
+                        <g>
+                          {growth.map((point, index) => {
+                            const { height, padding } = GRAPH_DIMENSIONS;
+                            const x = getPointX(index, growth.length);
+                            const showLabel =
+                              index % labelEvery === 0 ||
+                              index === growth.length - 1;
+
+                            return (
+                              <g key={point.period}>
+                                <line
+                                  x1={x}
+                                  x2={x}
+                                  y1={height - padding.bottom}
+                                  y2={height - padding.bottom + (showLabel ? 8 : 4)}
+                                  stroke="var(--muted-foreground)"
+                                  strokeWidth={1}
+                                />
+                                {showLabel && (
+                                  <text
+                                    x={x}
+                                    y={height - padding.bottom + 24}
+                                    textAnchor="middle"
+                                    fontSize={12}
+                                    fill="var(--muted-foreground)"
+                                  >
+                                    {formatPeriod(point.period)}
+                                  </text>
+                                )}
+                              </g>
+                            );
+                          })}
+                        </g>
+                      </svg>
+                      <div className="mt-4 flex flex-wrap items-center gap-4 text-sm">
+                        <div className="flex items-center gap-2">
+                          <span
+                            className="h-2.5 w-8 rounded-full"
+                            style={{ backgroundColor: GRAPH_COLORS.size }}
+                          />
+                          Total size
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span
+                            className="h-2.5 w-8 rounded-full"
+                            style={{ backgroundColor: GRAPH_COLORS.folders }}
+                          />
+                          Total folders
+                        </div>
+                      </div>
+                      {downloadError && (
+                        <div className="mt-4 flex items-center gap-2 rounded-lg border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+                          <AlertCircle className="h-4 w-4" />
+                          <span>{downloadError}</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {growth.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Month</TableHead>
+                          <TableHead className="text-right">Folders created</TableHead>
+                          <TableHead className="text-right">Size added</TableHead>
+                          <TableHead className="text-right">Total size</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {[...growth].reverse().map(point => (
+                          <FocusRow
+                            key={point.period}
+                            folderId={point.largestFolderId}
+                            label={`the largest folder created in ${formatPeriod(point.period)}`}
+                            onFocusFolder={onFocusFolder}
+                          >
+                            <TableCell className="font-medium">
+                              {formatPeriod(point.period)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {point.foldersCreated.toLocaleString()}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatSize(point.sizeAdded)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatSize(point.cumulativeSize)}
+                            </TableCell>
+                          </FocusRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -3,6 +3,7 @@ import { Bell, ChevronLeft, HelpCircle, RefreshCw } from 'lucide-react';
 
 import { RightMenuItem } from './RightMenuItem';
 import { NotificationsPanel } from './NotificationsPanel';
+import type { SnapshotDiff } from './data-sources/snapshotDiff';
 
 interface CollapsedSidebarProps {
   onExpand: () => void;
@@ -11,6 +12,9 @@ interface CollapsedSidebarProps {
   onHelp: () => void;
   showNotifications: boolean;
   notificationRef: React.RefObject<HTMLDivElement>;
+  snapshotDiff?: SnapshotDiff | null;
+  showDiffOverlay?: boolean;
+  onToggleDiffOverlay?: () => void;
 }
 
 export const CollapsedSidebar: React.FC<CollapsedSidebarProps> = ({
@@ -19,7 +23,10 @@ export const CollapsedSidebar: React.FC<CollapsedSidebarProps> = ({
   onRefresh,
   onHelp,
   showNotifications,
-  notificationRef
+  notificationRef,
+  snapshotDiff,
+  showDiffOverlay,
+  onToggleDiffOverlay
 }) => {
   return (
     <div className="flex flex-col items-center py-4 gap-4 h-full">
@@ -41,6 +48,9 @@ export const CollapsedSidebar: React.FC<CollapsedSidebarProps> = ({
             onClose={onToggleNotifications}
             className="absolute left-0 top-0"
             style={{ transform: 'translateX(-100%) translateX(-8px)' }}
+            snapshotDiff={snapshotDiff}
+            showDiffOverlay={showDiffOverlay}
+            onToggleDiffOverlay={onToggleDiffOverlay}
           />
         )}
       </div>
@@ -4,19 +4,38 @@ import {
   ChevronDown,
   ChevronRight,
   ChevronUp,
+  ClipboardList,
+  CopyX,
+  Download,
   Edit,
   Eye,
   EyeOff,
+  File,
+  FileArchive,
+  FileAudio,
+  FileImage,
+  FileSpreadsheet,
+  FileText,
+  FileVideo,
+  Files,
   Folder,
   FolderOpen,
+  HardDrive,
   HelpCircle,
+  History,
+  ImageDown,
+  ListChecks,
   LogOut,
   MoreVertical,
   Plus,
+  Presentation,
   RefreshCw,
   Search,
+  Upload,
+  Users,
   X,
-  EyeOff as SuppressIcon
+  EyeOff as SuppressIcon,
+  type LucideIcon
 } from 'lucide-react';
 import Image from 'next/image';
 
@@ -31,12 +50,27 @@ import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuSeparator,
 import { Checkbox } from '../ui/checkbox';
 import { RightMenuItem } from './RightMenuItem';
 import { NotificationsPanel } from './NotificationsPanel';
-import { FolderItem, SuppressedFolder } from './data';
+import type { SnapshotDiff } from './data-sources/snapshotDiff';
+import { FileItem, FileKind, FolderItem, SuppressedFolder, isServiceId } from './data';
+import { formatSize } from '../../lib/utils/format';
+
+interface MapSummary {
+  id: string;
+  name: string;
+}
 
 interface ExpandedSidebarProps {
-  currentMap: string;
-  existingMaps: string[];
-  onMapChange: (mapName: string) => void;
+  currentMapId: string | null;
+  maps: MapSummary[];
+  onMapChange: (mapId: string) => void;
+  onCreateMap: () => void;
+  onOpenVersionHistory: () => void;
+  onExportMap: () => void;
+  onExportImage: () => void;
+  onImportMap: () => void;
+  onFindDuplicates: () => void;
+  onOpenCleanupPlan: () => void;
+  onOpenSharingReview: () => void;
   onToggleExpand: () => void;
   onRefresh: () => void;
   onHelp: () => void;
@@ -44,9 +78,14 @@ interface ExpandedSidebarProps {
   onLogout: () => void;
   showNotifications: boolean;
   notificationRef: React.RefObject<HTMLDivElement>;
+  snapshotDiff?: SnapshotDiff | null;
+  showDiffOverlay?: boolean;
+  onToggleDiffOverlay?: () => void;
   searchQuery: string;
   onSearchQueryChange: (value: string) => void;
   folders: FolderItem[];
+  showFiles: boolean;
+  onToggleShowFiles: () => void;
   suppressedFolders: SuppressedFolder[];
   showSuppressedSection: boolean;
   onToggleSuppressedSection: () => void;
@@ -59,13 +98,21 @@ interface ExpandedSidebarProps {
   onRestoreFolder: (id: string) => void;
   onRestoreAllFolders: () => void;
   onFolderDoubleClick: (folder: FolderItem) => void;
-  onEditMap: (mapName: string) => void;
+  onEditMap: (mapId: string) => void;
 }
 
 export const ExpandedSidebar: React.FC<ExpandedSidebarProps> = ({
-  currentMap,
-  existingMaps,
+  currentMapId,
+  maps,
   onMapChange,
+  onCreateMap,
+  onOpenVersionHistory,
+  onExportMap,
+  onExportImage,
+  onImportMap,
+  onFindDuplicates,
+  onOpenCleanupPlan,
+  onOpenSharingReview,
   onToggleExpand,
   onRefresh,
   onHelp,
@@ -73,9 +120,14 @@ export const ExpandedSidebar: React.FC<ExpandedSidebarProps> = ({
   onLogout,
   showNotifications,
   notificationRef,
+  snapshotDiff,
+  showDiffOverlay,
+  onToggleDiffOverlay,
   searchQuery,
   onSearchQueryChange,
   folders,
+  showFiles,
+  onToggleShowFiles,
   suppressedFolders,
   showSuppressedSection,
   onToggleSuppressedSection,
@@ -93,12 +145,14 @@ export const ExpandedSidebar: React.FC<ExpandedSidebarProps> = ({
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [editTooltipStates, setEditTooltipStates] = useState<Record<string, boolean>>({});
 
-  const handleEditMouseEnter = (mapName: string) => {
-    setEditTooltipStates(prev => ({ ...prev, [mapName]: true }));
+  const currentMapName = maps.find(map => map.id === currentMapId)?.name ?? '';
+
+  const handleEditMouseEnter = (mapId: string) => {
+    setEditTooltipStates(prev => ({ ...prev, [mapId]: true }));
   };
 
-  const handleEditMouseLeave = (mapName: string) => {
-    setEditTooltipStates(prev => ({ ...prev, [mapName]: false }));
+  const handleEditMouseLeave = (mapId: string) => {
+    setEditTooltipStates(prev => ({ ...prev, [mapId]: false }));
   };
 
   return (
@@ -107,41 +161,69 @@ export const ExpandedSidebar: React.FC<ExpandedSidebarProps> = ({
       <div className="flex items-center justify-between p-3 border-b border-border">
         <DropdownMenu open={dropdownOpen} onOpenChange={setDropdownOpen}>
           <DropdownMenuTrigger className="flex items-center gap-2 hover:bg-accent px-2 py-1 rounded-md transition-colors min-w-0">
-            <span className="font-medium text-sm truncate max-w-[120px]">{currentMap}</span>
+            <span className="font-medium text-sm truncate max-w-[120px]">{currentMapName}</span>
             <ChevronDown size={14} />
           </DropdownMenuTrigger>
           <DropdownMenuContent align="start" className="w-56">
-            <DropdownMenuItem onClick={() => console.log('Create new map')} className="flex items-center gap-2">
+            <DropdownMenuItem onClick={onCreateMap} className="flex items-center gap-2">
               <Plus size={16} />
               Create New Map
             </DropdownMenuItem>
-            {existingMaps.map(map => (
+            <DropdownMenuItem onClick={onOpenVersionHistory} className="flex items-center gap-2">
+              <History size={16} />
+              Version History
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onExportMap} className="flex items-center gap-2">
+              <Download size={16} />
+              Export Map
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onExportImage} className="flex items-center gap-2">
+              <ImageDown size={16} />
+              Export Image
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onImportMap} className="flex items-center gap-2">
+              <Upload size={16} />
+              Import Map
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onFindDuplicates} className="flex items-center gap-2">
+              <CopyX size={16} />
+              Find Duplicates
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onOpenCleanupPlan} className="flex items-center gap-2">
+              <ListChecks size={16} />
+              Cleanup Plan
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onOpenSharingReview} className="flex items-center gap-2">
+              <Users size={16} />
+              Sharing Review
+            </DropdownMenuItem>
+            {maps.map(map => (
               <DropdownMenuItem
-                key={map}
-                className={`flex items-center justify-between group ${map === currentMap ? 'bg-accent' : ''}`}
+                key={map.id}
+                className={`flex items-center justify-between group ${map.id === currentMapId ? 'bg-accent' : ''}`}
                 onClick={event => {
                   if (!(event.target as HTMLElement).closest('.edit-button')) {
-                    onMapChange(map);
+                    onMapChange(map.id);
                   }
                 }}
               >
                 <div className="flex items-center justify-between w-full min-w-0">
-                  <span className="flex-1 truncate pr-2 min-w-0">{map}</span>
+                  <span className="flex-1 truncate pr-2 min-w-0">{map.name}</span>
                   <div className="relative">
                     <button
                       className="edit-button w-6 h-6 flex items-center justify-center rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground ml-2 flex-shrink-0"
                       onClick={event => {
                         event.stopPropagation();
-                        onEditMap(map);
+                        onEditMap(map.id);
                       }}
-                      onMouseEnter={() => handleEditMouseEnter(map)}
-                      onMouseLeave={() => handleEditMouseLeave(map)}
+                      onMouseEnter={() => handleEditMouseEnter(map.id)}
+                      onMouseLeave={() => handleEditMouseLeave(map.id)}
                     >
                       <Edit size={12} />
                     </button>
 
                     {/* Tooltip */}
-                    {editTooltipStates[map] && (
+                    {editTooltipStates[map.id] && (
                       <div
                         className="absolute right-full top-1/2 -translate-y-1/2 flex items-center pointer-events-none z-50"
                         style={{ marginRight: '8px' }}
@@ -179,6 +261,9 @@ export const ExpandedSidebar: React.FC<ExpandedSidebarProps> = ({
                 onClose={onToggleNotifications}
                 className="absolute right-0 top-0"
                 style={{ transform: 'translateX(-100%) translateX(-16px)' }}
+                snapshotDiff={snapshotDiff}
+                showDiffOverlay={showDiffOverlay}
+                onToggleDiffOverlay={onToggleDiffOverlay}
               />
             )}
           </div>
@@ -209,8 +294,8 @@ export const ExpandedSidebar: React.FC<ExpandedSidebarProps> = ({
       </div>
 
       {/* Search Box */}
-      <div className="p-3 border-b border-border">
-        <div className="relative">
+      <div className="p-3 border-b border-border flex items-center gap-2">
+        <div className="relative flex-1">
           <Search
             size={16}
             className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground"
@@ -224,6 +309,15 @@ export const ExpandedSidebar: React.FC<ExpandedSidebarProps> = ({
               dark:bg-neutral-800 dark:text-white dark:placeholder-neutral-400 dark:focus:bg-neutral-700"
           />
         </div>
+        <button
+          onClick={onToggleShowFiles}
+          className={`w-9 h-9 flex items-center justify-center rounded-md transition-colors flex-shrink-0
+            ${showFiles ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:bg-accent hover:text-foreground'}`}
+          title={showFiles ? 'Hide files' : 'Show files'}
+          aria-pressed={showFiles}
+        >
+          <Files size={16} />
+        </button>
       </div>
 
       {/* Folder Tree */}
@@ -234,6 +328,7 @@ export const ExpandedSidebar: React.FC<ExpandedSidebarProps> = ({
               key={folder.id}
               folder={folder}
               level={0}
+              showFiles={showFiles}
               searchQuery={searchQuery}
               suppressedFolders={suppressedFolders}
               onToggleFolder={onToggleFolder}
@@ -328,6 +423,7 @@ export const ExpandedSidebar: React.FC<ExpandedSidebarProps> = ({
 interface FolderTreeProps {
   folder: FolderItem;
   level: number;
+  showFiles: boolean;
   searchQuery: string;
   suppressedFolders: SuppressedFolder[];
   onToggleFolder: (id: string) => void;
@@ -342,6 +438,7 @@ interface FolderTreeProps {
 const FolderTree: React.FC<FolderTreeProps> = ({
   folder,
   level,
+  showFiles,
   searchQuery,
   suppressedFolders,
   onToggleFolder,
@@ -377,12 +474,14 @@ const FolderTree: React.FC<FolderTreeProps> = ({
         return <Image src={dropboxLogo} alt="Dropbox" width={16} height={16} className="object-contain" />;
       case 'googledrive':
         return <Image src={googleDriveLogo} alt="Google Drive" width={16} height={16} className="object-contain" />;
+      case 'local':
+        return <HardDrive size={16} className="text-muted-foreground" />;
       default:
         return null;
     }
   };
 
-  const isServiceRoot = ['notion', 'onedrive', 'dropbox', 'googledrive'].includes(folder.id);
+  const isServiceRoot = isServiceId(folder.id);
   const icon = isServiceRoot
     ? getServiceLogo(folder.id)
     : folder.isOpen
@@ -400,7 +499,7 @@ const FolderTree: React.FC<FolderTreeProps> = ({
             onDoubleClick={() => onFolderDoubleClick(folder)}
           >
             <button onClick={() => onToggleFolder(folder.id)} className="flex items-center gap-1 flex-1 text-left">
-              {folder.children && folder.children.length > 0 && (
+              {((folder.children && folder.children.length > 0) || (showFiles && !!folder.files?.length)) && (
                 <ChevronRight size={14} className={`transition-transform ${folder.isOpen ? 'rotate-90' : ''}`} />
               )}
               {renderedIcon}
@@ -443,6 +542,7 @@ const FolderTree: React.FC<FolderTreeProps> = ({
               key={child.id}
               folder={child}
               level={level + 1}
+              showFiles={showFiles}
               searchQuery={searchQuery}
               suppressedFolders={suppressedFolders}
               onToggleFolder={onToggleFolder}
@@ -456,6 +556,70 @@ const FolderTree: React.FC<FolderTreeProps> = ({
           ))}
         </div>
       )}
+
+      {folder.isOpen && showFiles && folder.files && folder.files.length > 0 && (
+        <FileList files={folder.files} level={level + 1} />
+      )}
+    </div>
+  );
+};
+
+const FILE_KIND_ICONS: Record<FileKind, LucideIcon> = {
+  file: File,
+  image: FileImage,
+  video: FileVideo,
+  audio: FileAudio,
+  pdf: FileText,
+  doc: FileText,
+  spreadsheet: FileSpreadsheet,
+  slide: Presentation,
+  form: ClipboardList,
+  archive: FileArchive
+};
+
+const COLLAPSED_FILE_LIMIT = 20;
+
+interface FileListProps {
+  files: FileItem[];
+  level: number;
+}
+
+const FileList: React.FC<FileListProps> = ({ files, level }) => {
+  const [showAll, setShowAll] = useState(false);
+  const visibleFiles = showAll ? files : files.slice(0, COLLAPSED_FILE_LIMIT);
+  const hiddenCount = files.length - visibleFiles.length;
+
+  return (
+    <div>
+      {visibleFiles.map(file => {
+        const KindIcon = FILE_KIND_ICONS[file.kind];
+        return (
+          <div
+            key={file.id}
+            className="flex items-center gap-1.5 py-1 px-2 rounded-md hover:bg-accent transition-colors text-muted-foreground"
+            style={{ paddingLeft: `${22 + level * 16}px` }}
+            title={file.mimeType}
+            onDoubleClick={() => {
+              if (file.link) {
+                window.open(file.link, '_blank', 'noopener,noreferrer');
+              }
+            }}
+          >
+            <KindIcon size={14} className="flex-shrink-0" />
+            <span className="text-xs truncate flex-1">{file.name}</span>
+            <span className="text-[10px] flex-shrink-0">{formatSize(file.totalSize)}</span>
+          </div>
+        );
+      })}
+      {files.length > COLLAPSED_FILE_LIMIT && (
+        <button
+          onClick={() => setShowAll(previous => !previous)}
+          className="py-1 px-2 text-xs text-primary hover:bg-accent rounded-md transition-colors"
+          style={{ marginLeft: `${14 + level * 16}px` }}
+        >
+          {showAll ? 'Show fewer files' : `+${hiddenCount} more`}
+        </button>
+      )}
     </div>
   );
 };
@@ -1,17 +1,36 @@
 import React, { forwardRef } from 'react';
 
+import {
+  CHANGE_TYPES,
+  getPrimaryChangeType,
+  getTopChanges,
+  type SnapshotDiff
+} from './data-sources/snapshotDiff';
+import {
+  DIFF_COLORS,
+  DIFF_LABELS,
+  formatSizeDelta
+} from '../../lib/mapUtils/diffOverlay';
+
+const TOP_CHANGE_LIMIT = 8;
+
 interface NotificationsPanelProps {
   onClose: () => void;
   className?: string;
   style?: React.CSSProperties;
+  snapshotDiff?: SnapshotDiff | null;
+  showDiffOverlay?: boolean;
+  onToggleDiffOverlay?: () => void;
 }
 
 export const NotificationsPanel = forwardRef<HTMLDivElement, NotificationsPanelProps>(
-  ({ onClose, className = '', style }, ref) => {
+  ({ onClose, className = '', style, snapshotDiff, showDiffOverlay, onToggleDiffOverlay }, ref) => {
+    const topChanges = snapshotDiff ? getTopChanges(snapshotDiff, TOP_CHANGE_LIMIT) : [];
+
     return (
       <div
         ref={ref}
-        className={`w-64 bg-popover border border-border rounded-lg shadow-lg p-3 z-[100] ${className}`.trim()}
+        className={`w-72 bg-popover border border-border rounded-lg shadow-lg p-3 z-[100] ${className}`.trim()}
         style={style}
       >
         <div className="flex items-center justify-between mb-2">
@@ -20,11 +39,71 @@ export const NotificationsPanel = forwardRef<HTMLDivElement, NotificationsPanelP
             ×
           </button>
         </div>
-        <div className="text-sm text-muted-foreground text-center py-4">
-          No new notifications
-        </div>
+
+        {!snapshotDiff || topChanges.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center py-4">
+            No new notifications
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 mb-2 text-xs text-muted-foreground">
+              {CHANGE_TYPES.filter(type => snapshotDiff.counts[type] > 0).map(type => (
+                <span key={type} className="flex items-center gap-1">
+                  <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: DIFF_COLORS[type] }} />
+                  {snapshotDiff.counts[type]} {DIFF_LABELS[type].toLowerCase()}
+                </span>
+              ))}
+            </div>
+
+            <ul className="max-h-64 overflow-y-auto space-y-1.5">
+              {topChanges.map(change => {
+                const primaryType = getPrimaryChangeType(change);
+
+                return (
+                  <li key={change.id} className="flex items-start gap-2 text-xs" title={change.path}>
+                    <span
+                      className="inline-block w-2 h-2 mt-1 rounded-full shrink-0"
+                      style={{ backgroundColor: DIFF_COLORS[primaryType] }}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate font-medium">{change.title}</div>
+                      <div className="truncate text-muted-foreground">
+                        {change.types.map(type => DIFF_LABELS[type]).join(', ')}
+                        {change.previousTitle ? ` from "${change.previousTitle}"` : ''}
+                        {change.previousPath && change.types.includes('moved') ? ` from ${change.previousPath}` : ''}
+                      </div>
+                    </div>
+                    {change.sizeDelta !== 0 && (
+                      <span className="shrink-0 tabular-nums" style={{ color: change.sizeDelta > 0 ? DIFF_COLORS.added : DIFF_COLORS.removed }}>
+                        {formatSizeDelta(change.sizeDelta)}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            {onToggleDiffOverlay && (
+              <button
+                onClick={onToggleDiffOverlay}
+                className={`mt-2 w-full rounded px-2 py-1 text-xs transition-colors ${
+                  showDiffOverlay
+                    ? 'bg-primary text-primary-foreground'
+                    : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                }`}
+              >
+                {showDiffOverlay ? 'Hide changes on map' : 'Show changes on map'}
+              </button>
+            )}
+          </>
+        )}
+
         <div className="border-t border-border pt-2 mt-2">
-          <p className="text-xs text-muted-foreground">Last updated: 2 hours ago</p>
+          <p className="text-xs text-muted-foreground">
+            {snapshotDiff
+              ? `Compared ${snapshotDiff.sources.map(source => `${source.before} → ${source.after}`).join(', ')}`
+              : 'Last updated: 2 hours ago'}
+          </p>
         </div>
       </div>
     );
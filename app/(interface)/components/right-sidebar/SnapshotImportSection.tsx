@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, FileUp, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { getBaseFolders, isServiceId, type ServiceId } from './data';
+import {
+  getSnapshotFormat,
+  parseSnapshot,
+  type SnapshotParseResult
+} from './data-sources/snapshotImport';
+import {
+  loadMapSnapshots,
+  removeMapSnapshot,
+  saveMapSnapshot,
+  type MapSnapshots
+} from './data-sources/snapshotStore';
+
+const MAX_LISTED_ERRORS = 50;
+
+interface PendingSnapshot {
+  fileName: string;
+  result: SnapshotParseResult;
+}
+
+interface SnapshotImportSectionProps {
+  mapId: string;
+  onSnapshotsChange?: () => void;
+}
+
+export const SnapshotImportSection: React.FC<SnapshotImportSectionProps> = ({
+  mapId,
+  onSnapshotsChange
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [serviceId, setServiceId] = useState<ServiceId>('googledrive');
+  const [pending, setPending] = useState<PendingSnapshot | null>(null);
+  const [storedSnapshots, setStoredSnapshots] = useState<MapSnapshots>({});
+
+  const services = useMemo(
+    () =>
+      getBaseFolders().flatMap(folder =>
+        isServiceId(folder.id) ? [{ id: folder.id, name: folder.name }] : []
+      ),
+    []
+  );
+  const serviceNames = useMemo(
+    () => new Map(services.map(service => [service.id, service.name])),
+    [services]
+  );
+
+  useEffect(() => {
+    setStoredSnapshots(loadMapSnapshots(mapId));
+    setPending(null);
+  }, [mapId]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const format = getSnapshotFormat(file.name);
+    if (!format) {
+      toast.error('Unsupported snapshot file', {
+        description: 'Choose a .json or .csv export.'
+      });
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      setPending({ fileName: file.name, result: parseSnapshot(text, format) });
+    } catch (error) {
+      toast.error(`Failed to read ${file.name}`, {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  const handleImport = () => {
+    if (!pending || pending.result.nodes.length === 0) {
+      return;
+    }
+
+    try {
+      saveMapSnapshot(mapId, {
+        serviceId,
+        fileName: pending.fileName,
+        importedAt: new Date().toISOString(),
+        nodes: pending.result.nodes,
+        metricsProvided: pending.result.metricsProvided
+      });
+    } catch (error) {
+      toast.error('Failed to import snapshot', {
+        description: error instanceof Error ? error.message : undefined
+      });
+      return;
+    }
+
+    toast.success(`Imported ${pending.fileName} into ${serviceNames.get(serviceId)}`, {
+      description:
+        pending.result.errors.length > 0
+          ? `${pending.result.rowCount - pending.result.nodes.length} invalid rows were skipped`
+          : undefined
+    });
+    setPending(null);
+    setStoredSnapshots(loadMapSnapshots(mapId));
+    onSnapshotsChange?.();
+  };
+
+  const handleRemove = (snapshotServiceId: ServiceId) => {
+    removeMapSnapshot(mapId, snapshotServiceId);
+    setStoredSnapshots(loadMapSnapshots(mapId));
+    onSnapshotsChange?.();
+  };
+
+  const snapshots = Object.values(storedSnapshots).filter(snapshot => snapshot !== undefined);
+
+  return (
+    <div className="space-y-3">
+      <Label>Drive Snapshots</Label>
+
+      {snapshots.length > 0 && (
+        <div className="space-y-2">
+          {snapshots.map(snapshot => (
+            <div
+              key={snapshot.serviceId}
+              className="flex items-center justify-between gap-2 rounded-lg border border-border px-3 py-2 text-sm"
+            >
+              <div className="min-w-0">
+                <div className="truncate font-medium">{snapshot.fileName}</div>
+                <div className="text-xs text-muted-foreground">
+                  {serviceNames.get(snapshot.serviceId)} · {snapshot.nodes.length} items ·{' '}
+                  {new Date(snapshot.importedAt).toLocaleString()}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleRemove(snapshot.serviceId)}
+                title="Remove snapshot and use the connected source again"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-1 text-xs">
+        {services.map(service => (
+          <button
+            key={service.id}
+            type="button"
+            onClick={() => setServiceId(service.id)}
+            className={`rounded px-2 py-1 transition-colors ${
+              serviceId === service.id
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+            }`}
+          >
+            {service.name}
+          </button>
+        ))}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.csv,application/json,text/csv"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      {!pending ? (
+        <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+          <FileUp className="w-4 h-4 mr-2" />
+          Import JSON or CSV snapshot
+        </Button>
+      ) : (
+        <div className="space-y-2 rounded-lg border border-border p-3 text-sm">
+          <div className="font-medium truncate">{pending.fileName}</div>
+          <div className="text-xs text-muted-foreground">
+            {pending.result.rowCount} rows · {pending.result.nodes.length} valid ·{' '}
+            {pending.result.errors.length} errors
+          </div>
+
+          {pending.result.errors.length > 0 && (
+            <ul className="max-h-40 overflow-y-auto space-y-1 rounded bg-muted/50 p-2 text-xs">
+              {pending.result.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                <li key={index} className="flex gap-1.5">
+                  <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0 text-yellow-600" />
+                  <span>
+                    Row {error.row}
+                    {error.field ? ` · ${error.field}` : ''}: {error.message}
+                  </span>
+                </li>
+              ))}
+              {pending.result.errors.length > MAX_LISTED_ERRORS && (
+                <li className="text-muted-foreground">
+                  +{pending.result.errors.length - MAX_LISTED_ERRORS} more errors
+                </li>
+              )}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleImport}
+              disabled={pending.result.nodes.length === 0}
+            >
+              Import {pending.result.nodes.length} rows
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import { isFileKind, type FileItem, type FolderItem, type ItemSharing } from '../data';
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+/**
+ * One record of the `drive-database.json` schema. Sources that produce the
+ * same flat node list (the Drive export, the local scanner) share the tree
+ * building below.
+ */
+export interface DriveNode {
+  id: string;
+  title: string;
+  parent_id: string | null;
+  kind: string;
+  mimeType: string;
+  link?: string;
+  path?: string;
+  owner?: string;
+  shared?: boolean;
+  permissionsCount?: number;
+  fileCount: number;
+  folderCount: number;
+  totalSize: number;
+  createdDate?: string;
+  modifiedDate?: string;
+  activityScore?: number;
+}
+
+export type FolderMap = Map<string, FolderItem>;
+
+export const isFolderNode = (node: DriveNode): boolean =>
+  node.kind === 'folder' || node.mimeType === FOLDER_MIME_TYPE;
+
+// Only exports that record sharing get it; the rest leave it unknown rather than private.
+const getSharing = ({ owner, shared, permissionsCount }: DriveNode): ItemSharing | undefined =>
+  owner === undefined && shared === undefined && permissionsCount === undefined
+    ? undefined
+    : { owner, shared, permissionsCount };
+
+const createFileItem = (node: DriveNode): FileItem => ({
+  id: node.id,
+  name: node.title,
+  kind: isFileKind(node.kind) ? node.kind : 'file',
+  mimeType: node.mimeType,
+  link: node.link || undefined,
+  totalSize: node.totalSize,
+  modifiedDate: node.modifiedDate,
+  sharing: getSharing(node)
+});
+
+const createFolderItem = (node: DriveNode): FolderItem => ({
+  id: node.id,
+  name: node.title,
+  isOpen: false,
+  isSelected: true,
+  children: [],
+  metrics: {
+    totalSize: node.totalSize,
+    fileCount: node.fileCount,
+    folderCount: node.folderCount
+  },
+  activity: {
+    activityScore: node.activityScore,
+    createdDate: node.createdDate,
+    modifiedDate: node.modifiedDate
+  },
+  sharing: getSharing(node)
+});
+
+export const buildFolderRelationships = (folderNodes: DriveNode[], folderMap: FolderMap): FolderItem[] => {
+  const roots: FolderItem[] = [];
+
+  folderNodes.forEach(node => {
+    const folderItem = folderMap.get(node.id);
+    if (!folderItem) return;
+
+    if (node.parent_id && folderMap.has(node.parent_id)) {
+      const parent = folderMap.get(node.parent_id);
+      if (parent) {
+        if (!parent.children) {
+          parent.children = [];
+        }
+        parent.children.push(folderItem);
+      }
+    } else {
+      folderItem.isOpen = true;
+      roots.push(folderItem);
+    }
+  });
+
+  return roots;
+};
+
+/** Attaches files to their folders and returns the ones with no known parent. */
+const attachFiles = (fileNodes: DriveNode[], folderMap: FolderMap): FileItem[] => {
+  const orphans: FileItem[] = [];
+
+  fileNodes.forEach(node => {
+    const parent = node.parent_id ? folderMap.get(node.parent_id) : undefined;
+    if (!parent) {
+      orphans.push(createFileItem(node));
+      return;
+    }
+
+    if (!parent.files) {
+      parent.files = [];
+    }
+    parent.files.push(createFileItem(node));
+  });
+
+  return orphans;
+};
+
+export const buildDriveNodeTree = (nodes: DriveNode[]): { folders: FolderItem[]; rootFiles: FileItem[] } => {
+  const folderNodes = nodes.filter(isFolderNode);
+  const folderMap: FolderMap = new Map();
+
+  folderNodes.forEach(node => {
+    if (!folderMap.has(node.id)) {
+      folderMap.set(node.id, createFolderItem(node));
+    }
+  });
+
+  const folders = buildFolderRelationships(folderNodes, folderMap);
+  const rootFiles = attachFiles(nodes.filter(node => !isFolderNode(node)), folderMap);
+
+  return { folders, rootFiles };
+};
@@ -0,0 +1,106 @@
+import type { FileItem, FolderItem } from '../data';
+import type { DataSourceAdapter, DataSourceResult } from './types';
+import { applyDirectMetrics, fetchExport, finalizeDataSource, getFileKind } from './utils';
+
+const EXPORT_PATH = '/exports/dropbox-list-folder.json';
+
+interface DropboxEntry {
+  '.tag': 'file' | 'folder' | 'deleted';
+  id?: string;
+  name: string;
+  path_lower?: string;
+  path_display?: string;
+  size?: number;
+  client_modified?: string;
+  server_modified?: string;
+}
+
+interface DropboxListFolderPage {
+  entries: DropboxEntry[];
+  cursor?: string;
+  has_more?: boolean;
+}
+
+const getParentPath = (pathLower: string): string => {
+  const index = pathLower.lastIndexOf('/');
+  return index <= 0 ? '' : pathLower.slice(0, index);
+};
+
+const isListFolderPage = (value: unknown): value is DropboxListFolderPage =>
+  typeof value === 'object' && value !== null && Array.isArray((value as DropboxListFolderPage).entries);
+
+/**
+ * Parses the response of `files/list_folder` (called with `recursive: true`).
+ * Accepts a single page or an array of pages collected by following
+ * `list_folder/continue`.
+ */
+export const parseDropboxListFolder = (json: unknown, source = 'Dropbox export'): DataSourceResult => {
+  const pages = Array.isArray(json) ? json : [json];
+  if (!pages.every(isListFolderPage)) {
+    throw new Error('Dropbox export is not a list_folder response: missing "entries"');
+  }
+
+  const entries = pages.flatMap(page => page.entries).filter(entry => entry.path_lower);
+  const folderMap = new Map<string, FolderItem>();
+
+  entries.forEach(entry => {
+    if (entry['.tag'] !== 'folder' || !entry.path_lower) return;
+    folderMap.set(entry.path_lower, {
+      id: entry.id ?? `dropbox:${entry.path_lower}`,
+      name: entry.name,
+      isOpen: false,
+      isSelected: true,
+      children: []
+    });
+  });
+
+  const roots: FolderItem[] = [];
+  const rootFiles: FileItem[] = [];
+
+  entries.forEach(entry => {
+    if (!entry.path_lower) return;
+    const parent = folderMap.get(getParentPath(entry.path_lower));
+
+    if (entry['.tag'] === 'folder') {
+      const folder = folderMap.get(entry.path_lower);
+      if (!folder) return;
+
+      if (parent) {
+        parent.children?.push(folder);
+      } else {
+        folder.isOpen = true;
+        roots.push(folder);
+      }
+      return;
+    }
+
+    if (entry['.tag'] !== 'file') return;
+
+    const file: FileItem = {
+      id: entry.id ?? `dropbox:${entry.path_lower}`,
+      name: entry.name,
+      kind: getFileKind(entry.name),
+      mimeType: 'application/octet-stream',
+      totalSize: entry.size ?? 0,
+      modifiedDate: entry.server_modified ?? entry.client_modified
+    };
+
+    if (parent) {
+      parent.files = [...(parent.files ?? []), file];
+    } else {
+      rootFiles.push(file);
+    }
+  });
+
+  applyDirectMetrics(roots);
+  return finalizeDataSource('dropbox', source, roots, rootFiles);
+};
+
+export const dropboxAdapter: DataSourceAdapter = {
+  serviceId: 'dropbox',
+  label: 'Dropbox',
+  load: async () => {
+    const response = await fetchExport(EXPORT_PATH);
+    return response ? parseDropboxListFolder(await response.json(), EXPORT_PATH) : null;
+  }
+};
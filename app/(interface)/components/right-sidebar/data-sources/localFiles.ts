@@ -0,0 +1,38 @@
+import { buildDriveNodeTree, type DriveNode } from './driveNodes';
+import type { DataSourceAdapter } from './types';
+import { finalizeDataSource } from './utils';
+
+const SCAN_ENDPOINT = '/api/local-scan';
+
+interface LocalScanResponse {
+  nodes: DriveNode[];
+  root: string;
+  truncated: boolean;
+}
+
+export const localFilesAdapter: DataSourceAdapter = {
+  serviceId: 'local',
+  label: 'Local Files',
+  load: async () => {
+    if (typeof fetch !== 'function') {
+      return null;
+    }
+
+    const response = await fetch(SCAN_ENDPOINT);
+    // 501 means no scan root is configured on this server.
+    if (response.status === 404 || response.status === 501) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Local scan failed: ${response.status} ${response.statusText}`);
+    }
+
+    const scan: LocalScanResponse = await response.json();
+    const { folders, rootFiles } = buildDriveNodeTree(scan.nodes);
+    const result = finalizeDataSource('local', scan.root, folders, rootFiles);
+    if (scan.truncated) {
+      result.metadata.truncated = true;
+    }
+    return { ...result, nodes: scan.nodes };
+  }
+};
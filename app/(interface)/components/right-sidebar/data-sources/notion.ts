@@ -0,0 +1,165 @@
+import type { FileItem, FolderItem } from '../data';
+import type { DataSourceAdapter, DataSourceResult } from './types';
+import { fetchExport, finalizeDataSource, getFileKind } from './utils';
+
+const EXPORT_PATH = '/exports/notion-export.zip';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP64_MARKER = 0xffffffff;
+// Notion suffixes every exported page and database with its 32-character id.
+const PAGE_NAME_PATTERN = /^(.*?)\s*([0-9a-f]{32})$/i;
+const PAGE_EXTENSIONS = new Set(['md', 'html', 'csv']);
+
+export interface ZipEntry {
+  path: string;
+  size: number;
+  isDirectory: boolean;
+}
+
+/**
+ * Lists the entries of a zip archive from its central directory. Only names
+ * and sizes are needed to rebuild the page hierarchy, so nothing is inflated.
+ */
+export const readZipEntries = (buffer: ArrayBuffer): ZipEntry[] => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder('utf-8');
+
+  // The end-of-central-directory record sits at the end, followed by an
+  // optional comment of up to 64 KiB.
+  let eocdOffset = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocdOffset = offset;
+      break;
+    }
+  }
+
+  if (eocdOffset < 0) {
+    throw new Error('Notion export is not a zip archive');
+  }
+
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  const directoryOffset = view.getUint32(eocdOffset + 16, true);
+  if (directoryOffset === ZIP64_MARKER) {
+    throw new Error('Zip64 archives are not supported; export the workspace in smaller parts');
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Notion export has a corrupt zip central directory');
+    }
+
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const path = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    entries.push({ path, size, isDirectory: path.endsWith('/') });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const splitExtension = (name: string): [string, string] => {
+  const index = name.lastIndexOf('.');
+  return index > 0 ? [name.slice(0, index), name.slice(index + 1).toLowerCase()] : [name, ''];
+};
+
+const parsePageName = (segment: string): { title: string; pageId: string | null } => {
+  const match = segment.match(PAGE_NAME_PATTERN);
+  return match ? { title: match[1] || 'Untitled', pageId: match[2].toLowerCase() } : { title: segment, pageId: null };
+};
+
+/**
+ * Rebuilds the page tree of a Notion "Markdown & CSV" or HTML workspace
+ * export. A page `A <id>.md` keeps its sub-pages and attachments in the
+ * sibling directory `A <id>/`; databases export as `.csv` the same way.
+ */
+export const parseNotionExport = (entries: ZipEntry[], source = 'Notion export'): DataSourceResult => {
+  const pages = new Map<string, FolderItem>();
+  const roots: FolderItem[] = [];
+  const rootFiles: FileItem[] = [];
+
+  // Pages are keyed by their path without extension, which is also the path
+  // of the directory holding their children.
+  const ensurePage = (key: string): FolderItem => {
+    const existing = pages.get(key);
+    if (existing) return existing;
+
+    const segments = key.split('/');
+    const { title, pageId } = parsePageName(segments[segments.length - 1]);
+    const page: FolderItem = {
+      id: pageId ?? `notion:${key}`,
+      name: title,
+      isOpen: false,
+      isSelected: true,
+      children: [],
+      metrics: { totalSize: 0, fileCount: 0, folderCount: 0 }
+    };
+    pages.set(key, page);
+
+    if (segments.length === 1) {
+      page.isOpen = true;
+      roots.push(page);
+    } else {
+      const parent = ensurePage(segments.slice(0, -1).join('/'));
+      parent.children?.push(page);
+      parent.metrics = { ...parent.metrics, folderCount: (parent.metrics?.folderCount ?? 0) + 1 };
+    }
+
+    return page;
+  };
+
+  entries.forEach(entry => {
+    if (entry.isDirectory) return;
+
+    const segments = entry.path.split('/').filter(Boolean);
+    const fileName = segments[segments.length - 1];
+    const directory = segments.slice(0, -1).join('/');
+    const [baseName, extension] = splitExtension(fileName);
+
+    if (PAGE_EXTENSIONS.has(extension) && parsePageName(baseName).pageId) {
+      const page = ensurePage(directory ? `${directory}/${baseName}` : baseName);
+      page.metrics = { ...page.metrics, totalSize: (page.metrics?.totalSize ?? 0) + entry.size };
+      return;
+    }
+
+    const file: FileItem = {
+      id: `notion:${entry.path}`,
+      name: fileName,
+      kind: getFileKind(fileName),
+      mimeType: 'application/octet-stream',
+      totalSize: entry.size
+    };
+
+    if (!directory) {
+      rootFiles.push(file);
+      return;
+    }
+
+    const page = ensurePage(directory);
+    page.files = [...(page.files ?? []), file];
+    page.metrics = {
+      ...page.metrics,
+      totalSize: (page.metrics?.totalSize ?? 0) + entry.size,
+      fileCount: (page.metrics?.fileCount ?? 0) + 1
+    };
+  });
+
+  return finalizeDataSource('notion', source, roots, rootFiles);
+};
+
+export const notionAdapter: DataSourceAdapter = {
+  serviceId: 'notion',
+  label: 'Notion',
+  load: async () => {
+    const response = await fetchExport(EXPORT_PATH);
+    return response ? parseNotionExport(readZipEntries(await response.arrayBuffer()), EXPORT_PATH) : null;
+  }
+};
@@ -0,0 +1,119 @@
+import type { FileItem, FolderItem } from '../data';
+import type { DataSourceAdapter, DataSourceResult } from './types';
+import { applyDirectMetrics, fetchExport, finalizeDataSource, getFileKind } from './utils';
+
+const EXPORT_PATH = '/exports/onedrive-items.json';
+
+interface DriveItem {
+  id: string;
+  name: string;
+  size?: number;
+  webUrl?: string;
+  createdDateTime?: string;
+  lastModifiedDateTime?: string;
+  parentReference?: { id?: string; path?: string };
+  folder?: { childCount?: number };
+  file?: { mimeType?: string };
+  root?: object;
+  deleted?: object;
+}
+
+interface DriveItemCollection {
+  value: DriveItem[];
+  '@odata.nextLink'?: string;
+}
+
+const isDriveItemCollection = (value: unknown): value is DriveItemCollection =>
+  typeof value === 'object' && value !== null && Array.isArray((value as DriveItemCollection).value);
+
+const toDriveItems = (json: unknown): DriveItem[] => {
+  if (isDriveItemCollection(json)) {
+    return json.value;
+  }
+  if (Array.isArray(json)) {
+    // Either a flat list of items or several collection pages.
+    return json.flatMap(entry => (isDriveItemCollection(entry) ? entry.value : [entry as DriveItem]));
+  }
+  throw new Error('OneDrive export is not a driveItem collection: missing "value"');
+};
+
+/**
+ * Parses Microsoft Graph `driveItem` JSON, e.g. the pages returned by
+ * `/me/drive/items/{id}/children` or a delta query, flattened into one list.
+ */
+export const parseOneDriveItems = (json: unknown, source = 'OneDrive export'): DataSourceResult => {
+  const items = toDriveItems(json).filter(item => item && item.id && !item.deleted);
+  const rootIds = new Set(items.filter(item => item.root).map(item => item.id));
+  const folderMap = new Map<string, FolderItem>();
+
+  items.forEach(item => {
+    if (!item.folder || item.root) return;
+    folderMap.set(item.id, {
+      id: item.id,
+      name: item.name,
+      isOpen: false,
+      isSelected: true,
+      children: [],
+      activity: {
+        createdDate: item.createdDateTime,
+        modifiedDate: item.lastModifiedDateTime
+      }
+    });
+  });
+
+  const roots: FolderItem[] = [];
+  const rootFiles: FileItem[] = [];
+
+  items.forEach(item => {
+    if (item.root) return;
+
+    const parentId = item.parentReference?.id;
+    const parent = parentId && !rootIds.has(parentId) ? folderMap.get(parentId) : undefined;
+
+    if (item.folder) {
+      const folder = folderMap.get(item.id);
+      if (!folder) return;
+
+      if (parent) {
+        parent.children?.push(folder);
+      } else {
+        folder.isOpen = true;
+        roots.push(folder);
+      }
+      return;
+    }
+
+    if (!item.file) return;
+
+    const mimeType = item.file.mimeType ?? 'application/octet-stream';
+    const file: FileItem = {
+      id: item.id,
+      name: item.name,
+      kind: getFileKind(item.name, mimeType),
+      mimeType,
+      link: item.webUrl,
+      totalSize: item.size ?? 0,
+      modifiedDate: item.lastModifiedDateTime
+    };
+
+    if (parent) {
+      parent.files = [...(parent.files ?? []), file];
+    } else {
+      rootFiles.push(file);
+    }
+  });
+
+  // Graph reports recursive folder sizes; recompute direct ones to match the
+  // other sources.
+  applyDirectMetrics(roots);
+  return finalizeDataSource('onedrive', source, roots, rootFiles);
+};
+
+export const oneDriveAdapter: DataSourceAdapter = {
+  serviceId: 'onedrive',
+  label: 'OneDrive',
+  load: async () => {
+    const response = await fetchExport(EXPORT_PATH);
+    return response ? parseOneDriveItems(await response.json(), EXPORT_PATH) : null;
+  }
+};
@@ -0,0 +1,19 @@
+import type { ServiceId } from '../data';
+import { dropboxAdapter } from './dropbox';
+import { googleDriveAdapter } from './googleDrive';
+import { localFilesAdapter } from './localFiles';
+import { notionAdapter } from './notion';
+import { oneDriveAdapter } from './oneDrive';
+import type { DataSourceAdapter } from './types';
+
+const adapters = new Map<ServiceId, DataSourceAdapter>();
+
+export const registerDataSource = (adapter: DataSourceAdapter) => {
+  adapters.set(adapter.serviceId, adapter);
+};
+
+export const getDataSource = (serviceId: ServiceId): DataSourceAdapter | undefined => adapters.get(serviceId);
+
+export const getRegisteredDataSources = (): DataSourceAdapter[] => Array.from(adapters.values());
+
+[notionAdapter, oneDriveAdapter, dropboxAdapter, googleDriveAdapter, localFilesAdapter].forEach(registerDataSource);
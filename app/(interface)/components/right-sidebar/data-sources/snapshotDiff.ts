@@ -0,0 +1,171 @@
+import { isFolderNode, type DriveNode } from './driveNodes';
+
+export type ChangeType = 'added' | 'removed' | 'moved' | 'renamed' | 'resized';
+
+/** Ordered by precedence: a node that was moved and resized shows as moved. */
+export const CHANGE_TYPES: ChangeType[] = ['added', 'removed', 'moved', 'renamed', 'resized'];
+
+export interface NodeChange {
+  id: string;
+  title: string;
+  previousTitle?: string;
+  isFolder: boolean;
+  types: ChangeType[];
+  /** Path in the newer snapshot, or in the older one for removed nodes. */
+  path: string;
+  previousPath?: string;
+  sizeBefore: number;
+  sizeAfter: number;
+  sizeDelta: number;
+}
+
+export interface SnapshotDiff {
+  /** Sorted by impact, largest size change first. */
+  changes: NodeChange[];
+  byId: Map<string, NodeChange>;
+  counts: Record<ChangeType, number>;
+  sizeDelta: number;
+  /** The snapshot labels that were compared, e.g. file names. */
+  sources: Array<{ before: string; after: string }>;
+}
+
+type NodeIndex = Map<string, DriveNode>;
+
+const indexNodes = (nodes: DriveNode[]): NodeIndex => new Map(nodes.map(node => [node.id, node]));
+
+const getNodePath = (node: DriveNode, index: NodeIndex): string => {
+  if (node.path) {
+    return node.path;
+  }
+
+  const names = [node.title];
+  const visited = new Set<string>([node.id]);
+  let parentId = node.parent_id;
+  while (parentId && !visited.has(parentId)) {
+    const parent = index.get(parentId);
+    if (!parent) break;
+    names.unshift(parent.title);
+    visited.add(parentId);
+    parentId = parent.parent_id;
+  }
+
+  return `/${names.join('/')}`;
+};
+
+const createEmptyCounts = (): Record<ChangeType, number> => ({
+  added: 0,
+  removed: 0,
+  moved: 0,
+  renamed: 0,
+  resized: 0
+});
+
+export const getPrimaryChangeType = (change: NodeChange): ChangeType =>
+  CHANGE_TYPES.find(type => change.types.includes(type)) ?? change.types[0];
+
+const compareImpact = (a: NodeChange, b: NodeChange) =>
+  Math.abs(b.sizeDelta) - Math.abs(a.sizeDelta) ||
+  Math.max(b.sizeBefore, b.sizeAfter) - Math.max(a.sizeBefore, a.sizeAfter) ||
+  CHANGE_TYPES.indexOf(getPrimaryChangeType(a)) - CHANGE_TYPES.indexOf(getPrimaryChangeType(b));
+
+/**
+ * Compares two exports by node id. Sizes are the direct `totalSize` of each
+ * node, so a folder only counts as resized when its own files changed.
+ */
+export const diffDriveNodes = (
+  before: DriveNode[],
+  after: DriveNode[],
+  source: { before: string; after: string } = { before: 'before', after: 'after' }
+): SnapshotDiff => {
+  const beforeIndex = indexNodes(before);
+  const afterIndex = indexNodes(after);
+  const changes: NodeChange[] = [];
+
+  afterIndex.forEach((node, id) => {
+    const previous = beforeIndex.get(id);
+    const types: ChangeType[] = [];
+
+    if (!previous) {
+      types.push('added');
+    } else {
+      if ((previous.parent_id ?? null) !== (node.parent_id ?? null)) types.push('moved');
+      if (previous.title !== node.title) types.push('renamed');
+      if (previous.totalSize !== node.totalSize) types.push('resized');
+    }
+
+    if (types.length === 0) {
+      return;
+    }
+
+    const sizeBefore = previous?.totalSize ?? 0;
+    const path = getNodePath(node, afterIndex);
+    const previousPath = previous ? getNodePath(previous, beforeIndex) : undefined;
+
+    changes.push({
+      id,
+      title: node.title,
+      previousTitle: previous && previous.title !== node.title ? previous.title : undefined,
+      isFolder: isFolderNode(node),
+      types,
+      path,
+      previousPath: previousPath && previousPath !== path ? previousPath : undefined,
+      sizeBefore,
+      sizeAfter: node.totalSize,
+      sizeDelta: node.totalSize - sizeBefore
+    });
+  });
+
+  beforeIndex.forEach((node, id) => {
+    if (afterIndex.has(id)) {
+      return;
+    }
+
+    changes.push({
+      id,
+      title: node.title,
+      isFolder: isFolderNode(node),
+      types: ['removed'],
+      path: getNodePath(node, beforeIndex),
+      sizeBefore: node.totalSize,
+      sizeAfter: 0,
+      sizeDelta: -node.totalSize
+    });
+  });
+
+  changes.sort(compareImpact);
+
+  const counts = createEmptyCounts();
+  changes.forEach(change => change.types.forEach(type => (counts[type] += 1)));
+
+  return {
+    changes,
+    byId: new Map(changes.map(change => [change.id, change])),
+    counts,
+    sizeDelta: changes.reduce((total, change) => total + change.sizeDelta, 0),
+    sources: [source]
+  };
+};
+
+/** Combines per-service diffs into one; node ids are unique across services. */
+export const mergeSnapshotDiffs = (diffs: SnapshotDiff[]): SnapshotDiff | null => {
+  if (diffs.length === 0) {
+    return null;
+  }
+  if (diffs.length === 1) {
+    return diffs[0];
+  }
+
+  const changes = diffs.flatMap(diff => diff.changes).sort(compareImpact);
+  const counts = createEmptyCounts();
+  diffs.forEach(diff => CHANGE_TYPES.forEach(type => (counts[type] += diff.counts[type])));
+
+  return {
+    changes,
+    byId: new Map(changes.map(change => [change.id, change])),
+    counts,
+    sizeDelta: diffs.reduce((total, diff) => total + diff.sizeDelta, 0),
+    sources: diffs.flatMap(diff => diff.sources)
+  };
+};
+
+export const getTopChanges = (diff: SnapshotDiff, limit = 10): NodeChange[] => diff.changes.slice(0, limit);
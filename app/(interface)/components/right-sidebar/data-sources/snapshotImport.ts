@@ -0,0 +1,380 @@
+import type { ServiceId } from '../data';
+import { buildDriveNodeTree, isFolderNode, type DriveNode } from './driveNodes';
+import type { DataSourceResult } from './types';
+import { applyDirectMetrics, finalizeDataSource, getFileKind } from './utils';
+
+export type SnapshotFormat = 'json' | 'csv';
+
+/**
+ * `row` is the 1-based node index for JSON and the line a record starts on for
+ * CSV, so it matches what the user sees in an editor.
+ */
+export interface SnapshotRowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface SnapshotParseResult {
+  format: SnapshotFormat;
+  /** Rows that passed validation; invalid rows are left out. */
+  nodes: DriveNode[];
+  errors: SnapshotRowError[];
+  rowCount: number;
+  /** False when folder rows lack fileCount/folderCount and metrics are derived instead. */
+  metricsProvided: boolean;
+}
+
+export interface ImportedSnapshot {
+  serviceId: ServiceId;
+  fileName: string;
+  importedAt: string;
+  nodes: DriveNode[];
+  metricsProvided: boolean;
+  /** The snapshot this one replaced, kept as the baseline for diffing. */
+  previous?: ImportedSnapshot;
+}
+
+type RawRecord = Record<string, unknown>;
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  '1': true,
+  false: false,
+  no: false,
+  '0': false
+};
+
+export const getSnapshotFormat = (fileName: string): SnapshotFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  return null;
+};
+
+/** RFC 4180 records, each tagged with the line it starts on. */
+const parseCsvRecords = (text: string): Array<{ line: number; values: string[] }> => {
+  const records: Array<{ line: number; values: string[] }> = [];
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    values.push(field);
+    if (values.length > 1 || values[0] !== '') {
+      records.push({ line: recordLine, values });
+    }
+    values = [];
+    field = '';
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line += 1;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      values.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1;
+      endRecord();
+      line += 1;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || values.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
+
+const readCsv = (text: string, errors: SnapshotRowError[]): Array<{ row: number; record: RawRecord }> => {
+  const [header, ...rows] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    errors.push({ row: 1, message: 'The file is empty' });
+    return [];
+  }
+
+  const columns = header.values.map(column => column.trim());
+
+  return rows.flatMap(({ line, values }) => {
+    // Cells can't be matched to columns, e.g. after an unquoted comma, so the row is dropped.
+    if (values.length !== columns.length) {
+      errors.push({ row: line, message: `Expected ${columns.length} columns, found ${values.length}` });
+      return [];
+    }
+
+    const record: RawRecord = {};
+    columns.forEach((column, index) => {
+      const value = values[index]?.trim();
+      // Empty cells read as missing so optional columns can be left blank.
+      if (value !== undefined && value !== '') {
+        record[column] = value;
+      }
+    });
+    return [{ row: line, record }];
+  });
+};
+
+const readItems = (items: unknown[], errors: SnapshotRowError[]): Array<{ row: number; record: RawRecord }> =>
+  items.flatMap((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push({ row: index + 1, message: 'Node must be an object' });
+      return [];
+    }
+    return [{ row: index + 1, record: item as RawRecord }];
+  });
+
+const readJson = (text: string, errors: SnapshotRowError[]): Array<{ row: number; record: RawRecord }> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    errors.push({ row: 1, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+    return [];
+  }
+
+  const items = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' && Array.isArray((parsed as { nodes?: unknown }).nodes)
+      ? (parsed as { nodes: unknown[] }).nodes
+      : null;
+
+  if (!items) {
+    errors.push({ row: 1, message: 'Expected an array of nodes or an object with a "nodes" array' });
+    return [];
+  }
+
+  return readItems(items, errors);
+};
+
+/**
+ * Checks one record against the node schema. CSV cells arrive as strings, so
+ * numbers and booleans are accepted in either form.
+ */
+const validateRecord = (record: RawRecord, row: number, errors: SnapshotRowError[]): DriveNode | null => {
+  const rowErrors: SnapshotRowError[] = [];
+  const fail = (field: string, message: string) => {
+    rowErrors.push({ row, field, message });
+  };
+
+  const readString = (field: string, required: boolean): string | undefined => {
+    const value = record[field];
+    if (value === undefined || value === null || value === '') {
+      if (required) fail(field, 'is required');
+      return undefined;
+    }
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      fail(field, 'must be a string');
+      return undefined;
+    }
+    return String(value);
+  };
+
+  const readNumber = (field: string, options: { required?: boolean; integer?: boolean } = {}): number | undefined => {
+    const value = record[field];
+    if (value === undefined || value === null || value === '') {
+      if (options.required) fail(field, 'is required');
+      return undefined;
+    }
+    const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : Number.NaN;
+    if (!Number.isFinite(number) || number < 0) {
+      fail(field, 'must be a non-negative number');
+      return undefined;
+    }
+    if (options.integer && !Number.isInteger(number)) {
+      fail(field, 'must be a whole number');
+      return undefined;
+    }
+    return number;
+  };
+
+  const readDate = (field: string): string | undefined => {
+    const value = readString(field, false);
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      fail(field, `"${value}" is not a valid date`);
+      return undefined;
+    }
+    return value;
+  };
+
+  const readBoolean = (field: string): boolean | undefined => {
+    const value = record[field];
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value === 'boolean') return value;
+    const parsed = typeof value === 'string' ? BOOLEAN_VALUES[value.toLowerCase()] : undefined;
+    if (parsed === undefined) {
+      fail(field, 'must be true or false');
+    }
+    return parsed;
+  };
+
+  const id = readString('id', true);
+  const title = readString('title', true);
+  const parentId = readString('parent_id', false) ?? null;
+  const mimeType = readString('mimeType', false);
+  const totalSize = readNumber('totalSize', { required: true });
+  let kind = readString('kind', false);
+
+  if (!kind && !mimeType) {
+    fail('kind', 'kind or mimeType is required');
+  }
+  if (id !== undefined && parentId === id) {
+    fail('parent_id', 'a node cannot be its own parent');
+  }
+
+  const node: DriveNode = {
+    id: id ?? '',
+    title: title ?? '',
+    parent_id: parentId,
+    kind: kind ?? '',
+    mimeType: mimeType ?? '',
+    link: readString('link', false),
+    path: readString('path', false),
+    owner: readString('owner', false),
+    shared: readBoolean('shared'),
+    permissionsCount: readNumber('permissionsCount', { integer: true }),
+    fileCount: readNumber('fileCount', { integer: true }) ?? 0,
+    folderCount: readNumber('folderCount', { integer: true }) ?? 0,
+    totalSize: totalSize ?? 0,
+    createdDate: readDate('createdDate'),
+    modifiedDate: readDate('modifiedDate'),
+    activityScore: readNumber('activityScore')
+  };
+
+  if (rowErrors.length > 0) {
+    errors.push(...rowErrors);
+    return null;
+  }
+
+  if (!kind) {
+    kind = isFolderNode({ ...node, kind: '' }) ? 'folder' : getFileKind(node.title, node.mimeType);
+    node.kind = kind;
+  }
+
+  return node;
+};
+
+/**
+ * Rejects rows the tree builder would silently lose: duplicate ids, parents
+ * that are files, and folder cycles (none of which would ever reach a root).
+ */
+const validateRelationships = (
+  entries: Array<{ row: number; node: DriveNode }>,
+  errors: SnapshotRowError[]
+): Array<{ row: number; node: DriveNode }> => {
+  const seen = new Map<string, { row: number; node: DriveNode }>();
+  const unique = entries.filter(entry => {
+    const existing = seen.get(entry.node.id);
+    if (existing) {
+      errors.push({ row: entry.row, field: 'id', message: `Duplicate id "${entry.node.id}" (first seen on row ${existing.row})` });
+      return false;
+    }
+    seen.set(entry.node.id, entry);
+    return true;
+  });
+
+  const invalid = new Set<string>();
+
+  unique.forEach(({ row, node }) => {
+    const parent = node.parent_id ? seen.get(node.parent_id) : undefined;
+    if (parent && !isFolderNode(parent.node)) {
+      errors.push({ row, field: 'parent_id', message: `Parent "${node.parent_id}" is a file, not a folder` });
+      invalid.add(node.id);
+    }
+  });
+
+  unique.forEach(({ row, node }) => {
+    if (!isFolderNode(node) || invalid.has(node.id)) return;
+
+    const visited = new Set<string>([node.id]);
+    let parentId = node.parent_id;
+    while (parentId && seen.has(parentId)) {
+      if (visited.has(parentId)) {
+        errors.push({ row, field: 'parent_id', message: 'Folder is part of a parent cycle' });
+        invalid.add(node.id);
+        return;
+      }
+      visited.add(parentId);
+      parentId = seen.get(parentId)?.node.parent_id ?? null;
+    }
+  });
+
+  return unique.filter(entry => !invalid.has(entry.node.id));
+};
+
+const validateRecords = (
+  format: SnapshotFormat,
+  records: Array<{ row: number; record: RawRecord }>,
+  errors: SnapshotRowError[]
+): SnapshotParseResult => {
+  let metricsProvided = true;
+  const validated = records.flatMap(({ row, record }) => {
+    const node = validateRecord(record, row, errors);
+    if (!node) return [];
+
+    if (isFolderNode(node) && (record.fileCount === undefined || record.folderCount === undefined)) {
+      metricsProvided = false;
+    }
+    return [{ row, node }];
+  });
+  const entries = validateRelationships(validated, errors);
+
+  errors.sort((a, b) => a.row - b.row);
+
+  return {
+    format,
+    nodes: entries.map(entry => entry.node),
+    errors,
+    rowCount: records.length,
+    metricsProvided
+  };
+};
+
+export const parseSnapshot = (text: string, format: SnapshotFormat): SnapshotParseResult => {
+  const errors: SnapshotRowError[] = [];
+  const records = format === 'csv' ? readCsv(text, errors) : readJson(text, errors);
+  return validateRecords(format, records, errors);
+};
+
+/** Validates nodes that arrive already parsed, e.g. embedded in a map file. */
+export const parseSnapshotNodes = (items: unknown[]): SnapshotParseResult => {
+  const errors: SnapshotRowError[] = [];
+  return validateRecords('json', readItems(items, errors), errors);
+};
+
+/** Builds a snapshot through the same node tree as the bundled Drive export. */
+export const buildSnapshotTree = (snapshot: ImportedSnapshot): DataSourceResult => {
+  const { folders, rootFiles } = buildDriveNodeTree(snapshot.nodes);
+
+  if (!snapshot.metricsProvided) {
+    applyDirectMetrics(folders);
+  }
+
+  const result = finalizeDataSource(snapshot.serviceId, snapshot.fileName, folders, rootFiles);
+  // The import time identifies the snapshot, so rebuilding it is not a change.
+  result.metadata.loadedAt = snapshot.importedAt;
+
+  return { ...result, nodes: snapshot.nodes };
+};
@@ -0,0 +1,73 @@
+import { isServiceId, type ServiceId } from '../data';
+import type { ImportedSnapshot } from './snapshotImport';
+
+export type MapSnapshots = Partial<Record<ServiceId, ImportedSnapshot>>;
+
+const STORAGE_PREFIX = 'map-snapshots:';
+
+const getStorage = (): Storage | null =>
+  typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+
+const getStorageKey = (mapId: string) => `${STORAGE_PREFIX}${mapId}`;
+
+/** Snapshots imported for a map, keyed by the service they replace. */
+export const loadMapSnapshots = (mapId: string): MapSnapshots => {
+  const raw = getStorage()?.getItem(getStorageKey(mapId));
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as MapSnapshots;
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([serviceId, snapshot]) => isServiceId(serviceId) && Array.isArray(snapshot?.nodes))
+    ) as MapSnapshots;
+  } catch (error) {
+    console.error(`Failed to read snapshots for ${mapId}`, error);
+    return {};
+  }
+};
+
+const writeMapSnapshots = (mapId: string, snapshots: MapSnapshots) => {
+  const storage = getStorage();
+  if (!storage) {
+    throw new Error('Snapshots cannot be stored in this browser');
+  }
+
+  const key = getStorageKey(mapId);
+  if (Object.keys(snapshots).length === 0) {
+    storage.removeItem(key);
+    return;
+  }
+
+  try {
+    storage.setItem(key, JSON.stringify(snapshots));
+  } catch {
+    throw new Error('The snapshot is too large to store for this map');
+  }
+};
+
+/** Keeps the snapshot being replaced, one level deep, as the diff baseline. */
+export const saveMapSnapshot = (mapId: string, snapshot: ImportedSnapshot) => {
+  const snapshots = loadMapSnapshots(mapId);
+  const existing = snapshots[snapshot.serviceId];
+  const previous = existing ? { ...existing, previous: undefined } : undefined;
+
+  try {
+    writeMapSnapshots(mapId, { ...snapshots, [snapshot.serviceId]: { ...snapshot, previous } });
+  } catch (error) {
+    if (!previous) throw error;
+    // Dropping the baseline is better than refusing the import.
+    writeMapSnapshots(mapId, { ...snapshots, [snapshot.serviceId]: snapshot });
+  }
+};
+
+/** Replaces every snapshot of a map, e.g. with the ones carried by an imported map file. */
+export const replaceMapSnapshots = (mapId: string, snapshots: MapSnapshots) => {
+  writeMapSnapshots(mapId, snapshots);
+};
+
+export const removeMapSnapshot = (mapId: string, serviceId: ServiceId) => {
+  const { [serviceId]: _removed, ...rest } = loadMapSnapshots(mapId);
+  writeMapSnapshots(mapId, rest);
+};
@@ -0,0 +1,29 @@
+import type { FileItem, FolderItem, ServiceId } from '../data';
+import type { DriveNode } from './driveNodes';
+
+export interface DataSourceMetadata {
+  serviceId: ServiceId;
+  /** Where the items came from, e.g. the export file name. */
+  source: string;
+  folderCount: number;
+  fileCount: number;
+  loadedAt: string;
+  /** Set when the source stopped at a limit, so the tree is incomplete. */
+  truncated?: boolean;
+}
+
+export interface DataSourceResult {
+  folders: FolderItem[];
+  /** Files stored at the top level of the service, outside any folder. */
+  rootFiles?: FileItem[];
+  /** The flat node list for sources in the Drive schema, kept so snapshots can be diffed against it. */
+  nodes?: DriveNode[];
+  metadata: DataSourceMetadata;
+}
+
+export interface DataSourceAdapter {
+  serviceId: ServiceId;
+  label: string;
+  /** Resolves to `null` when the service has nothing to load, e.g. no export is available. */
+  load: () => Promise<DataSourceResult | null>;
+}
@@ -0,0 +1,147 @@
+import type { FileItem, FileKind, FolderItem, ServiceId } from '../data';
+import type { DataSourceResult } from './types';
+
+const compareNames = (a: { name: string }, b: { name: string }) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+export const sortFolders = (items: FolderItem[]) => {
+  items.sort(compareNames);
+  items.forEach(item => {
+    if (item.children && item.children.length > 0) {
+      sortFolders(item.children);
+    }
+    if (item.files && item.files.length > 0) {
+      item.files.sort(compareNames);
+    }
+  });
+};
+
+export const pruneEmptyChildren = (items: FolderItem[]) => {
+  items.forEach(item => {
+    if (item.children) {
+      if (item.children.length === 0) {
+        item.children = undefined;
+      } else {
+        pruneEmptyChildren(item.children);
+      }
+    }
+  });
+};
+
+const latestDate = (dates: Array<string | undefined>): string | undefined =>
+  dates.reduce<string | undefined>((latest, date) => {
+    if (!date || Number.isNaN(Date.parse(date))) return latest;
+    if (!latest || Date.parse(date) > Date.parse(latest)) return date;
+    return latest;
+  }, undefined);
+
+/**
+ * Fills in metrics for exports that only list items. Like the Google Drive
+ * database, metrics count a folder's direct contents only.
+ */
+export const applyDirectMetrics = (items: FolderItem[]) => {
+  items.forEach(item => {
+    const files = item.files ?? [];
+    const children = item.children ?? [];
+
+    item.metrics = {
+      totalSize: files.reduce((total, file) => total + file.totalSize, 0),
+      fileCount: files.length,
+      folderCount: children.length
+    };
+
+    if (!item.activity?.modifiedDate) {
+      const modifiedDate = latestDate(files.map(file => file.modifiedDate));
+      if (modifiedDate) {
+        item.activity = { ...item.activity, modifiedDate };
+      }
+    }
+
+    applyDirectMetrics(children);
+  });
+};
+
+export const countTreeItems = (items: FolderItem[], rootFiles: FileItem[] = []) => {
+  let folderCount = 0;
+  let fileCount = rootFiles.length;
+
+  const visit = (item: FolderItem) => {
+    folderCount += 1;
+    fileCount += item.files?.length ?? 0;
+    item.children?.forEach(visit);
+  };
+
+  items.forEach(visit);
+  return { folderCount, fileCount };
+};
+
+export const finalizeDataSource = (
+  serviceId: ServiceId,
+  source: string,
+  folders: FolderItem[],
+  rootFiles: FileItem[] = []
+): DataSourceResult => {
+  sortFolders(folders);
+  pruneEmptyChildren(folders);
+  rootFiles.sort(compareNames);
+
+  return {
+    folders,
+    rootFiles: rootFiles.length > 0 ? rootFiles : undefined,
+    metadata: {
+      serviceId,
+      source,
+      ...countTreeItems(folders, rootFiles),
+      loadedAt: new Date().toISOString()
+    }
+  };
+};
+
+const EXTENSION_KINDS: Record<string, FileKind> = {
+  jpg: 'image', jpeg: 'image', png: 'image', gif: 'image', webp: 'image', heic: 'image', heif: 'image', svg: 'image',
+  mp4: 'video', mov: 'video', avi: 'video', mkv: 'video', webm: 'video',
+  mp3: 'audio', wav: 'audio', m4a: 'audio', flac: 'audio', ogg: 'audio',
+  pdf: 'pdf',
+  doc: 'doc', docx: 'doc', odt: 'doc', rtf: 'doc', md: 'doc', txt: 'doc', paper: 'doc',
+  xls: 'spreadsheet', xlsx: 'spreadsheet', ods: 'spreadsheet', csv: 'spreadsheet',
+  ppt: 'slide', pptx: 'slide', odp: 'slide', key: 'slide',
+  zip: 'archive', rar: 'archive', '7z': 'archive', tar: 'archive', gz: 'archive'
+};
+
+/** Best-effort file kind for sources that only give a MIME type or a name. */
+export const getFileKind = (name: string, mimeType?: string): FileKind => {
+  if (mimeType) {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType === 'application/pdf') return 'pdf';
+    if (/zip|rar|x-7z|x-tar|gzip/.test(mimeType)) return 'archive';
+    if (/spreadsheet|excel|text\/csv/.test(mimeType)) return 'spreadsheet';
+    if (/presentation|powerpoint/.test(mimeType)) return 'slide';
+    if (/google-apps\.form/.test(mimeType)) return 'form';
+    if (/wordprocessing|msword|opendocument\.text|google-apps\.document/.test(mimeType)) return 'doc';
+  }
+
+  const extension = name.includes('.') ? name.split('.').pop()?.toLowerCase() : undefined;
+  return (extension && EXTENSION_KINDS[extension]) || 'file';
+};
+
+/**
+ * Offline exports are served from `public/exports`. A missing file just means
+ * the service has not been exported yet.
+ */
+export const fetchExport = async (path: string): Promise<Response | null> => {
+  if (typeof fetch !== 'function') {
+    return null;
+  }
+
+  const response = await fetch(path);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path}: ${response.status} ${response.statusText}`);
+  }
+
+  return response;
+};
@@ -1,16 +1,72 @@
+import type { DataSourceResult } from './data-sources/types';
+
 export interface FolderMetrics {
   totalSize?: number;
   fileCount?: number;
   folderCount?: number;
 }
 
+export interface FolderActivity {
+  activityScore?: number;
+  createdDate?: string;
+  modifiedDate?: string;
+}
+
+export interface ItemSharing {
+  owner?: string;
+  shared?: boolean;
+  permissionsCount?: number;
+}
+
+export type FileKind =
+  | 'file'
+  | 'image'
+  | 'video'
+  | 'audio'
+  | 'pdf'
+  | 'doc'
+  | 'spreadsheet'
+  | 'slide'
+  | 'form'
+  | 'archive';
+
+export const FILE_KINDS: FileKind[] = [
+  'file',
+  'image',
+  'video',
+  'audio',
+  'pdf',
+  'doc',
+  'spreadsheet',
+  'slide',
+  'form',
+  'archive'
+];
+
+export const isFileKind = (kind: string): kind is FileKind => FILE_KINDS.includes(kind as FileKind);
+
+export interface FileItem {
+  id: string;
+  name: string;
+  kind: FileKind;
+  mimeType: string;
+  link?: string;
+  totalSize: number;
+  modifiedDate?: string;
+  sharing?: ItemSharing;
+}
+
 export interface FolderItem {
   id: string;
   name: string;
   isOpen: boolean;
   isSelected: boolean;
   children?: FolderItem[];
+  /** Files stored directly in this folder, only present for sources that list them. */
+  files?: FileItem[];
   metrics?: FolderMetrics;
+  activity?: FolderActivity;
+  sharing?: ItemSharing;
 }
 
 export interface SuppressedFolder {
@@ -19,9 +75,9 @@ export interface SuppressedFolder {
   path: string;
 }
 
-export type ServiceId = 'notion' | 'onedrive' | 'dropbox' | 'googledrive';
+export type ServiceId = 'notion' | 'onedrive' | 'dropbox' | 'googledrive' | 'local';
 
-export const SERVICE_ORDER: ServiceId[] = ['notion', 'onedrive', 'dropbox', 'googledrive'];
+export const SERVICE_ORDER: ServiceId[] = ['notion', 'onedrive', 'dropbox', 'googledrive', 'local'];
 
 const BASE_FOLDERS: FolderItem[] = [
   {
@@ -47,6 +103,12 @@ const BASE_FOLDERS: FolderItem[] = [
     name: 'Google Drive',
     isOpen: true,
     isSelected: true
+  },
+  {
+    id: 'local',
+    name: 'Local Files',
+    isOpen: false,
+    isSelected: true
   }
 ];
 
@@ -58,23 +120,34 @@ const clone = <T,>(value: T): T => {
   return JSON.parse(JSON.stringify(value));
 };
 
-let googleDriveTreeCache: FolderItem[] | null = null;
+export type ServiceTrees = Partial<Record<ServiceId, DataSourceResult>>;
+
+let serviceTreeCache: ServiceTrees | null = null;
 let baseFoldersCache: FolderItem[] | null = null;
 
-const buildBaseFolders = (): FolderItem[] => {
+/** The service roots with each loaded tree attached. */
+export const buildServiceFolders = (trees: ServiceTrees): FolderItem[] => {
   const folders = clone(BASE_FOLDERS);
 
-  if (googleDriveTreeCache && googleDriveTreeCache.length > 0) {
-    const googleDrive = folders.find(folder => folder.id === 'googledrive');
+  folders.forEach(folder => {
+    const result = isServiceId(folder.id) ? trees[folder.id] : undefined;
+    if (!result) {
+      return;
+    }
 
-    if (googleDrive) {
-      googleDrive.children = clone(googleDriveTreeCache);
+    if (result.folders.length > 0) {
+      folder.children = clone(result.folders);
     }
-  }
+    if (result.rootFiles && result.rootFiles.length > 0) {
+      folder.files = clone(result.rootFiles);
+    }
+  });
 
   return folders;
 };
 
+const buildBaseFolders = (): FolderItem[] => buildServiceFolders(serviceTreeCache ?? {});
+
 const ensureBaseFoldersCache = (): FolderItem[] => {
   if (!baseFoldersCache) {
     baseFoldersCache = buildBaseFolders();
@@ -87,18 +160,35 @@ export const createInitialFolders = (): FolderItem[] => clone(ensureBaseFoldersC
 
 export const getBaseFolders = (): FolderItem[] => ensureBaseFoldersCache();
 
-export const loadGoogleDriveTree = async (): Promise<FolderItem[]> => {
-  if (googleDriveTreeCache) {
-    return clone(googleDriveTreeCache);
+/**
+ * Loads every registered data source. A source that fails is logged and left
+ * out so the others still show up.
+ */
+export const loadServiceTrees = async (): Promise<ServiceTrees> => {
+  if (serviceTreeCache) {
+    return clone(serviceTreeCache);
   }
 
-  const module = await import('./data-sources/googleDrive');
-  const tree = module.buildGoogleDriveTree();
-
-  googleDriveTreeCache = tree;
+  const { getRegisteredDataSources } = await import('./data-sources/registry');
+  const trees: ServiceTrees = {};
+
+  await Promise.all(
+    getRegisteredDataSources().map(async adapter => {
+      try {
+        const result = await adapter.load();
+        if (result) {
+          trees[adapter.serviceId] = result;
+        }
+      } catch (error) {
+        console.error(`Failed to load ${adapter.label}`, error);
+      }
+    })
+  );
+
+  serviceTreeCache = trees;
   baseFoldersCache = buildBaseFolders();
 
-  return clone(tree);
+  return clone(trees);
 };
 
 export const SERVICE_IDS = new Set<ServiceId>(SERVICE_ORDER);
@@ -1,14 +1,24 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
 
 import {
+  FileItem,
   FolderItem,
+  ServiceId,
+  ServiceTrees,
   SuppressedFolder,
   SERVICE_ORDER,
+  buildServiceFolders,
   createInitialFolders,
   getBaseFolders,
-  loadGoogleDriveTree,
+  loadServiceTrees,
   isServiceId
 } from './data';
+import { diffDriveNodes, mergeSnapshotDiffs, type SnapshotDiff } from './data-sources/snapshotDiff';
+import { buildSnapshotTree } from './data-sources/snapshotImport';
+import { loadMapSnapshots, type MapSnapshots } from './data-sources/snapshotStore';
+import { EMPTY_FOLDER_STATE, type MapFolderState } from '@/lib/mapDocuments';
+import type { HistoryCommand } from '../../lib/hooks/useCommandHistory';
 
 const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
 
@@ -20,6 +30,12 @@ const updateChildrenSelection = (children: FolderItem[], isSelected: boolean): F
   }));
 };
 
+const stripFiles = (items: FolderItem[]): FolderItem[] =>
+  items.map(({ files: _files, ...item }) => ({
+    ...item,
+    children: item.children ? stripFiles(item.children) : undefined
+  }));
+
 const findPathToFolder = (targetId: string, items: FolderItem[], path: string[] = []): string[] | null => {
   for (const item of items) {
     const currentPath = [...path, item.id];
@@ -69,6 +85,14 @@ const updateFolderTree = (
   });
 };
 
+const getDisplayPath = (names: string[]): string => {
+  if (names.length <= 2) {
+    return names.join('/');
+  }
+  return `${names[0]}/../${names[names.length - 1]}`;
+};
+
+// Listed files can be hidden too, so the lookup also checks each folder's files.
 const findFolderWithPath = (
   items: FolderItem[],
   targetId: string,
@@ -80,16 +104,12 @@ const findFolderWithPath = (
     const newNames = [...currentNames, item.name];
 
     if (item.id === targetId) {
-      let displayPath = '';
-      if (newNames.length === 1) {
-        displayPath = newNames[0];
-      } else if (newNames.length === 2) {
-        displayPath = newNames.join('/');
-      } else {
-        displayPath = `${newNames[0]}/../${newNames[newNames.length - 1]}`;
-      }
+      return { name: item.name, path: getDisplayPath(newNames) };
+    }
 
-      return { name: item.name, path: displayPath };
+    const file = item.files?.find(entry => entry.id === targetId);
+    if (file) {
+      return { name: file.name, path: getDisplayPath([...newNames, file.name]) };
     }
 
     if (item.children) {
@@ -108,10 +128,30 @@ const removeFolderRecursive = (items: FolderItem[], folderId: string): FolderIte
     .filter(item => item.id !== folderId)
     .map(item => ({
       ...item,
+      files: item.files?.filter(file => file.id !== folderId),
       children: item.children ? removeFolderRecursive(item.children, folderId) : undefined
     }));
 };
 
+const findFileInOriginal = (
+  items: FolderItem[],
+  targetId: string
+): { file: FileItem; parentId: string } | null => {
+  for (const item of items) {
+    const file = item.files?.find(entry => entry.id === targetId);
+    if (file) {
+      return { file: clone(file), parentId: item.id };
+    }
+    if (item.children) {
+      const found = findFileInOriginal(item.children, targetId);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return null;
+};
+
 const findFolderInOriginal = (items: FolderItem[], targetId: string): FolderItem | null => {
   for (const item of items) {
     if (item.id === targetId) {
@@ -146,47 +186,165 @@ const findParentOfFolder = (
   return null;
 };
 
-export const useFolderManager = () => {
-  const [folders, setFolders] = useState<FolderItem[]>(() => createInitialFolders());
-  const [suppressedFolders, setSuppressedFolders] = useState<SuppressedFolder[]>([]);
-  const [baseFolders, setBaseFolders] = useState<FolderItem[]>(() => getBaseFolders());
+const applyFolderState = (items: FolderItem[], state: MapFolderState): FolderItem[] => {
+  const deselectedIds = new Set(state.deselectedIds);
+  const suppressedIds = new Set(state.suppressed.map(folder => folder.id));
+  const expandedIds = state.expandedIds ? new Set(state.expandedIds) : null;
 
-  useEffect(() => {
-    let cancelled = false;
+  const apply = (list: FolderItem[]): FolderItem[] =>
+    list
+      .filter(item => !suppressedIds.has(item.id))
+      .map(item => ({
+        ...item,
+        files: item.files?.filter(file => !suppressedIds.has(file.id)),
+        isSelected: !deselectedIds.has(item.id),
+        isOpen: expandedIds ? expandedIds.has(item.id) : item.isOpen,
+        children: item.children ? apply(item.children) : undefined
+      }));
 
-    loadGoogleDriveTree()
-      .then(tree => {
-        if (cancelled) {
-          return;
-        }
+  return apply(items);
+};
 
-        setFolders(prev => {
-          let shouldUpdate = false;
+const collectIds = (items: FolderItem[], matches: (item: FolderItem) => boolean, ids: string[] = []): string[] => {
+  items.forEach(item => {
+    if (matches(item)) {
+      ids.push(item.id);
+    }
+    if (item.children) {
+      collectIds(item.children, matches, ids);
+    }
+  });
+  return ids;
+};
 
-          const updated = prev.map(item => {
-            if (item.id !== 'googledrive') {
-              return item;
-            }
+const getTreeSignature = (trees: ServiceTrees, serviceId: ServiceId): string => {
+  const metadata = trees[serviceId]?.metadata;
+  return metadata ? `${metadata.source}@${metadata.loadedAt}` : 'none';
+};
 
-            if (item.children && item.children.length > 0) {
-              return item;
-            }
+/**
+ * Overlays the snapshots imported for a map on top of the loaded data
+ * sources, so each map can point at its own copy of a service.
+ */
+const applyMapSnapshots = (trees: ServiceTrees, snapshots: MapSnapshots): ServiceTrees => {
+  const merged: ServiceTrees = { ...trees };
+  Object.values(snapshots).forEach(snapshot => {
+    if (snapshot) {
+      merged[snapshot.serviceId] = buildSnapshotTree(snapshot);
+    }
+  });
 
-            shouldUpdate = true;
+  return merged;
+};
 
-            return {
-              ...item,
-              children: tree,
-            };
-          });
+/**
+ * Diffs each imported snapshot against what it replaced: the previous import
+ * for that service, or else the connected source when it is in the Drive schema.
+ */
+const diffMapSnapshots = (trees: ServiceTrees, snapshots: MapSnapshots): SnapshotDiff | null => {
+  const diffs = Object.values(snapshots).flatMap(snapshot => {
+    if (!snapshot) {
+      return [];
+    }
 
-          return shouldUpdate ? updated : prev;
-        });
+    const source = trees[snapshot.serviceId];
+    const baseline = snapshot.previous
+      ? { nodes: snapshot.previous.nodes, label: snapshot.previous.fileName }
+      : source?.nodes
+        ? { nodes: source.nodes, label: source.metadata.source }
+        : null;
+
+    return baseline
+      ? [diffDriveNodes(baseline.nodes, snapshot.nodes, { before: baseline.label, after: snapshot.fileName })]
+      : [];
+  });
+
+  return mergeSnapshotDiffs(diffs);
+};
+
+interface FolderManagerOptions {
+  mapId?: string;
+  /**
+   * The stored selection of the map `mapId`. It is applied when the map
+   * changes; edits are reported back through the returned `folderState`,
+   * tagged with `folderStateMapId` so they cannot land on the wrong map.
+   */
+  initialFolderState?: MapFolderState;
+  /**
+   * Bumping this reloads the map's stored folder state and snapshots, e.g.
+   * after a version restore or an import replaced them.
+   */
+  mapRevision?: number;
+  /** Shown on the map instead of the live selection while a saved version is previewed. */
+  previewFolderState?: MapFolderState | null;
+  onHistoryCommand?: (command: HistoryCommand) => void;
+}
+
+export const useFolderManager = ({
+  mapId,
+  initialFolderState,
+  mapRevision = 0,
+  previewFolderState,
+  onHistoryCommand
+}: FolderManagerOptions = {}) => {
+  const [folders, setFolders] = useState<FolderItem[]>(() => createInitialFolders());
+  const [suppressedFolders, setSuppressedFolders] = useState<SuppressedFolder[]>([]);
+  const [baseFolders, setBaseFolders] = useState<FolderItem[]>(() => getBaseFolders());
+  const [showFiles, setShowFiles] = useState(false);
+  const [serviceTrees, setServiceTrees] = useState<ServiceTrees | null>(null);
+  const [mapSnapshots, setMapSnapshots] = useState<{ mapId?: string; snapshots: MapSnapshots }>({ snapshots: {} });
+  const [folderStateMapId, setFolderStateMapId] = useState<string | undefined>();
+  const appliedSignaturesRef = useRef<Partial<Record<ServiceId, string>>>({});
+  const appliedMapIdRef = useRef<string | undefined>();
+  const appliedRevisionRef = useRef(mapRevision);
+  const initialFolderStateRef = useRef(initialFolderState);
+  initialFolderStateRef.current = initialFolderState;
+
+  // Layouts only see file leaves while "show files" is on.
+  const mapFolders = useMemo(() => {
+    const visibleFolders = previewFolderState ? applyFolderState(baseFolders, previewFolderState) : folders;
+    return showFiles ? visibleFolders : stripFiles(visibleFolders);
+  }, [baseFolders, folders, previewFolderState, showFiles]);
+
+  const snapshotDiff = useMemo(
+    () => (serviceTrees ? diffMapSnapshots(serviceTrees, mapSnapshots.snapshots) : null),
+    [mapSnapshots, serviceTrees]
+  );
+
+  const folderState = useMemo<MapFolderState>(
+    () => ({
+      deselectedIds: collectIds(folders, item => !item.isSelected),
+      suppressed: suppressedFolders,
+      expandedIds: collectIds(folders, item => item.isOpen)
+    }),
+    [folders, suppressedFolders]
+  );
 
-        setBaseFolders(getBaseFolders());
+  useEffect(() => {
+    setMapSnapshots({ mapId, snapshots: mapId ? loadMapSnapshots(mapId) : {} });
+  }, [mapId, mapRevision]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadServiceTrees()
+      .then(trees => {
+        if (!cancelled) {
+          setServiceTrees(trees);
+          Object.values(trees).forEach(tree => {
+            if (tree?.metadata.truncated) {
+              toast.warning(`${tree.metadata.source} is only partly shown`, {
+                description: 'The scan stopped at its item limit, so some folders and files are missing.'
+              });
+            }
+          });
+        }
       })
       .catch(error => {
-        console.error('Failed to load Google Drive tree', error);
+        console.error('Failed to load data sources', error);
+        if (!cancelled) {
+          setServiceTrees({});
+        }
       });
 
     return () => {
@@ -194,6 +352,62 @@ export const useFolderManager = () => {
     };
   }, []);
 
+  // Switching maps rebuilds the tree from that map's stored state. Otherwise
+  // only service roots whose source changed (a new snapshot) are replaced, so
+  // the selection and open folders elsewhere survive.
+  useEffect(() => {
+    if (!serviceTrees || mapSnapshots.mapId !== mapId) {
+      return;
+    }
+
+    const trees = applyMapSnapshots(serviceTrees, mapSnapshots.snapshots);
+
+    if (appliedMapIdRef.current !== mapId || appliedRevisionRef.current !== mapRevision) {
+      const state = initialFolderStateRef.current ?? EMPTY_FOLDER_STATE;
+      const nextBaseFolders = buildServiceFolders(trees);
+
+      appliedMapIdRef.current = mapId;
+      appliedRevisionRef.current = mapRevision;
+      SERVICE_ORDER.forEach(serviceId => {
+        appliedSignaturesRef.current[serviceId] = getTreeSignature(trees, serviceId);
+      });
+
+      setBaseFolders(nextBaseFolders);
+      setFolders(applyFolderState(nextBaseFolders, state));
+      setSuppressedFolders(state.suppressed);
+      setFolderStateMapId(mapId);
+      return;
+    }
+
+    const changedServices = SERVICE_ORDER.filter(
+      serviceId => getTreeSignature(trees, serviceId) !== appliedSignaturesRef.current[serviceId]
+    );
+    if (changedServices.length === 0) {
+      return;
+    }
+
+    changedServices.forEach(serviceId => {
+      appliedSignaturesRef.current[serviceId] = getTreeSignature(trees, serviceId);
+    });
+
+    const nextBaseFolders = buildServiceFolders(trees);
+    setBaseFolders(nextBaseFolders);
+    setFolders(prev =>
+      prev.map(item => {
+        if (!isServiceId(item.id) || !changedServices.includes(item.id)) {
+          return item;
+        }
+
+        const base = nextBaseFolders.find(folder => folder.id === item.id);
+        return {
+          ...item,
+          children: base?.children,
+          files: base?.files
+        };
+      })
+    );
+  }, [mapId, mapRevision, mapSnapshots, serviceTrees]);
+
   const toggleFolder = useCallback((folderId: string) => {
     const toggleRecursive = (items: FolderItem[]): FolderItem[] => {
       return items.map(item => {
@@ -261,7 +475,7 @@ export const useFolderManager = () => {
     });
   }, []);
 
-  const suppressFolder = useCallback((folderId: string) => {
+  const applySuppressFolder = useCallback((folderId: string) => {
     setFolders(prev => {
       const folderInfo = findFolderWithPath(prev, folderId);
       if (!folderInfo) {
@@ -281,10 +495,24 @@ export const useFolderManager = () => {
     });
   }, []);
 
-  const restoreFolder = useCallback((folderId: string) => {
+  const applyRestoreFolder = useCallback((folderId: string) => {
     setSuppressedFolders(prev => prev.filter(folder => folder.id !== folderId));
     const folderToRestore = findFolderInOriginal(baseFolders, folderId);
     if (!folderToRestore) {
+      const fileToRestore = findFileInOriginal(baseFolders, folderId);
+      if (!fileToRestore) {
+        return;
+      }
+
+      const addFileToParent = (items: FolderItem[]): FolderItem[] =>
+        items.map(item => {
+          if (item.id === fileToRestore.parentId) {
+            return { ...item, files: [...(item.files ?? []), fileToRestore.file] };
+          }
+          return item.children ? { ...item, children: addFileToParent(item.children) } : item;
+        });
+
+      setFolders(prev => addFileToParent(prev));
       return;
     }
 
@@ -323,14 +551,61 @@ export const useFolderManager = () => {
     });
   }, [baseFolders]);
 
-  const restoreAllFolders = useCallback(() => {
-    suppressedFolders.forEach(folder => {
-      restoreFolder(folder.id);
+  const toggleShowFiles = useCallback(() => {
+    setShowFiles(previous => !previous);
+  }, []);
+
+  const reloadSnapshots = useCallback(() => {
+    setMapSnapshots({ mapId, snapshots: mapId ? loadMapSnapshots(mapId) : {} });
+  }, [mapId]);
+
+  // Restoring reads the current base tree, so history replays go through the
+  // latest callbacks rather than the ones captured when the command was made.
+  const folderActionsRef = useRef({ suppress: applySuppressFolder, restore: applyRestoreFolder });
+  folderActionsRef.current = { suppress: applySuppressFolder, restore: applyRestoreFolder };
+
+  const recordFolderCommand = useCallback((label: string, suppressIds: string[], restoreIds: string[]) => {
+    onHistoryCommand?.({
+      label,
+      undo: () => {
+        restoreIds.forEach(id => folderActionsRef.current.suppress(id));
+        suppressIds.forEach(id => folderActionsRef.current.restore(id));
+      },
+      redo: () => {
+        suppressIds.forEach(id => folderActionsRef.current.suppress(id));
+        restoreIds.forEach(id => folderActionsRef.current.restore(id));
+      }
     });
-  }, [restoreFolder, suppressedFolders]);
+  }, [onHistoryCommand]);
+
+  const suppressFolder = useCallback((folderId: string) => {
+    applySuppressFolder(folderId);
+    recordFolderCommand('Hide folder', [folderId], []);
+  }, [applySuppressFolder, recordFolderCommand]);
+
+  const restoreFolder = useCallback((folderId: string) => {
+    applyRestoreFolder(folderId);
+    recordFolderCommand('Restore folder', [], [folderId]);
+  }, [applyRestoreFolder, recordFolderCommand]);
+
+  const restoreAllFolders = useCallback(() => {
+    const folderIds = suppressedFolders.map(folder => folder.id);
+    if (folderIds.length === 0) {
+      return;
+    }
+
+    folderIds.forEach(applyRestoreFolder);
+    recordFolderCommand('Restore all folders', [], folderIds);
+  }, [applyRestoreFolder, recordFolderCommand, suppressedFolders]);
 
   return {
     folders,
+    baseFolders,
+    mapFolders,
+    snapshotDiff,
+    folderState,
+    folderStateMapId,
+    showFiles,
     suppressedFolders,
     toggleFolder,
     toggleFolderSelection,
@@ -339,6 +614,8 @@ export const useFolderManager = () => {
     hideEverything,
     suppressFolder,
     restoreFolder,
-    restoreAllFolders
+    restoreAllFolders,
+    toggleShowFiles,
+    reloadSnapshots
   };
 };
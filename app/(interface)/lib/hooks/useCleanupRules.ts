@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { DEFAULT_CLEANUP_RULES, normalizeCleanupRule, type CleanupRule } from '@/lib/mapData';
+
+const STORAGE_KEY = 'cleanup-rules';
+
+const getStorage = (): Storage | null =>
+  typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+
+const loadCleanupRules = (): CleanupRule[] => {
+  const raw = getStorage()?.getItem(STORAGE_KEY);
+  if (!raw) {
+    return DEFAULT_CLEANUP_RULES;
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return DEFAULT_CLEANUP_RULES;
+    }
+    return parsed.map(normalizeCleanupRule).filter((rule): rule is CleanupRule => rule !== null);
+  } catch (error) {
+    console.error('Failed to read cleanup rules', error);
+    return DEFAULT_CLEANUP_RULES;
+  }
+};
+
+/** Cleanup rules as edited by the user, kept across sessions. */
+export const useCleanupRules = () => {
+  const [rules, setRules] = useState<CleanupRule[]>(DEFAULT_CLEANUP_RULES);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Storage is only read after mounting so the server render matches the first client one.
+  useEffect(() => {
+    setRules(loadCleanupRules());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) {
+      return;
+    }
+
+    try {
+      getStorage()?.setItem(STORAGE_KEY, JSON.stringify(rules));
+    } catch (error) {
+      console.error('Failed to save cleanup rules', error);
+    }
+  }, [isLoaded, rules]);
+
+  const updateRule = useCallback((ruleId: string, changes: Partial<Omit<CleanupRule, 'id'>>) => {
+    setRules(previous => previous.map(rule => (rule.id === ruleId ? { ...rule, ...changes } : rule)));
+  }, []);
+
+  const resetRules = useCallback(() => {
+    setRules(DEFAULT_CLEANUP_RULES);
+  }, []);
+
+  return { rules, updateRule, resetRules };
+};
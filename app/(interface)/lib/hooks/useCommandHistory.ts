@@ -0,0 +1,114 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+export interface HistoryCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  /**
+   * Consecutive commands sharing a key merge into one entry that undoes to
+   * the state before the first and redoes to the state after the last, e.g.
+   * every frame of a single drag.
+   */
+  coalesceKey?: string;
+}
+
+export const DEFAULT_HISTORY_DEPTH = 100;
+
+interface HistoryStatus {
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+const EMPTY_STATUS: HistoryStatus = { undoLabel: null, redoLabel: null };
+
+export const useCommandHistory = (depth = DEFAULT_HISTORY_DEPTH) => {
+  const undoStackRef = useRef<HistoryCommand[]>([]);
+  const redoStackRef = useRef<HistoryCommand[]>([]);
+  // Only the entry pushed last may absorb the next command; after an undo
+  // the top of the stack is an older entry and must stay intact.
+  const lastPushedRef = useRef<HistoryCommand | null>(null);
+  const isApplyingRef = useRef(false);
+  const [status, setStatus] = useState<HistoryStatus>(EMPTY_STATUS);
+
+  const syncStatus = useCallback(() => {
+    const undoStack = undoStackRef.current;
+    const redoStack = redoStackRef.current;
+    const next: HistoryStatus = {
+      undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+      redoLabel: redoStack[redoStack.length - 1]?.label ?? null
+    };
+
+    setStatus(prev =>
+      prev.undoLabel === next.undoLabel && prev.redoLabel === next.redoLabel ? prev : next
+    );
+  }, []);
+
+  const push = useCallback((command: HistoryCommand) => {
+    // Undoing replays state through the same setters that record commands.
+    if (isApplyingRef.current) {
+      return;
+    }
+
+    const undoStack = undoStackRef.current;
+    const top = undoStack[undoStack.length - 1];
+    redoStackRef.current = [];
+
+    if (command.coalesceKey && top && top === lastPushedRef.current && top.coalesceKey === command.coalesceKey) {
+      const merged: HistoryCommand = { ...command, undo: top.undo };
+      undoStack[undoStack.length - 1] = merged;
+      lastPushedRef.current = merged;
+    } else {
+      undoStack.push(command);
+      lastPushedRef.current = command;
+      if (undoStack.length > depth) {
+        undoStack.splice(0, undoStack.length - depth);
+      }
+    }
+
+    syncStatus();
+  }, [depth, syncStatus]);
+
+  const replay = useCallback((from: HistoryCommand[], to: HistoryCommand[], action: 'undo' | 'redo') => {
+    const command = from.pop();
+    if (!command) {
+      return;
+    }
+
+    isApplyingRef.current = true;
+    try {
+      command[action]();
+    } finally {
+      isApplyingRef.current = false;
+    }
+
+    to.push(command);
+    lastPushedRef.current = null;
+    syncStatus();
+  }, [syncStatus]);
+
+  const undo = useCallback(() => {
+    replay(undoStackRef.current, redoStackRef.current, 'undo');
+  }, [replay]);
+
+  const redo = useCallback(() => {
+    replay(redoStackRef.current, undoStackRef.current, 'redo');
+  }, [replay]);
+
+  const clear = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    lastPushedRef.current = null;
+    syncStatus();
+  }, [syncStatus]);
+
+  return useMemo(() => ({
+    push,
+    undo,
+    redo,
+    clear,
+    canUndo: status.undoLabel !== null,
+    canRedo: status.redoLabel !== null,
+    undoLabel: status.undoLabel,
+    redoLabel: status.redoLabel
+  }), [clear, push, redo, status, undo]);
+};
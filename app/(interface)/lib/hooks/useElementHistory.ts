@@ -0,0 +1,56 @@
+import { useCallback, useRef } from 'react';
+
+import type { HistoryCommand } from './useCommandHistory';
+
+// Reinserts at the original index so undoing a delete keeps the stacking order.
+const replaceElement = <T extends { id: string }>(items: T[], id: string, element: T | null, index: number): T[] => {
+  if (!element) {
+    return items.filter(item => item.id !== id);
+  }
+  if (items.some(item => item.id === id)) {
+    return items.map(item => (item.id === id ? element : item));
+  }
+
+  const next = [...items];
+  next.splice(index < 0 ? next.length : Math.min(index, next.length), 0, element);
+  return next;
+};
+
+/**
+ * Records each change to one element of a list as a history command holding
+ * the element before and after. A create starts from `null` and a delete
+ * ends at `null`.
+ */
+export const useElementHistory = <T extends { id: string }>(
+  items: T[],
+  setItems: (items: T[]) => void,
+  push: (command: HistoryCommand) => void,
+  getCoalesceKey: () => string | undefined
+) => {
+  // A resize reports position and size in the same event, before React has
+  // re-rendered, so the latest list is tracked here rather than read from props.
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  const apply = useCallback((id: string, element: T | null, index: number) => {
+    itemsRef.current = replaceElement(itemsRef.current, id, element, index);
+    setItems(itemsRef.current);
+  }, [setItems]);
+
+  return useCallback((id: string, update: (element: T | null) => T | null, label: string) => {
+    const index = itemsRef.current.findIndex(item => item.id === id);
+    const before = index >= 0 ? itemsRef.current[index] : null;
+    const after = update(before);
+    if (after === before) {
+      return;
+    }
+
+    apply(id, after, index);
+    push({
+      label,
+      coalesceKey: getCoalesceKey(),
+      undo: () => apply(id, before, index),
+      redo: () => apply(id, after, index)
+    });
+  }, [apply, getCoalesceKey, push]);
+};
@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import {
+  DEFAULT_MAP_NAMES,
+  createMapDocument,
+  getMapDocumentStore,
+  getStoredCurrentMapId,
+  getUntitledMapName,
+  storeCurrentMapId,
+  type MapDocument,
+  type MapDocumentContent,
+  type MapDocumentStore
+} from '@/lib/mapDocuments';
+
+// Edits arrive on every drag frame; writes are batched per document.
+const SAVE_DELAY = 400;
+
+// Viewport and folder state are rebuilt as new objects even when nothing
+// moved, so they are compared by value to avoid needless writes.
+const VALUE_COMPARED_FIELDS = new Set<keyof MapDocumentContent>(['viewport', 'folderState']);
+
+const isUnchanged = (document: MapDocument, content: Partial<MapDocumentContent>) =>
+  (Object.keys(content) as Array<keyof MapDocumentContent>).every(key =>
+    document[key] === content[key] ||
+    (VALUE_COMPARED_FIELDS.has(key) && JSON.stringify(document[key]) === JSON.stringify(content[key]))
+  );
+
+export const useMapDocuments = () => {
+  const [documents, setDocuments] = useState<MapDocument[]>([]);
+  const [currentMapId, setCurrentMapId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const storeRef = useRef<MapDocumentStore | null>(null);
+  const pendingRef = useRef(new Map<string, MapDocument>());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flush = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    const store = storeRef.current;
+    if (!store) {
+      return;
+    }
+
+    const pending = Array.from(pendingRef.current.values());
+    pendingRef.current.clear();
+    pending.forEach(document => {
+      store.put(document).catch(error => console.error(`Failed to save map "${document.name}"`, error));
+    });
+  }, []);
+
+  const scheduleSave = useCallback((document: MapDocument) => {
+    pendingRef.current.set(document.id, document);
+    if (!timerRef.current) {
+      timerRef.current = setTimeout(flush, SAVE_DELAY);
+    }
+  }, [flush]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const store = await getMapDocumentStore();
+      let stored = await store.list();
+
+      if (stored.length === 0) {
+        stored = DEFAULT_MAP_NAMES.map(name => createMapDocument(name));
+        await Promise.all(stored.map(document => store.put(document)));
+      }
+
+      if (cancelled) {
+        return;
+      }
+
+      stored.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      storeRef.current = store;
+
+      const storedId = getStoredCurrentMapId();
+      setDocuments(stored);
+      setCurrentMapId(stored.some(document => document.id === storedId) ? storedId : stored[0].id);
+      setIsLoaded(true);
+    };
+
+    load().catch(error => {
+      console.error('Failed to load maps', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Pending writes would be lost with the page, so they go out immediately.
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+
+  const currentDocument = useMemo(
+    () => documents.find(document => document.id === currentMapId) ?? null,
+    [currentMapId, documents]
+  );
+
+  const updateDocument = useCallback((id: string, content: Partial<MapDocumentContent>) => {
+    setDocuments(prev => {
+      const document = prev.find(item => item.id === id);
+      if (!document || isUnchanged(document, content)) {
+        return prev;
+      }
+
+      const next = { ...document, ...content, updatedAt: new Date().toISOString() };
+      scheduleSave(next);
+      return prev.map(item => (item.id === id ? next : item));
+    });
+  }, [scheduleSave]);
+
+  const selectDocument = useCallback((id: string) => {
+    flush();
+    setCurrentMapId(id);
+    storeCurrentMapId(id);
+  }, [flush]);
+
+  const createDocument = useCallback((name?: string, content?: Partial<MapDocumentContent>) => {
+    const document = createMapDocument(
+      name?.trim() || getUntitledMapName(documents.map(item => item.name)),
+      content
+    );
+
+    setDocuments(prev => [...prev, document]);
+    scheduleSave(document);
+    selectDocument(document.id);
+
+    return document;
+  }, [documents, scheduleSave, selectDocument]);
+
+  const renameDocument = useCallback((id: string, name: string) => {
+    updateDocument(id, { name });
+  }, [updateDocument]);
+
+  return {
+    documents,
+    currentDocument,
+    currentMapId,
+    isLoaded,
+    createDocument,
+    selectDocument,
+    renameDocument,
+    updateDocument
+  };
+};
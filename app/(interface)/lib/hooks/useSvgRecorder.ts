@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { toast } from 'sonner';
+
+import { captureSvgFrame, encodeSvgAnimation, type SvgFrame } from '../mapExport/svgAnimation';
+
+const FRAME_MS = 100;
+const MAX_RECORDING_MS = 15000;
+const MAX_GIF_WIDTH = 720;
+
+export type SvgRecorderStatus = 'idle' | 'recording' | 'encoding';
+
+/** What a recording shows: a region in the SVG's user units and its on-screen size in pixels. */
+export interface SvgCaptureArea {
+  viewBox: [number, number, number, number];
+  width: number;
+  height: number;
+}
+
+/**
+ * Records a live SVG as an animated GIF: frames are captured on a timer while
+ * recording and encoded once it stops, either by `stop` or after
+ * MAX_RECORDING_MS. Stretches where nothing moves collapse into one frame.
+ * `getCaptureArea` picks the region once, when recording starts; without it
+ * the SVG's own box is recorded.
+ */
+export const useSvgRecorder = (
+  svgRef: RefObject<SVGSVGElement | null>,
+  onComplete: (gif: Blob) => void,
+  getCaptureArea?: () => SvgCaptureArea
+) => {
+  const [status, setStatus] = useState<SvgRecorderStatus>('idle');
+  const framesRef = useRef<SvgFrame[]>([]);
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stop = useCallback(async () => {
+    if (!timerRef.current) return;
+    clearInterval(timerRef.current);
+    timerRef.current = null;
+
+    const frames = framesRef.current;
+    framesRef.current = [];
+    setStatus('encoding');
+    try {
+      const gif = await encodeSvgAnimation(frames, {
+        ...sizeRef.current,
+        background: getComputedStyle(document.body).backgroundColor
+      });
+      onComplete(gif);
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to record the map', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setStatus('idle');
+    }
+  }, [onComplete]);
+
+  const stopRef = useRef(stop);
+  stopRef.current = stop;
+
+  const start = useCallback(() => {
+    const svg = svgRef.current;
+    if (!svg || timerRef.current) return;
+
+    const area = getCaptureArea?.();
+    const areaWidth = area?.width ?? svg.width.baseVal.value;
+    const areaHeight = area?.height ?? svg.height.baseVal.value;
+    const width = Math.round(Math.min(areaWidth, MAX_GIF_WIDTH));
+    const height = Math.round((areaHeight * width) / areaWidth);
+    const viewBox = area?.viewBox.join(' ');
+    sizeRef.current = { width, height };
+    framesRef.current = [];
+    const startedAt = Date.now();
+
+    const capture = () => {
+      if (!svgRef.current) return;
+      const markup = captureSvgFrame(svgRef.current, width, height, clone => {
+        if (viewBox) clone.setAttribute('viewBox', viewBox);
+      });
+      framesRef.current.push({ markup, delayMs: FRAME_MS });
+      if (Date.now() - startedAt >= MAX_RECORDING_MS) {
+        void stopRef.current();
+      }
+    };
+
+    capture();
+    timerRef.current = setInterval(capture, FRAME_MS);
+    setStatus('recording');
+  }, [getCaptureArea, svgRef]);
+
+  useEffect(() => () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+  }, []);
+
+  return { status, start, stop };
+};
@@ -0,0 +1,275 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type RefObject
+} from 'react';
+
+import { DEFAULT_MAP_VIEWPORT, type MapViewport } from '@/lib/mapDocuments';
+
+// Low enough to fit a fully expanded orbital map on screen
+export const ZOOM_MIN = 5;
+export const ZOOM_MAX = 300;
+const ZOOM_BUTTON_FACTOR = 1.25;
+const ZOOM_WHEEL_FACTOR = 1.1;
+const FIT_PADDING = 48;
+// Fitting never enlarges past 100%, so small maps keep their natural size
+const FIT_ZOOM_MAX = 100;
+// On-screen size, in pixels, a node is zoomed to by `zoomToNode`
+const NODE_ZOOM_SIZE = 160;
+// `focus` zooms in on nodes drawn smaller than this, in pixels
+const FOCUS_MIN_SIZE = 24;
+
+/** A rectangle in map content coordinates, i.e. before the viewport zoom. */
+export interface ViewportRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Lets a layout that draws off the DOM, e.g. on a canvas, tell the camera
+ * where its content and nodes are. Without one, the camera measures the
+ * `data-node-id` elements in the map content.
+ */
+export interface ViewportTarget {
+  getBounds: () => ViewportRect | null;
+  getNodeBounds: (nodeId: string) => ViewportRect | null;
+}
+
+interface ViewportOptions {
+  /** Screen space the map area keeps clear on each side, e.g. under sidebars. */
+  insetLeft?: number;
+  insetRight?: number;
+}
+
+const clampZoom = (zoom: number) => Math.min(Math.max(zoom, ZOOM_MIN), ZOOM_MAX);
+
+export const unionRects = (rects: ViewportRect[]): ViewportRect | null => {
+  if (rects.length === 0) return null;
+
+  let left = Infinity;
+  let top = Infinity;
+  let right = -Infinity;
+  let bottom = -Infinity;
+  rects.forEach(rect => {
+    left = Math.min(left, rect.x);
+    top = Math.min(top, rect.y);
+    right = Math.max(right, rect.x + rect.width);
+    bottom = Math.max(bottom, rect.y + rect.height);
+  });
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * The map camera: pan and zoom for every layout and the annotation canvas,
+ * applied by the map area as one CSS transform. `viewport.x`/`y` is where the
+ * content origin sits on screen, relative to the map area, and `zoom` is a
+ * percentage. Wheel zoom toward the cursor is handled here; layouts register
+ * a `ViewportTarget` through `useViewportTarget` when fitting needs their help.
+ */
+export const useViewport = (
+  areaRef: RefObject<HTMLElement>,
+  contentRef: RefObject<HTMLElement>,
+  { insetLeft = 0, insetRight = 0 }: ViewportOptions = {}
+) => {
+  const [viewport, setViewport] = useState<MapViewport>(DEFAULT_MAP_VIEWPORT);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const viewportRef = useRef(viewport);
+  const targetRef = useRef<ViewportTarget | null>(null);
+  viewportRef.current = viewport;
+
+  const getAreaSize = useCallback(() => {
+    const area = areaRef.current;
+    if (!area) return { width: 0, height: 0 };
+    return { width: area.clientWidth - insetLeft - insetRight, height: area.clientHeight };
+  }, [areaRef, insetLeft, insetRight]);
+
+  useEffect(() => {
+    const area = areaRef.current;
+    if (!area) return;
+
+    const observer = new ResizeObserver(() => setSize(getAreaSize()));
+    observer.observe(area);
+    return () => observer.disconnect();
+  }, [areaRef, getAreaSize]);
+
+  // A client point relative to the map area, in screen pixels
+  const toAreaPoint = useCallback((clientX: number, clientY: number) => {
+    const rect = areaRef.current?.getBoundingClientRect();
+    return { x: clientX - (rect?.left ?? 0) - insetLeft, y: clientY - (rect?.top ?? 0) };
+  }, [areaRef, insetLeft]);
+
+  /** Converts a client point to map content coordinates. */
+  const toMapPoint = useCallback((clientX: number, clientY: number) => {
+    if (!areaRef.current) return null;
+    const point = toAreaPoint(clientX, clientY);
+    const { x, y, zoom } = viewportRef.current;
+    return { x: (point.x - x) / (zoom / 100), y: (point.y - y) / (zoom / 100) };
+  }, [areaRef, toAreaPoint]);
+
+  /** Scales the zoom by `factor`, keeping `anchor` (area pixels, default the center) in place. */
+  const zoomBy = useCallback((factor: number, anchor?: { x: number; y: number }) => {
+    const { width, height } = getAreaSize();
+    const point = anchor ?? { x: width / 2, y: height / 2 };
+
+    setViewport(previous => {
+      const zoom = clampZoom(previous.zoom * factor);
+      if (zoom === previous.zoom) return previous;
+
+      const ratio = zoom / previous.zoom;
+      return {
+        x: point.x - (point.x - previous.x) * ratio,
+        y: point.y - (point.y - previous.y) * ratio,
+        zoom
+      };
+    });
+  }, [getAreaSize]);
+
+  const zoomIn = useCallback(() => zoomBy(ZOOM_BUTTON_FACTOR), [zoomBy]);
+  const zoomOut = useCallback(() => zoomBy(1 / ZOOM_BUTTON_FACTOR), [zoomBy]);
+  const reset = useCallback(() => setViewport(DEFAULT_MAP_VIEWPORT), []);
+
+  useEffect(() => {
+    const area = areaRef.current;
+    if (!area) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoomBy(event.deltaY < 0 ? ZOOM_WHEEL_FACTOR : 1 / ZOOM_WHEEL_FACTOR, toAreaPoint(event.clientX, event.clientY));
+    };
+
+    area.addEventListener('wheel', handleWheel, { passive: false });
+    return () => area.removeEventListener('wheel', handleWheel);
+  }, [areaRef, toAreaPoint, zoomBy]);
+
+  const registerTarget = useCallback((target: ViewportTarget) => {
+    targetRef.current = target;
+    return () => {
+      if (targetRef.current === target) targetRef.current = null;
+    };
+  }, []);
+
+  // Screen rects of elements inside the map content, in content coordinates
+  const measureElements = useCallback((elements: Element[]) => {
+    const content = contentRef.current;
+    if (!content) return null;
+
+    const scale = viewportRef.current.zoom / 100;
+    const origin = content.getBoundingClientRect();
+    return unionRects(elements.map(element => {
+      const rect = element.getBoundingClientRect();
+      return {
+        x: (rect.left - origin.left) / scale,
+        y: (rect.top - origin.top) / scale,
+        width: rect.width / scale,
+        height: rect.height / scale
+      };
+    }));
+  }, [contentRef]);
+
+  /** Where a node is drawn, or null when the current layout doesn't show it. */
+  const getNodeBounds = useCallback((nodeId: string): ViewportRect | null => {
+    if (targetRef.current) return targetRef.current.getNodeBounds(nodeId);
+
+    const element = contentRef.current?.querySelector(`[data-node-id="${CSS.escape(nodeId)}"]`);
+    return element ? measureElements([element]) : null;
+  }, [contentRef, measureElements]);
+
+  const getContentBounds = useCallback((): ViewportRect | null => {
+    if (targetRef.current) return targetRef.current.getBounds();
+
+    const content = contentRef.current;
+    if (!content) return null;
+    const nodes = Array.from(content.querySelectorAll('[data-node-id]'));
+    return measureElements(nodes.length > 0 ? nodes : Array.from(content.children));
+  }, [contentRef, measureElements]);
+
+  // Centers `rect` on screen at the given zoom
+  const centerOn = useCallback((rect: ViewportRect, zoom: number) => {
+    const { width, height } = getAreaSize();
+    const scale = zoom / 100;
+    setViewport({
+      x: width / 2 - (rect.x + rect.width / 2) * scale,
+      y: height / 2 - (rect.y + rect.height / 2) * scale,
+      zoom
+    });
+  }, [getAreaSize]);
+
+  /** Zooms and pans so the whole map fits on screen. */
+  const zoomToFit = useCallback(() => {
+    const bounds = getContentBounds();
+    const { width, height } = getAreaSize();
+    if (!bounds || width <= 0 || height <= 0) {
+      reset();
+      return;
+    }
+
+    const fit = Math.min(
+      (width - FIT_PADDING * 2) / Math.max(bounds.width, 1),
+      (height - FIT_PADDING * 2) / Math.max(bounds.height, 1)
+    );
+    centerOn(bounds, clampZoom(Math.min(fit * 100, FIT_ZOOM_MAX)));
+  }, [centerOn, getAreaSize, getContentBounds, reset]);
+
+  /** Centers a node and zooms until it's comfortably large. Returns its bounds. */
+  const zoomToNode = useCallback((nodeId: string): ViewportRect | null => {
+    const bounds = getNodeBounds(nodeId);
+    if (!bounds) return null;
+
+    const extent = Math.max(bounds.width, bounds.height, 1);
+    centerOn(bounds, clampZoom((NODE_ZOOM_SIZE / extent) * 100));
+    return bounds;
+  }, [centerOn, getNodeBounds]);
+
+  /**
+   * Brings a node to the middle of the screen, keeping the zoom unless the
+   * node would be too small to pick out. Returns its bounds, or null when
+   * the current layout doesn't show it.
+   */
+  const focus = useCallback((nodeId: string): ViewportRect | null => {
+    const bounds = getNodeBounds(nodeId);
+    if (!bounds) return null;
+
+    const { zoom } = viewportRef.current;
+    if (Math.max(bounds.width, bounds.height) * (zoom / 100) < FOCUS_MIN_SIZE) {
+      return zoomToNode(nodeId);
+    }
+    centerOn(bounds, zoom);
+    return bounds;
+  }, [centerOn, getNodeBounds, zoomToNode]);
+
+  return useMemo(() => ({
+    viewport,
+    size,
+    setViewport,
+    toMapPoint,
+    zoomBy,
+    zoomIn,
+    zoomOut,
+    reset,
+    zoomToFit,
+    zoomToNode,
+    focus,
+    registerTarget
+  }), [focus, registerTarget, reset, size, toMapPoint, viewport, zoomBy, zoomIn, zoomOut, zoomToFit, zoomToNode]);
+};
+
+export type ViewportCamera = ReturnType<typeof useViewport>;
+
+export const ViewportContext = createContext<ViewportCamera | null>(null);
+
+/** The map camera, or null outside the map area, e.g. in an image export. */
+export const useViewportCamera = () => useContext(ViewportContext);
+
+/** Registers a layout's `ViewportTarget` with the camera while it's mounted. */
+export const useViewportTarget = (target: ViewportTarget) => {
+  const registerTarget = useViewportCamera()?.registerTarget;
+
+  useEffect(() => registerTarget?.(target), [registerTarget, target]);
+};
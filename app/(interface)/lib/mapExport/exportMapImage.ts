@@ -0,0 +1,97 @@
+import { createImagePdf, type PdfImagePage } from './pdfWriter';
+import { canvasToBlob, createCanvas, loadSvgImage, setPngResolution } from './raster';
+import { renderMapSvg, type MapSvgOptions } from './renderMapSvg';
+
+export type MapImageFormat = 'svg' | 'png' | 'pdf';
+
+export const MAP_IMAGE_FORMATS: Array<{ id: MapImageFormat; label: string }> = [
+  { id: 'svg', label: 'SVG' },
+  { id: 'png', label: 'PNG' },
+  { id: 'pdf', label: 'PDF' },
+];
+
+export const MAP_EXPORT_SCALES = [1, 2, 3, 4];
+
+export interface MapImageExportOptions extends MapSvgOptions {
+  format: MapImageFormat;
+}
+
+// A4 landscape. Maps larger than one page are tiled across several, printed
+// at their on-screen size (one CSS pixel is 0.75pt).
+const PDF_PAGE = { width: 842, height: 595 };
+const PDF_MARGIN = 24;
+const POINTS_PER_PIXEL = 0.75;
+const PDF_JPEG_QUALITY = 0.92;
+
+const renderPdf = async (markup: string, width: number, height: number, scale: number) => {
+  const image = await loadSvgImage(markup);
+  const tileWidth = Math.floor((PDF_PAGE.width - PDF_MARGIN * 2) / POINTS_PER_PIXEL);
+  const tileHeight = Math.floor((PDF_PAGE.height - PDF_MARGIN * 2) / POINTS_PER_PIXEL);
+  const pages: PdfImagePage[] = [];
+
+  for (let top = 0; top < height; top += tileHeight) {
+    for (let left = 0; left < width; left += tileWidth) {
+      const sourceWidth = Math.min(tileWidth, width - left);
+      const sourceHeight = Math.min(tileHeight, height - top);
+      const pixelWidth = Math.round(sourceWidth * scale);
+      const pixelHeight = Math.round(sourceHeight * scale);
+
+      // JPEG has no alpha, so pages are always printed on white.
+      const { canvas, context } = createCanvas(pixelWidth, pixelHeight);
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, pixelWidth, pixelHeight);
+      context.drawImage(
+        image,
+        left * scale,
+        top * scale,
+        pixelWidth,
+        pixelHeight,
+        0,
+        0,
+        pixelWidth,
+        pixelHeight,
+      );
+
+      const jpeg = await canvasToBlob(canvas, 'image/jpeg', PDF_JPEG_QUALITY);
+      pages.push({
+        ...PDF_PAGE,
+        image: {
+          jpeg: new Uint8Array(await jpeg.arrayBuffer()),
+          pixelWidth,
+          pixelHeight,
+          x: PDF_MARGIN,
+          y: PDF_MARGIN,
+          width: sourceWidth * POINTS_PER_PIXEL,
+          height: sourceHeight * POINTS_PER_PIXEL,
+        },
+      });
+    }
+  }
+
+  return createImagePdf(pages);
+};
+
+/**
+ * Renders the map content (the unzoomed layer holding the current layout)
+ * as a downloadable SVG, PNG or PDF. The on-screen zoom and pan do not
+ * affect the output; the whole map is exported, or just the selection.
+ */
+export const exportMapImage = async (content: HTMLElement, options: MapImageExportOptions): Promise<Blob> => {
+  const { format, scale } = options;
+  // The SVG comes out at the export size, so rasterizing it keeps text and edges sharp.
+  const { markup, width, height } = await renderMapSvg(content, options);
+
+  if (format === 'svg') {
+    return new Blob([markup], { type: 'image/svg+xml' });
+  }
+  if (format === 'pdf') {
+    return renderPdf(markup, width, height, scale);
+  }
+
+  const { canvas, context } = createCanvas(Math.round(width * scale), Math.round(height * scale));
+  context.drawImage(await loadSvgImage(markup), 0, 0, canvas.width, canvas.height);
+  return setPngResolution(await canvasToBlob(canvas, 'image/png'), scale);
+};
+
+export const getMapImageFileName = (mapName: string, format: MapImageFormat): string =>
+  `${mapName.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'map'}.${format}`;
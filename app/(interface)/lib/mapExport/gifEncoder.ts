@@ -0,0 +1,183 @@
+import { quantizeFrame } from './quantize';
+
+const MAX_CODE_SIZE = 12;
+const MAX_SUB_BLOCK = 255;
+
+// Disposal methods from the GIF89a Graphic Control Extension.
+const DISPOSE_NONE = 1;
+const DISPOSE_TO_BACKGROUND = 2;
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  /** How many times to repeat; 0 loops forever. */
+  loop?: number;
+}
+
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  length = 0;
+
+  byte(value: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length] = value;
+    this.length += 1;
+  }
+
+  word(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  text(value: string) {
+    for (let index = 0; index < value.length; index += 1) {
+      this.byte(value.charCodeAt(index));
+    }
+  }
+
+  toArray() {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * GIF's LZW: variable-width codes packed least significant bit first, with
+ * the table reset by a clear code once it reaches 4096 entries.
+ */
+const writeLzw = (writer: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+  let table = new Map<number, number>();
+
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    writer.byte(block.length);
+    block.forEach(value => writer.byte(value));
+    block.length = 0;
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      if (block.length === MAX_SUB_BLOCK) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  writer.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let index = 1; index < indices.length; index += 1) {
+    const value = indices[index];
+    const key = (prefix << 8) | value;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === 1 << MAX_CODE_SIZE) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      table.set(key, nextCode);
+      // The decoder widens its codes one entry later than the encoder adds them.
+      if (nextCode === 1 << codeSize) codeSize += 1;
+      nextCode += 1;
+    }
+    prefix = value;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff);
+    if (block.length === MAX_SUB_BLOCK) flushBlock();
+  }
+  if (block.length > 0) flushBlock();
+  writer.byte(0);
+};
+
+/**
+ * Builds an animated GIF frame by frame. Each frame gets its own palette
+ * (median cut, up to 256 colors), so colors stay accurate when a frame
+ * introduces new ones.
+ */
+export const createGifEncoder = ({ width, height, loop = 0 }: GifEncoderOptions) => {
+  const writer = new ByteWriter();
+
+  writer.text('GIF89a');
+  writer.word(width);
+  writer.word(height);
+  writer.byte(0x70); // no global color table, 8-bit color resolution
+  writer.byte(0); // background color index
+  writer.byte(0); // square pixels
+
+  // The NETSCAPE2.0 extension is what makes viewers repeat the animation.
+  writer.byte(0x21);
+  writer.byte(0xff);
+  writer.byte(11);
+  writer.text('NETSCAPE2.0');
+  writer.byte(3);
+  writer.byte(1);
+  writer.word(loop);
+  writer.byte(0);
+
+  const addFrame = (pixels: Uint8ClampedArray, delayMs: number) => {
+    if (pixels.length !== width * height * 4) {
+      throw new Error(`Expected a ${width}x${height} frame`);
+    }
+
+    const { palette, indices, transparentIndex } = quantizeFrame(pixels);
+    const colorCount = palette.length / 3;
+    let tableBits = 1;
+    while (1 << tableBits < colorCount) tableBits += 1;
+
+    // Frames with transparent pixels clear before the next one, or the
+    // previous frame would show through them.
+    writer.byte(0x21);
+    writer.byte(0xf9);
+    writer.byte(4);
+    writer.byte(((transparentIndex === null ? DISPOSE_NONE : DISPOSE_TO_BACKGROUND) << 2) | (transparentIndex === null ? 0 : 1));
+    writer.word(Math.round(delayMs / 10));
+    writer.byte(transparentIndex ?? 0);
+    writer.byte(0);
+
+    writer.byte(0x2c);
+    writer.word(0);
+    writer.word(0);
+    writer.word(width);
+    writer.word(height);
+    writer.byte(0x80 | (tableBits - 1)); // local color table, not interlaced
+
+    for (let index = 0; index < 1 << tableBits; index += 1) {
+      writer.byte(palette[index * 3] ?? 0);
+      writer.byte(palette[index * 3 + 1] ?? 0);
+      writer.byte(palette[index * 3 + 2] ?? 0);
+    }
+
+    writeLzw(writer, indices, Math.max(2, tableBits));
+  };
+
+  const finish = () => {
+    writer.byte(0x3b);
+    return new Blob([writer.toArray()], { type: 'image/gif' });
+  };
+
+  return { addFrame, finish };
+};
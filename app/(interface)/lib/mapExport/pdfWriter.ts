@@ -0,0 +1,85 @@
+export interface PdfImagePage {
+  /** Page size in points. */
+  width: number;
+  height: number;
+  image: {
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+    /** Placement in points, measured from the page's top-left corner. */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+/**
+ * Writes a PDF with one JPEG per page. JPEG data is embedded as-is
+ * (DCTDecode), which keeps this small enough to not need a PDF library.
+ */
+export const createImagePdf = (pages: PdfImagePage[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects 1 and 2 are the catalog and page tree; each page then takes three.
+  const pageIds = pages.map((_, index) => 3 + index * 3);
+
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // marks the file as binary
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const { image } = page;
+    const content = encoder.encode(
+      `q ${formatNumber(image.width)} 0 0 ${formatNumber(image.height)} ${formatNumber(image.x)} ${formatNumber(
+        page.height - image.y - image.height,
+      )} cm /Im0 Do Q`,
+    );
+
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`,
+    );
+    writeObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+    writeObject(
+      pageId + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${image.pixelWidth} /Height ${image.pixelHeight} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>`,
+      image.jpeg,
+    );
+  });
+
+  const xrefOffset = length;
+  const objectCount = offsets.length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id += 1) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,150 @@
+// Colors are bucketed at 5 bits per channel before quantizing, which keeps the
+// histogram small (32768 entries) with no visible loss after palette reduction.
+const CHANNEL_BITS = 5;
+const CHANNEL_SHIFT = 8 - CHANNEL_BITS;
+const BUCKET_COUNT = 1 << (CHANNEL_BITS * 3);
+const ALPHA_THRESHOLD = 128;
+
+export interface QuantizedFrame {
+  /** Flat RGB triples. */
+  palette: number[];
+  /** One palette index per pixel. */
+  indices: Uint8Array;
+  /** Index of the transparent entry, or null when every pixel is opaque. */
+  transparentIndex: number | null;
+}
+
+interface ColorBox {
+  buckets: number[];
+  count: number;
+}
+
+const toBucket = (r: number, g: number, b: number) =>
+  ((r >> CHANNEL_SHIFT) << (CHANNEL_BITS * 2)) | ((g >> CHANNEL_SHIFT) << CHANNEL_BITS) | (b >> CHANNEL_SHIFT);
+
+const bucketChannel = (bucket: number, channel: number) =>
+  (bucket >> (CHANNEL_BITS * (2 - channel))) & ((1 << CHANNEL_BITS) - 1);
+
+const getWidestChannel = (box: ColorBox) => {
+  let widest = 0;
+  let widestRange = -1;
+  for (let channel = 0; channel < 3; channel += 1) {
+    let min = Infinity;
+    let max = -Infinity;
+    box.buckets.forEach(bucket => {
+      const value = bucketChannel(bucket, channel);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    });
+    if (max - min > widestRange) {
+      widest = channel;
+      widestRange = max - min;
+    }
+  }
+  return { channel: widest, range: widestRange };
+};
+
+// Splits at the pixel-weighted median of the widest channel.
+const splitBox = (box: ColorBox, histogram: Uint32Array, channel: number): [ColorBox, ColorBox] => {
+  const sorted = [...box.buckets].sort((a, b) => bucketChannel(a, channel) - bucketChannel(b, channel));
+  let seen = 0;
+  let splitAt = 1;
+  for (let index = 0; index < sorted.length - 1; index += 1) {
+    seen += histogram[sorted[index]];
+    splitAt = index + 1;
+    if (seen >= box.count / 2) break;
+  }
+
+  const lower = sorted.slice(0, splitAt);
+  const upper = sorted.slice(splitAt);
+  const sum = (buckets: number[]) => buckets.reduce((total, bucket) => total + histogram[bucket], 0);
+  return [
+    { buckets: lower, count: sum(lower) },
+    { buckets: upper, count: sum(upper) },
+  ];
+};
+
+const averageColor = (box: ColorBox, histogram: Uint32Array, sums: Float64Array) => {
+  const color = [0, 0, 0];
+  box.buckets.forEach(bucket => {
+    for (let channel = 0; channel < 3; channel += 1) {
+      color[channel] += sums[bucket * 3 + channel];
+    }
+  });
+  return color.map(total => Math.round(total / Math.max(1, box.count)));
+};
+
+/**
+ * Reduces an RGBA frame to at most `maxColors` colors with median cut.
+ * Pixels below half opacity share one transparent palette entry.
+ */
+export const quantizeFrame = (pixels: Uint8ClampedArray, maxColors = 256): QuantizedFrame => {
+  const histogram = new Uint32Array(BUCKET_COUNT);
+  // Exact channel totals per bucket, so palette entries average the real colors.
+  const sums = new Float64Array(BUCKET_COUNT * 3);
+  let hasTransparency = false;
+
+  for (let offset = 0; offset < pixels.length; offset += 4) {
+    if (pixels[offset + 3] < ALPHA_THRESHOLD) {
+      hasTransparency = true;
+      continue;
+    }
+    const bucket = toBucket(pixels[offset], pixels[offset + 1], pixels[offset + 2]);
+    histogram[bucket] += 1;
+    sums[bucket * 3] += pixels[offset];
+    sums[bucket * 3 + 1] += pixels[offset + 1];
+    sums[bucket * 3 + 2] += pixels[offset + 2];
+  }
+
+  const colorLimit = hasTransparency ? maxColors - 1 : maxColors;
+  const used: number[] = [];
+  histogram.forEach((count, bucket) => {
+    if (count > 0) used.push(bucket);
+  });
+
+  let boxes: ColorBox[] = used.length > 0
+    ? [{ buckets: used, count: used.reduce((total, bucket) => total + histogram[bucket], 0) }]
+    : [];
+  while (boxes.length < colorLimit) {
+    // Split whichever box covers the most pixels across the widest color range.
+    let target = -1;
+    let targetScore = 0;
+    let targetChannel = 0;
+    boxes.forEach((box, index) => {
+      if (box.buckets.length < 2) return;
+      const { channel, range } = getWidestChannel(box);
+      const score = range * box.count;
+      if (score > targetScore) {
+        target = index;
+        targetScore = score;
+        targetChannel = channel;
+      }
+    });
+    if (target < 0) break;
+
+    boxes = [...boxes.slice(0, target), ...splitBox(boxes[target], histogram, targetChannel), ...boxes.slice(target + 1)];
+  }
+
+  const palette: number[] = [];
+  const bucketIndex = new Int16Array(BUCKET_COUNT).fill(-1);
+  boxes.forEach((box, index) => {
+    palette.push(...averageColor(box, histogram, sums));
+    box.buckets.forEach(bucket => {
+      bucketIndex[bucket] = index;
+    });
+  });
+
+  const transparentIndex = hasTransparency ? boxes.length : null;
+  if (transparentIndex !== null) {
+    palette.push(0, 0, 0);
+  }
+
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let pixel = 0, offset = 0; offset < pixels.length; pixel += 1, offset += 4) {
+    indices[pixel] = pixels[offset + 3] < ALPHA_THRESHOLD
+      ? transparentIndex!
+      : bucketIndex[toBucket(pixels[offset], pixels[offset + 1], pixels[offset + 2])];
+  }
+
+  return { palette, indices, transparentIndex };
+};
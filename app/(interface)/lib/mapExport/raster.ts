@@ -0,0 +1,82 @@
+// Chrome and Firefox refuse larger canvases; Safari's limit is lower and
+// surfaces as a failed encode instead.
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_PIXELS = 268_435_456;
+const CSS_PIXELS_PER_INCH = 96;
+const METERS_PER_INCH = 0.0254;
+
+export const CANVAS_TOO_LARGE_MESSAGE =
+  'The map is too large to render at this scale. Pick a smaller scale or export a PDF.';
+
+export const loadSvgImage = (markup: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to render the map for export'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+
+export const createCanvas = (width: number, height: number) => {
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_PIXELS) {
+    throw new Error(CANVAS_TOO_LARGE_MESSAGE);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas context is not available');
+  }
+  return { canvas, context };
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    try {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(CANVAS_TOO_LARGE_MESSAGE))), type, quality);
+    } catch (error) {
+      // Browsers that treat foreignObject content as cross-origin taint the canvas.
+      reject(error instanceof DOMException && error.name === 'SecurityError'
+        ? new Error('This browser cannot rasterize the map. Export an SVG instead.')
+        : error);
+    }
+  });
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let index = 0; index < bytes.length; index += 1) {
+    crc = CRC_TABLE[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Adds a pHYs chunk recording the export scale as DPI, so a 2x image opens
+ * at the map's size in print and layout tools rather than twice as large.
+ */
+export const setPngResolution = async (png: Blob, scale: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const pixelsPerMeter = Math.round((CSS_PIXELS_PER_INCH * scale) / METERS_PER_INCH);
+
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // unit: meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // The signature (8 bytes) and IHDR (25 bytes) come first; pHYs must precede the image data.
+  const headerLength = 33;
+  return new Blob([bytes.subarray(0, headerLength), chunk, bytes.subarray(headerLength)], { type: 'image/png' });
+};
@@ -0,0 +1,405 @@
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+/** Elements carrying this attribute (control bars and the like) keep their space but are not drawn. */
+export const EXPORT_IGNORE_ATTRIBUTE = 'data-export-ignore';
+/** Identifies a TextBox or CommentBox so a selection can be exported on its own. */
+export const MAP_ELEMENT_ATTRIBUTE = 'data-map-element';
+
+const EXPORT_PADDING = 24;
+const SKIPPED_PROPERTY_PREFIXES = ['--', 'animation', 'transition'];
+const URL_PATTERN = /url\((['"]?)([^'")]+)\1\)/g;
+
+export interface MapGridStyle {
+  /** Spacing in map units. */
+  size: number;
+  thickness: number;
+  /** Any CSS color, including `var(...)`. */
+  color: string;
+  opacity: number;
+}
+
+export interface MapSvgOptions {
+  /** TextBox/CommentBox ids to export on their own; empty exports the whole map. */
+  selectionIds: string[];
+  grid: MapGridStyle | null;
+  /** Any CSS color, or null for a transparent background. */
+  background: string | null;
+  /** Output size per map unit; the drawing itself is vector and scales freely. */
+  scale: number;
+}
+
+export interface RenderedMapSvg {
+  markup: string;
+  /** Size in map units, before any export scale. */
+  width: number;
+  height: number;
+}
+
+interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+type StyleSnapshot = Map<string, string>;
+
+const isIgnored = (element: Element) => element.hasAttribute(EXPORT_IGNORE_ATTRIBUTE);
+
+const hasVisibleColor = (color: string) => color !== 'transparent' && !/rgba\(.*,\s*0\)$/.test(color);
+
+// Only elements that draw something count towards the exported area; the
+// full-size wrappers every layout sits in would otherwise always win.
+const paintsContent = (element: Element, style: CSSStyleDeclaration) => {
+  if (element instanceof SVGSVGElement || element instanceof HTMLImageElement || element instanceof HTMLCanvasElement) {
+    return true;
+  }
+  if (hasVisibleColor(style.backgroundColor) || style.backgroundImage !== 'none' || style.boxShadow !== 'none') {
+    return true;
+  }
+  if (['top', 'right', 'bottom', 'left'].some(side =>
+    style.getPropertyValue(`border-${side}-style`) !== 'none' &&
+    parseFloat(style.getPropertyValue(`border-${side}-width`)) > 0,
+  )) {
+    return true;
+  }
+  return Array.from(element.childNodes).some(node => node.nodeType === Node.TEXT_NODE && node.textContent?.trim());
+};
+
+/** Every element that draws something, skipping ignored subtrees and anything clipped away. */
+const collectPainted = (root: Element, painted: Element[] = []): Element[] => {
+  Array.from(root.children).forEach(element => {
+    if (isIgnored(element)) return;
+
+    const style = getComputedStyle(element);
+    if (style.display === 'none' || style.visibility === 'hidden') return;
+
+    if (paintsContent(element, style)) {
+      painted.push(element);
+    }
+    // An SVG is exported whole, and a clipping box bounds its own children.
+    if (!(element instanceof SVGSVGElement) && style.overflow === 'visible') {
+      collectPainted(element, painted);
+    }
+  });
+  return painted;
+};
+
+/** Converts screen rects to the content's own (unzoomed) coordinates. */
+const createLocalRect = (content: HTMLElement) => {
+  const origin = content.getBoundingClientRect();
+  const scale = content.offsetWidth > 0 ? origin.width / content.offsetWidth : 1;
+
+  return (element: Element) => {
+    const rect = element.getBoundingClientRect();
+    return {
+      left: (rect.left - origin.left) / scale,
+      top: (rect.top - origin.top) / scale,
+      right: (rect.right - origin.left) / scale,
+      bottom: (rect.bottom - origin.top) / scale,
+    };
+  };
+};
+
+const unionBounds = (rects: Bounds[]): Bounds | null =>
+  rects.reduce<Bounds | null>((bounds, rect) => {
+    if (rect.right <= rect.left || rect.bottom <= rect.top) return bounds;
+    if (!bounds) return { ...rect };
+    return {
+      left: Math.min(bounds.left, rect.left),
+      top: Math.min(bounds.top, rect.top),
+      right: Math.max(bounds.right, rect.right),
+      bottom: Math.max(bounds.bottom, rect.bottom),
+    };
+  }, null);
+
+/**
+ * Browser defaults per element type, read from a blank iframe so the inlined
+ * styles only list what the app's stylesheets actually changed.
+ */
+const createDefaultStyles = () => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;width:0;height:0;border:0;visibility:hidden';
+  document.body.appendChild(frame);
+  const frameDocument = frame.contentDocument!;
+  const svgHost = frameDocument.createElementNS(SVG_NS, 'svg');
+  frameDocument.body.appendChild(svgHost);
+  const cache = new Map<string, StyleSnapshot>();
+
+  const get = (element: Element): StyleSnapshot => {
+    const key = `${element.namespaceURI}:${element.localName}`;
+    let snapshot = cache.get(key);
+    if (!snapshot) {
+      const sample = frameDocument.createElementNS(element.namespaceURI, element.localName);
+      const host = element.namespaceURI === SVG_NS && element.localName !== 'svg' ? svgHost : frameDocument.body;
+      host.appendChild(sample);
+      const style = frame.contentWindow!.getComputedStyle(sample);
+      snapshot = new Map(Array.from(style, name => [name, style.getPropertyValue(name)]));
+      sample.remove();
+      cache.set(key, snapshot);
+    }
+    return snapshot;
+  };
+
+  return { get, dispose: () => frame.remove() };
+};
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * An SVG drawn as an image may not load anything external, so every URL is
+ * fetched and inlined. A resource that fails to load is left out rather than
+ * failing the whole export.
+ */
+export const createResourceEmbedder = () => {
+  const cache = new Map<string, Promise<string | null>>();
+
+  return (url: string) => {
+    if (url.startsWith('data:') || url.startsWith('#')) {
+      return Promise.resolve(url);
+    }
+
+    const absolute = new URL(url, document.baseURI).href;
+    let pending = cache.get(absolute);
+    if (!pending) {
+      pending = fetch(absolute)
+        .then(response => {
+          if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+          return response.blob();
+        })
+        .then(readAsDataUrl)
+        .catch(error => {
+          console.warn(`Left ${absolute} out of the export`, error);
+          return null;
+        });
+      cache.set(absolute, pending);
+    }
+    return pending;
+  };
+};
+
+const embedCssUrls = async (value: string, embed: (url: string) => Promise<string | null>) => {
+  const matches = Array.from(value.matchAll(URL_PATTERN));
+  let result = value;
+  for (const match of matches) {
+    const dataUrl = await embed(match[2]);
+    result = result.replace(match[0], dataUrl ? `url("${dataUrl}")` : 'none');
+  }
+  return result;
+};
+
+/**
+ * Copies `source`'s computed style onto `clone` as inline declarations, so
+ * the clone renders the same without the app's stylesheets.
+ */
+const inlineStyles = async (
+  source: Element,
+  clone: Element,
+  defaults: ReturnType<typeof createDefaultStyles>,
+  embed: (url: string) => Promise<string | null>,
+) => {
+  const style = getComputedStyle(source);
+  const base = defaults.get(source);
+  const declarations: string[] = [];
+
+  for (const name of Array.from(style)) {
+    if (SKIPPED_PROPERTY_PREFIXES.some(prefix => name.startsWith(prefix))) continue;
+
+    let value = style.getPropertyValue(name);
+    if (value === base.get(name)) continue;
+    if (value.includes('url(')) {
+      value = await embedCssUrls(value, embed);
+    }
+    declarations.push(`${name}:${value}`);
+  }
+
+  if (isIgnored(source)) {
+    declarations.push('visibility:hidden');
+  }
+  clone.setAttribute('style', declarations.join(';'));
+  clone.removeAttribute('class');
+};
+
+const cloneWithStyles = async (
+  source: Element,
+  defaults: ReturnType<typeof createDefaultStyles>,
+  embed: (url: string) => Promise<string | null>,
+  children: ArrayLike<Node> = source.childNodes,
+): Promise<Element> => {
+  let clone: Element;
+  if (source instanceof HTMLCanvasElement) {
+    clone = document.createElement('img');
+    clone.setAttribute('src', source.toDataURL());
+  } else {
+    clone = source.cloneNode(false) as Element;
+  }
+
+  await inlineStyles(source, clone, defaults, embed);
+
+  if (source instanceof HTMLImageElement) {
+    const dataUrl = await embed(source.currentSrc || source.src);
+    clone.setAttribute('src', dataUrl ?? '');
+    clone.removeAttribute('srcset');
+  } else if (source instanceof SVGImageElement) {
+    const href = source.getAttribute('href') ?? source.getAttribute('xlink:href');
+    const dataUrl = href ? await embed(href) : null;
+    clone.removeAttribute('xlink:href');
+    clone.setAttribute('href', dataUrl ?? '');
+  } else if (source instanceof HTMLTextAreaElement) {
+    clone.textContent = source.value;
+  } else if (source instanceof HTMLInputElement) {
+    clone.setAttribute('value', source.value);
+  }
+
+  if (!(source instanceof HTMLCanvasElement) && !(source instanceof HTMLTextAreaElement)) {
+    for (const child of Array.from(children)) {
+      if (child instanceof Element) {
+        clone.appendChild(await cloneWithStyles(child, defaults, embed));
+      } else if (child.nodeType === Node.TEXT_NODE) {
+        clone.appendChild(child.cloneNode());
+      }
+    }
+  }
+
+  return clone;
+};
+
+/** Reads a CSS color in the content's theme, so `var(--border)` resolves as it does on screen. */
+const resolveColor = (content: HTMLElement, color: string) => {
+  const probe = document.createElement('span');
+  probe.style.color = color;
+  content.appendChild(probe);
+  const resolved = getComputedStyle(probe).color;
+  probe.remove();
+  return resolved;
+};
+
+const appendGrid = (svg: SVGSVGElement, content: HTMLElement, grid: MapGridStyle) => {
+  const pattern = document.createElementNS(SVG_NS, 'pattern');
+  pattern.setAttribute('id', 'map-grid');
+  pattern.setAttribute('patternUnits', 'userSpaceOnUse');
+  pattern.setAttribute('width', String(grid.size));
+  pattern.setAttribute('height', String(grid.size));
+
+  const lines = document.createElementNS(SVG_NS, 'path');
+  const { size, thickness } = grid;
+  lines.setAttribute('d', `M0 0H${size}V${thickness}H0Z M0 0H${thickness}V${size}H0Z`);
+  lines.setAttribute('fill', resolveColor(content, grid.color));
+  pattern.appendChild(lines);
+
+  const defs = document.createElementNS(SVG_NS, 'defs');
+  defs.appendChild(pattern);
+  svg.appendChild(defs);
+
+  const rect = document.createElementNS(SVG_NS, 'rect');
+  rect.setAttribute('fill', 'url(#map-grid)');
+  rect.setAttribute('opacity', String(grid.opacity));
+  return rect;
+};
+
+const fillArea = (element: SVGElement, bounds: Bounds) => {
+  element.setAttribute('x', String(bounds.left));
+  element.setAttribute('y', String(bounds.top));
+  element.setAttribute('width', String(bounds.right - bounds.left));
+  element.setAttribute('height', String(bounds.bottom - bounds.top));
+};
+
+/**
+ * Renders the map content as it appears on screen into a standalone SVG,
+ * cropped to what it draws. A layout that is a single SVG is embedded as
+ * vector graphics; HTML content (bubbles, text and comment boxes) goes in a
+ * foreignObject with its computed styles inlined. Web fonts are not embedded,
+ * so text falls back to the viewer's fonts.
+ */
+export const renderMapSvg = async (content: HTMLElement, options: MapSvgOptions): Promise<RenderedMapSvg> => {
+  const selected = options.selectionIds.flatMap(id =>
+    Array.from(content.querySelectorAll(`[${MAP_ELEMENT_ATTRIBUTE}="${CSS.escape(id)}"]`)),
+  );
+  if (options.selectionIds.length > 0 && selected.length === 0) {
+    throw new Error('The selected elements are not on the map');
+  }
+
+  const painted = collectPainted(content);
+  const toLocal = createLocalRect(content);
+  const area = unionBounds(selected.length > 0
+    ? selected.map(toLocal)
+    : painted.map(toLocal));
+  if (!area) {
+    throw new Error('The map is empty');
+  }
+
+  const bounds: Bounds = {
+    left: Math.floor(area.left - EXPORT_PADDING),
+    top: Math.floor(area.top - EXPORT_PADDING),
+    right: Math.ceil(area.right + EXPORT_PADDING),
+    bottom: Math.ceil(area.bottom + EXPORT_PADDING),
+  };
+  const width = bounds.right - bounds.left;
+  const height = bounds.bottom - bounds.top;
+
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('xmlns', SVG_NS);
+  svg.setAttribute('width', String(Math.round(width * options.scale)));
+  svg.setAttribute('height', String(Math.round(height * options.scale)));
+  svg.setAttribute('viewBox', `${bounds.left} ${bounds.top} ${width} ${height}`);
+
+  if (options.background) {
+    const background = document.createElementNS(SVG_NS, 'rect');
+    background.setAttribute('fill', resolveColor(content, options.background));
+    fillArea(background, bounds);
+    svg.appendChild(background);
+  }
+  if (options.grid) {
+    const grid = appendGrid(svg, content, options.grid);
+    fillArea(grid, bounds);
+    svg.appendChild(grid);
+  }
+
+  const defaults = createDefaultStyles();
+  const embed = createResourceEmbedder();
+  try {
+    const [only] = painted;
+    if (selected.length === 0 && painted.length === 1 && only instanceof SVGSVGElement) {
+      const clone = (await cloneWithStyles(only, defaults, embed)) as SVGSVGElement;
+      const rect = toLocal(only);
+      ['x', 'y', 'width', 'height'].forEach(name => clone.style.removeProperty(name));
+      fillArea(clone, rect);
+      svg.appendChild(clone);
+    } else {
+      const foreignObject = document.createElementNS(SVG_NS, 'foreignObject');
+      fillArea(foreignObject, bounds);
+
+      // The wrapper keeps the content's own coordinate space, so absolutely
+      // positioned boxes land where they were.
+      const wrapper = document.createElementNS(XHTML_NS, 'div');
+      wrapper.setAttribute('style', [
+        'position:absolute',
+        `left:${-bounds.left}px`,
+        `top:${-bounds.top}px`,
+        `width:${content.offsetWidth}px`,
+        `height:${content.offsetHeight}px`,
+      ].join(';'));
+
+      const root = await cloneWithStyles(content, defaults, embed, selected.length > 0 ? selected : undefined);
+      root.setAttribute('style', `${root.getAttribute('style')};position:absolute;left:0;top:0`);
+      wrapper.appendChild(root);
+
+      const viewport = document.createElementNS(XHTML_NS, 'div');
+      viewport.setAttribute('style', `position:relative;width:${width}px;height:${height}px;overflow:hidden`);
+      viewport.appendChild(wrapper);
+      foreignObject.appendChild(viewport);
+      svg.appendChild(foreignObject);
+    }
+  } finally {
+    defaults.dispose();
+  }
+
+  return { markup: new XMLSerializer().serializeToString(svg), width, height };
+};
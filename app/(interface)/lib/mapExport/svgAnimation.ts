@@ -0,0 +1,105 @@
+import { createGifEncoder } from './gifEncoder';
+import { createCanvas, loadSvgImage } from './raster';
+import { createResourceEmbedder } from './renderMapSvg';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const COLOR_ATTRIBUTES = ['fill', 'stroke', 'stop-color', 'color'];
+const HREF_PATTERN = /href="([^"#][^"]*)"/g;
+
+export interface SvgFrame {
+  markup: string;
+  delayMs: number;
+}
+
+export interface SvgAnimationOptions {
+  width: number;
+  height: number;
+  /** Any CSS color; GIF frames are opaque so the animation reads on any page. */
+  background?: string;
+}
+
+/**
+ * Serializes a live SVG as one animation frame at the given output size.
+ * Colors given as CSS variables are resolved, since the frame is later
+ * drawn without the page's stylesheets. `prepare` may adjust the copy.
+ */
+export const captureSvgFrame = (
+  svg: SVGSVGElement,
+  width: number,
+  height: number,
+  prepare?: (clone: SVGSVGElement) => void,
+): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.removeAttribute('class');
+
+  const sources = svg.querySelectorAll('*');
+  const copies = clone.querySelectorAll('*');
+  sources.forEach((source, index) => {
+    COLOR_ATTRIBUTES.forEach(name => {
+      if (source.getAttribute(name)?.includes('var(')) {
+        copies[index].setAttribute(name, getComputedStyle(source).getPropertyValue(name));
+      }
+    });
+  });
+
+  prepare?.(clone);
+  return new XMLSerializer().serializeToString(clone);
+};
+
+// Frames are captured with the page's own URLs and only inlined at encode
+// time, so capturing stays cheap enough to run while the map animates.
+const embedFrameResources = async (frames: SvgFrame[]) => {
+  const embed = createResourceEmbedder();
+  const urls = new Set<string>();
+  frames.forEach(frame => {
+    Array.from(frame.markup.matchAll(HREF_PATTERN)).forEach(match => {
+      if (!match[1].startsWith('data:')) urls.add(match[1]);
+    });
+  });
+
+  const replacements = await Promise.all(
+    Array.from(urls).map(async url => [url, (await embed(url)) ?? ''] as const),
+  );
+  return frames.map(frame => ({
+    ...frame,
+    markup: replacements.reduce(
+      (markup, [url, dataUrl]) => markup.split(`href="${url}"`).join(`href="${dataUrl}"`),
+      frame.markup,
+    ),
+  }));
+};
+
+/** Merges consecutive identical frames so an idle stretch costs one frame. */
+const mergeRepeatedFrames = (frames: SvgFrame[]) =>
+  frames.reduce<SvgFrame[]>((merged, frame) => {
+    const last = merged[merged.length - 1];
+    if (last && last.markup === frame.markup) {
+      last.delayMs += frame.delayMs;
+    } else {
+      merged.push({ ...frame });
+    }
+    return merged;
+  }, []);
+
+export const encodeSvgAnimation = async (frames: SvgFrame[], options: SvgAnimationOptions): Promise<Blob> => {
+  if (frames.length === 0) {
+    throw new Error('There are no frames to encode');
+  }
+
+  const { width, height, background = '#ffffff' } = options;
+  const encoder = createGifEncoder({ width, height });
+  const { context } = createCanvas(width, height);
+
+  for (const frame of await embedFrameResources(mergeRepeatedFrames(frames))) {
+    const image = await loadSvgImage(frame.markup);
+    context.fillStyle = background;
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image, 0, 0, width, height);
+    encoder.addFrame(context.getImageData(0, 0, width, height).data, frame.delayMs);
+  }
+
+  return encoder.finish();
+};
@@ -0,0 +1,295 @@
+/**
+ * Typed port of the sibling packing and smallest-enclosing-circle routines
+ * from d3-hierarchy (ISC licence). The project has no d3 type declarations,
+ * and the layouts only need these two pieces rather than a full `d3.pack`.
+ */
+
+export interface PackCircle {
+  x: number;
+  y: number;
+  r: number;
+}
+
+interface FrontChainNode {
+  circle: PackCircle;
+  next: FrontChainNode;
+  previous: FrontChainNode;
+}
+
+// Deterministic LCG so repeated layouts of the same data are identical.
+const createRandom = () => {
+  const a = 1664525;
+  const c = 1013904223;
+  const m = 4294967296;
+  let state = 1;
+  return () => (state = (a * state + c) % m) / m;
+};
+
+const shuffle = <T,>(items: T[], random: () => number): T[] => {
+  const result = items.slice();
+  for (let index = result.length; index > 0; ) {
+    const swap = Math.floor(random() * index--);
+    const temp = result[index];
+    result[index] = result[swap];
+    result[swap] = temp;
+  }
+  return result;
+};
+
+const enclosesNot = (a: PackCircle, b: PackCircle) => {
+  const dr = a.r - b.r;
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  return dr < 0 || dr * dr < dx * dx + dy * dy;
+};
+
+const enclosesWeak = (a: PackCircle, b: PackCircle) => {
+  const dr = a.r - b.r + Math.max(a.r, b.r, 1) * 1e-9;
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  return dr > 0 && dr * dr > dx * dx + dy * dy;
+};
+
+const enclosesWeakAll = (a: PackCircle, basis: PackCircle[]) =>
+  basis.every(circle => enclosesWeak(a, circle));
+
+const encloseBasis2 = (a: PackCircle, b: PackCircle): PackCircle => {
+  const x21 = b.x - a.x;
+  const y21 = b.y - a.y;
+  const r21 = b.r - a.r;
+  const l = Math.sqrt(x21 * x21 + y21 * y21);
+  return {
+    x: (a.x + b.x + (x21 / l) * r21) / 2,
+    y: (a.y + b.y + (y21 / l) * r21) / 2,
+    r: (l + a.r + b.r) / 2,
+  };
+};
+
+const encloseBasis3 = (a: PackCircle, b: PackCircle, c: PackCircle): PackCircle => {
+  const { x: x1, y: y1, r: r1 } = a;
+  const { x: x2, y: y2, r: r2 } = b;
+  const { x: x3, y: y3, r: r3 } = c;
+  const a2 = x1 - x2;
+  const a3 = x1 - x3;
+  const b2 = y1 - y2;
+  const b3 = y1 - y3;
+  const c2 = r2 - r1;
+  const c3 = r3 - r1;
+  const d1 = x1 * x1 + y1 * y1 - r1 * r1;
+  const d2 = d1 - x2 * x2 - y2 * y2 + r2 * r2;
+  const d3 = d1 - x3 * x3 - y3 * y3 + r3 * r3;
+  const ab = a3 * b2 - a2 * b3;
+  const xa = (b2 * d3 - b3 * d2) / (ab * 2) - x1;
+  const xb = (b3 * c2 - b2 * c3) / ab;
+  const ya = (a3 * d2 - a2 * d3) / (ab * 2) - y1;
+  const yb = (a2 * c3 - a3 * c2) / ab;
+  const A = xb * xb + yb * yb - 1;
+  const B = 2 * (r1 + xa * xb + ya * yb);
+  const C = xa * xa + ya * ya - r1 * r1;
+  const r = -(Math.abs(A) > 1e-6 ? (B + Math.sqrt(B * B - 4 * A * C)) / (2 * A) : C / B);
+  return { x: x1 + xa + xb * r, y: y1 + ya + yb * r, r };
+};
+
+const encloseBasis = (basis: PackCircle[]): PackCircle => {
+  if (basis.length === 1) return { x: basis[0].x, y: basis[0].y, r: basis[0].r };
+  if (basis.length === 2) return encloseBasis2(basis[0], basis[1]);
+  return encloseBasis3(basis[0], basis[1], basis[2]);
+};
+
+const extendBasis = (basis: PackCircle[], p: PackCircle): PackCircle[] => {
+  if (enclosesWeakAll(p, basis)) {
+    return [p];
+  }
+
+  for (let i = 0; i < basis.length; ++i) {
+    if (enclosesNot(p, basis[i]) && enclosesWeakAll(encloseBasis2(basis[i], p), basis)) {
+      return [basis[i], p];
+    }
+  }
+
+  for (let i = 0; i < basis.length - 1; ++i) {
+    for (let j = i + 1; j < basis.length; ++j) {
+      if (
+        enclosesNot(encloseBasis2(basis[i], basis[j]), p) &&
+        enclosesNot(encloseBasis2(basis[i], p), basis[j]) &&
+        enclosesNot(encloseBasis2(basis[j], p), basis[i]) &&
+        enclosesWeakAll(encloseBasis3(basis[i], basis[j], p), basis)
+      ) {
+        return [basis[i], basis[j], p];
+      }
+    }
+  }
+
+  throw new Error('Unable to compute the enclosing circle basis');
+};
+
+/** Smallest circle enclosing every given circle (Welzl's algorithm). */
+export const encloseCircles = (circles: PackCircle[]): PackCircle | null => {
+  const random = createRandom();
+  const shuffled = shuffle(circles, random);
+  let basis: PackCircle[] = [];
+  let enclosing: PackCircle | null = null;
+  let index = 0;
+
+  while (index < shuffled.length) {
+    const circle = shuffled[index];
+    if (enclosing && enclosesWeak(enclosing, circle)) {
+      ++index;
+    } else {
+      basis = extendBasis(basis, circle);
+      enclosing = encloseBasis(basis);
+      index = 0;
+    }
+  }
+
+  return enclosing;
+};
+
+const place = (b: PackCircle, a: PackCircle, c: PackCircle) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const d2 = dx * dx + dy * dy;
+
+  if (!d2) {
+    c.x = a.x + c.r;
+    c.y = a.y;
+    return;
+  }
+
+  let a2 = a.r + c.r;
+  a2 *= a2;
+  let b2 = b.r + c.r;
+  b2 *= b2;
+
+  if (a2 > b2) {
+    const x = (d2 + b2 - a2) / (2 * d2);
+    const y = Math.sqrt(Math.max(0, b2 / d2 - x * x));
+    c.x = b.x - x * dx - y * dy;
+    c.y = b.y - x * dy + y * dx;
+  } else {
+    const x = (d2 + a2 - b2) / (2 * d2);
+    const y = Math.sqrt(Math.max(0, a2 / d2 - x * x));
+    c.x = a.x + x * dx - y * dy;
+    c.y = a.y + x * dy + y * dx;
+  }
+};
+
+const intersects = (a: PackCircle, b: PackCircle) => {
+  const dr = a.r + b.r - 1e-6;
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  return dr > 0 && dr * dr > dx * dx + dy * dy;
+};
+
+const score = (node: FrontChainNode) => {
+  const a = node.circle;
+  const b = node.next.circle;
+  const ab = a.r + b.r;
+  const dx = (a.x * b.r + b.x * a.r) / ab;
+  const dy = (a.y * b.r + b.y * a.r) / ab;
+  return dx * dx + dy * dy;
+};
+
+const createChainNode = (circle: PackCircle): FrontChainNode => {
+  const node = { circle } as FrontChainNode;
+  node.next = node;
+  node.previous = node;
+  return node;
+};
+
+/**
+ * Packs sibling circles tightly around the origin, mutating their `x`/`y`,
+ * and returns the radius of the circle that encloses them all. Circles should
+ * be passed largest first for the tightest result.
+ */
+export const packSiblings = (circles: PackCircle[]): number => {
+  const n = circles.length;
+  if (!n) return 0;
+
+  let a: PackCircle | FrontChainNode = circles[0];
+  a.x = 0;
+  a.y = 0;
+  if (n === 1) return a.r;
+
+  let b: PackCircle | FrontChainNode = circles[1];
+  a.x = -b.r;
+  b.x = a.r;
+  b.y = 0;
+  if (n === 2) return a.r + b.r;
+
+  place(b, a, circles[2]);
+
+  let chainA = createChainNode(circles[0]);
+  let chainB = createChainNode(circles[1]);
+  let chainC = createChainNode(circles[2]);
+  chainA.next = chainC.previous = chainB;
+  chainB.next = chainA.previous = chainC;
+  chainC.next = chainB.previous = chainA;
+
+  pack: for (let i = 3; i < n; ++i) {
+    place(chainA.circle, chainB.circle, circles[i]);
+    chainC = createChainNode(circles[i]);
+
+    // Find the closest intersecting circle on the front chain, measured by
+    // distance along the chain in either direction.
+    let j = chainB.next;
+    let k = chainA.previous;
+    let sj = chainB.circle.r;
+    let sk = chainA.circle.r;
+
+    do {
+      if (sj <= sk) {
+        if (intersects(j.circle, chainC.circle)) {
+          chainB = j;
+          chainA.next = chainB;
+          chainB.previous = chainA;
+          --i;
+          continue pack;
+        }
+        sj += j.circle.r;
+        j = j.next;
+      } else {
+        if (intersects(k.circle, chainC.circle)) {
+          chainA = k;
+          chainA.next = chainB;
+          chainB.previous = chainA;
+          --i;
+          continue pack;
+        }
+        sk += k.circle.r;
+        k = k.previous;
+      }
+    } while (j !== k.next);
+
+    chainC.previous = chainA;
+    chainC.next = chainB;
+    chainA.next = chainB.previous = chainB = chainC;
+
+    let bestScore = score(chainA);
+    let cursor = chainC;
+    while ((cursor = cursor.next) !== chainB) {
+      const cursorScore = score(cursor);
+      if (cursorScore < bestScore) {
+        chainA = cursor;
+        bestScore = cursorScore;
+      }
+    }
+    chainB = chainA.next;
+  }
+
+  const front: PackCircle[] = [chainB.circle];
+  let cursor = chainB;
+  while ((cursor = cursor.next) !== chainB) {
+    front.push(cursor.circle);
+  }
+
+  const enclosing = encloseCircles(front);
+  if (!enclosing) return 0;
+
+  circles.forEach(circle => {
+    circle.x -= enclosing.x;
+    circle.y -= enclosing.y;
+  });
+
+  return enclosing.r;
+};
@@ -0,0 +1,34 @@
+import {
+  getPrimaryChangeType,
+  type ChangeType,
+  type NodeChange,
+} from '../../components/right-sidebar/data-sources/snapshotDiff';
+import { formatSize } from '../utils/format';
+
+export const DIFF_COLORS: Record<ChangeType, string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  moved: '#2563eb',
+  renamed: '#9333ea',
+  resized: '#f59e0b',
+};
+
+export const DIFF_LABELS: Record<ChangeType, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  moved: 'Moved',
+  renamed: 'Renamed',
+  resized: 'Resized',
+};
+
+// Unchanged nodes fade so the changed ones stand out.
+export const DIFF_UNCHANGED_OPACITY = 0.3;
+
+export const getChangeColor = (change: NodeChange): string => DIFF_COLORS[getPrimaryChangeType(change)];
+
+export const formatSizeDelta = (delta: number): string => {
+  if (delta === 0) {
+    return '±0';
+  }
+  return `${delta > 0 ? '+' : '−'}${formatSize(Math.abs(delta))}`;
+};
@@ -0,0 +1,43 @@
+import type { DuplicateMatch, DuplicateReport } from '@/lib/mapData';
+
+export const DUPLICATE_COLORS: Record<DuplicateMatch, string> = {
+  'name-size': '#dc2626',
+  'same-structure': '#9333ea',
+  'similar-name': '#f59e0b',
+};
+
+export const DUPLICATE_LABELS: Record<DuplicateMatch, string> = {
+  'name-size': 'Same name and size',
+  'same-structure': 'Same contents',
+  'similar-name': 'Similar name',
+};
+
+// Nodes outside the highlighted groups fade so the copies stand out.
+export const DUPLICATE_UNMATCHED_OPACITY = 0.3;
+
+export interface DuplicateHighlight {
+  /** How each highlighted node matched; the strongest match wins. */
+  byId: Map<string, DuplicateMatch>;
+  counts: Record<DuplicateMatch, number>;
+}
+
+const MATCH_STRENGTH: DuplicateMatch[] = ['name-size', 'same-structure', 'similar-name'];
+
+export const buildDuplicateHighlight = (report: DuplicateReport, groupIds: Set<string>): DuplicateHighlight => {
+  const byId = new Map<string, DuplicateMatch>();
+  const counts: Record<DuplicateMatch, number> = { 'name-size': 0, 'same-structure': 0, 'similar-name': 0 };
+
+  report.groups
+    .filter(group => groupIds.has(group.id))
+    .forEach(group => {
+      counts[group.match] += 1;
+      group.items.forEach(item => {
+        const current = byId.get(item.id);
+        if (!current || MATCH_STRENGTH.indexOf(group.match) < MATCH_STRENGTH.indexOf(current)) {
+          byId.set(item.id, group.match);
+        }
+      });
+    });
+
+  return { byId, counts };
+};
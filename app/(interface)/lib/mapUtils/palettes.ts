@@ -1,3 +1,6 @@
+import { SERVICE_ORDER, isServiceId } from '../../components/right-sidebar/data';
+import { getPaletteColor } from '../utils/colors';
+
 export {
   DEFAULT_MAP_PALETTE,
   MAP_COLOR_PALETTES,
@@ -6,3 +9,9 @@ export {
   getReadableTextColor,
   shiftColor,
 } from '../utils/colors';
+
+// Services keep the same palette slot in every layout, whatever is selected.
+export const getServiceColor = (serviceId: string | null, paletteId?: string | null): string => {
+  const index = serviceId && isServiceId(serviceId) ? SERVICE_ORDER.indexOf(serviceId) : SERVICE_ORDER.length;
+  return getPaletteColor(paletteId, index);
+};
@@ -0,0 +1,78 @@
+import type { ExposureLevel, SharingReport } from '@/lib/mapData';
+
+/** Own exposure first; private items holding shared content get their own color. */
+export type SharingCategory = ExposureLevel | 'contains-shared' | 'unknown';
+
+export const SHARING_CATEGORIES: SharingCategory[] = [
+  'widely-shared',
+  'shared',
+  'contains-shared',
+  'private',
+  'unknown',
+];
+
+export const SHARING_COLORS: Record<SharingCategory, string> = {
+  'widely-shared': '#dc2626',
+  shared: '#f97316',
+  'contains-shared': '#facc15',
+  private: '#22c55e',
+  unknown: '#cbd5e1',
+};
+
+export const SHARING_LABELS: Record<SharingCategory, string> = {
+  'widely-shared': 'Widely shared',
+  shared: 'Shared',
+  'contains-shared': 'Contains shared',
+  private: 'Private',
+  unknown: 'No sharing data',
+};
+
+// Items owned by someone other than the account holder get a dashed outline.
+export const FOREIGN_OWNER_COLOR = '#7c3aed';
+
+export const getSharingCategory = (sharing: SharingReport, id: string): SharingCategory => {
+  const entry = sharing.byId.get(id);
+  if (!entry) return 'unknown';
+  if (entry.exposure === 'widely-shared' || entry.exposure === 'shared') return entry.exposure;
+  if (entry.sharedDescendantCount > 0) return 'contains-shared';
+  return entry.exposure ?? 'unknown';
+};
+
+export const isForeignOwned = (sharing: SharingReport, id: string): boolean =>
+  sharing.byId.get(id)?.isForeignOwner ?? false;
+
+/** Tooltip line describing an item's exposure, or null for items the report doesn't cover. */
+export const getSharingTitle = (sharing: SharingReport, id: string): string | null => {
+  const entry = sharing.byId.get(id);
+  if (!entry) return null;
+
+  const parts = [SHARING_LABELS[getSharingCategory(sharing, id)]];
+  if (entry.exposure && entry.exposure !== 'private') {
+    parts.push(`${entry.permissionsCount} with access`);
+  }
+  if (entry.sharedDescendantCount > 0) {
+    parts.push(`${entry.sharedDescendantCount} shared inside`);
+  }
+  if (entry.owner) {
+    parts.push(entry.isForeignOwner ? `owned by ${entry.owner}` : `owner ${entry.owner}`);
+  }
+  return parts.join(' · ');
+};
+
+export const countSharingCategories = (sharing: SharingReport) => {
+  const counts: Record<SharingCategory, number> = {
+    'widely-shared': 0,
+    shared: 0,
+    'contains-shared': 0,
+    private: 0,
+    unknown: 0,
+  };
+  let foreignCount = 0;
+
+  sharing.byId.forEach((entry, id) => {
+    counts[getSharingCategory(sharing, id)] += 1;
+    if (entry.isForeignOwner) foreignCount += 1;
+  });
+
+  return { counts, foreignCount };
+};
@@ -0,0 +1,23 @@
+import { downloadBlob } from './download';
+
+type CsvValue = string | number | null | undefined;
+
+// Text a spreadsheet would run as a formula. Names come from imported
+// snapshots and shared maps, so they can't be trusted.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: CsvValue): string => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  // Numbers are written as they are, so negative values stay numeric
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Serializes rows as RFC 4180 CSV with CRLF line endings. */
+export const toCsv = (headers: string[], rows: CsvValue[][]): string =>
+  [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+export const downloadCsv = (csv: string, fileName: string) => {
+  // Lead with a byte order mark so spreadsheet apps read the file as UTF-8.
+  downloadBlob(new Blob(['﻿', csv], { type: 'text/csv;charset=utf-8' }), fileName);
+};
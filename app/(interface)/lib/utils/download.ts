@@ -0,0 +1,14 @@
+/** Saves a blob through a temporary link; the object URL is released once the click has been handled. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** The current time for file names, e.g. 2024-01-31T09-30-00-000Z. */
+export const getTimestamp = () => new Date().toISOString().replace(/[:.]/g, '-');
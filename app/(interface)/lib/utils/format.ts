@@ -0,0 +1,20 @@
+export const formatSize = (bytes: number): string => {
+  if (bytes <= 0) {
+    return '0 KB';
+  }
+
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let size = bytes / 1024;
+  let unitIndex = 0;
+
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+
+  const formatted = size >= 10 ? Math.round(size) : Number(size.toFixed(1));
+  return `${formatted} ${units[unitIndex]}`;
+};
+
+export const formatCount = (count: number, singular: string, plural = `${singular}s`): string =>
+  `${count} ${count === 1 ? singular : plural}`;
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+
+import {
+  DEFAULT_LOCAL_SCAN_IGNORE,
+  DEFAULT_LOCAL_SCAN_MAX_DEPTH,
+  DEFAULT_LOCAL_SCAN_MAX_NODES,
+  scanLocalDirectory,
+} from "@/lib/localScan";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const parsePositiveInt = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const parseList = (value: string | undefined): string[] | null =>
+  value
+    ? value
+        .split(",")
+        .map(item => item.trim())
+        .filter(Boolean)
+    : null;
+
+/**
+ * Scans the directory configured in `LOCAL_SCAN_ROOT`. The root only comes
+ * from the server environment; callers may lower `maxDepth` but never widen
+ * what is exposed.
+ *
+ * Environment: `LOCAL_SCAN_ROOT`, `LOCAL_SCAN_IGNORE` (comma-separated
+ * globs), `LOCAL_SCAN_MAX_DEPTH`, `LOCAL_SCAN_MAX_NODES`.
+ */
+export async function GET(request: Request) {
+  const root = process.env.LOCAL_SCAN_ROOT;
+  if (!root) {
+    return NextResponse.json({ error: "LOCAL_SCAN_ROOT is not configured" }, { status: 501 });
+  }
+
+  const configuredDepth = parsePositiveInt(process.env.LOCAL_SCAN_MAX_DEPTH) ?? DEFAULT_LOCAL_SCAN_MAX_DEPTH;
+  const requestedDepth = parsePositiveInt(new URL(request.url).searchParams.get("maxDepth"));
+
+  try {
+    const result = await scanLocalDirectory({
+      root,
+      ignore: parseList(process.env.LOCAL_SCAN_IGNORE) ?? DEFAULT_LOCAL_SCAN_IGNORE,
+      maxDepth: Math.min(configuredDepth, requestedDepth ?? configuredDepth),
+      maxNodes: parsePositiveInt(process.env.LOCAL_SCAN_MAX_NODES) ?? DEFAULT_LOCAL_SCAN_MAX_NODES,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Local scan failed", error);
+    return NextResponse.json({ error: "Failed to scan the configured directory" }, { status: 500 });
+  }
+}
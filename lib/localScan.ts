@@ -0,0 +1,201 @@
+import { createHash } from "crypto";
+import { lstat, readdir } from "fs/promises";
+import path from "path";
+
+import type { DriveNode } from "@/app/(interface)/components/right-sidebar/data-sources/driveNodes";
+import { getFileKind } from "@/app/(interface)/components/right-sidebar/data-sources/utils";
+
+export interface LocalScanOptions {
+  root: string;
+  ignore: string[];
+  maxDepth: number;
+  /** Stops the walk once this many nodes have been emitted. */
+  maxNodes: number;
+}
+
+export interface LocalScanResult {
+  nodes: DriveNode[];
+  root: string;
+  truncated: boolean;
+  /** Entries that could not be read, e.g. for lack of permission. */
+  skipped: number;
+  generatedAt: string;
+}
+
+export const DEFAULT_LOCAL_SCAN_IGNORE = ["**/node_modules", "**/.git", "**/.DS_Store", "**/Thumbs.db"];
+export const DEFAULT_LOCAL_SCAN_MAX_DEPTH = 8;
+export const DEFAULT_LOCAL_SCAN_MAX_NODES = 50000;
+
+const FOLDER_MIME_TYPE = "inode/directory";
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  heic: "image/heic",
+  svg: "image/svg+xml",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  json: "application/json",
+  txt: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+};
+
+const getMimeType = (name: string): string => {
+  const extension = path.extname(name).slice(1).toLowerCase();
+  return MIME_TYPES[extension] ?? "application/octet-stream";
+};
+
+/**
+ * Converts a glob to a regular expression over POSIX relative paths. `**`
+ * spans directories, `*` and `?` stay within one segment, and a pattern
+ * without a slash matches the entry name at any depth.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  const pattern = glob.includes("/") ? glob.replace(/^\//, "") : `**/${glob}`;
+  let source = "";
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === "*" && pattern[index + 1] === "*") {
+      const followedBySlash = pattern[index + 2] === "/";
+      source += followedBySlash ? "(?:.*/)?" : ".*";
+      index += followedBySlash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+const toNodeId = (relativePath: string): string =>
+  `local-${createHash("sha1").update(relativePath).digest("hex").slice(0, 24)}`;
+
+const toIsoDate = (date: Date): string | undefined =>
+  Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+
+/**
+ * Walks a directory and emits nodes in the `drive-database.json` schema.
+ * Symlinks are not followed, so loops on a NAS mount cannot trap the scan.
+ * Like the Drive export, folder metrics count direct contents only.
+ */
+export const scanLocalDirectory = async (options: LocalScanOptions): Promise<LocalScanResult> => {
+  const root = path.resolve(options.root);
+  const ignorePatterns = options.ignore.map(globToRegExp);
+  const nodes: DriveNode[] = [];
+  let truncated = false;
+  let skipped = 0;
+
+  const isIgnored = (relativePath: string) =>
+    ignorePatterns.some(pattern => pattern.test(relativePath));
+
+  const rootStats = await lstat(root);
+  if (!rootStats.isDirectory()) {
+    throw new Error(`${root} is not a directory`);
+  }
+
+  const visitDirectory = async (
+    absolutePath: string,
+    relativePath: string,
+    parentId: string | null,
+    depth: number,
+  ) => {
+    const stats = await lstat(absolutePath);
+    const folder: DriveNode = {
+      id: toNodeId(relativePath || "/"),
+      title: relativePath ? path.basename(absolutePath) : path.basename(root) || root,
+      parent_id: parentId,
+      kind: "folder",
+      mimeType: FOLDER_MIME_TYPE,
+      path: `/${relativePath}`,
+      fileCount: 0,
+      folderCount: 0,
+      totalSize: 0,
+      createdDate: toIsoDate(stats.birthtime),
+      modifiedDate: toIsoDate(stats.mtime),
+    };
+    nodes.push(folder);
+
+    if (depth >= options.maxDepth) {
+      return;
+    }
+
+    let entries;
+    try {
+      entries = await readdir(absolutePath, { withFileTypes: true });
+    } catch {
+      skipped += 1;
+      return;
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (nodes.length >= options.maxNodes) {
+        truncated = true;
+        return;
+      }
+
+      const entryRelative = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+      const entryAbsolute = path.join(absolutePath, entry.name);
+
+      if (entry.isSymbolicLink() || isIgnored(entryRelative)) {
+        continue;
+      }
+
+      try {
+        if (entry.isDirectory()) {
+          folder.folderCount += 1;
+          await visitDirectory(entryAbsolute, entryRelative, folder.id, depth + 1);
+        } else if (entry.isFile()) {
+          const fileStats = await lstat(entryAbsolute);
+          folder.fileCount += 1;
+          folder.totalSize += fileStats.size;
+          nodes.push({
+            id: toNodeId(entryRelative),
+            title: entry.name,
+            parent_id: folder.id,
+            kind: getFileKind(entry.name),
+            mimeType: getMimeType(entry.name),
+            path: `/${entryRelative}`,
+            fileCount: 0,
+            folderCount: 0,
+            totalSize: fileStats.size,
+            createdDate: toIsoDate(fileStats.birthtime),
+            modifiedDate: toIsoDate(fileStats.mtime),
+          });
+        }
+      } catch {
+        skipped += 1;
+      }
+    }
+  };
+
+  await visitDirectory(root, "", null, 0);
+
+  return {
+    nodes,
+    root: path.basename(root) || root,
+    truncated,
+    skipped,
+    generatedAt: new Date().toISOString(),
+  };
+};
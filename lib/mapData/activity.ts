@@ -0,0 +1,179 @@
+import type { FolderItem } from "@/app/(interface)/components/right-sidebar/data";
+
+export type ActivityBand = "hot" | "warm" | "cold" | "dormant";
+
+export const ACTIVITY_BANDS: ActivityBand[] = ["hot", "warm", "cold", "dormant"];
+
+/**
+ * Upper bounds, in days since the last modification, for each band. Anything
+ * older than `coldDays` is dormant.
+ */
+export interface ActivityThresholds {
+  hotDays: number;
+  warmDays: number;
+  coldDays: number;
+}
+
+export const DEFAULT_ACTIVITY_THRESHOLDS: ActivityThresholds = {
+  hotDays: 30,
+  warmDays: 180,
+  coldDays: 730,
+};
+
+export interface ActivityEntry {
+  id: string;
+  name: string;
+  path: string[];
+  serviceId: string | null;
+  depth: number;
+  activityScore: number;
+  totalSize: number;
+  createdAt: number | null;
+  /** Most recent modification anywhere in the folder's subtree. */
+  lastModifiedAt: number | null;
+}
+
+export interface ClassifiedActivityEntry extends ActivityEntry {
+  band: ActivityBand;
+  ageInDays: number | null;
+}
+
+export interface ActivityClassification {
+  referenceTime: number | null;
+  bands: Record<ActivityBand, ClassifiedActivityEntry[]>;
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const parseTime = (value: string | undefined): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+const latest = (a: number | null, b: number | null): number | null => {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.max(a, b);
+};
+
+interface TraverseContext {
+  serviceId: string | null;
+  path: string[];
+  depth: number;
+}
+
+const collectActivityEntries = (
+  folders: FolderItem[],
+  context: TraverseContext,
+  entries: ActivityEntry[],
+): number | null => {
+  let branchLatest: number | null = null;
+
+  folders.forEach(folder => {
+    if (!folder.isSelected) {
+      return;
+    }
+
+    const serviceId = context.depth === 0 ? folder.id : context.serviceId;
+    const path = [...context.path, folder.name];
+    const childrenLatest = collectActivityEntries(
+      folder.children ?? [],
+      { serviceId, path, depth: context.depth + 1 },
+      entries,
+    );
+    const lastModifiedAt = latest(parseTime(folder.activity?.modifiedDate), childrenLatest);
+
+    // Service roots only group their folders; they have no activity of their own.
+    if (context.depth > 0) {
+      entries.push({
+        id: folder.id,
+        name: folder.name,
+        path,
+        serviceId,
+        depth: context.depth,
+        activityScore: folder.activity?.activityScore ?? 0,
+        totalSize: folder.metrics?.totalSize ?? 0,
+        createdAt: parseTime(folder.activity?.createdDate),
+        lastModifiedAt,
+      });
+    }
+
+    branchLatest = latest(branchLatest, lastModifiedAt);
+  });
+
+  return branchLatest;
+};
+
+export const buildActivityEntries = (folders: FolderItem[]): ActivityEntry[] => {
+  if (!folders || folders.length === 0) {
+    return [];
+  }
+
+  const entries: ActivityEntry[] = [];
+  collectActivityEntries(folders, { serviceId: null, path: [], depth: 0 }, entries);
+  return entries;
+};
+
+export const normalizeActivityThresholds = (thresholds: ActivityThresholds): ActivityThresholds => {
+  const hotDays = Math.max(0, Math.round(thresholds.hotDays));
+  const warmDays = Math.max(hotDays, Math.round(thresholds.warmDays));
+  const coldDays = Math.max(warmDays, Math.round(thresholds.coldDays));
+  return { hotDays, warmDays, coldDays };
+};
+
+export const getActivityBand = (
+  ageInDays: number | null,
+  thresholds: ActivityThresholds,
+): ActivityBand => {
+  if (ageInDays === null) return "dormant";
+  if (ageInDays <= thresholds.hotDays) return "hot";
+  if (ageInDays <= thresholds.warmDays) return "warm";
+  if (ageInDays <= thresholds.coldDays) return "cold";
+  return "dormant";
+};
+
+/**
+ * Ages are measured against the newest modification in the snapshot rather
+ * than the wall clock, so an export taken months ago still shows which areas
+ * were active at the time it was taken.
+ */
+export const classifyActivity = (
+  entries: ActivityEntry[],
+  thresholds: ActivityThresholds = DEFAULT_ACTIVITY_THRESHOLDS,
+): ActivityClassification => {
+  const normalized = normalizeActivityThresholds(thresholds);
+  const referenceTime = entries.reduce<number | null>(
+    (current, entry) => latest(current, entry.lastModifiedAt),
+    null,
+  );
+
+  const bands: Record<ActivityBand, ClassifiedActivityEntry[]> = {
+    hot: [],
+    warm: [],
+    cold: [],
+    dormant: [],
+  };
+
+  entries.forEach(entry => {
+    const ageInDays =
+      referenceTime !== null && entry.lastModifiedAt !== null
+        ? Math.max(0, Math.floor((referenceTime - entry.lastModifiedAt) / DAY_IN_MS))
+        : null;
+    const band = getActivityBand(ageInDays, normalized);
+    bands[band].push({ ...entry, band, ageInDays });
+  });
+
+  ACTIVITY_BANDS.forEach(band => {
+    bands[band].sort(
+      (a, b) =>
+        b.activityScore - a.activityScore ||
+        (a.ageInDays ?? Number.MAX_SAFE_INTEGER) - (b.ageInDays ?? Number.MAX_SAFE_INTEGER),
+    );
+  });
+
+  return { referenceTime, bands };
+};
@@ -0,0 +1,248 @@
+import type { FileItem, FileKind, FolderItem } from "@/app/(interface)/components/right-sidebar/data";
+
+export const DEFAULT_LARGEST_FOLDER_COUNT = 10;
+
+export interface ServiceStorage {
+  id: string;
+  name: string;
+  totalSize: number;
+  fileCount: number;
+  folderCount: number;
+}
+
+export interface FolderStorage {
+  id: string;
+  name: string;
+  /** Folder names from the service root down to this folder. */
+  path: string[];
+  serviceId: string;
+  /** Everything stored in the folder and beneath it. */
+  totalSize: number;
+  fileCount: number;
+}
+
+export interface MimeTypeStorage {
+  mimeType: string;
+  count: number;
+  totalSize: number;
+}
+
+export interface FileKindStorage {
+  kind: FileKind;
+  count: number;
+  totalSize: number;
+  mimeTypes: MimeTypeStorage[];
+  /** The folder holding the most bytes of this kind. */
+  largestFolderId: string;
+}
+
+export interface GrowthPeriod {
+  /** Calendar month as `YYYY-MM`. */
+  period: string;
+  foldersCreated: number;
+  /** Bytes held directly by the folders created that month. */
+  sizeAdded: number;
+  cumulativeFolders: number;
+  cumulativeSize: number;
+  /** The biggest folder created that month. */
+  largestFolderId: string;
+}
+
+export interface StorageAnalytics {
+  totalSize: number;
+  fileCount: number;
+  folderCount: number;
+  services: ServiceStorage[];
+  largestFolders: FolderStorage[];
+  fileKinds: FileKindStorage[];
+  /** Files listed individually; sources that only report metrics add none. */
+  listedFileCount: number;
+  growth: GrowthPeriod[];
+  /** Folders without a usable createdDate, left out of `growth`. */
+  undatedFolderCount: number;
+}
+
+interface DirectContents {
+  totalSize: number;
+  fileCount: number;
+}
+
+interface FolderRecord extends FolderStorage {
+  createdPeriod: string | null;
+  direct: DirectContents;
+}
+
+const toCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+
+const sumFiles = (files: FileItem[]) => files.reduce((total, file) => total + toCount(file.totalSize), 0);
+
+// Folder metrics only count direct contents; without them the listed files are all there is.
+const getDirectContents = (folder: FolderItem): DirectContents => ({
+  totalSize: folder.metrics?.totalSize !== undefined ? toCount(folder.metrics.totalSize) : sumFiles(folder.files ?? []),
+  fileCount: folder.metrics?.fileCount !== undefined ? toCount(folder.metrics.fileCount) : folder.files?.length ?? 0,
+});
+
+const toPeriod = (value: string | undefined): string | null => {
+  const time = value ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    return null;
+  }
+
+  const date = new Date(time);
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+};
+
+/** Walks the selected folders, returning each one with its subtree totals. */
+const collectFolders = (
+  folders: FolderItem[],
+  serviceId: string,
+  path: string[],
+  records: FolderRecord[],
+  files: Array<{ file: FileItem; folderId: string }>,
+): DirectContents => {
+  const totals = { totalSize: 0, fileCount: 0 };
+
+  folders.forEach(folder => {
+    if (!folder.isSelected) {
+      return;
+    }
+
+    const folderPath = [...path, folder.name];
+    const nested = collectFolders(folder.children ?? [], serviceId, folderPath, records, files);
+    const direct = getDirectContents(folder);
+    (folder.files ?? []).forEach(file => files.push({ file, folderId: folder.id }));
+
+    records.push({
+      id: folder.id,
+      name: folder.name,
+      path: folderPath,
+      serviceId,
+      totalSize: direct.totalSize + nested.totalSize,
+      fileCount: direct.fileCount + nested.fileCount,
+      createdPeriod: toPeriod(folder.activity?.createdDate),
+      direct,
+    });
+
+    totals.totalSize += direct.totalSize + nested.totalSize;
+    totals.fileCount += direct.fileCount + nested.fileCount;
+  });
+
+  return totals;
+};
+
+const buildFileKinds = (files: Array<{ file: FileItem; folderId: string }>): FileKindStorage[] => {
+  const byKind = new Map<FileKind, { count: number; totalSize: number; mimeTypes: Map<string, MimeTypeStorage>; folders: Map<string, number> }>();
+
+  files.forEach(({ file, folderId }) => {
+    const size = toCount(file.totalSize);
+    let entry = byKind.get(file.kind);
+    if (!entry) {
+      entry = { count: 0, totalSize: 0, mimeTypes: new Map(), folders: new Map() };
+      byKind.set(file.kind, entry);
+    }
+    entry.count += 1;
+    entry.totalSize += size;
+    entry.folders.set(folderId, (entry.folders.get(folderId) ?? 0) + size);
+
+    const mimeType = file.mimeType || "unknown";
+    const mime = entry.mimeTypes.get(mimeType) ?? { mimeType, count: 0, totalSize: 0 };
+    mime.count += 1;
+    mime.totalSize += size;
+    entry.mimeTypes.set(mimeType, mime);
+  });
+
+  return Array.from(byKind, ([kind, entry]) => ({
+    kind,
+    count: entry.count,
+    totalSize: entry.totalSize,
+    mimeTypes: Array.from(entry.mimeTypes.values()).sort((a, b) => b.totalSize - a.totalSize),
+    largestFolderId: Array.from(entry.folders).reduce((best, current) => (current[1] > best[1] ? current : best))[0],
+  })).sort((a, b) => b.totalSize - a.totalSize || b.count - a.count);
+};
+
+const buildGrowth = (records: FolderRecord[]): GrowthPeriod[] => {
+  const byPeriod = new Map<string, { created: FolderRecord[] }>();
+  records.forEach(record => {
+    if (record.createdPeriod === null) return;
+
+    const entry = byPeriod.get(record.createdPeriod) ?? { created: [] };
+    entry.created.push(record);
+    byPeriod.set(record.createdPeriod, entry);
+  });
+
+  let cumulativeFolders = 0;
+  let cumulativeSize = 0;
+  return Array.from(byPeriod.keys())
+    .sort()
+    .map(period => {
+      const { created } = byPeriod.get(period)!;
+      const sizeAdded = created.reduce((total, record) => total + record.direct.totalSize, 0);
+      cumulativeFolders += created.length;
+      cumulativeSize += sizeAdded;
+
+      return {
+        period,
+        foldersCreated: created.length,
+        sizeAdded,
+        cumulativeFolders,
+        cumulativeSize,
+        largestFolderId: created.reduce((best, record) => (record.totalSize > best.totalSize ? record : best)).id,
+      };
+    });
+};
+
+/**
+ * Summarizes the selected folders for the analytics dashboard. Service roots
+ * only group their folders, so they appear under `services` rather than as
+ * folders of their own.
+ */
+export const buildStorageAnalytics = (
+  folders: FolderItem[],
+  largestCount: number = DEFAULT_LARGEST_FOLDER_COUNT,
+): StorageAnalytics => {
+  const records: FolderRecord[] = [];
+  const files: Array<{ file: FileItem; folderId: string }> = [];
+
+  const services = (folders ?? [])
+    .filter(service => service.isSelected)
+    .map(service => {
+      const before = records.length;
+      const totals = collectFolders(service.children ?? [], service.id, [service.name], records, files);
+      (service.files ?? []).forEach(file => files.push({ file, folderId: service.id }));
+      const direct = getDirectContents(service);
+
+      return {
+        id: service.id,
+        name: service.name,
+        totalSize: totals.totalSize + direct.totalSize,
+        fileCount: totals.fileCount + direct.fileCount,
+        folderCount: records.length - before,
+      };
+    });
+
+  const undatedFolderCount = records.filter(record => record.createdPeriod === null).length;
+  const toStorage = ({ id, name, path, serviceId, totalSize, fileCount }: FolderRecord): FolderStorage => ({
+    id,
+    name,
+    path,
+    serviceId,
+    totalSize,
+    fileCount,
+  });
+
+  return {
+    totalSize: services.reduce((total, service) => total + service.totalSize, 0),
+    fileCount: services.reduce((total, service) => total + service.fileCount, 0),
+    folderCount: records.length,
+    services: services.sort((a, b) => b.totalSize - a.totalSize),
+    largestFolders: [...records]
+      .sort((a, b) => b.totalSize - a.totalSize)
+      .slice(0, Math.max(0, largestCount))
+      .map(toStorage),
+    fileKinds: buildFileKinds(files),
+    listedFileCount: files.length,
+    growth: buildGrowth(records),
+    undatedFolderCount,
+  };
+};
@@ -1,12 +1,19 @@
-import type { FolderItem } from "@/app/(interface)/components/right-sidebar/data";
+import type { FileKind, FolderItem } from "@/app/(interface)/components/right-sidebar/data";
+import { DEFAULT_FILE_LEAF_LIMIT, getFileLeaves } from "./files";
+
+/** Files only appear when the folder data carries them ("show files" mode). */
+export type BubbleNodeType = "folder" | "file" | "more-files";
 
 export interface BubbleNode {
   id: string;
   name: string;
   size: number;
+  fileCount: number;
   depth: number;
   parentId: string | null;
   serviceId: string | null;
+  type: BubbleNodeType;
+  fileKind?: FileKind;
 }
 
 export interface BubbleTreeNode extends BubbleNode {
@@ -18,10 +25,13 @@ export interface BubbleTree {
   nodeMap: Map<string, BubbleTreeNode>;
 }
 
+export type BubbleMeasure = "size" | "fileCount";
+
 interface TraverseContext {
   serviceId: string | null;
   parentId: string | null;
   depth: number;
+  fileLimit: number;
 }
 
 const ensurePositiveNumber = (value: unknown): number => {
@@ -31,12 +41,60 @@ const ensurePositiveNumber = (value: unknown): number => {
   return value;
 };
 
+interface BranchTotals {
+  size: number;
+  fileCount: number;
+}
+
+const collectFileLeaves = (
+  folder: FolderItem,
+  context: TraverseContext,
+  nodes: BubbleNode[],
+): BranchTotals => {
+  const { files, overflow } = getFileLeaves(folder, context.fileLimit);
+  const total: BranchTotals = { size: 0, fileCount: 0 };
+
+  files.forEach(file => {
+    const size = ensurePositiveNumber(file.totalSize);
+    nodes.push({
+      id: file.id,
+      name: file.name,
+      size,
+      fileCount: 1,
+      depth: context.depth,
+      parentId: context.parentId,
+      serviceId: context.serviceId,
+      type: "file",
+      fileKind: file.kind,
+    });
+    total.size += size;
+    total.fileCount += 1;
+  });
+
+  if (overflow) {
+    nodes.push({
+      id: overflow.id,
+      name: overflow.name,
+      size: overflow.totalSize,
+      fileCount: overflow.count,
+      depth: context.depth,
+      parentId: context.parentId,
+      serviceId: context.serviceId,
+      type: "more-files",
+    });
+    total.size += overflow.totalSize;
+    total.fileCount += overflow.count;
+  }
+
+  return total;
+};
+
 const collectBubbleNodes = (
   folders: FolderItem[],
   context: TraverseContext,
   nodes: BubbleNode[],
-): number => {
-  let branchTotal = 0;
+): BranchTotals => {
+  const branchTotal: BranchTotals = { size: 0, fileCount: 0 };
 
   folders.forEach(folder => {
     if (!folder.isSelected) {
@@ -49,31 +107,46 @@ const collectBubbleNodes = (
       parentId: folder.id,
       depth: context.depth + 1,
       serviceId,
+      fileLimit: context.fileLimit,
     };
 
     const childrenTotal = children.length
       ? collectBubbleNodes(children, nextContext, nodes)
-      : 0;
+      : { size: 0, fileCount: 0 };
+
+    if (folder.files?.length) {
+      const filesTotal = collectFileLeaves(folder, nextContext, nodes);
+      childrenTotal.size += filesTotal.size;
+      childrenTotal.fileCount += filesTotal.fileCount;
+    }
 
     const ownSize = ensurePositiveNumber(folder.metrics?.totalSize);
-    const computedSize = Math.max(ownSize, childrenTotal);
+    const computedSize = Math.max(ownSize, childrenTotal.size);
+    const ownFileCount = ensurePositiveNumber(folder.metrics?.fileCount);
+    const computedFileCount = Math.max(ownFileCount, childrenTotal.fileCount);
 
     nodes.push({
       id: folder.id,
       name: folder.name,
       size: computedSize,
+      fileCount: computedFileCount,
       depth: context.depth,
       parentId: context.parentId,
       serviceId,
+      type: "folder",
     });
 
-    branchTotal += computedSize;
+    branchTotal.size += computedSize;
+    branchTotal.fileCount += computedFileCount;
   });
 
   return branchTotal;
 };
 
-export const buildBubbleNodes = (folders: FolderItem[]): BubbleNode[] => {
+export const buildBubbleNodes = (
+  folders: FolderItem[],
+  options: { fileLimit?: number } = {},
+): BubbleNode[] => {
   if (!folders || folders.length === 0) {
     return [];
   }
@@ -81,22 +154,32 @@ export const buildBubbleNodes = (folders: FolderItem[]): BubbleNode[] => {
   const nodes: BubbleNode[] = [];
   collectBubbleNodes(
     folders,
-    { depth: 0, parentId: null, serviceId: null },
+    {
+      depth: 0,
+      parentId: null,
+      serviceId: null,
+      fileLimit: options.fileLimit ?? DEFAULT_FILE_LEAF_LIMIT,
+    },
     nodes,
   );
 
   return nodes;
 };
 
-const sortBySizeDesc = (a: BubbleTreeNode, b: BubbleTreeNode) => b.size - a.size;
+export const getBubbleMeasure = (node: BubbleNode, measure: BubbleMeasure = "size"): number =>
+  measure === "fileCount" ? node.fileCount : node.size;
 
 export const buildBubbleTree = (
   nodes: BubbleNode[],
-  options: { minDepth?: number } = {},
+  options: { minDepth?: number; measure?: BubbleMeasure } = {},
 ): BubbleTree => {
-  const { minDepth = 0 } = options;
+  const { minDepth = 0, measure = "size" } = options;
+  const sortByMeasureDesc = (a: BubbleTreeNode, b: BubbleTreeNode) =>
+    getBubbleMeasure(b, measure) - getBubbleMeasure(a, measure);
 
-  const filteredNodes = nodes.filter(node => node.size > 0 && node.depth >= minDepth);
+  const filteredNodes = nodes.filter(
+    node => getBubbleMeasure(node, measure) > 0 && node.depth >= minDepth,
+  );
   const nodeMap = new Map<string, BubbleTreeNode>();
 
   filteredNodes.forEach(node => {
@@ -116,8 +199,8 @@ export const buildBubbleTree = (
     }
   });
 
-  roots.sort(sortBySizeDesc);
-  nodeMap.forEach(node => node.children.sort(sortBySizeDesc));
+  roots.sort(sortByMeasureDesc);
+  nodeMap.forEach(node => node.children.sort(sortByMeasureDesc));
 
   return { roots, nodeMap };
 };
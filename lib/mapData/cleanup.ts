@@ -0,0 +1,350 @@
+import {
+  FILE_KINDS,
+  type FileItem,
+  type FileKind,
+  type FolderItem,
+} from "@/app/(interface)/components/right-sidebar/data";
+
+export type CleanupSeverity = "low" | "medium" | "high";
+export type CleanupTarget = "file" | "folder";
+
+export const CLEANUP_SEVERITIES: CleanupSeverity[] = ["high", "medium", "low"];
+
+/**
+ * What an item has to satisfy for a rule to flag it; every condition that is
+ * set must hold. Sizes are in bytes and folder counts cover the whole subtree.
+ */
+export interface CleanupConditions {
+  /** Files only. */
+  kinds?: FileKind[];
+  /** Files only; exact MIME types. */
+  mimeTypes?: string[];
+  minSize?: number;
+  maxSize?: number;
+  /** Days since the item was last modified. Items without a date never match. */
+  minAgeDays?: number;
+  /** Folders only. */
+  minFileCount?: number;
+  /** Folders only. */
+  maxFileCount?: number;
+  /** Folders only; direct subfolders. */
+  maxSubfolders?: number;
+  /** Folders only. Folders without a score never match. */
+  maxActivityScore?: number;
+  /** Files only: the item the file links to, e.g. a shortcut's target, is missing from the loaded trees. */
+  orphaned?: boolean;
+}
+
+export interface CleanupRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: CleanupSeverity;
+  target: CleanupTarget;
+  conditions: CleanupConditions;
+}
+
+export interface CleanupRecommendation {
+  /** The flagged file or folder. */
+  id: string;
+  type: CleanupTarget;
+  name: string;
+  serviceId: string;
+  /** Names from the service root down to the item itself. */
+  path: string[];
+  size: number;
+  modifiedDate?: string;
+  /** The most severe of the matching rules. */
+  severity: CleanupSeverity;
+  ruleIds: string[];
+}
+
+export interface CleanupOptions {
+  /** Reference time for ages, in milliseconds. */
+  now?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+export const DEFAULT_CLEANUP_RULES: CleanupRule[] = [
+  {
+    id: "stale-archives",
+    name: "Large archives untouched for 2+ years",
+    enabled: true,
+    severity: "high",
+    target: "file",
+    conditions: { kinds: ["archive"], minSize: 100 * MB, minAgeDays: 730 },
+  },
+  {
+    id: "orphaned-shortcuts",
+    name: "Orphaned Drive shortcuts",
+    enabled: true,
+    severity: "medium",
+    target: "file",
+    conditions: { mimeTypes: ["application/vnd.google-apps.shortcut"], orphaned: true },
+  },
+  {
+    id: "empty-folders",
+    name: "Empty folders",
+    enabled: true,
+    severity: "low",
+    target: "folder",
+    conditions: { maxFileCount: 0, maxSubfolders: 0 },
+  },
+  {
+    id: "single-file-folders",
+    name: "Folders holding a single file",
+    enabled: true,
+    severity: "low",
+    target: "folder",
+    conditions: { minFileCount: 1, maxFileCount: 1, maxSubfolders: 0 },
+  },
+  {
+    id: "inactive-folders",
+    name: "Inactive folders untouched for a year",
+    enabled: false,
+    severity: "medium",
+    target: "folder",
+    conditions: { maxActivityScore: 10, minAgeDays: 365 },
+  },
+];
+
+interface ContentTotals {
+  totalSize: number;
+  fileCount: number;
+}
+
+interface ItemFacts {
+  type: CleanupTarget;
+  size: number;
+  modifiedDate?: string;
+  kind?: FileKind;
+  mimeType?: string;
+  fileCount?: number;
+  subfolderCount?: number;
+  activityScore?: number;
+  orphaned?: boolean;
+}
+
+const toCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+
+// Drive links name their item as .../d/<id>/..., .../folders/<id> or ?id=<id>.
+const DRIVE_LINK_ID = /\/(?:d|folders)\/([\w-]+)|[?&]id=([\w-]+)/;
+
+/** The id of the item a link points at, or undefined when the link doesn't name one. */
+const getLinkedItemId = (link: string | undefined): string | undefined => {
+  const match = link ? DRIVE_LINK_ID.exec(link) : null;
+  return match ? match[1] ?? match[2] : undefined;
+};
+
+const collectItemIds = (folders: FolderItem[]): Set<string> => {
+  const ids = new Set<string>();
+  const visit = (folder: FolderItem) => {
+    ids.add(folder.id);
+    (folder.files ?? []).forEach(file => ids.add(file.id));
+    (folder.children ?? []).forEach(visit);
+  };
+  (folders ?? []).forEach(visit);
+  return ids;
+};
+
+// Folder metrics only count direct contents; without them the listed files are all there is.
+const getContentTotals = (folder: FolderItem): ContentTotals => ({
+  totalSize: folder.metrics?.totalSize !== undefined
+    ? toCount(folder.metrics.totalSize)
+    : (folder.files ?? []).reduce((total, file) => total + toCount(file.totalSize), 0),
+  fileCount: folder.metrics?.fileCount !== undefined ? toCount(folder.metrics.fileCount) : folder.files?.length ?? 0,
+});
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const getAgeDays = (date: string | undefined, now: number): number | null => {
+  const time = date ? Date.parse(date) : NaN;
+  return Number.isNaN(time) ? null : (now - time) / DAY_MS;
+};
+
+const matchesConditions = (facts: ItemFacts, conditions: CleanupConditions, now: number): boolean => {
+  const { kinds, mimeTypes, minSize, maxSize, minAgeDays, minFileCount, maxFileCount, maxSubfolders, maxActivityScore, orphaned } =
+    conditions;
+
+  if (kinds?.length && (!facts.kind || !kinds.includes(facts.kind))) return false;
+  if (mimeTypes?.length && (!facts.mimeType || !mimeTypes.includes(facts.mimeType))) return false;
+  if (isNumber(minSize) && facts.size < minSize) return false;
+  if (isNumber(maxSize) && facts.size > maxSize) return false;
+  if (isNumber(minAgeDays)) {
+    const age = getAgeDays(facts.modifiedDate, now);
+    if (age === null || age < minAgeDays) return false;
+  }
+  if (isNumber(minFileCount) && (facts.fileCount ?? 0) < minFileCount) return false;
+  if (isNumber(maxFileCount) && (facts.fileCount ?? 0) > maxFileCount) return false;
+  if (isNumber(maxSubfolders) && (facts.subfolderCount ?? 0) > maxSubfolders) return false;
+  if (isNumber(maxActivityScore) && (!isNumber(facts.activityScore) || facts.activityScore > maxActivityScore)) {
+    return false;
+  }
+  if (orphaned !== undefined && Boolean(facts.orphaned) !== orphaned) return false;
+  return true;
+};
+
+const getSeverityRank = (severity: CleanupSeverity) => CLEANUP_SEVERITIES.indexOf(severity);
+
+/**
+ * Runs the enabled rules over every service tree. An item matching several
+ * rules is listed once, at the most severe of them, and nothing inside an
+ * already flagged folder is listed, since cleaning up the folder covers it.
+ */
+export const buildCleanupPlan = (
+  folders: FolderItem[],
+  rules: CleanupRule[],
+  { now = Date.now() }: CleanupOptions = {},
+): CleanupRecommendation[] => {
+  const enabledRules = rules.filter(rule => rule.enabled);
+  const recommendations: CleanupRecommendation[] = [];
+  const itemIds = collectItemIds(folders);
+  // A file without a readable link can't be shown to be orphaned.
+  const isOrphaned = (file: FileItem) => {
+    const linkedId = getLinkedItemId(file.link);
+    return linkedId !== undefined && !itemIds.has(linkedId);
+  };
+
+  const evaluate = (
+    base: Omit<CleanupRecommendation, "severity" | "ruleIds">,
+    facts: ItemFacts,
+  ): boolean => {
+    const matched = enabledRules.filter(
+      rule => rule.target === facts.type && matchesConditions(facts, rule.conditions, now),
+    );
+    if (matched.length === 0) return false;
+
+    recommendations.push({
+      ...base,
+      severity: matched.reduce<CleanupSeverity>(
+        (worst, rule) => (getSeverityRank(rule.severity) < getSeverityRank(worst) ? rule.severity : worst),
+        "low",
+      ),
+      ruleIds: matched.map(rule => rule.id),
+    });
+    return true;
+  };
+
+  const visitFiles = (files: FileItem[], serviceId: string, path: string[]) =>
+    files.forEach(file =>
+      evaluate(
+        {
+          id: file.id,
+          type: "file",
+          name: file.name,
+          serviceId,
+          path: [...path, file.name],
+          size: toCount(file.totalSize),
+          modifiedDate: file.modifiedDate,
+        },
+        {
+          type: "file",
+          size: toCount(file.totalSize),
+          modifiedDate: file.modifiedDate,
+          kind: file.kind,
+          mimeType: file.mimeType,
+          orphaned: isOrphaned(file),
+        },
+      ),
+    );
+
+  // Subtree totals come first so a folder can be judged before its contents.
+  const totals = new Map<string, ContentTotals>();
+  const measure = (folder: FolderItem): ContentTotals => {
+    const result = (folder.children ?? []).reduce((sum, child) => {
+      const nested = measure(child);
+      return { totalSize: sum.totalSize + nested.totalSize, fileCount: sum.fileCount + nested.fileCount };
+    }, getContentTotals(folder));
+    totals.set(folder.id, result);
+    return result;
+  };
+
+  const visitFolder = (folder: FolderItem, serviceId: string, path: string[]) => {
+    const folderPath = [...path, folder.name];
+    const children = folder.children ?? [];
+    const { totalSize, fileCount } = totals.get(folder.id) ?? getContentTotals(folder);
+
+    const flagged = evaluate(
+      {
+        id: folder.id,
+        type: "folder",
+        name: folder.name,
+        serviceId,
+        path: folderPath,
+        size: totalSize,
+        modifiedDate: folder.activity?.modifiedDate,
+      },
+      {
+        type: "folder",
+        size: totalSize,
+        modifiedDate: folder.activity?.modifiedDate,
+        fileCount,
+        subfolderCount: children.length,
+        activityScore: folder.activity?.activityScore,
+      },
+    );
+    if (flagged) return;
+
+    visitFiles(folder.files ?? [], serviceId, folderPath);
+    children.forEach(child => visitFolder(child, serviceId, folderPath));
+  };
+
+  (folders ?? []).forEach(service => {
+    visitFiles(service.files ?? [], service.id, [service.name]);
+    (service.children ?? []).forEach(folder => {
+      measure(folder);
+      visitFolder(folder, service.id, [service.name]);
+    });
+  });
+
+  return recommendations.sort(
+    (a, b) => getSeverityRank(a.severity) - getSeverityRank(b.severity) || b.size - a.size,
+  );
+};
+
+const CONDITION_NUMBER_KEYS = [
+  "minSize",
+  "maxSize",
+  "minAgeDays",
+  "minFileCount",
+  "maxFileCount",
+  "maxSubfolders",
+  "maxActivityScore",
+] as const;
+
+/** Validates a stored rule, dropping anything malformed. */
+export const normalizeCleanupRule = (value: unknown): CleanupRule | null => {
+  if (!value || typeof value !== "object") return null;
+
+  const rule = value as Partial<CleanupRule>;
+  if (typeof rule.id !== "string" || typeof rule.name !== "string") return null;
+  if (!CLEANUP_SEVERITIES.includes(rule.severity as CleanupSeverity)) return null;
+  if (rule.target !== "file" && rule.target !== "folder") return null;
+
+  const source = (rule.conditions && typeof rule.conditions === "object" ? rule.conditions : {}) as CleanupConditions;
+  const conditions: CleanupConditions = {};
+  CONDITION_NUMBER_KEYS.forEach(key => {
+    if (isNumber(source[key])) conditions[key] = source[key];
+  });
+  if (Array.isArray(source.kinds)) {
+    conditions.kinds = source.kinds.filter(kind => FILE_KINDS.includes(kind));
+  }
+  if (Array.isArray(source.mimeTypes)) {
+    conditions.mimeTypes = source.mimeTypes.filter((mimeType): mimeType is string => typeof mimeType === "string");
+  }
+  if (typeof source.orphaned === "boolean") {
+    conditions.orphaned = source.orphaned;
+  }
+
+  return {
+    id: rule.id,
+    name: rule.name,
+    enabled: rule.enabled !== false,
+    severity: rule.severity as CleanupSeverity,
+    target: rule.target,
+    conditions,
+  };
+};
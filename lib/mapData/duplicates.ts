@@ -0,0 +1,354 @@
+import type { FileItem, FolderItem } from "@/app/(interface)/components/right-sidebar/data";
+
+export type DuplicateMatch = "name-size" | "same-structure" | "similar-name";
+
+export interface DuplicateItem {
+  id: string;
+  name: string;
+  type: "file" | "folder";
+  serviceId: string;
+  /** The folder or service holding the item. */
+  parentId: string;
+  /** Names from the service root down to the item itself. */
+  path: string[];
+  /** Subtree size for folders. */
+  size: number;
+}
+
+export interface DuplicateGroup {
+  id: string;
+  match: DuplicateMatch;
+  /** Largest first; that copy is the one assumed to be kept. */
+  items: DuplicateItem[];
+  /** Space freed by removing every copy but the first. */
+  reclaimableSize: number;
+}
+
+export interface DuplicateReport {
+  groups: DuplicateGroup[];
+  /**
+   * Estimated space freed by removing the exact copies. Similar names alone
+   * don't prove a copy, so those groups don't count towards it.
+   */
+  reclaimableSize: number;
+  /** Group ids each duplicated file or folder belongs to. */
+  byId: Map<string, string[]>;
+}
+
+export interface DuplicateOptions {
+  /** Bigram similarity, from 0 to 1, at which two folder names count as the same. */
+  similarityThreshold?: number;
+  /** Subfolders a folder needs before its structure is worth comparing. */
+  minStructureFolders?: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: Required<DuplicateOptions> = {
+  similarityThreshold: 0.85,
+  minStructureFolders: 2,
+};
+
+export const DUPLICATE_MATCHES: DuplicateMatch[] = ["name-size", "same-structure", "similar-name"];
+
+const MIN_SIMILAR_NAME_LENGTH = 3;
+
+// Markers that sync clients and people add to copies: "Copy of x", "x - Copy",
+// "x (1)", "x [2]", "Backup of x" and Dropbox's "x (Sam's conflicted copy 2024-01-01)".
+const COPY_MARKERS = [
+  /^(copy|backup) of\s+/,
+  /\s*\([^)]*conflicted copy[^)]*\)$/,
+  /\s*[-_]?\s*(copy|backup)(\s*\(?\d+\)?)?$/,
+  /\s*[([]\d+[)\]]$/,
+];
+
+interface ItemRecord extends DuplicateItem {
+  ancestorIds: string[];
+  normalizedName: string;
+}
+
+interface FolderRecord extends ItemRecord {
+  /** Interned shape, names and sizes, of everything beneath the folder. */
+  shapeId: number;
+  subfolderCount: number;
+}
+
+const toCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+
+const splitExtension = (name: string): [string, string] => {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+};
+
+/**
+ * Lower-cases a name and strips copy markers and punctuation, so "Backup (1)"
+ * and "backup" compare equal. File extensions are kept.
+ */
+export const normalizeItemName = (name: string, isFile = false): string => {
+  const [base, extension] = isFile ? splitExtension(name.trim().toLowerCase()) : [name.trim().toLowerCase(), ""];
+  let stripped = base;
+  let previous: string;
+  do {
+    previous = stripped;
+    // A marker that would leave nothing is the name itself, as with a folder called "Backup".
+    stripped = COPY_MARKERS.reduce((value, marker) => value.replace(marker, "").trim() || value, stripped);
+  } while (stripped !== previous);
+
+  const words = stripped.replace(/[^a-z0-9\u00c0-\uffff]+/g, " ").trim();
+  return `${words}${extension}`;
+};
+
+const getBigrams = (value: string) => {
+  const bigrams = new Map<string, number>();
+  for (let index = 0; index < value.length - 1; index += 1) {
+    const bigram = value.slice(index, index + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+};
+
+/** Dice coefficient over character bigrams. */
+const getNameSimilarity = (a: Map<string, number>, aLength: number, b: Map<string, number>, bLength: number) => {
+  if (aLength < 2 || bLength < 2) return 0;
+
+  let shared = 0;
+  a.forEach((count, bigram) => {
+    shared += Math.min(count, b.get(bigram) ?? 0);
+  });
+  return (2 * shared) / (aLength - 1 + (bLength - 1));
+};
+
+const collectItems = (folders: FolderItem[]) => {
+  const folderRecords: FolderRecord[] = [];
+  const fileRecords: ItemRecord[] = [];
+  const shapes = new Map<string, number>();
+
+  const internShape = (shape: string) => {
+    let id = shapes.get(shape);
+    if (id === undefined) {
+      id = shapes.size;
+      shapes.set(shape, id);
+    }
+    return id;
+  };
+
+  const visitFiles = (files: FileItem[], serviceId: string, path: string[], ancestorIds: string[]) =>
+    files.forEach(file => {
+      fileRecords.push({
+        id: file.id,
+        name: file.name,
+        type: "file",
+        serviceId,
+        parentId: ancestorIds[ancestorIds.length - 1],
+        path: [...path, file.name],
+        size: toCount(file.totalSize),
+        ancestorIds,
+        normalizedName: normalizeItemName(file.name, true),
+      });
+    });
+
+  // Returns the subtree size, subfolder count and shape of each folder.
+  const visit = (
+    folder: FolderItem,
+    serviceId: string,
+    path: string[],
+    ancestorIds: string[],
+  ): { size: number; subfolderCount: number; shapeId: number } => {
+    const folderPath = [...path, folder.name];
+    const childAncestors = [...ancestorIds, folder.id];
+    const normalizedName = normalizeItemName(folder.name);
+
+    const children = (folder.children ?? []).map(child => ({
+      name: normalizeItemName(child.name),
+      ...visit(child, serviceId, folderPath, childAncestors),
+    }));
+    visitFiles(folder.files ?? [], serviceId, folderPath, childAncestors);
+
+    const directSize = folder.metrics?.totalSize !== undefined
+      ? toCount(folder.metrics.totalSize)
+      : (folder.files ?? []).reduce((total, file) => total + toCount(file.totalSize), 0);
+    const directFiles = folder.metrics?.fileCount !== undefined ? toCount(folder.metrics.fileCount) : folder.files?.length ?? 0;
+    const size = children.reduce((total, child) => total + child.size, directSize);
+    const subfolderCount = children.reduce((total, child) => total + child.subfolderCount + 1, 0);
+    // The folder's own name is left out, so a renamed copy keeps its shape.
+    // Sizes are part of it at every level: folders made from the same
+    // template share names and file counts without being copies.
+    const shapeId = internShape(
+      `${directFiles}:${directSize}[${children.map(child => `${child.name}=${child.shapeId}`).sort().join("/")}]`,
+    );
+
+    if (ancestorIds.length > 0) {
+      folderRecords.push({
+        id: folder.id,
+        name: folder.name,
+        type: "folder",
+        serviceId,
+        parentId: ancestorIds[ancestorIds.length - 1],
+        path: folderPath,
+        size,
+        ancestorIds,
+        normalizedName,
+        shapeId,
+        subfolderCount,
+      });
+    }
+
+    return { size, subfolderCount, shapeId };
+  };
+
+  (folders ?? []).forEach(service => visit(service, service.id, [], []));
+  return { folderRecords, fileRecords };
+};
+
+const groupBy = <T>(items: T[], getKey: (item: T) => string | null) => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = getKey(item);
+    if (key === null) return;
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
+
+// Folder names are clustered by similarity first, so each distinct name is
+// only compared once however many folders share it.
+const groupSimilarNames = (folders: FolderRecord[], threshold: number) => {
+  const byName = new Map<string, FolderRecord[]>();
+  folders.forEach(folder => {
+    if (folder.normalizedName.length < MIN_SIMILAR_NAME_LENGTH) return;
+    const named = byName.get(folder.normalizedName);
+    if (named) {
+      named.push(folder);
+    } else {
+      byName.set(folder.normalizedName, [folder]);
+    }
+  });
+
+  const names = Array.from(byName.keys());
+  const bigrams = names.map(getBigrams);
+  const parents = names.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  for (let a = 0; a < names.length; a += 1) {
+    for (let b = a + 1; b < names.length; b += 1) {
+      const shorter = Math.min(names[a].length, names[b].length);
+      const longer = Math.max(names[a].length, names[b].length);
+      // Dice can't reach the threshold when one name is much longer.
+      if ((2 * (shorter - 1)) / (shorter + longer - 2) < threshold) continue;
+      if (getNameSimilarity(bigrams[a], names[a].length, bigrams[b], names[b].length) >= threshold) {
+        parents[find(b)] = find(a);
+      }
+    }
+  }
+
+  const clusters = new Map<number, FolderRecord[]>();
+  names.forEach((name, index) => {
+    const root = find(index);
+    clusters.set(root, (clusters.get(root) ?? []).concat(byName.get(name)!));
+  });
+  return Array.from(clusters.values()).filter(group => group.length > 1);
+};
+
+const toGroup = (match: DuplicateMatch, records: ItemRecord[]): DuplicateGroup => {
+  const items = [...records]
+    .sort((a, b) => b.size - a.size || a.path.join("/").localeCompare(b.path.join("/")))
+    .map(({ id, name, type, serviceId, parentId, path, size }) => ({ id, name, type, serviceId, parentId, path, size }));
+
+  return {
+    id: `${match}:${items[0].id}`,
+    match,
+    items,
+    reclaimableSize: items.slice(1).reduce((total, item) => total + item.size, 0),
+  };
+};
+
+const getMemberKey = (records: ItemRecord[]) => records.map(record => record.id).sort().join("|");
+
+/**
+ * Finds copies across every service tree: files and folders sharing a name
+ * (copy markers aside) and size, folders with the same contents under any
+ * name, and folders whose names are merely alike. Groups nested entirely
+ * inside a larger exact match are dropped, since removing the outer copy
+ * removes them too.
+ */
+export const findDuplicates = (folders: FolderItem[], options: DuplicateOptions = {}): DuplicateReport => {
+  const { similarityThreshold, minStructureFolders } = { ...DEFAULT_DUPLICATE_OPTIONS, ...options };
+  const { folderRecords, fileRecords } = collectItems(folders);
+
+  const nameSizeKey = (record: ItemRecord) =>
+    record.size > 0 && record.normalizedName ? `${record.type}:${record.normalizedName}:${record.size}` : null;
+
+  const exactCandidates = [
+    ...groupBy(folderRecords, folder =>
+      folder.subfolderCount >= minStructureFolders && folder.size > 0 ? String(folder.shapeId) : null,
+    ).map(records => ({ match: "same-structure" as const, records })),
+    ...groupBy(folderRecords, nameSizeKey).map(records => ({ match: "name-size" as const, records })),
+    ...groupBy(fileRecords, nameSizeKey).map(records => ({ match: "name-size" as const, records })),
+  ].sort((a, b) => {
+    const aSize = a.records.reduce((total, record) => total + record.size, 0);
+    const bSize = b.records.reduce((total, record) => total + record.size, 0);
+    return bSize - aSize;
+  });
+
+  const matchedFolderIds = new Set<string>();
+  const seenMembers = new Set<string>();
+  const isNested = (records: ItemRecord[]) =>
+    records.every(record => record.ancestorIds.some(id => matchedFolderIds.has(id)));
+
+  const groups: DuplicateGroup[] = [];
+  exactCandidates.forEach(({ match, records }) => {
+    const memberKey = getMemberKey(records);
+    if (seenMembers.has(memberKey) || isNested(records)) return;
+
+    seenMembers.add(memberKey);
+    records.forEach(record => {
+      if (record.type === "folder") matchedFolderIds.add(record.id);
+    });
+    groups.push(toGroup(match, records));
+  });
+
+  groupSimilarNames(folderRecords, similarityThreshold).forEach(records => {
+    const memberKey = getMemberKey(records);
+    if (seenMembers.has(memberKey) || isNested(records)) return;
+
+    seenMembers.add(memberKey);
+    groups.push(toGroup("similar-name", records));
+  });
+
+  // Copies inside another removable copy go with it, so they only count once.
+  const removable = new Map<string, { size: number; ancestorIds: string[] }>();
+  const recordsById = new Map<string, ItemRecord>([...folderRecords, ...fileRecords].map(record => [record.id, record]));
+  groups
+    .filter(group => group.match !== "similar-name")
+    .forEach(group =>
+      group.items.slice(1).forEach(item => {
+        removable.set(item.id, { size: item.size, ancestorIds: recordsById.get(item.id)?.ancestorIds ?? [] });
+      }),
+    );
+  const reclaimableSize = Array.from(removable.values())
+    .filter(item => !item.ancestorIds.some(id => removable.has(id)))
+    .reduce((total, item) => total + item.size, 0);
+
+  const byId = new Map<string, string[]>();
+  groups.forEach(group =>
+    group.items.forEach(item => {
+      byId.set(item.id, [...(byId.get(item.id) ?? []), group.id]);
+    }),
+  );
+
+  return {
+    groups: groups.sort((a, b) => b.reclaimableSize - a.reclaimableSize),
+    reclaimableSize,
+    byId,
+  };
+};
@@ -0,0 +1,46 @@
+import type { FileItem, FolderItem } from "@/app/(interface)/components/right-sidebar/data";
+
+/** How many files a folder shows as individual leaves before the rest are grouped. */
+export const DEFAULT_FILE_LEAF_LIMIT = 8;
+
+export interface FileLeafOverflow {
+  id: string;
+  name: string;
+  count: number;
+  totalSize: number;
+}
+
+export interface FileLeaves {
+  files: FileItem[];
+  overflow: FileLeafOverflow | null;
+}
+
+export const getOverflowLeafId = (folderId: string): string => `${folderId}::more-files`;
+
+/**
+ * Picks the largest files of a folder as leaves and folds the remainder into
+ * a single "+N more" aggregate so busy folders stay readable.
+ */
+export const getFileLeaves = (
+  folder: Pick<FolderItem, "id" | "files">,
+  limit: number = DEFAULT_FILE_LEAF_LIMIT,
+): FileLeaves => {
+  const files = folder.files ?? [];
+  if (files.length <= limit) {
+    return { files, overflow: null };
+  }
+
+  const bySize = [...files].sort((a, b) => b.totalSize - a.totalSize);
+  const visible = bySize.slice(0, Math.max(0, limit));
+  const hidden = bySize.slice(visible.length);
+
+  return {
+    files: visible,
+    overflow: {
+      id: getOverflowLeafId(folder.id),
+      name: `+${hidden.length} more`,
+      count: hidden.length,
+      totalSize: hidden.reduce((total, file) => total + file.totalSize, 0),
+    },
+  };
+};
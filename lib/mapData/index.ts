@@ -1,2 +1,77 @@
-export type { BubbleNode, BubbleTreeNode, BubbleTree } from "./bubble";
-export { buildBubbleNodes, buildBubbleTree } from "./bubble";
+export type {
+  BubbleMeasure,
+  BubbleNode,
+  BubbleNodeType,
+  BubbleTreeNode,
+  BubbleTree,
+} from "./bubble";
+export { buildBubbleNodes, buildBubbleTree, getBubbleMeasure } from "./bubble";
+export type { FolderTreeNode } from "./tree";
+export { buildFolderTree, flattenFolderTree, getFolderAncestry } from "./tree";
+export type {
+  ActivityBand,
+  ActivityClassification,
+  ActivityEntry,
+  ActivityThresholds,
+  ClassifiedActivityEntry,
+} from "./activity";
+export {
+  ACTIVITY_BANDS,
+  DEFAULT_ACTIVITY_THRESHOLDS,
+  buildActivityEntries,
+  classifyActivity,
+  getActivityBand,
+  normalizeActivityThresholds,
+} from "./activity";
+export type { FileLeafOverflow, FileLeaves } from "./files";
+export { DEFAULT_FILE_LEAF_LIMIT, getFileLeaves, getOverflowLeafId } from "./files";
+export type {
+  FileKindStorage,
+  FolderStorage,
+  GrowthPeriod,
+  MimeTypeStorage,
+  ServiceStorage,
+  StorageAnalytics,
+} from "./analytics";
+export { DEFAULT_LARGEST_FOLDER_COUNT, buildStorageAnalytics } from "./analytics";
+export type {
+  DuplicateGroup,
+  DuplicateItem,
+  DuplicateMatch,
+  DuplicateOptions,
+  DuplicateReport,
+} from "./duplicates";
+export {
+  DEFAULT_DUPLICATE_OPTIONS,
+  DUPLICATE_MATCHES,
+  findDuplicates,
+  normalizeItemName,
+} from "./duplicates";
+export type {
+  CleanupConditions,
+  CleanupOptions,
+  CleanupRecommendation,
+  CleanupRule,
+  CleanupSeverity,
+  CleanupTarget,
+} from "./cleanup";
+export {
+  CLEANUP_SEVERITIES,
+  DEFAULT_CLEANUP_RULES,
+  buildCleanupPlan,
+  normalizeCleanupRule,
+} from "./cleanup";
+export type {
+  ExposureLevel,
+  NodeExposure,
+  OwnerCount,
+  SharingItem,
+  SharingOptions,
+  SharingReport,
+} from "./sharing";
+export {
+  DEFAULT_SHARING_OPTIONS,
+  EXPOSURE_LEVELS,
+  buildSharingReport,
+  getExposureLevel,
+} from "./sharing";
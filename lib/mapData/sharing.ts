@@ -0,0 +1,239 @@
+import type { FileItem, FolderItem, ItemSharing } from "@/app/(interface)/components/right-sidebar/data";
+
+export type ExposureLevel = "widely-shared" | "shared" | "private";
+
+export const EXPOSURE_LEVELS: ExposureLevel[] = ["widely-shared", "shared", "private"];
+
+export interface SharingOptions {
+  /** Owner treated as the account holder; worked out from the data when left out. */
+  accountOwner?: string | null;
+  /** Permission count from which a shared item counts as widely shared. */
+  widelySharedPermissions: number;
+}
+
+export const DEFAULT_SHARING_OPTIONS: SharingOptions = {
+  widelySharedPermissions: 5,
+};
+
+export interface NodeExposure {
+  /** Null when the source records no sharing for the item. */
+  exposure: ExposureLevel | null;
+  owner?: string;
+  permissionsCount: number;
+  /** Shared items anywhere beneath this one. */
+  sharedDescendantCount: number;
+  isForeignOwner: boolean;
+}
+
+export interface SharingItem {
+  id: string;
+  name: string;
+  type: "file" | "folder";
+  serviceId: string;
+  /** The folder holding the item; a folder's own id. */
+  parentId: string;
+  /** Names from the service root down to the item itself. */
+  path: string[];
+  owner?: string;
+  permissionsCount: number;
+  exposure: ExposureLevel;
+  isForeignOwner: boolean;
+}
+
+export interface OwnerCount {
+  owner: string;
+  count: number;
+}
+
+export interface SharingReport {
+  accountOwner: string | null;
+  /** Every owner seen, most items first. */
+  owners: OwnerCount[];
+  byId: Map<string, NodeExposure>;
+  /** Shared folders, most permissions first. */
+  sharedFolders: SharingItem[];
+  /** Items owned by someone else; nothing inside an item already listed for the same owner. */
+  foreignOwned: SharingItem[];
+  counts: Record<ExposureLevel, number>;
+  /** Items the source records no sharing for. */
+  unknownCount: number;
+  listedFileCount: number;
+}
+
+// Without a count, a shared item has at least one other person on it.
+const getPermissionsCount = (sharing: ItemSharing | undefined): number =>
+  typeof sharing?.permissionsCount === "number" && Number.isFinite(sharing.permissionsCount)
+    ? sharing.permissionsCount
+    : sharing?.shared
+      ? 2
+      : 1;
+
+/** How far an item is shared, or null when its source doesn't say. */
+export const getExposureLevel = (
+  sharing: ItemSharing | undefined,
+  widelySharedPermissions: number = DEFAULT_SHARING_OPTIONS.widelySharedPermissions,
+): ExposureLevel | null => {
+  if (!sharing || (sharing.shared === undefined && sharing.permissionsCount === undefined)) {
+    return null;
+  }
+
+  const permissions = getPermissionsCount(sharing);
+  if (permissions >= widelySharedPermissions) return "widely-shared";
+  if (sharing.shared || permissions > 1) return "shared";
+  return "private";
+};
+
+const countOwners = (folders: FolderItem[]): OwnerCount[] => {
+  const counts = new Map<string, number>();
+  const add = (sharing: ItemSharing | undefined) => {
+    if (sharing?.owner) counts.set(sharing.owner, (counts.get(sharing.owner) ?? 0) + 1);
+  };
+  const visit = (folder: FolderItem) => {
+    add(folder.sharing);
+    (folder.files ?? []).forEach(file => add(file.sharing));
+    (folder.children ?? []).forEach(visit);
+  };
+  (folders ?? []).forEach(visit);
+
+  return Array.from(counts, ([owner, count]) => ({ owner, count })).sort(
+    (a, b) => b.count - a.count || a.owner.localeCompare(b.owner),
+  );
+};
+
+// The account holder owns the top of each drive, e.g. "My Drive", even when
+// most of what sits inside came from other people.
+const getDefaultAccountOwner = (folders: FolderItem[], owners: OwnerCount[]): string | null => {
+  const topLevel = (folders ?? []).flatMap(service => service.children ?? []);
+  const topOwners = countOwners(topLevel.map(folder => ({ ...folder, files: undefined, children: undefined })));
+  return topOwners[0]?.owner ?? owners[0]?.owner ?? null;
+};
+
+/**
+ * Works out how exposed each item is for an access review. Exposure rolls up
+ * so every ancestor of a shared item knows it holds shared content, and items
+ * owned by anyone but the account holder are flagged.
+ */
+export const buildSharingReport = (
+  folders: FolderItem[],
+  options: Partial<SharingOptions> = {},
+): SharingReport => {
+  const { widelySharedPermissions } = { ...DEFAULT_SHARING_OPTIONS, ...options };
+  const owners = countOwners(folders);
+  const accountOwner = options.accountOwner ?? getDefaultAccountOwner(folders, owners);
+
+  const byId = new Map<string, NodeExposure>();
+  const sharedFolders: SharingItem[] = [];
+  const foreignOwned: SharingItem[] = [];
+  const counts: Record<ExposureLevel, number> = { "widely-shared": 0, shared: 0, private: 0 };
+  let unknownCount = 0;
+  let listedFileCount = 0;
+
+  const isForeign = (sharing: ItemSharing | undefined) =>
+    Boolean(accountOwner && sharing?.owner && sharing.owner !== accountOwner);
+
+  // Returns whether the item is shared, so the caller can count it.
+  const record = (
+    item: { id: string; name: string; sharing?: ItemSharing },
+    type: SharingItem["type"],
+    serviceId: string,
+    parentId: string,
+    path: string[],
+    sharedDescendantCount: number,
+    foreignAncestorOwner: string | null,
+  ): boolean => {
+    const exposure = getExposureLevel(item.sharing, widelySharedPermissions);
+    const isForeignOwner = isForeign(item.sharing);
+    const permissionsCount = getPermissionsCount(item.sharing);
+    byId.set(item.id, {
+      exposure,
+      owner: item.sharing?.owner,
+      permissionsCount,
+      sharedDescendantCount,
+      isForeignOwner,
+    });
+
+    if (exposure) {
+      counts[exposure] += 1;
+    } else {
+      unknownCount += 1;
+    }
+
+    const entry = (): SharingItem => ({
+      id: item.id,
+      name: item.name,
+      type,
+      serviceId,
+      parentId,
+      path,
+      owner: item.sharing?.owner,
+      permissionsCount,
+      exposure: exposure ?? "private",
+      isForeignOwner,
+    });
+    if (type === "folder" && (exposure === "shared" || exposure === "widely-shared")) {
+      sharedFolders.push(entry());
+    }
+    if (isForeignOwner && item.sharing?.owner !== foreignAncestorOwner) {
+      foreignOwned.push(entry());
+    }
+
+    return exposure === "shared" || exposure === "widely-shared";
+  };
+
+  const visitFiles = (
+    files: FileItem[],
+    serviceId: string,
+    folderId: string,
+    path: string[],
+    foreignAncestorOwner: string | null,
+  ): number =>
+    files.reduce((sharedCount, file) => {
+      listedFileCount += 1;
+      const isShared = record(file, "file", serviceId, folderId, [...path, file.name], 0, foreignAncestorOwner);
+      return sharedCount + (isShared ? 1 : 0);
+    }, 0);
+
+  // Returns the number of shared items in and beneath the folder, itself included.
+  const visitFolder = (
+    folder: FolderItem,
+    serviceId: string,
+    path: string[],
+    foreignAncestorOwner: string | null,
+  ): number => {
+    const folderPath = [...path, folder.name];
+    const nestedOwner = isForeign(folder.sharing) ? folder.sharing?.owner ?? null : foreignAncestorOwner;
+
+    const sharedDescendantCount =
+      visitFiles(folder.files ?? [], serviceId, folder.id, folderPath, nestedOwner) +
+      (folder.children ?? []).reduce(
+        (total, child) => total + visitFolder(child, serviceId, folderPath, nestedOwner),
+        0,
+      );
+
+    const isShared = record(
+      folder,
+      "folder",
+      serviceId,
+      folder.id,
+      folderPath,
+      sharedDescendantCount,
+      foreignAncestorOwner,
+    );
+    return sharedDescendantCount + (isShared ? 1 : 0);
+  };
+
+  (folders ?? []).forEach(service => visitFolder(service, service.id, [], null));
+
+  return {
+    accountOwner,
+    owners,
+    byId,
+    sharedFolders: sharedFolders.sort(
+      (a, b) => b.permissionsCount - a.permissionsCount || a.path.join("/").localeCompare(b.path.join("/")),
+    ),
+    foreignOwned: foreignOwned.sort((a, b) => a.path.join("/").localeCompare(b.path.join("/"))),
+    counts,
+    unknownCount,
+    listedFileCount,
+  };
+};
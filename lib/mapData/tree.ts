@@ -0,0 +1,112 @@
+import type { FolderItem, FolderMetrics } from "@/app/(interface)/components/right-sidebar/data";
+
+export interface FolderTreeNode {
+  id: string;
+  name: string;
+  depth: number;
+  parentId: string | null;
+  serviceId: string | null;
+  metrics: Required<FolderMetrics>;
+  children: FolderTreeNode[];
+}
+
+interface TraverseContext {
+  serviceId: string | null;
+  parentId: string | null;
+  depth: number;
+}
+
+const toCount = (value: unknown): number => {
+  if (typeof value !== "number" || Number.isNaN(value) || value < 0) {
+    return 0;
+  }
+  return value;
+};
+
+const sumSubtreeMetrics = (children: FolderTreeNode[]): Required<FolderMetrics> =>
+  children.reduce(
+    (totals, child) => {
+      const nested = sumSubtreeMetrics(child.children);
+      return {
+        totalSize: totals.totalSize + child.metrics.totalSize + nested.totalSize,
+        fileCount: totals.fileCount + child.metrics.fileCount + nested.fileCount,
+        folderCount: totals.folderCount + nested.folderCount + 1,
+      };
+    },
+    { totalSize: 0, fileCount: 0, folderCount: 0 },
+  );
+
+const collectTreeNodes = (folders: FolderItem[], context: TraverseContext): FolderTreeNode[] => {
+  const nodes: FolderTreeNode[] = [];
+
+  folders.forEach(folder => {
+    if (!folder.isSelected) {
+      return;
+    }
+
+    const serviceId = context.depth === 0 ? folder.id : context.serviceId;
+    const children = collectTreeNodes(folder.children ?? [], {
+      parentId: folder.id,
+      depth: context.depth + 1,
+      serviceId,
+    });
+
+    // Folder metrics only count direct contents. Service roots carry none,
+    // so they show the total of whatever is currently selected beneath them.
+    const metrics = folder.metrics
+      ? {
+          totalSize: toCount(folder.metrics.totalSize),
+          fileCount: toCount(folder.metrics.fileCount),
+          folderCount: toCount(folder.metrics.folderCount),
+        }
+      : sumSubtreeMetrics(children);
+
+    nodes.push({
+      id: folder.id,
+      name: folder.name,
+      depth: context.depth,
+      parentId: context.parentId,
+      serviceId,
+      metrics,
+      children,
+    });
+  });
+
+  return nodes;
+};
+
+export const buildFolderTree = (folders: FolderItem[]): FolderTreeNode[] => {
+  if (!folders || folders.length === 0) {
+    return [];
+  }
+
+  return collectTreeNodes(folders, { depth: 0, parentId: null, serviceId: null });
+};
+
+export const flattenFolderTree = (roots: FolderTreeNode[]): Map<string, FolderTreeNode> => {
+  const nodeMap = new Map<string, FolderTreeNode>();
+
+  const visit = (node: FolderTreeNode) => {
+    nodeMap.set(node.id, node);
+    node.children.forEach(visit);
+  };
+
+  roots.forEach(visit);
+  return nodeMap;
+};
+
+/** Ids from the service root down to `folderId`, or null when it isn't in the tree. */
+export const getFolderAncestry = (folders: FolderItem[], folderId: string): string[] | null => {
+  for (const folder of folders ?? []) {
+    if (folder.id === folderId) {
+      return [folder.id];
+    }
+
+    const nested = getFolderAncestry(folder.children ?? [], folderId);
+    if (nested) {
+      return [folder.id, ...nested];
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,116 @@
+import {
+  MAP_DOCUMENT_VERSION,
+  type CommentElement,
+  type MapDocument,
+  type MapDocumentContent,
+  type MapFolderState,
+  type MapViewport,
+} from "./types";
+
+export const DEFAULT_MAP_LAYOUT = "orbital";
+export const DEFAULT_MAP_PALETTE_ID = "blue";
+export const DEFAULT_MAP_VIEWPORT: MapViewport = { x: 0, y: 0, zoom: 100 };
+export const EMPTY_FOLDER_STATE: MapFolderState = { deselectedIds: [], suppressed: [] };
+
+/** The maps a first-time user starts with. */
+export const DEFAULT_MAP_NAMES = ["My Project Map", "Team Workspace", "Design System", "Marketing Campaign"];
+
+export const createMapDocumentId = (): string =>
+  `map-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createMapDocument = (name: string, content: Partial<MapDocumentContent> = {}): MapDocument => {
+  const now = new Date().toISOString();
+
+  return {
+    id: createMapDocumentId(),
+    version: MAP_DOCUMENT_VERSION,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    textElements: [],
+    commentElements: [],
+    selectedLayout: DEFAULT_MAP_LAYOUT,
+    selectedPaletteId: DEFAULT_MAP_PALETTE_ID,
+    folderState: EMPTY_FOLDER_STATE,
+    viewport: DEFAULT_MAP_VIEWPORT,
+    versions: [],
+    versionBlobs: {},
+    ...content,
+  };
+};
+
+/** Picks a name like "Untitled map 2" that is not taken yet. */
+export const getUntitledMapName = (existingNames: string[]): string => {
+  const taken = new Set(existingNames);
+  let index = 1;
+  while (taken.has(index === 1 ? "Untitled map" : `Untitled map ${index}`)) {
+    index += 1;
+  }
+  return index === 1 ? "Untitled map" : `Untitled map ${index}`;
+};
+
+/** Returns `name`, or "name (2)", "name (3)"… when it is already taken. */
+export const getAvailableMapName = (name: string, existingNames: string[]): string => {
+  const taken = new Set(existingNames);
+  let candidate = name;
+  for (let index = 2; taken.has(candidate); index += 1) {
+    candidate = `${name} (${index})`;
+  }
+  return candidate;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// JSON storage turns comment timestamps into strings.
+export const reviveComments = (elements: CommentElement[]): CommentElement[] =>
+  elements.map(element => ({
+    ...element,
+    comments: (element.comments ?? []).map(comment => ({
+      ...comment,
+      timestamp: comment.timestamp instanceof Date ? comment.timestamp : new Date(comment.timestamp),
+    })),
+  }));
+
+/**
+ * Fills in anything missing from a stored document so older or partially
+ * written records still open. Returns null for records that are not maps.
+ */
+export const normalizeMapDocument = (value: unknown): MapDocument | null => {
+  if (!isObject(value) || typeof value.id !== "string" || typeof value.name !== "string") {
+    return null;
+  }
+
+  const stored = value as Partial<MapDocument>;
+  const folderState = isObject(stored.folderState) ? stored.folderState : EMPTY_FOLDER_STATE;
+  const viewport = isObject(stored.viewport) ? stored.viewport : DEFAULT_MAP_VIEWPORT;
+  const createdAt = typeof stored.createdAt === "string" ? stored.createdAt : new Date().toISOString();
+
+  return {
+    id: value.id,
+    version: MAP_DOCUMENT_VERSION,
+    name: value.name,
+    createdAt,
+    updatedAt: typeof stored.updatedAt === "string" ? stored.updatedAt : createdAt,
+    textElements: Array.isArray(stored.textElements) ? stored.textElements : [],
+    commentElements: Array.isArray(stored.commentElements) ? reviveComments(stored.commentElements) : [],
+    selectedLayout: stored.selectedLayout === undefined ? DEFAULT_MAP_LAYOUT : stored.selectedLayout,
+    selectedPaletteId: stored.selectedPaletteId ?? DEFAULT_MAP_PALETTE_ID,
+    folderState: {
+      deselectedIds: Array.isArray(folderState.deselectedIds) ? folderState.deselectedIds : [],
+      suppressed: Array.isArray(folderState.suppressed) ? folderState.suppressed : [],
+      ...(Array.isArray(folderState.expandedIds) ? { expandedIds: folderState.expandedIds } : {}),
+    },
+    viewport: {
+      x: Number(viewport.x) || 0,
+      y: Number(viewport.y) || 0,
+      zoom: Number(viewport.zoom) || DEFAULT_MAP_VIEWPORT.zoom,
+    },
+    versions: Array.isArray(stored.versions)
+      ? stored.versions.filter(version => isObject(version) && typeof version.id === "string" && isObject(version.parts))
+      : [],
+    versionBlobs: isObject(stored.versionBlobs)
+      ? Object.fromEntries(Object.entries(stored.versionBlobs).filter(([, blob]) => typeof blob === "string"))
+      : {},
+  };
+};
@@ -0,0 +1,299 @@
+import { BOX_TYPES } from "@/lib/mapTypes";
+import { isServiceId } from "@/app/(interface)/components/right-sidebar/data";
+import { parseSnapshotNodes } from "@/app/(interface)/components/right-sidebar/data-sources/snapshotImport";
+import type { MapSnapshots } from "@/app/(interface)/components/right-sidebar/data-sources/snapshotStore";
+import { normalizeMapDocument } from "./document";
+import type { MapDocument, MapVersionContent } from "./types";
+
+export const FOXMAP_EXTENSION = ".foxmap";
+export const FOXMAP_SCHEMA_VERSION = 1;
+
+const FOXMAP_FORMAT = "foxmap";
+const MAX_REPORTED_ERRORS = 20;
+
+export type FoxmapMap = MapVersionContent & { name: string };
+
+/** A single map, portable between browsers: its content plus the snapshots it was built from. */
+export interface FoxmapFile {
+  format: typeof FOXMAP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  map: FoxmapMap;
+  snapshots: MapSnapshots;
+}
+
+export interface FoxmapParseResult {
+  /** Null when the file failed validation; `errors` says why. */
+  file: FoxmapFile | null;
+  errors: string[];
+}
+
+type RawObject = Record<string, unknown>;
+type Migration = (file: RawObject) => RawObject;
+
+/**
+ * `MIGRATIONS[n]` upgrades a schema `n` file to `n + 1`. Add one whenever
+ * FOXMAP_SCHEMA_VERSION is bumped so files exported earlier keep importing.
+ */
+const MIGRATIONS: Record<number, Migration> = {};
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(id => typeof id === "string");
+
+export const createFoxmapFile = (document: MapDocument, snapshots: MapSnapshots): FoxmapFile => ({
+  format: FOXMAP_FORMAT,
+  schemaVersion: FOXMAP_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  map: {
+    name: document.name,
+    textElements: document.textElements,
+    commentElements: document.commentElements,
+    selectedLayout: document.selectedLayout,
+    selectedPaletteId: document.selectedPaletteId,
+    folderState: document.folderState,
+    viewport: document.viewport,
+  },
+  // The diff baseline stays behind; the recipient starts from the snapshot itself.
+  snapshots: Object.fromEntries(
+    Object.entries(snapshots).map(([serviceId, snapshot]) => [serviceId, { ...snapshot, previous: undefined }]),
+  ),
+});
+
+export const serializeFoxmap = (file: FoxmapFile): string => JSON.stringify(file);
+
+export const getFoxmapFileName = (mapName: string): string =>
+  `${mapName.replace(/[\\/:*?"<>|]+/g, "-").trim() || "map"}${FOXMAP_EXTENSION}`;
+
+const migrateFoxmap = (file: RawObject, errors: string[]): RawObject | null => {
+  const { schemaVersion } = file;
+  if (typeof schemaVersion !== "number" || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    errors.push("schemaVersion must be a positive whole number");
+    return null;
+  }
+  if (schemaVersion > FOXMAP_SCHEMA_VERSION) {
+    errors.push(
+      `This file uses schema ${schemaVersion}, which is newer than this app supports (${FOXMAP_SCHEMA_VERSION}). Update Folder Fox to import it.`,
+    );
+    return null;
+  }
+
+  let migrated = file;
+  for (let version = schemaVersion; version < FOXMAP_SCHEMA_VERSION; version += 1) {
+    migrated = { ...MIGRATIONS[version](migrated), schemaVersion: version + 1 };
+  }
+  return migrated;
+};
+
+const expectType = (
+  value: unknown,
+  type: "string" | "number" | "boolean",
+  path: string,
+  errors: string[],
+  optional = false,
+) => {
+  if (value === undefined && optional) return;
+  if (typeof value !== type || (type === "number" && !Number.isFinite(value))) {
+    errors.push(`${path} must be a ${type}`);
+  }
+};
+
+const expectOneOf = (value: unknown, options: readonly string[], path: string, errors: string[]) => {
+  if (typeof value !== "string" || !options.includes(value)) {
+    errors.push(`${path} must be one of ${options.join(", ")}`);
+  }
+};
+
+const validateTextFormat = (format: unknown, path: string, errors: string[]) => {
+  if (!isObject(format)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  ["fontFamily", "textColor", "backgroundColor", "borderColor"].forEach(field =>
+    expectType(format[field], "string", `${path}.${field}`, errors),
+  );
+  ["fontSize", "borderThickness"].forEach(field => expectType(format[field], "number", `${path}.${field}`, errors));
+  ["width", "height"].forEach(field => expectType(format[field], "number", `${path}.${field}`, errors, true));
+  ["isBold", "isItalic", "isUnderline", "isLocked"].forEach(field =>
+    expectType(format[field], "boolean", `${path}.${field}`, errors, true),
+  );
+  expectType(format.link, "string", `${path}.link`, errors, true);
+  expectOneOf(format.borderStyle, ["solid", "dashed", "none"], `${path}.borderStyle`, errors);
+  expectOneOf(format.boxType, BOX_TYPES, `${path}.boxType`, errors);
+  expectOneOf(format.textAlign, ["left", "center", "right"], `${path}.textAlign`, errors);
+};
+
+const validateElements = (
+  value: unknown,
+  path: string,
+  errors: string[],
+  validateElement: (element: RawObject, elementPath: string) => void,
+) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+
+  value.forEach((element, index) => {
+    const elementPath = `${path}[${index}]`;
+    if (!isObject(element)) {
+      errors.push(`${elementPath} must be an object`);
+      return;
+    }
+    expectType(element.id, "string", `${elementPath}.id`, errors);
+    validateElement(element, elementPath);
+  });
+};
+
+const validateMap = (map: unknown, errors: string[]) => {
+  if (!isObject(map)) {
+    errors.push("map must be an object");
+    return;
+  }
+
+  if (typeof map.name !== "string" || map.name.trim() === "") {
+    errors.push("map.name must be a non-empty string");
+  }
+
+  validateElements(map.textElements, "map.textElements", errors, (element, path) => {
+    expectType(element.x, "number", `${path}.x`, errors);
+    expectType(element.y, "number", `${path}.y`, errors);
+    expectType(element.text, "string", `${path}.text`, errors);
+    validateTextFormat(element.format, `${path}.format`, errors);
+  });
+
+  validateElements(map.commentElements, "map.commentElements", errors, (element, path) => {
+    expectType(element.x, "number", `${path}.x`, errors);
+    expectType(element.y, "number", `${path}.y`, errors);
+    expectType(element.isExpanded, "boolean", `${path}.isExpanded`, errors);
+    validateElements(element.comments, `${path}.comments`, errors, (comment, commentPath) => {
+      ["author", "authorInitials", "content"].forEach(field =>
+        expectType(comment[field], "string", `${commentPath}.${field}`, errors),
+      );
+      if (typeof comment.timestamp !== "string" || Number.isNaN(Date.parse(comment.timestamp))) {
+        errors.push(`${commentPath}.timestamp must be a date`);
+      }
+    });
+  });
+
+  if (map.selectedLayout !== null) {
+    expectType(map.selectedLayout, "string", "map.selectedLayout", errors);
+  }
+  expectType(map.selectedPaletteId, "string", "map.selectedPaletteId", errors);
+
+  const { folderState, viewport } = map;
+  if (!isObject(folderState)) {
+    errors.push("map.folderState must be an object");
+  } else {
+    if (!isIdList(folderState.deselectedIds)) {
+      errors.push("map.folderState.deselectedIds must be an array of ids");
+    }
+    if (folderState.expandedIds !== undefined && !isIdList(folderState.expandedIds)) {
+      errors.push("map.folderState.expandedIds must be an array of ids");
+    }
+    validateElements(folderState.suppressed, "map.folderState.suppressed", errors, (folder, path) => {
+      expectType(folder.name, "string", `${path}.name`, errors);
+      expectType(folder.path, "string", `${path}.path`, errors);
+    });
+  }
+
+  if (!isObject(viewport)) {
+    errors.push("map.viewport must be an object");
+  } else {
+    ["x", "y", "zoom"].forEach(field => expectType(viewport[field], "number", `map.viewport.${field}`, errors));
+  }
+};
+
+const validateSnapshots = (snapshots: unknown, errors: string[]) => {
+  if (!isObject(snapshots)) {
+    errors.push("snapshots must be an object");
+    return;
+  }
+
+  Object.entries(snapshots).forEach(([serviceId, snapshot]) => {
+    const path = `snapshots.${serviceId}`;
+    if (!isServiceId(serviceId)) {
+      errors.push(`${path} is not a known service`);
+      return;
+    }
+    if (!isObject(snapshot) || snapshot.serviceId !== serviceId) {
+      errors.push(`${path} must be a snapshot for ${serviceId}`);
+      return;
+    }
+
+    expectType(snapshot.fileName, "string", `${path}.fileName`, errors);
+    expectType(snapshot.importedAt, "string", `${path}.importedAt`, errors);
+    expectType(snapshot.metricsProvided, "boolean", `${path}.metricsProvided`, errors);
+    if (!Array.isArray(snapshot.nodes)) {
+      errors.push(`${path}.nodes must be an array`);
+      return;
+    }
+
+    parseSnapshotNodes(snapshot.nodes).errors.forEach(error => {
+      errors.push(`${path}.nodes[${error.row - 1}]${error.field ? `.${error.field}` : ""}: ${error.message}`);
+    });
+  });
+};
+
+/**
+ * Reads a .foxmap file, upgrading older schemas first. Any validation error
+ * rejects the whole file so a half-imported map never reaches storage.
+ */
+export const parseFoxmap = (text: string): FoxmapParseResult => {
+  const errors: string[] = [];
+  const fail = (): FoxmapParseResult => ({ file: null, errors: errors.slice(0, MAX_REPORTED_ERRORS) });
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    errors.push(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    return fail();
+  }
+
+  if (!isObject(raw) || raw.format !== FOXMAP_FORMAT) {
+    errors.push("This is not a .foxmap file");
+    return fail();
+  }
+
+  const file = migrateFoxmap(raw, errors);
+  if (!file) {
+    return fail();
+  }
+
+  validateMap(file.map, errors);
+  validateSnapshots(file.snapshots, errors);
+  if (errors.length > 0) {
+    return fail();
+  }
+
+  // Normalizing revives comment timestamps and fills anything optional.
+  const map = file.map as FoxmapMap;
+  const normalized = normalizeMapDocument({ ...map, id: "foxmap-import" });
+  if (!normalized) {
+    errors.push("map could not be read");
+    return fail();
+  }
+
+  return {
+    file: {
+      format: FOXMAP_FORMAT,
+      schemaVersion: FOXMAP_SCHEMA_VERSION,
+      exportedAt: typeof file.exportedAt === "string" ? file.exportedAt : "",
+      map: {
+        name: normalized.name.trim(),
+        textElements: normalized.textElements,
+        commentElements: normalized.commentElements,
+        selectedLayout: normalized.selectedLayout,
+        selectedPaletteId: normalized.selectedPaletteId,
+        folderState: normalized.folderState,
+        viewport: normalized.viewport,
+      },
+      snapshots: file.snapshots as MapSnapshots,
+    },
+    errors,
+  };
+};
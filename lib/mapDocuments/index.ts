@@ -0,0 +1,43 @@
+export type {
+  CommentElement,
+  MapDocument,
+  MapDocumentContent,
+  MapFolderState,
+  MapVersion,
+  MapVersionContent,
+  MapViewport,
+  TextElement,
+} from "./types";
+export { MAP_DOCUMENT_VERSION } from "./types";
+export {
+  DEFAULT_MAP_LAYOUT,
+  DEFAULT_MAP_NAMES,
+  DEFAULT_MAP_PALETTE_ID,
+  DEFAULT_MAP_VIEWPORT,
+  EMPTY_FOLDER_STATE,
+  createMapDocument,
+  createMapDocumentId,
+  getAvailableMapName,
+  getUntitledMapName,
+  normalizeMapDocument,
+} from "./document";
+export {
+  addMapVersion,
+  checkpointMapDocument,
+  getVersionStorageSize,
+  matchesMapVersion,
+  readMapVersion,
+  readMapVersionSnapshots,
+  removeMapVersion,
+} from "./versions";
+export type { FoxmapFile, FoxmapMap, FoxmapParseResult } from "./foxmap";
+export {
+  FOXMAP_EXTENSION,
+  FOXMAP_SCHEMA_VERSION,
+  createFoxmapFile,
+  getFoxmapFileName,
+  parseFoxmap,
+  serializeFoxmap,
+} from "./foxmap";
+export type { MapDocumentStore } from "./storage";
+export { getMapDocumentStore, getStoredCurrentMapId, storeCurrentMapId } from "./storage";
@@ -0,0 +1,119 @@
+import { normalizeMapDocument } from "./document";
+import type { MapDocument } from "./types";
+
+export interface MapDocumentStore {
+  kind: "indexeddb" | "localstorage";
+  list: () => Promise<MapDocument[]>;
+  put: (document: MapDocument) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+const DATABASE_NAME = "folder-fox";
+const DATABASE_VERSION = 1;
+const DOCUMENT_STORE = "maps";
+const LOCAL_STORAGE_KEY = "map-documents";
+const CURRENT_MAP_KEY = "map-documents:current";
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(DOCUMENT_STORE)) {
+        request.result.createObjectStore(DOCUMENT_STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("The map database is open in an older tab"));
+  });
+
+const createIndexedDbStore = (database: IDBDatabase): MapDocumentStore => {
+  const objectStore = (mode: IDBTransactionMode) =>
+    database.transaction(DOCUMENT_STORE, mode).objectStore(DOCUMENT_STORE);
+
+  return {
+    kind: "indexeddb",
+    list: async () => {
+      const records = await toPromise(objectStore("readonly").getAll());
+      return records.flatMap(record => normalizeMapDocument(record) ?? []);
+    },
+    put: async document => {
+      await toPromise(objectStore("readwrite").put(document));
+    },
+    remove: async id => {
+      await toPromise(objectStore("readwrite").delete(id));
+    },
+  };
+};
+
+const createLocalStorageStore = (): MapDocumentStore => {
+  const read = (): MapDocument[] => {
+    try {
+      const parsed: unknown = JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) ?? "[]");
+      return Array.isArray(parsed) ? parsed.flatMap(record => normalizeMapDocument(record) ?? []) : [];
+    } catch (error) {
+      console.error("Failed to read stored maps", error);
+      return [];
+    }
+  };
+
+  const write = (documents: MapDocument[]) => {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(documents));
+  };
+
+  return {
+    kind: "localstorage",
+    list: async () => read(),
+    put: async document => {
+      const documents = read();
+      const index = documents.findIndex(item => item.id === document.id);
+      if (index === -1) {
+        documents.push(document);
+      } else {
+        documents[index] = document;
+      }
+      write(documents);
+    },
+    remove: async id => {
+      write(read().filter(item => item.id !== id));
+    },
+  };
+};
+
+let storePromise: Promise<MapDocumentStore> | null = null;
+
+/**
+ * Prefers IndexedDB and falls back to localStorage where it is missing or
+ * refuses to open, e.g. in some private browsing modes.
+ */
+export const getMapDocumentStore = (): Promise<MapDocumentStore> => {
+  if (!storePromise) {
+    storePromise = (async () => {
+      if (typeof indexedDB !== "undefined") {
+        try {
+          return createIndexedDbStore(await openDatabase());
+        } catch (error) {
+          console.warn("IndexedDB is unavailable, storing maps in localStorage", error);
+        }
+      }
+      return createLocalStorageStore();
+    })();
+  }
+
+  return storePromise;
+};
+
+export const getStoredCurrentMapId = (): string | null =>
+  typeof localStorage === "undefined" ? null : localStorage.getItem(CURRENT_MAP_KEY);
+
+export const storeCurrentMapId = (id: string) => {
+  if (typeof localStorage !== "undefined") {
+    localStorage.setItem(CURRENT_MAP_KEY, id);
+  }
+};
@@ -0,0 +1,82 @@
+import type { Comment } from "@/app/(interface)/components/CommentBox";
+import type { TextFormat } from "@/app/(interface)/components/TextFormatDialog";
+import type { SuppressedFolder } from "@/app/(interface)/components/right-sidebar/data";
+
+/** Bumped whenever the stored shape changes; older documents are normalized on load. */
+export const MAP_DOCUMENT_VERSION = 2;
+
+export interface TextElement {
+  id: string;
+  x: number;
+  y: number;
+  text: string;
+  format: TextFormat;
+  type: "text";
+}
+
+export interface CommentElement {
+  id: string;
+  x: number;
+  y: number;
+  comments: Comment[];
+  isExpanded: boolean;
+}
+
+export interface MapViewport {
+  x: number;
+  y: number;
+  /** Percent, as used by the canvas zoom controls. */
+  zoom: number;
+}
+
+/**
+ * Folder state is stored as exceptions to the default (everything selected,
+ * nothing suppressed) so it stays valid when the underlying data reloads.
+ */
+export interface MapFolderState {
+  deselectedIds: string[];
+  suppressed: SuppressedFolder[];
+  /** Folders open in the sidebar tree. Absent until first recorded, which keeps the tree's defaults. */
+  expandedIds?: string[];
+}
+
+export interface MapDocument {
+  id: string;
+  version: number;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  textElements: TextElement[];
+  commentElements: CommentElement[];
+  selectedLayout: string | null;
+  selectedPaletteId: string;
+  folderState: MapFolderState;
+  viewport: MapViewport;
+  /** Named checkpoints, oldest first. */
+  versions: MapVersion[];
+  /** Serialized version parts keyed by content hash, shared by every version that references them. */
+  versionBlobs: Record<string, string>;
+}
+
+/** The part of a map a version captures. */
+export type MapVersionContent = Pick<
+  MapDocument,
+  "textElements" | "commentElements" | "selectedLayout" | "selectedPaletteId" | "folderState" | "viewport"
+>;
+
+export interface MapVersion {
+  id: string;
+  name: string;
+  author: string;
+  createdAt: string;
+  /** Blob key of each captured field; unchanged fields point at the same blob as earlier versions. */
+  parts: Record<keyof MapVersionContent, string>;
+  /**
+   * Blob key of the imported snapshots the map was built from, which live
+   * outside the document. Absent on versions saved before they were captured.
+   */
+  snapshots?: string;
+}
+
+/** The parts of a document the editor changes; identity and timestamps are managed by the store. */
+export type MapDocumentContent = Omit<MapDocument, "id" | "version" | "createdAt" | "updatedAt">;
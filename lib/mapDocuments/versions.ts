@@ -0,0 +1,162 @@
+import type { MapSnapshots } from "@/app/(interface)/components/right-sidebar/data-sources/snapshotStore";
+import { reviveComments } from "./document";
+import type { MapDocument, MapVersion, MapVersionContent } from "./types";
+
+type VersionHistory = Pick<MapDocument, "versions" | "versionBlobs">;
+
+const VERSION_PARTS: Array<keyof MapVersionContent> = [
+  "textElements",
+  "commentElements",
+  "selectedLayout",
+  "selectedPaletteId",
+  "folderState",
+  "viewport",
+];
+
+/** cyrb53: a fast, well-distributed 53-bit string hash. Not cryptographic. */
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef ^ text.length;
+  let h2 = 0x41c6ce57 ^ text.length;
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Reuses the blob when identical content is already stored; a hash collision
+// with different content gets a suffixed key instead of overwriting it.
+const storeBlob = (blobs: Record<string, string>, json: string): string => {
+  const hash = hashString(json);
+  let key = hash;
+  for (let suffix = 1; blobs[key] !== undefined && blobs[key] !== json; suffix += 1) {
+    key = `${hash}-${suffix}`;
+  }
+
+  blobs[key] = json;
+  return key;
+};
+
+const createVersionId = (): string =>
+  `version-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Checkpoints the document's current content, and the map's imported
+ * snapshots when given. Each captured field is stored once per distinct value,
+ * so saving again without touching the folder tree adds only the small parts
+ * that changed.
+ */
+export const addMapVersion = (
+  document: MapDocument,
+  details: Pick<MapVersion, "name" | "author">,
+  snapshots?: MapSnapshots,
+): VersionHistory & { version: MapVersion } => {
+  const versionBlobs = { ...document.versionBlobs };
+  const parts = {} as MapVersion["parts"];
+  VERSION_PARTS.forEach(part => {
+    parts[part] = storeBlob(versionBlobs, JSON.stringify(document[part]));
+  });
+
+  const version: MapVersion = {
+    id: createVersionId(),
+    name: details.name,
+    author: details.author,
+    createdAt: new Date().toISOString(),
+    parts,
+    ...(snapshots ? { snapshots: storeBlob(versionBlobs, JSON.stringify(snapshots)) } : {}),
+  };
+
+  return { version, versions: [...document.versions, version], versionBlobs };
+};
+
+/** True when the document's content, and the snapshots when given, are exactly what `version` captured. */
+export const matchesMapVersion = (document: MapDocument, version: MapVersion, snapshots?: MapSnapshots): boolean => {
+  const snapshotsMatch =
+    !snapshots ||
+    (version.snapshots !== undefined && document.versionBlobs[version.snapshots] === JSON.stringify(snapshots));
+  return (
+    snapshotsMatch &&
+    VERSION_PARTS.every(part => document.versionBlobs[version.parts[part]] === JSON.stringify(document[part]))
+  );
+};
+
+/**
+ * Saves the document as a version unless its latest version already matches,
+ * so an operation that overwrites the map can always be rolled back.
+ */
+export const checkpointMapDocument = (
+  document: MapDocument,
+  details: Pick<MapVersion, "name" | "author">,
+  snapshots?: MapSnapshots,
+): VersionHistory => {
+  const latest = document.versions[document.versions.length - 1];
+  return latest && matchesMapVersion(document, latest, snapshots)
+    ? document
+    : addMapVersion(document, details, snapshots);
+};
+
+/** Rebuilds a version's content, or null when it is missing or its blobs are damaged. */
+export const readMapVersion = (document: MapDocument, versionId: string): MapVersionContent | null => {
+  const version = document.versions.find(item => item.id === versionId);
+  if (!version) {
+    return null;
+  }
+
+  try {
+    const content = {} as Record<keyof MapVersionContent, unknown>;
+    VERSION_PARTS.forEach(part => {
+      const blob = document.versionBlobs[version.parts[part]];
+      if (blob === undefined) {
+        throw new Error(`Missing ${part} for version ${version.id}`);
+      }
+      content[part] = JSON.parse(blob);
+    });
+
+    const result = content as MapVersionContent;
+    return { ...result, commentElements: reviveComments(result.commentElements) };
+  } catch (error) {
+    console.error(`Failed to read version "${version.name}"`, error);
+    return null;
+  }
+};
+
+/**
+ * The snapshots a version was saved with, or null when it predates snapshot
+ * capture or its blob is damaged; the map's current snapshots are the best
+ * guess then.
+ */
+export const readMapVersionSnapshots = (document: MapDocument, versionId: string): MapSnapshots | null => {
+  const version = document.versions.find(item => item.id === versionId);
+  const blob = version?.snapshots === undefined ? undefined : document.versionBlobs[version.snapshots];
+  if (blob === undefined) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(blob) as MapSnapshots;
+  } catch (error) {
+    console.error(`Failed to read the snapshots of version "${version?.name}"`, error);
+    return null;
+  }
+};
+
+/** Drops a version along with any blobs no other version still references. */
+export const removeMapVersion = (document: MapDocument, versionId: string): VersionHistory => {
+  const versions = document.versions.filter(version => version.id !== versionId);
+  const referenced = new Set(
+    versions.flatMap(version => [...Object.values(version.parts), ...(version.snapshots ? [version.snapshots] : [])]),
+  );
+  const versionBlobs = Object.fromEntries(
+    Object.entries(document.versionBlobs).filter(([key]) => referenced.has(key)),
+  );
+
+  return { versions, versionBlobs };
+};
+
+/** Characters held by the deduplicated blobs, roughly their size in storage. */
+export const getVersionStorageSize = (document: MapDocument): number =>
+  Object.values(document.versionBlobs).reduce((total, blob) => total + blob.length, 0);